@@ -58,6 +58,19 @@ export default [
       ],
     },
   },
+  {
+    // The detection core and the CLI run outside of VS Code
+    files: ['src/core/**/*.ts', 'src/cli/**/*.ts'],
+    rules: {
+      'no-restricted-imports': [
+        'error',
+        {
+          paths: ['vscode'],
+          patterns: ['**/extension', '**/context/*', '**/api/*'],
+        },
+      ],
+    },
+  },
   eslintPluginPrettierRecommended,
   eslintConfigPrettier,
 ];
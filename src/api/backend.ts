@@ -1,11 +1,45 @@
-import {basename} from 'path';
-import { envConfig } from '../utils/envConfig';
 import { serverStatus } from '../emitters/serverStatus';
 import { ServerStatusType } from '../emitters/serverStatus';
 import { ecoOutput } from '../extension';
+import { getBaseUrl, getServerSettings } from './serverConfig';
+import {
+  fetchSmellCatalog as coreFetchSmellCatalog,
+  fetchSmells as coreFetchSmells,
+  requestBackend as coreRequestBackend,
+} from '../core/backendClient';
+import { SmellCatalog } from '../core/smellCatalog';
+import { AnalyzerOptionValue } from '../core/smellConfig';
 
-// Base URL for backend API endpoints constructed from environment configuration
-const BASE_URL = `http://${envConfig.SERVER_URL}`;
+export { RequestCancelledError } from '../core/backendClient';
+
+/**
+ * Sends a request to the backend using the configured connection settings.
+ * See `requestBackend` in the core client for timeout and retry behaviour.
+ */
+async function requestBackend(
+  url: string,
+  init: RequestInit = {},
+  retry: boolean = true,
+): Promise<Response> {
+  return coreRequestBackend(url, init, getServerSettings(), retry);
+}
+
+/**
+ * Sends a refactoring request to the backend. Refactorings are long-running,
+ * so they ignore the configured request timeout and failures are surfaced
+ * instead of retried.
+ */
+async function requestRefactoring(
+  url: string,
+  init: RequestInit,
+): Promise<Response> {
+  return coreRequestBackend(
+    url,
+    init,
+    { ...getServerSettings(), requestTimeout: 0 },
+    false,
+  );
+}
 
 /**
  * Verifies backend service availability and updates extension status.
@@ -15,9 +49,14 @@ const BASE_URL = `http://${envConfig.SERVER_URL}`;
  * 3. Network failure - marks server as DOWN with error details
  */
 export async function checkServerStatus(): Promise<void> {
+  // A managed server reports its own status until it is listening
+  if (serverStatus.getStatus() === ServerStatusType.STARTING) {
+    return;
+  }
+
   try {
     ecoOutput.info('[backend.ts] Checking backend server health status...');
-    const response = await fetch(`${BASE_URL}/health`);
+    const response = await requestBackend(`${getBaseUrl()}/health`, {}, false);
     
     if (response.ok) {
       serverStatus.setStatus(ServerStatusType.UP);
@@ -47,12 +86,12 @@ export async function checkServerStatus(): Promise<void> {
  *          or `false` if an error occurs.
  */
 export async function initLogs(log_dir: string): Promise<boolean> {
-  const url = `${BASE_URL}/logs/init`;
+  const url = `${getBaseUrl()}/logs/init`;
 
   try {
     console.log('Initializing and synching logs with backend');
 
-    const response = await fetch(url, {
+    const response = await requestBackend(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -83,83 +122,33 @@ export async function initLogs(log_dir: string): Promise<boolean> {
  * Analyzes source code for code smells using backend detection service.
  * @param filePath - Absolute path to the source file for analysis
  * @param enabledSmells - Configuration object specifying which smells to detect
+ * @param signal - Optional signal to cancel the request
+ * @param source - Optional text to analyze instead of the file on disk
  * @returns Promise resolving to smell detection results and HTTP status
- * @throws Error when:
- * - Network request fails
- * - Backend returns non-OK status
- * - Response contains invalid data format
+ * @throws RequestCancelledError when the request is cancelled through `signal`
+ * @throws Error when the request fails or the backend returns an error
  */
 export async function fetchSmells(
   filePath: string,
-  enabledSmells: Record<string, Record<string, number | string>>,
+  enabledSmells: Record<string, Record<string, AnalyzerOptionValue>>,
+  signal?: AbortSignal,
+  source?: string,
 ): Promise<{ smells: Smell[]; status: number }> {
-  const url = `${BASE_URL}/smells`;
-  const fileName = basename(filePath);
-  ecoOutput.info(`[backend.ts] Starting smell detection for: ${fileName}`);
-
-  try {
-    ecoOutput.debug(`[backend.ts] Request payload for ${fileName}:`, {
-      file_path: filePath,
-      enabled_smells: enabledSmells
-    });
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        file_path: filePath,
-        enabled_smells: enabledSmells,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorMsg = `Backend request failed (${response.status})`;
-      ecoOutput.error(`[backend.ts] ${errorMsg}`);
-      try {
-        const errorBody = await response.json();
-        ecoOutput.error(`[backend.ts] Backend error details:`, errorBody);
-      } catch (e: any) {
-        ecoOutput.error(`[backend.ts] Could not parse error response`);
-      }
-      throw new Error(errorMsg);
-    }
-
-    const smellsList = await response.json();
-    
-    // Detailed logging of the response
-    ecoOutput.info(`[backend.ts] Detection complete for ${fileName}`);
-    ecoOutput.debug(`[backend.ts] Raw response headers for ${fileName}:`, Object.fromEntries(response.headers.entries()));
-    ecoOutput.debug(`[backend.ts] Full response for ${fileName}:`, {
-      status: response.status,
-      statusText: response.statusText,
-      body: smellsList
-    });
-    
-    // Detailed smell listing
-    ecoOutput.info(`[backend.ts] Detected ${smellsList.length} smells in ${fileName}`);
-    if (smellsList.length > 0) {
-      ecoOutput.debug(`[backend.ts] Complete smells list for ${fileName}:`, smellsList);
-      ecoOutput.debug(`[backend.ts] Verbose smell details for ${fileName}:`, 
-        smellsList.map((smell: Smell) => ({
-          type: smell.symbol,
-          location: `${smell.path}:${smell.occurences}`,
-          message: smell.message,
-          context: smell.messageId
-        }))
-      );
-    }
-
-    return { smells: smellsList, status: response.status };
+  return coreFetchSmells(filePath, enabledSmells, {
+    settings: getServerSettings(),
+    signal,
+    source,
+  });
+}
 
-  } catch (error: any) {
-    ecoOutput.error(`[backend.ts] Smell detection failed for ${fileName}: ${error.message}`);
-    if (error instanceof Error && error.stack) {
-      ecoOutput.trace(`[backend.ts] Error stack info:`, error.stack);
-    }
-    throw new Error(`Detection failed: ${error.message}`);
-  }
+/**
+ * Fetches the smells the backend can detect, using the configured connection
+ * settings.
+ * @returns The backend's smell catalog
+ * @throws Error when the request fails or the response is not a smell catalog
+ */
+export async function fetchSmellCatalog(): Promise<SmellCatalog> {
+  return coreFetchSmellCatalog(getServerSettings());
 }
 
 /**
@@ -176,7 +165,7 @@ export async function backendRefactorSmell(
   smell: Smell,
   workspacePath: string,
 ): Promise<RefactoredData> {
-  const url = `${BASE_URL}/refactor`;
+  const url = `${getBaseUrl()}/refactor`;
 
   // Validate workspace configuration
   if (!workspacePath) {
@@ -188,7 +177,7 @@ export async function backendRefactorSmell(
   console.log('Starting refactoring for smell:', smell);
 
   try {
-    const response = await fetch(url, {
+    const response = await requestRefactoring(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -226,7 +215,7 @@ export async function backendRefactorSmellType(
   smell: Smell,
   workspacePath: string
 ): Promise<RefactoredData> {
-  const url = `${BASE_URL}/refactor-by-type`;
+  const url = `${getBaseUrl()}/refactor-by-type`;
   const filePath = smell.path;
   const smellType = smell.symbol;
 
@@ -246,7 +235,7 @@ export async function backendRefactorSmellType(
   };
 
   try {
-    const response = await fetch(url, {
+    const response = await requestRefactoring(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import {
+  formatBaseUrl,
+  formatWebSocketBaseUrl,
+  resolveServerSettings,
+  ServerSettings,
+} from '../core/serverSettings';
+
+export { ServerSettings } from '../core/serverSettings';
+
+const CONFIG_SECTION = 'ecooptimizer.server';
+const MANAGED_HOST = '127.0.0.1';
+
+// Port of the server process spawned by the extension, if any
+let managedServerPort: number | undefined;
+
+/**
+ * Points the API client at a server spawned by the extension. While set, the
+ * configured host, port and protocol are ignored.
+ * @param port - Port of the managed server, or undefined to use the settings again
+ */
+export function setManagedServerPort(port: number | undefined): void {
+  managedServerPort = port;
+}
+
+/**
+ * Whether the extension connects to an externally started server (the default)
+ * instead of spawning and managing its own.
+ */
+export function usesExternalServer(): boolean {
+  const value = vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .get<boolean>('useExternalServer');
+  return typeof value === 'boolean' ? value : true;
+}
+
+/**
+ * Reads the current backend connection settings. Invalid or missing values
+ * fall back to the bundled defaults. When the extension manages the server,
+ * requests go to the managed process on localhost.
+ * @returns The resolved server settings
+ */
+export function getServerSettings(): ServerSettings {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const settings = resolveServerSettings({
+    host: config.get<string>('host'),
+    port: config.get<number>('port'),
+    protocol: config.get<string>('protocol'),
+    requestTimeout: config.get<number>('requestTimeout'),
+    retries: config.get<number>('retries'),
+    retryBackoff: config.get<number>('retryBackoff'),
+  });
+
+  return managedServerPort !== undefined
+    ? { ...settings, host: MANAGED_HOST, port: managedServerPort, protocol: 'http' }
+    : settings;
+}
+
+/**
+ * Base URL for HTTP requests to the backend (e.g. `http://127.0.0.1:8000`).
+ */
+export function getBaseUrl(settings = getServerSettings()): string {
+  return formatBaseUrl(settings);
+}
+
+/**
+ * Base URL for the backend log WebSockets (e.g. `ws://127.0.0.1:8000/logs`).
+ */
+export function getWebSocketBaseUrl(settings = getServerSettings()): string {
+  return formatWebSocketBaseUrl(settings);
+}
+
+/**
+ * Checks whether a configuration change affects the backend connection.
+ * @param event - The configuration change event from VS Code
+ */
+export function affectsServerSettings(
+  event: vscode.ConfigurationChangeEvent,
+): boolean {
+  return event.affectsConfiguration(CONFIG_SECTION);
+}
@@ -0,0 +1,350 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { format, parseArgs } from 'util';
+
+import { fetchSmells } from '../core/backendClient';
+import { addSmellFingerprints } from '../core/fingerprints';
+import {
+  createIgnoreMatcher,
+  matchesIgnorePatterns,
+  readIgnorePatterns,
+} from '../core/ignore';
+import { Logger, setLogger } from '../core/logger';
+import { findPythonFiles } from '../core/pythonFiles';
+import { buildSarifLog } from '../core/sarif';
+import {
+  getEnabledSmells,
+  getFilterSmells,
+  readSmellConfigFile,
+  setSmellConfig,
+  toBackendOptions,
+} from '../core/smellConfig';
+import {
+  getDefaultServerSettings,
+  parseServerAddress,
+  resolveServerSettings,
+  ServerSettings,
+} from '../core/serverSettings';
+import { filterSuppressedSmells } from '../core/suppressions';
+import { runWithConcurrency } from '../core/workerPool';
+
+const DEFAULT_CONCURRENCY = 4;
+const OUTPUT_FORMATS = ['text', 'json', 'sarif'] as const;
+
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+const CLI_OPTIONS = {
+  format: { type: 'string' },
+  config: { type: 'string' },
+  server: { type: 'string' },
+  'max-smells': { type: 'string' },
+  concurrency: { type: 'string' },
+  output: { type: 'string' },
+  exclude: { type: 'string', multiple: true },
+  'use-gitignore': { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+/**
+ * Where the CLI writes its results and diagnostics.
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+/**
+ * Options of the `detect` command, after validation.
+ */
+interface DetectOptions {
+  target: string;
+  format: OutputFormat;
+  configPath: string;
+  settings: ServerSettings;
+  maxSmells: number;
+  concurrency: number;
+  output?: string;
+  exclude: string[];
+  useGitignore: boolean;
+  verbose: boolean;
+}
+
+/**
+ * Thrown for invalid command-line arguments.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Exit codes of the CLI.
+ */
+export const ExitCode = {
+  /** Analysis finished and the smell count is within the threshold */
+  OK: 0,
+  /** More smells were found than `--max-smells` allows */
+  SMELLS_FOUND: 1,
+  /** Invalid arguments or files that could not be analyzed */
+  ERROR: 2,
+} as const;
+
+const USAGE = `Usage: eco-optimizer detect <path> [options]
+
+Detects energy code smells in a Python file or folder using the
+EcoOptimizer backend.
+
+Options:
+  --format <text|json|sarif>  Output format (default: text)
+  --config <file>             Smells configuration (default: bundled defaults)
+  --server <address>          Backend address, e.g. 127.0.0.1:8000
+  --max-smells <n>            Smells allowed before exiting with 1 (default: 0)
+  --concurrency <n>           Files analyzed in parallel (default: ${DEFAULT_CONCURRENCY})
+  --output <file>             Write results to a file instead of stdout
+  --exclude <glob>            Skip matching paths (repeatable)
+  --use-gitignore             Also skip paths matched by .gitignore
+  --verbose                   Log detection progress to stderr
+  --help                      Show this help
+`;
+
+/**
+ * Runs the command-line interface.
+ * @param argv - Arguments after the executable and script name
+ * @param io - Output streams
+ * @returns The process exit code (see `ExitCode`)
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  let options: DetectOptions | undefined;
+  try {
+    options = parseDetectOptions(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.stderr(`${error.message}\n\n${USAGE}`);
+    return ExitCode.ERROR;
+  }
+
+  if (!options) {
+    io.stdout(USAGE);
+    return ExitCode.OK;
+  }
+
+  setLogger(createCliLogger(io, options.verbose));
+  try {
+    return await detect(options, io);
+  } finally {
+    setLogger(undefined);
+  }
+}
+
+/**
+ * Parses the arguments of the `detect` command.
+ * @returns The options, or undefined when help was requested
+ * @throws UsageError when the arguments are invalid
+ */
+function parseDetectOptions(argv: string[]): DetectOptions | undefined {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, allowPositionals: true, options: CLI_OPTIONS });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    return undefined;
+  }
+
+  const [command, target, ...extra] = positionals;
+  if (command !== 'detect') {
+    throw new UsageError(
+      command ? `Unknown command: ${command}` : 'Missing command',
+    );
+  }
+  if (!target || extra.length > 0) {
+    throw new UsageError('Expected exactly one path to analyze');
+  }
+
+  const outputFormat = values.format ?? 'text';
+  if (!OUTPUT_FORMATS.includes(outputFormat as OutputFormat)) {
+    throw new UsageError(`Unknown format: ${outputFormat}`);
+  }
+
+  let settings = getDefaultServerSettings();
+  if (values.server) {
+    try {
+      settings = resolveServerSettings({
+        ...settings,
+        ...parseServerAddress(values.server),
+      });
+    } catch {
+      throw new UsageError(`Invalid server address: ${values.server}`);
+    }
+  }
+
+  return {
+    target: path.resolve(target),
+    format: outputFormat as OutputFormat,
+    configPath: path.resolve(
+      values.config ??
+        path.join(__dirname, '..', 'data', 'default_smells_config.json'),
+    ),
+    settings,
+    maxSmells: parseCount('--max-smells', values['max-smells'], 0),
+    concurrency: Math.max(
+      1,
+      parseCount('--concurrency', values.concurrency, DEFAULT_CONCURRENCY),
+    ),
+    output: values.output,
+    exclude: values.exclude ?? [],
+    useGitignore: values['use-gitignore'] ?? false,
+    verbose: values.verbose ?? false,
+  };
+}
+
+function parseCount(
+  name: string,
+  value: string | undefined,
+  fallback: number,
+): number {
+  if (value === undefined) return fallback;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new UsageError(`${name} must be a non-negative integer`);
+  }
+  return count;
+}
+
+/**
+ * Analyzes the target path and writes the report.
+ * @returns The exit code
+ */
+async function detect(options: DetectOptions, io: CliIO): Promise<number> {
+  try {
+    setSmellConfig(readSmellConfigFile(options.configPath));
+  } catch (error) {
+    io.stderr(
+      `Failed to load smells configuration ${options.configPath}: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return ExitCode.ERROR;
+  }
+
+  const enabledSmells = toBackendOptions(getEnabledSmells());
+  if (Object.keys(enabledSmells).length === 0) {
+    io.stderr('No smell detectors enabled in the smells configuration\n');
+    return ExitCode.ERROR;
+  }
+
+  let isDirectory: boolean;
+  try {
+    isDirectory = fs.statSync(options.target).isDirectory();
+  } catch {
+    io.stderr(`Path not found: ${options.target}\n`);
+    return ExitCode.ERROR;
+  }
+
+  const rootPath = isDirectory ? options.target : path.dirname(options.target);
+  const matcher = createIgnoreMatcher(
+    readIgnorePatterns(rootPath, {
+      exclude: options.exclude,
+      useGitignore: options.useGitignore,
+    }),
+  );
+  const filePaths = isDirectory
+    ? await findPythonFiles(rootPath, (filePath, isDir) =>
+        matchesIgnorePatterns(matcher, rootPath, filePath, isDir),
+      )
+    : [options.target];
+
+  const smellsByFile = new Map<string, Smell[]>();
+  const failedFiles: string[] = [];
+
+  await runWithConcurrency(filePaths, options.concurrency, async (filePath) => {
+    try {
+      const { smells } = await fetchSmells(filePath, enabledSmells, {
+        settings: options.settings,
+      });
+      const { active } = await filterSuppressedSmells(filePath, smells);
+      smellsByFile.set(filePath, await addSmellFingerprints(filePath, active));
+    } catch (error) {
+      failedFiles.push(filePath);
+      io.stderr(
+        `Failed to analyze ${filePath}: ${error instanceof Error ? error.message : String(error)}\n`,
+      );
+    }
+  });
+
+  // Report files in a stable order regardless of which worker finished first
+  const smells = [...filePaths]
+    .sort()
+    .flatMap((filePath) => smellsByFile.get(filePath) ?? []);
+
+  const report = formatReport(smells, options, rootPath, filePaths.length);
+  if (options.output) {
+    fs.writeFileSync(options.output, report, 'utf-8');
+    io.stderr(`Wrote ${smells.length} smells to ${options.output}\n`);
+  } else {
+    io.stdout(report);
+  }
+
+  if (failedFiles.length > 0) {
+    return ExitCode.ERROR;
+  }
+  return smells.length > options.maxSmells ? ExitCode.SMELLS_FOUND : ExitCode.OK;
+}
+
+/**
+ * Renders the detected smells in the requested output format.
+ */
+function formatReport(
+  smells: Smell[],
+  options: DetectOptions,
+  rootPath: string,
+  fileCount: number,
+): string {
+  switch (options.format) {
+    case 'json':
+      return `${JSON.stringify(smells, null, 2)}\n`;
+    case 'sarif':
+      return `${JSON.stringify(
+        buildSarifLog(smells, getFilterSmells(), { rootPath }),
+        null,
+        2,
+      )}\n`;
+    default: {
+      const lines = smells.map((smell) => {
+        const [occurrence] = smell.occurences ?? [];
+        const location = occurrence
+          ? `:${occurrence.line}:${occurrence.column}`
+          : '';
+        const code = getFilterSmells()[smell.symbol]?.acronym ?? smell.messageId;
+        return `${path.relative(rootPath, smell.path)}${location}: ${code} ${smell.message} (${smell.symbol})`;
+      });
+      lines.push(`Found ${smells.length} smells in ${fileCount} files`);
+      return `${lines.join('\n')}\n`;
+    }
+  }
+}
+
+/**
+ * Writes core logs to stderr. Without `--verbose` only warnings and errors
+ * are shown.
+ */
+function createCliLogger(io: CliIO, verbose: boolean): Logger {
+  const write =
+    (level: string) =>
+    (message: string, ...args: unknown[]): void =>
+      io.stderr(`[${level}] ${format(message, ...args)}\n`);
+  const quiet = (): void => {};
+
+  return {
+    trace: quiet,
+    debug: verbose ? write('debug') : quiet,
+    info: verbose ? write('info') : quiet,
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
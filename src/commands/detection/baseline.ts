@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+import { SmellsCacheManager } from '../../context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../providers/SmellsViewProvider';
+import { addSmellFingerprints } from '../../core/fingerprints';
+import {
+  BASELINE_FILENAME,
+  BaselineEntry,
+  getBaselineEntries,
+  removeBaselineEntries,
+  resolveBaselineEntryPath,
+  writeBaseline,
+} from '../../utils/baseline';
+import { getAcronymByMessageId } from '../../utils/smellsData';
+import { envConfig } from '../../utils/envConfig';
+import { ecoOutput } from '../../extension';
+
+/**
+ * Snapshots every currently cached smell into the workspace's
+ * `.eco-baseline.json`, so that only smells introduced afterwards are reported.
+ *
+ * @param context - Extension context holding the configured workspace
+ * @param smellsCacheManager - Manager for cached smell results
+ * @param smellsViewProvider - Provider for updating the UI with results
+ */
+export async function createBaseline(
+  context: vscode.ExtensionContext,
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): Promise<void> {
+  const rootPath = context.workspaceState.get<string>(
+    envConfig.WORKSPACE_CONFIGURED_PATH!,
+  );
+  if (!rootPath) {
+    vscode.window.showErrorMessage(
+      'Please configure a workspace before creating a baseline.',
+    );
+    return;
+  }
+
+  const smells = await collectCachedSmells(smellsCacheManager);
+  if (smells.length === 0) {
+    vscode.window.showWarningMessage(
+      'No detected smells to baseline. Analyze your workspace first.',
+    );
+    return;
+  }
+
+  const existing = getBaselineEntries().length;
+  if (existing > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `Replace the existing baseline of ${existing} smells?`,
+      { modal: true },
+      'Replace',
+    );
+    if (choice !== 'Replace') return;
+  }
+
+  let entries: BaselineEntry[];
+  try {
+    entries = writeBaseline(rootPath, smells);
+  } catch (error) {
+    const msg = `Failed to write baseline: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[baseline.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+
+  ecoOutput.info(`[baseline.ts] Baselined ${entries.length} smells in ${rootPath}`);
+  refreshViews(smellsCacheManager, smellsViewProvider);
+  vscode.window.showInformationMessage(
+    `Baselined ${entries.length} smells. Commit ${BASELINE_FILENAME} to share the baseline.`,
+  );
+}
+
+/**
+ * Lists baselined smells that are no longer detected and lets the user remove
+ * them from the baseline. Only files with up-to-date analysis results are
+ * checked; baselined smells in deleted files always count as fixed.
+ *
+ * @param smellsCacheManager - Manager for cached smell results
+ * @param smellsViewProvider - Provider for updating the UI with results
+ */
+export async function listFixedBaselineSmells(
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): Promise<void> {
+  const entries = getBaselineEntries();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage(
+      `No baseline found. Create one to add ${BASELINE_FILENAME} to your workspace.`,
+    );
+    return;
+  }
+
+  const { fixed, uncheckedFiles } = await findFixedEntries(
+    entries,
+    smellsCacheManager,
+  );
+  const uncheckedNote =
+    uncheckedFiles > 0 ? ` (${uncheckedFiles} files have not been analyzed)` : '';
+
+  if (fixed.length === 0) {
+    vscode.window.showInformationMessage(
+      `No fixed baseline smells found${uncheckedNote}.`,
+    );
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    fixed.map((entry) => ({
+      label: getAcronymByMessageId(entry.messageId) ?? entry.messageId,
+      description: entry.line ? `${entry.path}:${entry.line}` : entry.path,
+      detail: entry.obj,
+      picked: true,
+      entry,
+    })),
+    {
+      canPickMany: true,
+      title: `${fixed.length} baselined smells have been fixed${uncheckedNote}`,
+      placeHolder: 'Select the smells to remove from the baseline',
+    },
+  );
+  if (!selected || selected.length === 0) return;
+
+  let removed: number;
+  try {
+    removed = removeBaselineEntries(
+      new Set(selected.map((item) => item.entry.fingerprint)),
+    );
+  } catch (error) {
+    const msg = `Failed to update baseline: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[baseline.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+
+  ecoOutput.info(`[baseline.ts] Pruned ${removed} fixed smells from the baseline`);
+  refreshViews(smellsCacheManager, smellsViewProvider);
+  vscode.window.showInformationMessage(
+    `Removed ${removed} fixed smells from the baseline.`,
+  );
+}
+
+/**
+ * Gathers the cached smells of every analyzed file that still exists,
+ * fingerprinting smells cached before fingerprints were recorded.
+ */
+async function collectCachedSmells(
+  smellsCacheManager: SmellsCacheManager,
+): Promise<Smell[]> {
+  const smells: Smell[] = [];
+
+  for (const filePath of smellsCacheManager.getAllFilePaths()) {
+    const cached = getCurrentSmells(smellsCacheManager, filePath);
+    if (cached && cached.length > 0) {
+      smells.push(...(await ensureFingerprints(filePath, cached)));
+    }
+  }
+
+  return smells;
+}
+
+/**
+ * Finds the baseline entries that no longer match a detected smell.
+ */
+async function findFixedEntries(
+  entries: BaselineEntry[],
+  smellsCacheManager: SmellsCacheManager,
+): Promise<{ fixed: BaselineEntry[]; uncheckedFiles: number }> {
+  const entriesByFile = new Map<string, BaselineEntry[]>();
+  for (const entry of entries) {
+    const filePath = resolveBaselineEntryPath(entry);
+    entriesByFile.set(filePath, [...(entriesByFile.get(filePath) ?? []), entry]);
+  }
+
+  const fixed: BaselineEntry[] = [];
+  let uncheckedFiles = 0;
+
+  for (const [filePath, fileEntries] of entriesByFile) {
+    if (!fs.existsSync(filePath)) {
+      fixed.push(...fileEntries);
+      continue;
+    }
+
+    const cached = getCurrentSmells(smellsCacheManager, filePath);
+    if (!cached) {
+      uncheckedFiles++;
+      continue;
+    }
+
+    const fingerprints = new Set(
+      (await ensureFingerprints(filePath, cached)).map((smell) => smell.fingerprint),
+    );
+    fixed.push(
+      ...fileEntries.filter((entry) => !fingerprints.has(entry.fingerprint)),
+    );
+  }
+
+  return { fixed, uncheckedFiles };
+}
+
+/**
+ * Reads the smells cached for the current contents of a file.
+ * @returns The smells, or undefined if the file is missing or outdated
+ */
+function getCurrentSmells(
+  smellsCacheManager: SmellsCacheManager,
+  filePath: string,
+): Smell[] | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+
+  try {
+    return smellsCacheManager.getCachedSmells(filePath);
+  } catch {
+    return undefined;
+  }
+}
+
+async function ensureFingerprints(
+  filePath: string,
+  smells: Smell[],
+): Promise<Smell[]> {
+  // Cache keys are normalized, so read the file through the smell's own path
+  return smells.every((smell) => smell.fingerprint)
+    ? smells
+    : addSmellFingerprints(smells[0].path ?? filePath, smells);
+}
+
+function refreshViews(
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): void {
+  smellsCacheManager.notifySmellsChanged();
+  smellsViewProvider.refresh();
+}
@@ -1,68 +1,226 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
 
-import { fetchSmells } from '../../api/backend';
+import { fetchSmells, RequestCancelledError } from '../../api/backend';
 import { SmellsViewProvider } from '../../providers/SmellsViewProvider';
 import { getEnabledSmells } from '../../utils/smellsData';
+import { getEnabledSmellsForFile } from '../../utils/smellScopes';
+import { toBackendOptions } from '../../core/smellConfig';
 import { serverStatus, ServerStatusType } from '../../emitters/serverStatus';
 import { SmellsCacheManager } from '../../context/SmellsCacheManager';
+import { ConfigManager } from '../../context/configManager';
+import { runWithConcurrency } from '../../core/workerPool';
+import { findPythonFiles } from '../../core/pythonFiles';
+import { isPathIgnored } from '../../utils/ignorePatterns';
+import { filterSuppressedSmells } from '../../core/suppressions';
+import { addSmellFingerprints } from '../../core/fingerprints';
+import { isSmellBaselined } from '../../utils/baseline';
+import { isSmellDismissed } from '../../utils/dismissals';
+import {
+  clearChangedLines,
+  getChangedFiles,
+  ChangedFiles,
+  setChangedLines,
+  withoutUnchangedSmells,
+} from '../../utils/gitChanges';
 import { ecoOutput } from '../../extension';
 
+const DEFAULT_PARALLELISM = 4;
+
 /**
  * Performs code smell analysis on a single Python file with comprehensive state management.
  * Only shows user notifications for critical events requiring attention.
+ * Smell types with up-to-date cached results are not sent to the backend;
+ * new results are merged with the cached ones.
  *
  * @param filePath - Absolute path to the Python file to analyze
  * @param smellsViewProvider - Provider for updating the UI with results
  * @param smellsCacheManager - Manager for cached smell results
+ * @param signal - Optional signal to cancel the analysis. A cancelled file keeps
+ * its 'queued' status so the caller can restore it.
+ * @param notify - Whether a failure is shown to the user; files analyzed
+ * together leave it to the caller to report failures at once
  */
 export async function detectSmellsFile(
   filePath: string,
   smellsViewProvider: SmellsViewProvider,
   smellsCacheManager: SmellsCacheManager,
+  signal?: AbortSignal,
+  notify = true,
 ): Promise<void> {
-  const shouldProceed = await precheckAndMarkQueued(
+  const smellsToDetect = await precheckAndMarkQueued(
     filePath,
     smellsViewProvider,
     smellsCacheManager,
   );
 
-  if (!shouldProceed) return;
+  if (!smellsToDetect) return;
 
-  // Transform enabled smells into backend-compatible format
-  const enabledSmells = getEnabledSmells();
-  const enabledSmellsForBackend = Object.fromEntries(
-    Object.entries(enabledSmells).map(([key, value]) => [key, value.options]),
+  // Transform the smells to detect into backend-compatible format, using the
+  // configuration of the folder scopes containing the file
+  const enabledSmells = getEnabledSmellsForFile(filePath);
+  const analyzedSmells = Object.fromEntries(
+    smellsToDetect.map((smellKey) => [smellKey, enabledSmells[smellKey]]),
   );
+  const enabledSmellsForBackend = toBackendOptions(analyzedSmells);
 
   try {
     ecoOutput.info(`[detection.ts] Analyzing: ${path.basename(filePath)}`);
-    const { smells, status } = await fetchSmells(filePath, enabledSmellsForBackend);
+    const { smells: detectedSmells, status } = await fetchSmells(
+      filePath,
+      enabledSmellsForBackend,
+      signal,
+    );
 
     // Handle backend response
     if (status === 200) {
-      if (smells.length > 0) {
-        ecoOutput.info(`[detection.ts] Detected ${smells.length} smells`);
+      // Drop smells hidden by `# eco:` pragmas before they reach the cache
+      const { active, suppressed } = await filterSuppressedSmells(
+        filePath,
+        detectedSmells,
+      );
+      const smells = await addSmellFingerprints(filePath, active);
+      if (suppressed.length > 0) {
+        ecoOutput.info(`[detection.ts] Suppressed ${suppressed.length} smells`);
+      }
+      smellsViewProvider.setSuppressedSmells(filePath, [
+        // Suppressed smells of types that were not analyzed again still apply
+        ...smellsViewProvider
+          .getSuppressedSmells(filePath)
+          .filter((smell) => !(smell.symbol in analyzedSmells)),
+        ...suppressed,
+      ]);
+
+      await smellsCacheManager.setCachedSmells(filePath, smells, analyzedSmells);
+      const allSmells = smellsCacheManager.getCachedSmells(filePath) ?? smells;
+
+      if (allSmells.length > 0) {
+        const baselined = allSmells.filter(isSmellBaselined).length;
+        const dismissed = allSmells.filter(isSmellDismissed).length;
+        const unchanged =
+          allSmells.length - withoutUnchangedSmells(allSmells).length;
+        ecoOutput.info(
+          `[detection.ts] Detected ${smells.length} smells` +
+            (allSmells.length > smells.length
+              ? ` (${allSmells.length} with cached results)`
+              : '') +
+            (baselined > 0 ? ` (${baselined} baselined)` : '') +
+            (dismissed > 0 ? ` (${dismissed} dismissed)` : '') +
+            (unchanged > 0 ? ` (${unchanged} outside changed lines)` : ''),
+        );
         smellsViewProvider.setStatus(filePath, 'passed');
-        await smellsCacheManager.setCachedSmells(filePath, smells);
-        smellsViewProvider.setSmells(filePath, smells);
+        smellsViewProvider.setSmells(filePath, allSmells);
       } else {
         ecoOutput.info('[detection.ts] File has no detectable smells');
         smellsViewProvider.setStatus(filePath, 'no_issues');
-        await smellsCacheManager.setCachedSmells(filePath, []);
       }
     } else {
       const msg = `Analysis failed for ${path.basename(filePath)} (status ${status})`;
       ecoOutput.error(`[detection.ts] ${msg}`);
       smellsViewProvider.setStatus(filePath, 'failed');
-      vscode.window.showErrorMessage(msg);
+      if (notify) vscode.window.showErrorMessage(msg);
     }
   } catch (error: any) {
-    const msg = `Analysis failed: ${error.message}`;
+    if (error instanceof RequestCancelledError) {
+      ecoOutput.info(
+        `[detection.ts] Analysis cancelled: ${path.basename(filePath)}`,
+      );
+      return;
+    }
+
+    const msg = `Analysis failed for ${path.basename(filePath)}: ${error.message}`;
     ecoOutput.error(`[detection.ts] ${msg}`);
     smellsViewProvider.setStatus(filePath, 'failed');
-    vscode.window.showErrorMessage(msg);
+    if (notify) vscode.window.showErrorMessage(msg);
+  }
+}
+
+/**
+ * Analyzes the current text of an open document, including unsaved changes.
+ * The text is sent to the backend along with the file path, and the results
+ * are cached against the document version rather than the file hash (see
+ * `SmellsCacheManager.setDocumentSmells`). Results for a document that changed
+ * while it was analyzed are discarded. Documents without unsaved changes are
+ * analyzed from disk with `detectSmellsFile`.
+ *
+ * Meant for linting as you type, so failures are only logged.
+ *
+ * @param document - The open document to analyze
+ * @param smellsViewProvider - Provider for updating the UI with results
+ * @param smellsCacheManager - Manager for cached smell results
+ * @param signal - Optional signal to cancel the analysis
+ */
+export async function detectSmellsDocument(
+  document: vscode.TextDocument,
+  smellsViewProvider: SmellsViewProvider,
+  smellsCacheManager: SmellsCacheManager,
+  signal?: AbortSignal,
+): Promise<void> {
+  const filePath = document.uri.fsPath;
+  if (!document.isDirty) {
+    return detectSmellsFile(
+      filePath,
+      smellsViewProvider,
+      smellsCacheManager,
+      signal,
+    );
+  }
+
+  const { version } = document;
+  if (
+    document.uri.scheme !== 'file' ||
+    !filePath.endsWith('.py') ||
+    smellsCacheManager.getDocumentVersion(filePath) === version ||
+    serverStatus.getStatus() === ServerStatusType.DOWN
+  ) {
+    return;
+  }
+
+  const enabledSmells = getEnabledSmellsForFile(filePath);
+  if (Object.keys(enabledSmells).length === 0) return;
+
+  const source = document.getText();
+  try {
+    ecoOutput.info(
+      `[detection.ts] Analyzing unsaved changes: ${path.basename(filePath)}`,
+    );
+    const { smells: detectedSmells } = await fetchSmells(
+      filePath,
+      toBackendOptions(enabledSmells),
+      signal,
+      source,
+    );
+
+    if (document.version !== version) {
+      ecoOutput.trace(
+        `[detection.ts] Discarding results for edited ${path.basename(filePath)}`,
+      );
+      return;
+    }
+
+    const { active, suppressed } = await filterSuppressedSmells(
+      filePath,
+      detectedSmells,
+      source,
+    );
+    const smells = await addSmellFingerprints(filePath, active, source);
+
+    smellsViewProvider.setSuppressedSmells(filePath, suppressed);
+    smellsCacheManager.setDocumentSmells(filePath, version, smells, enabledSmells);
+
+    const allSmells = smellsCacheManager.getCachedSmells(filePath) ?? smells;
+    if (allSmells.length > 0) {
+      smellsViewProvider.setStatus(filePath, 'passed');
+      smellsViewProvider.setSmells(filePath, allSmells);
+    } else {
+      smellsViewProvider.setStatus(filePath, 'no_issues');
+    }
+  } catch (error) {
+    if (error instanceof RequestCancelledError) return;
+
+    ecoOutput.warn(
+      `[detection.ts] Analysis of unsaved changes failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
   }
 }
 
@@ -72,25 +230,29 @@ export async function detectSmellsFile(
  * - Server is down (warning)
  * - No smells configured (warning)
  *
- * @returns boolean indicating whether analysis should proceed
+ * @returns Keys of the smell types to detect, or undefined if analysis
+ * should not proceed
  */
 async function precheckAndMarkQueued(
   filePath: string,
   smellsViewProvider: SmellsViewProvider,
   smellsCacheManager: SmellsCacheManager,
-): Promise<boolean> {
+): Promise<string[] | undefined> {
   // Validate file scheme and extension
   const fileUri = vscode.Uri.file(filePath);
   if (fileUri.scheme !== 'file') {
-    return false;
+    return undefined;
   }
 
   if (!filePath.endsWith('.py')) {
-    return false;
+    return undefined;
   }
 
-  // Check for cached results
-  if (smellsCacheManager.hasCachedSmells(filePath)) {
+  // Check for cached results, which may lack smells enabled or changed since
+  const missingSmells = smellsCacheManager.hasCachedSmells(filePath)
+    ? smellsCacheManager.getMissingSmells(filePath)
+    : undefined;
+  if (missingSmells?.length === 0) {
     const cached = smellsCacheManager.getCachedSmells(filePath);
     ecoOutput.info(
       `[detection.ts] Using cached results for ${path.basename(filePath)}`,
@@ -102,7 +264,7 @@ async function precheckAndMarkQueued(
     } else {
       smellsViewProvider.setStatus(filePath, 'no_issues');
     }
-    return false;
+    return undefined;
   }
 
   // Check server availability
@@ -111,25 +273,28 @@ async function precheckAndMarkQueued(
     ecoOutput.warn(`[detection.ts] ${msg}`);
     vscode.window.showWarningMessage(msg);
     smellsViewProvider.setStatus(filePath, 'server_down');
-    return false;
+    return undefined;
   }
 
   // Verify at least one smell detector is enabled
-  const enabledSmells = getEnabledSmells();
+  const enabledSmells = getEnabledSmellsForFile(filePath);
   if (Object.keys(enabledSmells).length === 0) {
     const msg = 'No smell detectors enabled in settings';
     ecoOutput.warn(`[detection.ts] ${msg}`);
     vscode.window.showWarningMessage(msg);
-    return false;
+    return undefined;
   }
 
   smellsViewProvider.setStatus(filePath, 'queued');
-  return true;
+  return missingSmells ?? Object.keys(enabledSmells);
 }
 
 /**
  * Recursively analyzes Python files in a directory with progress indication.
- * Shows a progress notification for the folder scan operation.
+ * Files are analyzed by a bounded pool of workers (`ecooptimizer.detection.parallelism`).
+ * The progress notification reports every analyzed file with an estimate of the
+ * remaining time, and cancelling it aborts in-flight requests and returns files
+ * that were not analyzed to their previous status.
  *
  * @param folderPath - Absolute path to the folder to analyze
  * @param smellsViewProvider - Provider for updating the UI with results
@@ -143,51 +308,296 @@ export async function detectSmellsFolder(
   return vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: `Scanning for Python files in ${path.basename(folderPath)}...`,
-      cancellable: false,
+      title: `Analyzing ${path.basename(folderPath)}`,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const controller = new AbortController();
+      const cancellation = token.onCancellationRequested(() => controller.abort());
+
+      try {
+        progress.report({ message: 'Scanning for Python files...' });
+        const pythonFiles = await findPythonFiles(
+          folderPath,
+          isPathIgnored,
+          controller.signal,
+        );
+        if (controller.signal.aborted) return;
+
+        ecoOutput.info(
+          `[detection.ts] Found ${pythonFiles.length} files to analyze`,
+        );
+
+        if (pythonFiles.length === 0) {
+          vscode.window.showWarningMessage(
+            `No Python files found in ${path.basename(folderPath)}`,
+          );
+          return;
+        }
+
+        if (!canAnalyzeFolder()) return;
+
+        // A folder scan reports every smell, also after a changed-lines-only run
+        clearChangedLines();
+
+        vscode.window.showInformationMessage(
+          `Analyzing ${pythonFiles.length} Python files...`,
+        );
+
+        await analyzeFiles(
+          pythonFiles,
+          smellsViewProvider,
+          smellsCacheManager,
+          progress,
+          controller.signal,
+        );
+      } finally {
+        cancellation.dispose();
+      }
+    },
+  );
+}
+
+/**
+ * Analyzes the Python files of a workspace that are modified, staged or
+ * untracked in Git, or that changed since the branch point from
+ * `ecooptimizer.detection.changedFilesBase`. Files are analyzed like a folder
+ * scan. With `ecooptimizer.detection.changedLinesOnly`, only smells that
+ * overlap changed lines are reported for these files until the next folder
+ * scan or changed-files run, or until a file is analyzed on its own.
+ *
+ * @param workspacePath - Absolute path to the configured workspace folder
+ * @param smellsViewProvider - Provider for updating the UI with results
+ * @param smellsCacheManager - Manager for cached smell results
+ */
+export async function detectSmellsChanged(
+  workspacePath: string,
+  smellsViewProvider: SmellsViewProvider,
+  smellsCacheManager: SmellsCacheManager,
+): Promise<void> {
+  const base = ConfigManager.get<string>('changedFilesBase', '').trim() || undefined;
+
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: base ? `Analyzing changes since ${base}` : 'Analyzing changed files',
+      cancellable: true,
     },
-    async () => {
-      const pythonFiles: string[] = [];
+    async (progress, token) => {
+      const controller = new AbortController();
+      const cancellation = token.onCancellationRequested(() => controller.abort());
 
-      // Recursive directory walker for Python files
-      function walk(dir: string): void {
+      try {
+        progress.report({ message: 'Collecting changed files...' });
+        let changedFiles: ChangedFiles;
         try {
-          const entries = fs.readdirSync(dir);
-          for (const entry of entries) {
-            const fullPath = path.join(dir, entry);
-            const stat = fs.statSync(fullPath);
-
-            if (stat.isDirectory()) {
-              walk(fullPath);
-            } else if (stat.isFile() && fullPath.endsWith('.py')) {
-              pythonFiles.push(fullPath);
-            }
-          }
+          changedFiles = await getChangedFiles(
+            workspacePath,
+            base,
+            controller.signal,
+          );
         } catch (error) {
-          ecoOutput.error(
-            `[detection.ts] Scan error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          if (controller.signal.aborted) return;
+          const msg = `Unable to list changed files: ${error instanceof Error ? error.message : String(error)}`;
+          ecoOutput.error(`[detection.ts] ${msg}`);
+          vscode.window.showErrorMessage(msg);
+          return;
+        }
+        if (controller.signal.aborted) return;
+
+        const workspacePrefix = workspacePath.endsWith(path.sep)
+          ? workspacePath
+          : workspacePath + path.sep;
+        const pythonFiles = [...changedFiles.keys()].filter(
+          (filePath) =>
+            filePath.endsWith('.py') &&
+            filePath.startsWith(workspacePrefix) &&
+            !isPathIgnored(filePath),
+        );
+        ecoOutput.info(
+          `[detection.ts] Found ${pythonFiles.length} changed files to analyze`,
+        );
+
+        if (pythonFiles.length === 0) {
+          vscode.window.showInformationMessage(
+            base
+              ? `No changed Python files since ${base}`
+              : 'No changed Python files',
           );
+          return;
         }
-      }
 
-      walk(folderPath);
-      ecoOutput.info(`[detection.ts] Found ${pythonFiles.length} files to analyze`);
+        if (!canAnalyzeFolder()) return;
+
+        const changedLinesOnly = ConfigManager.get<boolean>(
+          'changedLinesOnly',
+          false,
+        );
+        if (changedLinesOnly) {
+          setChangedLines(
+            new Map(
+              pythonFiles.map((filePath) => [filePath, changedFiles.get(filePath)]),
+            ),
+          );
+        } else {
+          clearChangedLines();
+        }
 
-      if (pythonFiles.length === 0) {
-        vscode.window.showWarningMessage(
-          `No Python files found in ${path.basename(folderPath)}`,
+        await analyzeFiles(
+          pythonFiles,
+          smellsViewProvider,
+          smellsCacheManager,
+          progress,
+          controller.signal,
         );
-        return;
+        if (controller.signal.aborted) return;
+
+        if (changedLinesOnly) {
+          markFilesWithoutChangedSmells(
+            pythonFiles,
+            smellsViewProvider,
+            smellsCacheManager,
+          );
+        }
+      } finally {
+        cancellation.dispose();
       }
+    },
+  );
+}
+
+/**
+ * Marks analyzed files that have no smells on their changed lines as having
+ * no issues. The cache keeps every smell of the files.
+ */
+function markFilesWithoutChangedSmells(
+  filePaths: string[],
+  smellsViewProvider: SmellsViewProvider,
+  smellsCacheManager: SmellsCacheManager,
+): void {
+  for (const filePath of filePaths) {
+    if (smellsViewProvider.getStatus(filePath) !== 'passed') continue;
 
-      vscode.window.showInformationMessage(
-        `Analyzing ${pythonFiles.length} Python files...`,
+    const smells = smellsCacheManager.getCachedSmells(filePath) ?? [];
+    if (withoutUnchangedSmells(smells).length === 0) {
+      smellsViewProvider.setStatus(filePath, 'no_issues');
+    }
+  }
+}
+
+/**
+ * Checks the conditions shared by every file of a folder scan once, instead
+ * of warning for each file.
+ *
+ * @returns boolean indicating whether the folder analysis should proceed
+ */
+function canAnalyzeFolder(): boolean {
+  if (serverStatus.getStatus() === ServerStatusType.DOWN) {
+    const msg = 'Backend server unavailable - cannot analyze folder';
+    ecoOutput.warn(`[detection.ts] ${msg}`);
+    vscode.window.showWarningMessage(msg);
+    return false;
+  }
+
+  if (Object.keys(getEnabledSmells()).length === 0) {
+    const msg = 'No smell detectors enabled in settings';
+    ecoOutput.warn(`[detection.ts] ${msg}`);
+    vscode.window.showWarningMessage(msg);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Analyzes files through the worker pool, reporting progress after each file.
+ * All files are marked as queued up front; when the analysis is cancelled,
+ * files that are still queued get their previous status back. Files that fail
+ * are counted in a single error message at the end.
+ */
+async function analyzeFiles(
+  filePaths: string[],
+  smellsViewProvider: SmellsViewProvider,
+  smellsCacheManager: SmellsCacheManager,
+  progress: vscode.Progress<{ message?: string; increment?: number }>,
+  signal: AbortSignal,
+): Promise<void> {
+  const previousStatuses = new Map(
+    filePaths.map((filePath) => [filePath, smellsViewProvider.getStatus(filePath)]),
+  );
+  filePaths.forEach((filePath) => smellsViewProvider.setStatus(filePath, 'queued'));
+
+  const total = filePaths.length;
+  const startTime = Date.now();
+  let completed = 0;
+
+  await runWithConcurrency(
+    filePaths,
+    getParallelism(),
+    async (filePath) => {
+      await detectSmellsFile(
+        filePath,
+        smellsViewProvider,
+        smellsCacheManager,
+        signal,
+        false,
       );
+      if (signal.aborted) return;
 
-      // Process each found Python file
-      for (const file of pythonFiles) {
-        await detectSmellsFile(file, smellsViewProvider, smellsCacheManager);
-      }
+      completed++;
+      const remaining = ((Date.now() - startTime) / completed) * (total - completed);
+      progress.report({
+        increment: 100 / total,
+        message: `${completed}/${total} files${completed < total ? ` (about ${formatDuration(remaining)} remaining)` : ''}`,
+      });
     },
+    signal,
   );
+
+  if (!signal.aborted) {
+    ecoOutput.info(`[detection.ts] Analyzed ${total} files`);
+
+    const failed = filePaths.filter(
+      (filePath) => smellsViewProvider.getStatus(filePath) === 'failed',
+    ).length;
+    if (failed > 0) {
+      vscode.window.showErrorMessage(
+        `${failed} of ${total} files failed to analyze, see the Eco-Optimizer output for details`,
+      );
+    }
+    return;
+  }
+
+  // Return files that were never analyzed to where they were before
+  for (const filePath of filePaths) {
+    if (smellsViewProvider.getStatus(filePath) === 'queued') {
+      smellsViewProvider.setStatus(
+        filePath,
+        previousStatuses.get(filePath) ?? 'not_yet_detected',
+      );
+    }
+  }
+
+  const msg = `Analysis cancelled after ${completed} of ${total} files`;
+  ecoOutput.info(`[detection.ts] ${msg}`);
+  vscode.window.showInformationMessage(msg);
+}
+
+/**
+ * Reads the number of files analyzed in parallel from the settings.
+ */
+function getParallelism(): number {
+  const parallelism = ConfigManager.get<number>('parallelism', DEFAULT_PARALLELISM);
+  return Number.isInteger(parallelism) && parallelism > 0
+    ? parallelism
+    : DEFAULT_PARALLELISM;
+}
+
+/**
+ * Formats a duration in milliseconds as e.g. "45s" or "3m 20s".
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
 }
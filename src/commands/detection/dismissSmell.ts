@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { SmellsCacheManager } from '../../context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../providers/SmellsViewProvider';
+import { addSmellFingerprints } from '../../core/fingerprints';
+import {
+  addDismissal,
+  DismissalEntry,
+  DismissalKind,
+  DISMISSALS_DIRECTORY,
+  DISMISSALS_FILENAME,
+  getDismissals,
+  getDismissalsPath,
+  removeDismissals,
+  resolveDismissalPath,
+} from '../../utils/dismissals';
+import { getAcronymByMessageId } from '../../utils/smellsData';
+import { envConfig } from '../../utils/envConfig';
+import { ecoOutput } from '../../extension';
+
+const FALSE_POSITIVES_FILENAME = 'eco-false-positives.json';
+
+/**
+ * Dismisses a single smell. The dismissal is recorded by fingerprint in the
+ * workspace's `.eco/dismissed.json`, so it survives line moves and can be
+ * committed and shared with the team.
+ *
+ * @param context - Extension context holding the configured workspace
+ * @param smell - The smell to dismiss
+ * @param smellsCacheManager - Manager for cached smell results
+ * @param smellsViewProvider - Provider for updating the UI with results
+ */
+export async function dismissSmell(
+  context: vscode.ExtensionContext,
+  smell: Smell,
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): Promise<void> {
+  await recordDismissal(
+    context,
+    smell,
+    'dismissed',
+    undefined,
+    smellsCacheManager,
+    smellsViewProvider,
+  );
+}
+
+/**
+ * Marks a single smell as a false positive, asking the user why the detector
+ * got it wrong. The smell is hidden like a dismissed smell and its reason can
+ * be exported with {@link exportFalsePositives}.
+ *
+ * @param context - Extension context holding the configured workspace
+ * @param smell - The smell reported by mistake
+ * @param smellsCacheManager - Manager for cached smell results
+ * @param smellsViewProvider - Provider for updating the UI with results
+ */
+export async function markFalsePositive(
+  context: vscode.ExtensionContext,
+  smell: Smell,
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): Promise<void> {
+  if (!smell?.path) {
+    vscode.window.showErrorMessage('No code smell selected to mark.');
+    return;
+  }
+
+  const reason = await vscode.window.showInputBox({
+    title: `Mark ${getAcronymByMessageId(smell.messageId) ?? smell.messageId} as False Positive`,
+    prompt: 'Why is this smell reported by mistake?',
+    placeHolder: 'e.g. the list is built once at import time',
+  });
+  if (reason === undefined) return;
+
+  await recordDismissal(
+    context,
+    smell,
+    'falsePositive',
+    reason.trim(),
+    smellsCacheManager,
+    smellsViewProvider,
+  );
+}
+
+/**
+ * Restores a dismissed smell, so it is reported again.
+ *
+ * @param entry - The dismissal to remove
+ * @param smellsCacheManager - Manager for cached smell results
+ * @param smellsViewProvider - Provider for updating the UI with results
+ */
+export function restoreSmell(
+  entry: DismissalEntry,
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): void {
+  if (!entry?.fingerprint) {
+    vscode.window.showErrorMessage('No dismissed smell selected to restore.');
+    return;
+  }
+
+  try {
+    removeDismissals(new Set([entry.fingerprint]));
+  } catch (error) {
+    const msg = `Failed to restore smell: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[dismissSmell.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+
+  ecoOutput.info(
+    `[dismissSmell.ts] Restored ${entry.messageId} in ${entry.path}${entry.line ? `:${entry.line}` : ''}`,
+  );
+  refreshViews(smellsCacheManager, smellsViewProvider);
+}
+
+/**
+ * Exports every smell marked as a false positive, with the reason given and
+ * the code it was reported on, as 'eco-false-positives.json' in the workspace
+ * folder. The file is meant to be sent to the authors of the detectors.
+ *
+ * @param context - Extension context holding the configured workspace
+ * @param smellsCacheManager - Manager for cached smell results
+ */
+export async function exportFalsePositives(
+  context: vscode.ExtensionContext,
+  smellsCacheManager: SmellsCacheManager,
+): Promise<void> {
+  const rootPath = context.workspaceState.get<string>(
+    envConfig.WORKSPACE_CONFIGURED_PATH!,
+  );
+  if (!rootPath) {
+    vscode.window.showErrorMessage('No configured workspace path found.');
+    return;
+  }
+
+  const falsePositives = getDismissals().filter(
+    (entry) => entry.kind === 'falsePositive',
+  );
+  if (falsePositives.length === 0) {
+    vscode.window.showInformationMessage(
+      'No smells have been marked as false positives.',
+    );
+    return;
+  }
+
+  const report = {
+    tool: 'ecooptimizer',
+    version: context.extension?.packageJSON?.version,
+    exportedAt: new Date().toISOString(),
+    falsePositives: falsePositives.map((entry) => ({
+      symbol: entry.symbol,
+      messageId: entry.messageId,
+      message: entry.message,
+      reason: entry.reason,
+      path: entry.path,
+      line: entry.line,
+      obj: entry.obj,
+      code: readSmellCode(entry, smellsCacheManager),
+    })),
+  };
+
+  // Saved next to the .eco folder, outside the committed dismissals
+  const outputPath = path.join(
+    path.dirname(path.dirname(getDismissalsPath(rootPath))),
+    FALSE_POSITIVES_FILENAME,
+  );
+  try {
+    fs.writeFileSync(outputPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+  } catch (error) {
+    const msg = `Failed to export false positives: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[dismissSmell.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+
+  ecoOutput.info(
+    `[dismissSmell.ts] Exported ${falsePositives.length} false positives to ${outputPath}`,
+  );
+  vscode.window.showInformationMessage(
+    `Exported ${falsePositives.length} false positives to ${outputPath}`,
+  );
+}
+
+async function recordDismissal(
+  context: vscode.ExtensionContext,
+  smell: Smell,
+  kind: DismissalKind,
+  reason: string | undefined,
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): Promise<void> {
+  if (!smell?.path) {
+    vscode.window.showErrorMessage('No code smell selected to dismiss.');
+    return;
+  }
+
+  const rootPath = context.workspaceState.get<string>(
+    envConfig.WORKSPACE_CONFIGURED_PATH!,
+  );
+  if (!rootPath) {
+    vscode.window.showErrorMessage(
+      'Please configure a workspace before dismissing smells.',
+    );
+    return;
+  }
+
+  // Smells cached before fingerprints were recorded get one now, along with
+  // the other cached smells of the file. Their lines refer to the open
+  // document, which may have unsaved edits.
+  let fingerprinted = smell;
+  let fingerprintedSmells: Smell[] = [];
+  if (!smell.fingerprint) {
+    const cachedSmells = smellsCacheManager.getCachedSmells(smell.path) ?? [];
+    [fingerprinted, ...fingerprintedSmells] = await addSmellFingerprints(
+      smell.path,
+      [smell, ...cachedSmells],
+      await readDocumentText(smell.path),
+    );
+  }
+
+  let entry: DismissalEntry;
+  try {
+    entry = addDismissal(rootPath, fingerprinted, kind, reason);
+  } catch (error) {
+    const msg = `Failed to dismiss smell: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[dismissSmell.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+
+  ecoOutput.info(
+    `[dismissSmell.ts] ${kind === 'falsePositive' ? 'Marked as false positive' : 'Dismissed'} ${entry.messageId} in ${entry.path}${entry.line ? `:${entry.line}` : ''}`,
+  );
+
+  // Dismissals only hide fingerprinted smells. The smells of the file on disk
+  // get theirs when the file is saved or analyzed again.
+  if (fingerprintedSmells.some((cached) => cached.fingerprint)) {
+    const fingerprints = new Map(
+      fingerprintedSmells.map((cached) => [cached.id, cached.fingerprint]),
+    );
+    smellsCacheManager.updateDocumentSmells(smell.path, (smells) =>
+      smells.map((cached) => ({
+        ...cached,
+        fingerprint: cached.fingerprint ?? fingerprints.get(cached.id),
+      })),
+    );
+    smellsViewProvider.setSmells(
+      smell.path,
+      smellsCacheManager.getCachedSmells(smell.path) ?? [],
+    );
+  }
+  refreshViews(smellsCacheManager, smellsViewProvider);
+  vscode.window.showInformationMessage(
+    `${kind === 'falsePositive' ? 'Marked smell as a false positive' : 'Dismissed smell'}. Commit ${DISMISSALS_DIRECTORY}/${DISMISSALS_FILENAME} to share it.`,
+  );
+}
+
+/**
+ * Reads the code a dismissed smell is reported on, preferring its current
+ * location in the cache over the line recorded when it was dismissed.
+ */
+function readSmellCode(
+  entry: DismissalEntry,
+  smellsCacheManager: SmellsCacheManager,
+): string | undefined {
+  const filePath = resolveDismissalPath(entry);
+
+  let current: Smell | undefined;
+  try {
+    current = smellsCacheManager
+      .getCachedSmells(filePath)
+      ?.find((smell) => smell.fingerprint === entry.fingerprint);
+  } catch {
+    // Deleted files fall back to the recorded line and are skipped below
+  }
+
+  const start = current?.occurences?.[0]?.line ?? entry.line;
+  if (!start) return undefined;
+  const end = Math.max(current?.occurences?.[0]?.endLine ?? start, start);
+
+  try {
+    const lines = fs.readFileSync(filePath, 'utf-8').split(/\r?\n/);
+    return lines.slice(start - 1, end).join('\n');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the text of a file as open in the editor, or undefined to read it from
+ * disk.
+ */
+async function readDocumentText(filePath: string): Promise<string | undefined> {
+  try {
+    return (await vscode.workspace.openTextDocument(filePath)).getText();
+  } catch {
+    return undefined;
+  }
+}
+
+function refreshViews(
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): void {
+  smellsCacheManager.notifySmellsChanged();
+  smellsViewProvider.refresh();
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+
+import { SmellsCacheManager } from '../../context/SmellsCacheManager';
+
+/**
+ * Formats a byte count with the largest fitting unit.
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Shows how many files the smells cache holds, its size and how many cache
+ * lookups were served since the extension was activated.
+ * @param smellsCacheManager - Manages the caching of smells and file hashes.
+ */
+export function showCacheStatistics(smellsCacheManager: SmellsCacheManager): void {
+  const { entries, bytes, maxBytes, hits, misses } =
+    smellsCacheManager.getStatistics();
+  const lookups = hits + misses;
+  const hitRate =
+    lookups > 0
+      ? `${Math.round((hits / lookups) * 100)}% (${hits} of ${lookups} lookups)`
+      : 'no lookups yet';
+
+  vscode.window.showInformationMessage(
+    `Smells cache: ${entries} files, ${formatBytes(bytes)} of ${formatBytes(maxBytes)}. Hit rate: ${hitRate}.`,
+  );
+}
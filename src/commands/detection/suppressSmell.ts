@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { SmellsCacheManager } from '../../context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../providers/SmellsViewProvider';
+import { getAcronymByMessageId } from '../../utils/smellsData';
+import { addSuppressionPragma } from '../../core/suppressions';
+import { ecoOutput } from '../../extension';
+
+/**
+ * Suppresses a single smell by adding a `# eco: ignore[ACR]` pragma to the line
+ * it is reported on, or a `# eco: ignore-next-line[ACR]` line above it when the
+ * line cannot end in a comment. The edit is left unsaved; the smell is moved
+ * from the document's smells to the file's suppressed smells right away, and
+ * the pragma keeps it hidden in later analyses once the file is saved.
+ *
+ * @param smell - The smell to suppress
+ * @param smellsCacheManager - Manager for cached smell results
+ * @param smellsViewProvider - Provider for updating the UI with results
+ */
+export async function suppressSmell(
+  smell: Smell,
+  smellsCacheManager: SmellsCacheManager,
+  smellsViewProvider: SmellsViewProvider,
+): Promise<void> {
+  const line = smell?.occurences?.[0]?.line;
+  if (!smell?.path || typeof line !== 'number') {
+    vscode.window.showErrorMessage('No code smell selected to suppress.');
+    return;
+  }
+
+  const acronym = getAcronymByMessageId(smell.messageId) ?? smell.messageId;
+
+  let insertedLines = 0;
+  try {
+    const document = await vscode.workspace.openTextDocument(smell.path);
+    const textLine = document.lineAt(line - 1);
+    const precedingLines = Array.from(
+      { length: line - 1 },
+      (_, index) => document.lineAt(index).text,
+    );
+    const updatedText = addSuppressionPragma(textLine.text, acronym, precedingLines);
+
+    if (updatedText !== textLine.text) {
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(document.uri, textLine.range, updatedText);
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        throw new Error('The edit was rejected');
+      }
+      insertedLines = updatedText.split('\n').length - 1;
+    }
+  } catch (error) {
+    const msg = `Failed to suppress smell: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[suppressSmell.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+
+  // The cached smells of the file on disk stay as they are until the edit is
+  // saved, so only the smells of the open document change
+  smellsCacheManager.updateDocumentSmells(smell.path, (smells) =>
+    smells.filter((cached) => cached.id !== smell.id),
+  );
+
+  const updatedSmells = smellsCacheManager.getCachedSmells(smell.path);
+  if (updatedSmells) {
+    smellsViewProvider.setStatus(
+      smell.path,
+      updatedSmells.length > 0 ? 'passed' : 'no_issues',
+    );
+    smellsViewProvider.setSmells(smell.path, updatedSmells);
+  }
+  smellsViewProvider.addSuppressedSmell(moveSmell(smell, insertedLines));
+
+  ecoOutput.info(
+    `[suppressSmell.ts] Suppressed ${acronym} on line ${line} of ${path.basename(smell.path)}`,
+  );
+}
+
+/**
+ * Moves a smell down by the lines inserted above it.
+ */
+function moveSmell(smell: Smell, lines: number): Smell {
+  if (lines === 0) return smell;
+
+  return {
+    ...smell,
+    occurences: smell.occurences.map((occurrence) => ({
+      ...occurrence,
+      line: occurrence.line + lines,
+      ...(occurrence.endLine !== undefined && {
+        endLine: occurrence.endLine + lines,
+      }),
+    })),
+  };
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+
+import { ServerProcess } from '../lib/processManager';
+import { DependencyManager } from '../lib/dependencyManager';
+import { checkServerStatus } from '../api/backend';
+import { usesExternalServer } from '../api/serverConfig';
+import { ecoOutput } from '../extension';
+
+interface ServerMenuItem extends vscode.QuickPickItem {
+  command: string;
+}
+
+/**
+ * Starts the managed backend server, installing its Python dependencies first
+ * if needed. Does nothing when an external server is configured.
+ *
+ * @param server - The managed server process
+ * @param context - Extension context containing the server installation
+ * @returns True if the server is running afterwards
+ */
+export async function startServer(
+  server: ServerProcess,
+  context: vscode.ExtensionContext,
+): Promise<boolean> {
+  if (usesExternalServer()) {
+    vscode.window.showWarningMessage(
+      'EcoOptimizer is configured to use an external server. Disable "ecooptimizer.server.useExternalServer" to let the extension manage it.',
+    );
+    return false;
+  }
+
+  if (!(await DependencyManager.ensureDependencies(context))) {
+    vscode.window.showErrorMessage(
+      'Cannot start the EcoOptimizer server without its Python dependencies.',
+    );
+    return false;
+  }
+
+  try {
+    const port = await server.start();
+    ecoOutput.info(`[manageServer.ts] Managed server running on port ${port}`);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ecoOutput.error(`[manageServer.ts] Failed to start server: ${message}`);
+    vscode.window.showErrorMessage(`Failed to start server: ${message}`);
+    return false;
+  }
+}
+
+/**
+ * Stops the managed backend server.
+ *
+ * @param server - The managed server process
+ */
+export async function stopServer(server: ServerProcess): Promise<void> {
+  if (usesExternalServer()) {
+    vscode.window.showWarningMessage(
+      'EcoOptimizer is configured to use an external server, which cannot be stopped from VS Code.',
+    );
+    return;
+  }
+
+  await server.stop();
+}
+
+/**
+ * Restarts the managed backend server, or re-checks the connection when an
+ * external server is configured.
+ *
+ * @param server - The managed server process
+ * @param context - Extension context containing the server installation
+ */
+export async function restartServer(
+  server: ServerProcess,
+  context: vscode.ExtensionContext,
+): Promise<void> {
+  if (usesExternalServer()) {
+    await checkServerStatus();
+    return;
+  }
+
+  await server.stop();
+  await startServer(server, context);
+}
+
+/**
+ * Shows a quick pick with the actions available for the current server mode
+ * and runs the selected command.
+ *
+ * @param server - The managed server process
+ */
+export async function showServerMenu(server: ServerProcess): Promise<void> {
+  const items: ServerMenuItem[] = [];
+
+  if (usesExternalServer()) {
+    items.push({
+      label: '$(refresh) Reconnect',
+      description: 'Check the connection to the external server',
+      command: 'ecooptimizer.restartServer',
+    });
+  } else if (server.isRunning) {
+    items.push(
+      {
+        label: '$(debug-restart) Restart Server',
+        command: 'ecooptimizer.restartServer',
+      },
+      { label: '$(debug-stop) Stop Server', command: 'ecooptimizer.stopServer' },
+    );
+  } else {
+    items.push({
+      label: '$(play) Start Server',
+      command: 'ecooptimizer.startServer',
+    });
+  }
+
+  items.push({
+    label: '$(output) Show Server Logs',
+    command: 'ecooptimizer.showServerLogs',
+  });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Manage the EcoOptimizer server',
+  });
+
+  if (selected) {
+    await vscode.commands.executeCommand(selected.command);
+  }
+}
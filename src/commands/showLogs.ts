@@ -2,10 +2,9 @@ import * as vscode from 'vscode';
 import WebSocket from 'ws';
 
 import { initLogs } from '../api/backend';
-import { envConfig } from '../utils/envConfig';
+import { getWebSocketBaseUrl } from '../api/serverConfig';
 import { serverStatus, ServerStatusType } from '../emitters/serverStatus';
-
-const WEBSOCKET_BASE_URL = `ws://${envConfig.SERVER_URL}/logs`;
+import { ecoOutput } from '../extension';
 
 class LogInitializationError extends Error {
   constructor(message: string) {
@@ -38,12 +37,12 @@ export class LogManager {
 
     // Listen for server status changes
     serverStatus.on('change', async (newStatus: ServerStatusType) => {
-      console.log('Server status changed:', newStatus);
+      ecoOutput.trace(`[showLogs.ts] Server status changed: ${newStatus}`);
       if (newStatus === ServerStatusType.DOWN) {
         this.channels.main.channel?.appendLine('Server connection lost');
-      } else {
+      } else if (newStatus === ServerStatusType.UP) {
         this.channels.main.channel?.appendLine('Server connection re-established.');
-        await this.startLogging();
+        await this.reconnect();
       }
     });
   }
@@ -125,7 +124,7 @@ export class LogManager {
    * @param logType - The type of log (e.g., 'main', 'detect', 'refactor').
    */
   private startWebSocket(logType: string): void {
-    const url = `${WEBSOCKET_BASE_URL}/${logType}`;
+    const url = `${getWebSocketBaseUrl()}/${logType}`;
     const ws = new WebSocket(url);
     this.websockets[logType] = ws;
 
@@ -177,11 +176,30 @@ export class LogManager {
     });
   }
 
+  /**
+   * Closes the current WebSocket connections and reconnects using the latest
+   * server settings. Used when the backend address changes at runtime.
+   */
+  public async reconnect(): Promise<void> {
+    this.closeWebSockets();
+    await this.startLogging();
+  }
+
+  /**
+   * Closes all open WebSocket connections.
+   */
+  private closeWebSockets(): void {
+    Object.entries(this.websockets).forEach(([logType, ws]) => {
+      ws?.close();
+      this.websockets[logType] = undefined;
+    });
+  }
+
   /**
    * Stops watching logs and cleans up resources.
    */
   public stopWatchingLogs(): void {
-    Object.values(this.websockets).forEach((ws) => ws?.close());
+    this.closeWebSockets();
     Object.values(this.channels).forEach((channel) => channel.channel?.dispose());
   }
 }
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { SmellsCacheManager } from '../../context/SmellsCacheManager';
+import { ConfigManager } from '../../context/configManager';
+import { buildSarifLog } from '../../core/sarif';
+import { getFilterSmells } from '../../utils/smellsData';
+import { addSmellFingerprints } from '../../core/fingerprints';
+import { withoutDismissedSmells } from '../../utils/dismissals';
+import { envConfig } from '../../utils/envConfig';
+import { ecoOutput } from '../../extension';
+
+const SARIF_FILENAME = 'eco-smells.sarif';
+
+/**
+ * Exports every cached smell of the workspace, except dismissed smells, as a
+ * SARIF 2.1.0 log. The file is saved as 'eco-smells.sarif' in the workspace
+ * folder (or next to the configured file), ready to upload to a code-scanning
+ * dashboard.
+ *
+ * @param context - Extension context holding the configured workspace
+ * @param smellsCacheManager - Manager for cached smell results
+ */
+export async function exportSmellsSarif(
+  context: vscode.ExtensionContext,
+  smellsCacheManager: SmellsCacheManager,
+): Promise<void> {
+  const configuredWorkspacePath = context.workspaceState.get<string>(
+    envConfig.WORKSPACE_CONFIGURED_PATH!,
+  );
+  if (!configuredWorkspacePath) {
+    vscode.window.showErrorMessage('No configured workspace path found.');
+    return;
+  }
+
+  let rootPath: string;
+  try {
+    const stat = await vscode.workspace.fs.stat(
+      vscode.Uri.file(configuredWorkspacePath),
+    );
+    rootPath =
+      stat.type === vscode.FileType.File
+        ? path.dirname(configuredWorkspacePath)
+        : configuredWorkspacePath;
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to access workspace path: ${error}`);
+    return;
+  }
+
+  const smells: Smell[] = [];
+  for (const filePath of smellsCacheManager.getAllFilePaths()) {
+    let cached: Smell[] | undefined;
+    try {
+      cached = smellsCacheManager.getCachedSmells(filePath);
+    } catch {
+      // Files deleted since they were analyzed have nothing to export
+      continue;
+    }
+    if (!cached || cached.length === 0) continue;
+
+    // Smells cached before fingerprints were recorded get them now
+    const fingerprinted = cached.every((smell) => smell.fingerprint)
+      ? cached
+      : await addSmellFingerprints(cached[0].path ?? filePath, cached);
+    smells.push(...withoutDismissedSmells(fingerprinted));
+  }
+
+  if (smells.length === 0) {
+    vscode.window.showInformationMessage(
+      'No detected smells to export. Analyze your workspace first.',
+    );
+    return;
+  }
+
+  const sarifLog = buildSarifLog(smells, getFilterSmells(), {
+    rootPath,
+    toolVersion: context.extension?.packageJSON?.version,
+    severities: ConfigManager.get<Record<string, string>>('smellsSeverity', {}),
+  });
+
+  const outputPath = path.join(rootPath, SARIF_FILENAME);
+  try {
+    fs.writeFileSync(outputPath, JSON.stringify(sarifLog, null, 2), 'utf-8');
+    ecoOutput.info(
+      `[exportSmellsSarif.ts] Exported ${smells.length} smells to ${outputPath}`,
+    );
+    vscode.window.showInformationMessage(
+      `Exported ${smells.length} smells to ${outputPath}`,
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export smells: ${error}`);
+  }
+}
@@ -1,5 +1,13 @@
 import * as vscode from 'vscode';
 
+import {
+  AnalyzerOption,
+  AnalyzerOptionValue,
+  formatOptionValue,
+  getOptionType,
+  parseOptionInput,
+  validateOptionValue,
+} from '../../core/smellConfig';
 import { FilterViewProvider } from '../../providers/FilterViewProvider';
 
 /**
@@ -25,7 +33,8 @@ export function registerFilterSmellCommands(
 
   /**
    * Edits a specific smell filter option.
-   * Prompts the user for input, validates the value, and updates the setting.
+   * Prompts the user with the input matching the option type, validates the
+   * value against the option schema, and updates the setting.
    */
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -36,23 +45,40 @@ export function registerFilterSmellCommands(
           return;
         }
 
-        const { smellKey, optionKey, value: oldValue } = item;
+        const { smellKey, optionKey } = item;
+        // Options without a schema are edited as numbers
+        const option: AnalyzerOption = item.option ?? {
+          label: optionKey,
+          description: '',
+          value: item.value ?? '',
+          type: 'number',
+        };
 
-        const newValue = await vscode.window.showInputBox({
-          prompt: `Enter a new value for ${optionKey}`,
-          value: oldValue?.toString() || '',
-          validateInput: (input) =>
-            isNaN(Number(input)) ? 'Must be a number' : undefined,
-        });
-
-        if (newValue !== undefined && !isNaN(Number(newValue))) {
-          filterSmellsProvider.updateOption(smellKey, optionKey, Number(newValue));
+        const newValue = await promptOptionValue(option);
+        if (newValue !== undefined && !validateOptionValue(option, newValue)) {
+          await filterSmellsProvider.updateOption(smellKey, optionKey, newValue);
           filterSmellsProvider.refresh();
         }
       },
     ),
   );
 
+  /**
+   * Restores the default value of a smell filter option.
+   */
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'ecooptimizer.resetSmellFilterOption',
+      (item: any) => {
+        if (!item || !item.smellKey || !item.optionKey) {
+          vscode.window.showErrorMessage('Error: Missing smell or option key.');
+          return;
+        }
+        filterSmellsProvider.resetOption(item.smellKey, item.optionKey);
+      },
+    ),
+  );
+
   /**
    * Enables all smell filters.
    */
@@ -76,4 +102,77 @@ export function registerFilterSmellCommands(
       filterSmellsProvider.resetToDefaults();
     }),
   );
+
+  /**
+   * Chooses the settings layer that smell filter changes are saved to.
+   */
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ecooptimizer.selectSmellConfigLayer', () => {
+      filterSmellsProvider.selectEditLayer();
+    }),
+  );
+}
+
+/**
+ * Prompts for a new value of an analyzer option: booleans are toggled, enums
+ * are picked from their values and other options are typed in.
+ * @param option - The option to edit
+ * @returns The new value, or undefined if the prompt was cancelled
+ */
+async function promptOptionValue(
+  option: AnalyzerOption,
+): Promise<AnalyzerOptionValue | undefined> {
+  switch (getOptionType(option)) {
+    case 'boolean':
+      return !option.value;
+
+    case 'enum': {
+      const picked = await vscode.window.showQuickPick(
+        (option.enum ?? []).map((value) => ({
+          label: formatOptionValue(option, value),
+          description:
+            value === option.value
+              ? 'Current'
+              : value === option.default
+                ? 'Default'
+                : undefined,
+          value,
+        })),
+        { placeHolder: `Select a value for ${option.label}` },
+      );
+      return picked?.value;
+    }
+
+    default: {
+      const input = await vscode.window.showInputBox({
+        prompt: `Enter a new value for ${option.label}${describeBounds(option)}`,
+        value: option.value?.toString() || '',
+        validateInput: (input) =>
+          validateOptionValue(option, parseOptionInput(option, input)),
+      });
+      return input === undefined ? undefined : parseOptionInput(option, input);
+    }
+  }
+}
+
+/**
+ * Describes the range, step and unit of a numeric option, e.g. " (2 to 20,
+ * in steps of 2, characters)".
+ */
+function describeBounds(option: AnalyzerOption): string {
+  const parts: string[] = [];
+  if (option.minimum !== undefined && option.maximum !== undefined) {
+    parts.push(`${option.minimum} to ${option.maximum}`);
+  } else if (option.minimum !== undefined) {
+    parts.push(`at least ${option.minimum}`);
+  } else if (option.maximum !== undefined) {
+    parts.push(`at most ${option.maximum}`);
+  }
+  if (option.step) {
+    parts.push(`in steps of ${option.step}`);
+  }
+  if (option.unit) {
+    parts.push(option.unit);
+  }
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
 }
@@ -1,20 +1,29 @@
 import * as vscode from 'vscode';
 
+import { occurrenceToRange } from '../../utils/smellRanges';
+
 /**
- * Jumps to a specific line in the given file within the VS Code editor.
+ * Jumps to a specific line in the given file within the VS Code editor. When
+ * the smell occurrence is given, its range is selected.
  * @param filePath - The absolute path of the file.
  * @param line - The line number to navigate to.
+ * @param occurrence - The occurrence to select, with 1-based lines and columns.
  */
-export async function jumpToSmell(filePath: string, line: number): Promise<void> {
+export async function jumpToSmell(
+  filePath: string,
+  line: number,
+  occurrence?: Occurrence,
+): Promise<void> {
   try {
     const document = await vscode.workspace.openTextDocument(filePath);
     const editor = await vscode.window.showTextDocument(document);
 
-    // Move cursor to the specified line
+    // Select the occurrence, or move the cursor to the start of the line
     const position = new vscode.Position(line, 0);
-    editor.selection = new vscode.Selection(position, position);
-
-    const range = new vscode.Range(position, position);
+    const range = occurrence
+      ? document.validateRange(occurrenceToRange(occurrence))
+      : new vscode.Range(position, position);
+    editor.selection = new vscode.Selection(range.start, range.end);
     editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
 
     const flashDecorationType = vscode.window.createTextEditorDecorationType({
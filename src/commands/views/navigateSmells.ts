@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+
+import {
+  SmellsViewItem,
+  SmellsViewProvider,
+  SmellTreeItem,
+} from '../../providers/SmellsViewProvider';
+import {
+  findAdjacentSmell,
+  getSmellLocations,
+  NavigationDirection,
+} from '../../utils/smellNavigation';
+import { jumpToSmell } from './jumpToSmell';
+import { ecoOutput } from '../../extension';
+
+// Waits for the cursor to settle before the tree follows it
+const FOLLOW_DELAY_MS = 200;
+
+/**
+ * Moves to the next or previous smell occurrence: first through the active
+ * editor, then across files in the order of the Code Smells tree. The
+ * occurrence is selected in the editor and its smell in the tree.
+ *
+ * @param direction - Whether to move forwards or backwards
+ * @param smellsViewProvider - The provider of the Code Smells tree
+ * @param smellsTreeView - The Code Smells tree view
+ */
+export async function navigateSmells(
+  direction: NavigationDirection,
+  smellsViewProvider: SmellsViewProvider,
+  smellsTreeView: vscode.TreeView<SmellsViewItem>,
+): Promise<void> {
+  const items = await smellsViewProvider.getSmellItems();
+  const editor = vscode.window.activeTextEditor;
+  const cursor = editor?.selection.start;
+
+  const target = findAdjacentSmell(
+    getSmellLocations(items.map((item) => item.smell)),
+    editor && cursor
+      ? {
+          filePath: editor.document.uri.fsPath,
+          line: cursor.line + 1,
+          column: cursor.character + 1,
+        }
+      : undefined,
+    direction,
+  );
+  if (!target) {
+    vscode.window.showInformationMessage(
+      'No smells to navigate. Analyze your workspace first.',
+    );
+    return;
+  }
+
+  await jumpToSmell(
+    target.smell.path,
+    target.occurrence.line - 1,
+    target.occurrence,
+  );
+  await revealSmellItem(
+    smellsTreeView,
+    items.find((item) => item.smell === target.smell),
+  );
+}
+
+/**
+ * Registers the commands that move between smells, and makes the Code Smells
+ * tree select the smell under the cursor while it is visible.
+ * @param context - The VS Code extension context.
+ * @param smellsViewProvider - The provider of the Code Smells tree.
+ * @param smellsTreeView - The Code Smells tree view.
+ */
+export function registerSmellNavigationCommands(
+  context: vscode.ExtensionContext,
+  smellsViewProvider: SmellsViewProvider,
+  smellsTreeView: vscode.TreeView<SmellsViewItem>,
+): void {
+  let followTimer: ReturnType<typeof setTimeout> | undefined;
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ecooptimizer.nextSmell', () =>
+      navigateSmells('next', smellsViewProvider, smellsTreeView),
+    ),
+
+    vscode.commands.registerCommand('ecooptimizer.previousSmell', () =>
+      navigateSmells('previous', smellsViewProvider, smellsTreeView),
+    ),
+
+    vscode.window.onDidChangeTextEditorSelection((event) => {
+      // Selections made by commands, like smell navigation, reveal their own smell
+      if (
+        event.kind === undefined ||
+        event.kind === vscode.TextEditorSelectionChangeKind.Command
+      ) {
+        return;
+      }
+      clearTimeout(followTimer);
+      followTimer = setTimeout(
+        () => followEditor(event.textEditor, smellsViewProvider, smellsTreeView),
+        FOLLOW_DELAY_MS,
+      );
+    }),
+
+    { dispose: () => clearTimeout(followTimer) },
+  );
+}
+
+/**
+ * Selects the smell under the cursor of an editor in the Code Smells tree.
+ */
+async function followEditor(
+  editor: vscode.TextEditor,
+  smellsViewProvider: SmellsViewProvider,
+  smellsTreeView: vscode.TreeView<SmellsViewItem>,
+): Promise<void> {
+  const filePath = editor.document.uri.fsPath;
+  if (!smellsTreeView.visible || !filePath.endsWith('.py')) return;
+
+  const line = editor.selection.active.line + 1;
+  const item = (await smellsViewProvider.getSmellItems(filePath)).find((item) =>
+    item.smell.occurences?.some(
+      (occurrence) =>
+        occurrence.line <= line && (occurrence.endLine ?? occurrence.line) >= line,
+    ),
+  );
+
+  const selected = smellsTreeView.selection[0];
+  if (selected instanceof SmellTreeItem && selected.smell === item?.smell) return;
+
+  await revealSmellItem(smellsTreeView, item);
+}
+
+/**
+ * Selects a smell in the Code Smells tree without moving the focus there.
+ * Nothing is revealed while the tree is hidden, so navigating does not open it.
+ */
+async function revealSmellItem(
+  smellsTreeView: vscode.TreeView<SmellsViewItem>,
+  item: SmellTreeItem | undefined,
+): Promise<void> {
+  if (!item || !smellsTreeView.visible) return;
+
+  try {
+    await smellsTreeView.reveal(item, { select: true, focus: false, expand: true });
+  } catch (error) {
+    ecoOutput.trace(
+      `[navigateSmells.ts] Unable to reveal smell: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
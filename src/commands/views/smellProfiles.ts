@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { FilterViewProvider } from '../../providers/FilterViewProvider';
+import { getFilterSmells } from '../../utils/smellsData';
+import {
+  captureSmellProfile,
+  getActiveSmellProfile,
+  getSmellProfiles,
+  parseSmellProfile,
+  saveSmellProfile,
+  serializeSmellProfile,
+  SmellProfile,
+} from '../../utils/smellProfiles';
+import { ecoOutput } from '../../extension';
+
+const PROFILE_FILE_SUFFIX = '.eco-profile.json';
+
+/**
+ * Registers the commands that create, clone, switch, export and import smell
+ * profiles.
+ * @param context - The VS Code extension context.
+ * @param filterSmellsProvider - The provider of the Filter view.
+ */
+export function registerSmellProfileCommands(
+  context: vscode.ExtensionContext,
+  filterSmellsProvider: FilterViewProvider,
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ecooptimizer.switchSmellProfile', () =>
+      switchSmellProfile(filterSmellsProvider),
+    ),
+    vscode.commands.registerCommand('ecooptimizer.createSmellProfile', () =>
+      createSmellProfile(filterSmellsProvider),
+    ),
+    vscode.commands.registerCommand('ecooptimizer.cloneSmellProfile', () =>
+      cloneSmellProfile(filterSmellsProvider),
+    ),
+    vscode.commands.registerCommand(
+      'ecooptimizer.exportSmellProfile',
+      exportSmellProfile,
+    ),
+    vscode.commands.registerCommand('ecooptimizer.importSmellProfile', () =>
+      importSmellProfile(filterSmellsProvider),
+    ),
+  );
+}
+
+/**
+ * Prompts for the profile to activate. Switching updates cached results the
+ * same way as any other filter change.
+ * @param filterSmellsProvider - The provider of the Filter view
+ */
+export async function switchSmellProfile(
+  filterSmellsProvider: FilterViewProvider,
+): Promise<void> {
+  const active = getActiveSmellProfile();
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: 'No Profile',
+        detail: 'Use the bundled defaults and your settings',
+        name: undefined,
+      },
+      ...Object.keys(getSmellProfiles())
+        .sort()
+        .map((name) => ({ label: name, detail: undefined, name })),
+    ].map((item) => ({
+      ...item,
+      description: item.name === active ? 'Active' : undefined,
+    })),
+    { placeHolder: 'Select a smell profile' },
+  );
+  if (!picked || picked.name === active) return;
+
+  await filterSmellsProvider.switchProfile(picked.name);
+}
+
+/**
+ * Saves the current smell configuration as a new profile.
+ * @param filterSmellsProvider - The provider of the Filter view
+ */
+export async function createSmellProfile(
+  filterSmellsProvider: FilterViewProvider,
+): Promise<void> {
+  const name = await promptProfileName('Name of the new smell profile');
+  if (!name) return;
+
+  await storeProfile(
+    name,
+    captureSmellProfile(getFilterSmells()),
+    filterSmellsProvider,
+  );
+}
+
+/**
+ * Copies an existing profile under a new name.
+ * @param filterSmellsProvider - The provider of the Filter view
+ */
+export async function cloneSmellProfile(
+  filterSmellsProvider: FilterViewProvider,
+): Promise<void> {
+  const source = await pickProfile('Select the smell profile to clone');
+  if (!source) return;
+
+  const name = await promptProfileName(
+    `Name of the copy of "${source}"`,
+    `${source}-copy`,
+  );
+  if (!name) return;
+
+  await storeProfile(name, getSmellProfiles()[source], filterSmellsProvider);
+}
+
+/**
+ * Saves a profile as a JSON file that can be shared and imported.
+ */
+export async function exportSmellProfile(): Promise<void> {
+  const name = await pickProfile('Select the smell profile to export');
+  if (!name) return;
+
+  const folderPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(
+      path.join(folderPath, `${name}${PROFILE_FILE_SUFFIX}`),
+    ),
+    filters: { 'Smell Profile': ['json'] },
+  });
+  if (!uri) return;
+
+  try {
+    fs.writeFileSync(
+      uri.fsPath,
+      serializeSmellProfile(name, getSmellProfiles()[name]),
+    );
+    ecoOutput.info(
+      `[smellProfiles.ts] Exported smell profile "${name}" to ${uri.fsPath}`,
+    );
+    vscode.window.showInformationMessage(
+      `Exported smell profile "${name}" to ${path.basename(uri.fsPath)}.`,
+    );
+  } catch (error) {
+    const msg = `Failed to export smell profile: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[smellProfiles.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+  }
+}
+
+/**
+ * Adds a profile from a JSON file exported with `exportSmellProfile`.
+ * @param filterSmellsProvider - The provider of the Filter view
+ */
+export async function importSmellProfile(
+  filterSmellsProvider: FilterViewProvider,
+): Promise<void> {
+  const [uri] =
+    (await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'Smell Profile': ['json'] },
+      openLabel: 'Import Profile',
+    })) ?? [];
+  if (!uri) return;
+
+  let profile: { name: string; smells: SmellProfile };
+  try {
+    profile = parseSmellProfile(fs.readFileSync(uri.fsPath, 'utf-8'));
+  } catch (error) {
+    const msg = `Failed to import smell profile: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[smellProfiles.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+
+  const name = await promptProfileName(
+    'Name of the imported smell profile',
+    profile.name || path.basename(uri.fsPath, PROFILE_FILE_SUFFIX),
+    true,
+  );
+  if (!name) return;
+
+  if (getSmellProfiles()[name]) {
+    const overwrite = await vscode.window.showWarningMessage(
+      `A smell profile named "${name}" already exists. Replace it?`,
+      { modal: true },
+      'Replace',
+    );
+    if (overwrite !== 'Replace') return;
+  }
+
+  await storeProfile(name, profile.smells, filterSmellsProvider);
+}
+
+/**
+ * Saves a profile and offers to activate it. Saving the active profile
+ * updates the configuration through the settings change.
+ */
+async function storeProfile(
+  name: string,
+  smells: SmellProfile,
+  filterSmellsProvider: FilterViewProvider,
+): Promise<void> {
+  try {
+    await saveSmellProfile(name, smells);
+  } catch (error) {
+    const msg = `Failed to save smell profile "${name}": ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[smellProfiles.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return;
+  }
+  ecoOutput.info(`[smellProfiles.ts] Saved smell profile "${name}"`);
+
+  if (getActiveSmellProfile() === name) {
+    vscode.window.showInformationMessage(`Saved smell profile "${name}".`);
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Saved smell profile "${name}".`,
+    'Switch to Profile',
+  );
+  if (choice === 'Switch to Profile') {
+    await filterSmellsProvider.switchProfile(name);
+  }
+}
+
+/**
+ * Prompts for one of the existing profiles, marking the active one.
+ */
+async function pickProfile(placeHolder: string): Promise<string | undefined> {
+  const names = Object.keys(getSmellProfiles()).sort();
+  if (names.length === 0) {
+    vscode.window.showInformationMessage(
+      'No smell profiles yet. Create one from the Filter view first.',
+    );
+    return undefined;
+  }
+
+  const active = getActiveSmellProfile();
+  const picked = await vscode.window.showQuickPick(
+    names.map((name) => ({
+      label: name,
+      description: name === active ? 'Active' : undefined,
+    })),
+    { placeHolder },
+  );
+  return picked?.label;
+}
+
+/**
+ * Prompts for a profile name. Existing names are rejected unless
+ * `allowExisting` is set.
+ */
+async function promptProfileName(
+  prompt: string,
+  value?: string,
+  allowExisting = false,
+): Promise<string | undefined> {
+  const profiles = getSmellProfiles();
+  const name = await vscode.window.showInputBox({
+    prompt,
+    value,
+    placeHolder: 'e.g. strict, legacy-service, data-science',
+    validateInput: (input) => {
+      const trimmed = input.trim();
+      if (!trimmed) return 'Enter a name';
+      if (!allowExisting && profiles[trimmed]) {
+        return `A smell profile named "${trimmed}" already exists`;
+      }
+      return undefined;
+    },
+  });
+  return name?.trim() || undefined;
+}
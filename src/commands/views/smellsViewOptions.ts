@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+
+import { SmellsViewProvider } from '../../providers/SmellsViewProvider';
+import {
+  SMELLS_VIEW_MODES,
+  SMELLS_VIEW_SORTS,
+  SmellsViewMode,
+  SmellsViewSort,
+} from '../../utils/smellGrouping';
+
+const MODE_LABELS: Record<SmellsViewMode, string> = {
+  folder: 'Folder',
+  type: 'Smell Type',
+  confidence: 'Confidence',
+};
+
+const SORT_LABELS: Record<SmellsViewSort, string> = {
+  line: 'Line',
+  name: 'Name',
+  count: 'Count',
+};
+
+/**
+ * Lets the user pick one of several values, marking the current one.
+ * @returns The picked value, or undefined if the pick was dismissed
+ */
+async function pickOption<T extends string>(
+  values: T[],
+  labels: Record<T, string>,
+  current: T,
+  title: string,
+): Promise<T | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    values.map((value) => ({
+      label: labels[value],
+      description: value === current ? 'current' : undefined,
+      value,
+    })),
+    { title },
+  );
+  return picked?.value;
+}
+
+/**
+ * Registers the Code Smells view title commands that choose how the tree
+ * groups, sorts and filters smells.
+ * @param context - The VS Code extension context.
+ * @param smellsViewProvider - The provider of the Code Smells tree.
+ */
+export function registerSmellsViewCommands(
+  context: vscode.ExtensionContext,
+  smellsViewProvider: SmellsViewProvider,
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('ecooptimizer.setSmellsViewMode', async () => {
+      const mode = await pickOption(
+        SMELLS_VIEW_MODES,
+        MODE_LABELS,
+        smellsViewProvider.getViewMode(),
+        'Group smells by',
+      );
+      if (mode) {
+        await smellsViewProvider.setViewMode(mode);
+      }
+    }),
+
+    vscode.commands.registerCommand('ecooptimizer.setSmellsViewSort', async () => {
+      const sort = await pickOption(
+        SMELLS_VIEW_SORTS,
+        SORT_LABELS,
+        smellsViewProvider.getSort(),
+        'Sort smells by',
+      );
+      if (sort) {
+        await smellsViewProvider.setSort(sort);
+      }
+    }),
+
+    vscode.commands.registerCommand('ecooptimizer.filterSmellsView', async () => {
+      const filter = await vscode.window.showInputBox({
+        title: 'Filter Smells',
+        prompt: 'Show only smells whose file name, acronym or message contains',
+        value: smellsViewProvider.getFilter(),
+      });
+      if (filter !== undefined) {
+        smellsViewProvider.setFilter(filter);
+      }
+    }),
+
+    vscode.commands.registerCommand('ecooptimizer.clearSmellsViewFilter', () => {
+      smellsViewProvider.setFilter('');
+    }),
+  );
+}
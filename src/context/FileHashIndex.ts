@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+import { normalizePath } from '../utils/normalizePath';
+
+interface FileHashRecord {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+/**
+ * In-memory index of file content hashes keyed by path. A file is read and
+ * hashed on its first lookup only; later lookups are served from memory
+ * until the file is invalidated, so hot UI paths (hovers, line selection,
+ * highlighting) never touch the disk.
+ *
+ * Callers must invalidate files when they change on disk, e.g. from file
+ * watcher and document save events.
+ */
+export class FileHashIndex {
+  private records = new Map<string, FileHashRecord>();
+
+  /**
+   * Returns the content hash of a file, reading it only if it is not indexed
+   * @param filePath - Absolute path to the file
+   * @returns SHA-256 hash of file content
+   * @throws If the file is not indexed and cannot be read
+   */
+  getHash(filePath: string): string {
+    const key = normalizePath(filePath);
+    const record = this.records.get(key);
+    if (record) return record.hash;
+
+    const stats = fs.statSync(filePath);
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const hash = createHash('sha256').update(content).digest('hex');
+
+    this.records.set(key, { mtimeMs: stats.mtimeMs, size: stats.size, hash });
+    return hash;
+  }
+
+  /**
+   * Drops the indexed hash of a file, e.g. after it was saved or deleted
+   * @param filePath - Absolute path to the file
+   */
+  invalidate(filePath: string): void {
+    this.records.delete(normalizePath(filePath));
+  }
+
+  /**
+   * Drops the indexed hash of a file if its modification time or size
+   * changed since it was hashed. File watchers also report changes that
+   * leave the content untouched, which then need no re-hashing.
+   * @param filePath - Absolute path to the file
+   */
+  refresh(filePath: string): void {
+    const key = normalizePath(filePath);
+    const record = this.records.get(key);
+    if (!record) return;
+
+    try {
+      const stats = fs.statSync(filePath);
+      if (stats.mtimeMs === record.mtimeMs && stats.size === record.size) return;
+    } catch {
+      // Deleted files are dropped below
+    }
+    this.records.delete(key);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+}
@@ -1,22 +1,121 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
+import * as path from 'path';
 import { createHash } from 'crypto';
 import { envConfig } from '../utils/envConfig';
 import { ecoOutput } from '../extension';
 import { normalizePath } from '../utils/normalizePath';
+import { shiftSmells, TextChange } from '../utils/smellPositions';
+import { getEnabledSmellsForFile } from '../utils/smellScopes';
+import { DetectSmellConfig, getSmellConfigFingerprint } from '../core/smellConfig';
+import { ConfigManager } from './configManager';
+import { FileHashIndex } from './FileHashIndex';
+import { CacheEntry, CacheStatistics, SmellsCacheStore } from './SmellsCacheStore';
+
+/**
+ * Smells cached for one version of a file, together with the configuration
+ * each smell type was detected with.
+ */
+export interface CachedFileSmells {
+  /** Config fingerprint per analyzed smell (see `getSmellConfigFingerprint`) */
+  configs: Record<string, string>;
+  /** Smells detected for the analyzed smell types */
+  smells: Smell[];
+}
+
+/**
+ * Smells of an open document whose text differs from the file on disk.
+ */
+interface DocumentSmells {
+  /** Config fingerprint per analyzed smell (see `getSmellConfigFingerprint`) */
+  configs: Record<string, string>;
+  /** Smells located in the document's current text */
+  smells: Smell[];
+  /** Document version the smells were detected on; unset once they were moved through edits */
+  version?: number;
+}
+
+const CACHE_DIRECTORY = 'smells-cache';
+const DEFAULT_CACHE_SIZE_LIMIT_MB = 100;
 
 /**
  * Manages caching of detected smells to avoid redundant backend calls.
- * Uses workspace storage to persist cache between sessions.
- * Implements file content hashing for change detection and maintains
- * a bidirectional mapping between file paths and their content hashes.
+ * Results are persisted between sessions in an on-disk store under the
+ * extension's workspace storage, with one entry per file that is only valid
+ * for the file content it was detected on. The least recently used entries
+ * are evicted once the store exceeds the configured size limit.
+ * Results are recorded per smell type with the options they were detected
+ * with, so filter changes only require detecting the affected smells.
+ * While a file is edited, its smells are moved along with the edits (see
+ * `trackSmellPositions`) so they keep pointing at the right code, or replaced
+ * by smells detected on the unsaved text (see `setDocumentSmells`).
  */
 export class SmellsCacheManager {
   // Event emitter for cache update notifications
   private cacheUpdatedEmitter = new vscode.EventEmitter<string>();
   public readonly onSmellsUpdated = this.cacheUpdatedEmitter.event;
 
-  constructor(private context: vscode.ExtensionContext) {}
+  private store: SmellsCacheStore;
+  private fileHashes = new FileHashIndex();
+  // Smells of open documents with unsaved edits, by normalized path
+  private documentSmells = new Map<string, DocumentSmells>();
+
+  constructor(private context: vscode.ExtensionContext) {
+    const storageUri = context.storageUri ?? context.globalStorageUri;
+    this.store = new SmellsCacheStore(
+      path.join(storageUri.fsPath, CACHE_DIRECTORY),
+      this.getSizeLimit(),
+    );
+  }
+
+  /**
+   * Loads the on-disk cache and moves results cached in workspace storage by
+   * earlier versions of the extension into it.
+   */
+  public async initialize(): Promise<void> {
+    this.store.load();
+    await this.migrateWorkspaceStateCache();
+  }
+
+  /**
+   * Moves the cache that earlier versions kept in workspace storage, keyed by
+   * content hash, into the store. Of several cached versions of a file, the
+   * one matching its current content is kept. Entries that do not record the
+   * smell types they were detected with are dropped (see `toCachedFileSmells`).
+   */
+  private async migrateWorkspaceStateCache(): Promise<void> {
+    const legacyCache = this.context.workspaceState.get<
+      Record<string, CachedFileSmells | Smell[]>
+    >(envConfig.SMELL_CACHE_KEY!);
+    const legacyPathMap = this.context.workspaceState.get<Record<string, string>>(
+      envConfig.HASH_PATH_MAP_KEY!,
+    );
+    if (!legacyCache && !legacyPathMap) return;
+
+    const entries = new Map<string, CacheEntry>();
+    for (const [fileHash, filePath] of Object.entries(legacyPathMap ?? {})) {
+      const cached = this.toCachedFileSmells(legacyCache?.[fileHash]);
+      if (!cached || this.store.has(filePath)) continue;
+
+      const existing = entries.get(filePath);
+      if (existing && existing.fileHash === this.tryGenerateFileHash(filePath)) {
+        continue;
+      }
+      entries.set(filePath, { path: filePath, fileHash, ...cached });
+    }
+
+    for (const entry of entries.values()) {
+      await this.store.set(entry);
+    }
+    await this.context.workspaceState.update(envConfig.SMELL_CACHE_KEY!, undefined);
+    await this.context.workspaceState.update(
+      envConfig.HASH_PATH_MAP_KEY!,
+      undefined,
+    );
+
+    ecoOutput.info(
+      `[SmellCacheManager] Migrated ${entries.size} cached files from workspace storage`,
+    );
+  }
 
   /**
    * Generates a stable identifier for a smell based on its properties
@@ -31,81 +130,176 @@ export class SmellsCacheManager {
   }
 
   /**
-   * Generates content hash for a file to detect changes
+   * Reads a cache entry. Entries written before results were recorded per
+   * smell type are plain arrays; they could never be served, since it is not
+   * known which smell types they cover, so they are left out.
+   */
+  private toCachedFileSmells(
+    entry: CachedFileSmells | Smell[] | undefined,
+  ): CachedFileSmells | undefined {
+    return Array.isArray(entry) ? undefined : entry;
+  }
+
+  /**
+   * Finds the enabled smell types that a cache entry has no results for
+   */
+  private findMissingSmells(
+    entry: CachedFileSmells,
+    enabledSmells: Record<string, DetectSmellConfig>,
+  ): string[] {
+    return Object.entries(enabledSmells)
+      .filter(
+        ([smellKey, config]) =>
+          entry.configs[smellKey] !== getSmellConfigFingerprint(config),
+      )
+      .map(([smellKey]) => smellKey);
+  }
+
+  /**
+   * Looks up the content hash of a file to detect changes
    * @param filePath - Absolute path to the file
    * @returns SHA-256 hash of file content
    */
   private generateFileHash(filePath: string): string {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return createHash('sha256').update(content).digest('hex');
+    return this.fileHashes.getHash(filePath);
+  }
+
+  private tryGenerateFileHash(filePath: string): string | undefined {
+    try {
+      return this.generateFileHash(filePath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads the cache entry of a file if it matches the file's current content,
+   * without counting the lookup in the cache statistics.
+   */
+  private peekCurrentEntry(normalizedPath: string): CacheEntry | undefined {
+    const entry = this.store.peek(normalizedPath);
+    return entry?.fileHash === this.generateFileHash(normalizedPath)
+      ? entry
+      : undefined;
+  }
+
+  /**
+   * Reads the cache size limit from the settings
+   * @returns The limit in bytes
+   */
+  private getSizeLimit(): number {
+    const limitMb = ConfigManager.get<number>(
+      'cacheSizeLimit',
+      DEFAULT_CACHE_SIZE_LIMIT_MB,
+    );
+    return Math.max(1, limitMb) * 1024 * 1024;
   }
 
   /**
-   * Stores smells in cache for specified file
+   * Stores smells in cache for specified file. Only the results of the
+   * analyzed smell types are replaced; cached results of other smell types
+   * are kept as long as the file content is unchanged.
    * @param filePath - File path to associate with smells
    * @param smells - Array of smell objects to cache
+   * @param analyzedSmells - Smell types the smells were detected with
+   * (defaults to every smell enabled for the file)
    */
-  public async setCachedSmells(filePath: string, smells: Smell[]): Promise<void> {
-    const cache = this.getFullSmellCache();
-    const pathMap = this.getHashToPathMap();
-
+  public async setCachedSmells(
+    filePath: string,
+    smells: Smell[],
+    analyzedSmells: Record<string, DetectSmellConfig> = getEnabledSmellsForFile(
+      filePath,
+    ),
+  ): Promise<void> {
     const normalizedPath = normalizePath(filePath);
     const fileHash = this.generateFileHash(normalizedPath);
 
+    const previous = this.store.peek(normalizedPath);
+    const current = previous?.fileHash === fileHash ? previous : undefined;
+    const configs = { ...current?.configs };
+    for (const [smellKey, config] of Object.entries(analyzedSmells)) {
+      configs[smellKey] = getSmellConfigFingerprint(config);
+    }
+
+    // Keep earlier results of the smell types that were not analyzed again
+    const keptSmells = (current?.smells ?? []).filter(
+      (smell) => !(smell.symbol in analyzedSmells) && smell.symbol in configs,
+    );
+
     // Augment smells with stable identifiers
     const smellsWithIds = smells.map((smell) => ({
       ...smell,
       id: this.generateSmellId(smell),
     }));
 
-    cache[fileHash] = smellsWithIds;
-    pathMap[fileHash] = normalizedPath;
-
-    await this.context.workspaceState.update(envConfig.SMELL_CACHE_KEY!, cache);
-    await this.context.workspaceState.update(envConfig.HASH_PATH_MAP_KEY!, pathMap);
+    await this.store.set({
+      path: normalizedPath,
+      fileHash,
+      configs,
+      smells: [...keptSmells, ...smellsWithIds],
+    });
+    this.documentSmells.delete(normalizedPath);
 
     this.cacheUpdatedEmitter.fire(filePath);
   }
 
   /**
-   * Retrieves cached smells for a file
+   * Retrieves cached smells of the enabled smell types for a file
    * @param filePath - File path to look up in cache
-   * @returns Array of smells or undefined if not found
+   * @returns Array of smells, or undefined if not found or if an enabled smell
+   * type has no results for its current options (see `getMissingSmells`)
    */
   public getCachedSmells(filePath: string): Smell[] | undefined {
     const normalizedPath = normalizePath(filePath);
-    const fileHash = this.generateFileHash(normalizedPath);
-    const cache = this.getFullSmellCache();
-    return cache[fileHash];
+
+    // Smells of an edited document do not depend on the file on disk
+    const entry =
+      this.documentSmells.get(normalizedPath) ??
+      this.store.get(normalizedPath, this.generateFileHash(normalizedPath));
+    if (!entry) return undefined;
+
+    const enabledSmells = getEnabledSmellsForFile(filePath);
+    if (this.findMissingSmells(entry, enabledSmells).length > 0) return undefined;
+
+    return entry.smells.filter((smell) => smell.symbol in enabledSmells);
+  }
+
+  /**
+   * Lists the enabled smell types whose results are not cached for the file's
+   * current content, because they were disabled or had different options when
+   * the file was analyzed. Smells moved through edits are not trusted to be
+   * complete, so every enabled smell type is detected again for such files.
+   * @param filePath - File path to look up in cache
+   * @returns Keys of the smell types that still need to be detected
+   */
+  public getMissingSmells(filePath: string): string[] {
+    const entry = this.peekCurrentEntry(normalizePath(filePath));
+    const enabledSmells = getEnabledSmellsForFile(filePath);
+
+    return entry && !entry.tracked
+      ? this.findMissingSmells(entry, enabledSmells)
+      : Object.keys(enabledSmells);
   }
 
   /**
    * Checks if smells exist in cache for a file
    * @param filePath - File path to check
-   * @returns True if file has cached smells
+   * @returns True if file has cached smells for its current content
    */
   public hasCachedSmells(filePath: string): boolean {
-    const normalizedPath = normalizePath(filePath);
-    const fileHash = this.generateFileHash(normalizedPath);
-    const cache = this.getFullSmellCache();
-    return cache[fileHash] !== undefined;
+    return this.peekCurrentEntry(normalizePath(filePath)) !== undefined;
   }
 
   /**
-   * Clears cache for a file by its current content hash
+   * Clears cache for a file if it matches the file's current content
    * @param filePath - File path to clear from cache
    */
   public async clearCachedSmellsForFile(filePath: string): Promise<void> {
     const normalizedPath = normalizePath(filePath);
-    const fileHash = this.generateFileHash(normalizedPath);
-    const cache = this.getFullSmellCache();
-    const pathMap = this.getHashToPathMap();
+    if (!this.peekCurrentEntry(normalizedPath)) return;
 
-    delete cache[fileHash];
-    delete pathMap[fileHash];
-
-    await this.context.workspaceState.update(envConfig.SMELL_CACHE_KEY!, cache);
-    await this.context.workspaceState.update(envConfig.HASH_PATH_MAP_KEY!, pathMap);
+    await this.store.delete(normalizedPath);
+    this.documentSmells.delete(normalizedPath);
 
     this.cacheUpdatedEmitter.fire(normalizedPath);
   }
@@ -115,49 +309,181 @@ export class SmellsCacheManager {
    * @param filePath - File path to clear from cache
    */
   public async clearCachedSmellsByPath(filePath: string): Promise<void> {
-    const pathMap = this.getHashToPathMap();
     const normalizedPath = normalizePath(filePath);
-    const hash = Object.keys(pathMap).find((h) => pathMap[h] === normalizedPath);
-    if (!hash) return;
+    this.documentSmells.delete(normalizedPath);
+    if (!(await this.store.delete(normalizedPath))) return;
+
+    this.cacheUpdatedEmitter.fire(normalizedPath);
+  }
 
-    const cache = this.getFullSmellCache();
-    delete cache[hash];
-    delete pathMap[hash];
+  /**
+   * Moves the cached smells of a file through edits of its open document.
+   * Until the document is saved (see `commitDocumentSmells`) or closed (see
+   * `discardDocumentSmells`), `getCachedSmells` returns the moved smells.
+   * @param filePath - File path of the edited document
+   * @param changes - Content changes of one document change event
+   * @returns The smells dropped because the edits touched them, or undefined
+   * if the file has no cached smells to track
+   */
+  public trackSmellPositions(
+    filePath: string,
+    changes: readonly TextChange[],
+  ): Smell[] | undefined {
+    const normalizedPath = normalizePath(filePath);
+    const current =
+      this.documentSmells.get(normalizedPath) ??
+      this.peekCurrentEntry(normalizedPath);
+    if (!current) return undefined;
 
-    await this.context.workspaceState.update(envConfig.SMELL_CACHE_KEY!, cache);
-    await this.context.workspaceState.update(envConfig.HASH_PATH_MAP_KEY!, pathMap);
+    const shifted = shiftSmells(current.smells, changes);
+    this.documentSmells.set(normalizedPath, {
+      configs: current.configs,
+      smells: shifted.smells,
+    });
 
-    this.cacheUpdatedEmitter.fire(normalizedPath);
+    this.cacheUpdatedEmitter.fire(filePath);
+    return shifted.dropped;
   }
 
   /**
-   * Retrieves complete smell cache
-   * @returns Object mapping file hashes to smell arrays
+   * Stores smells detected on the unsaved text of an open document. They are
+   * cached against the document version instead of the file hash, and become
+   * the cached smells of the file once the document is saved unchanged.
+   * @param filePath - File path of the document
+   * @param version - Document version the smells were detected on
+   * @param smells - Detected smells
+   * @param analyzedSmells - Smell types the smells were detected with
    */
-  public getFullSmellCache(): Record<string, Smell[]> {
-    return this.context.workspaceState.get<Record<string, Smell[]>>(
-      envConfig.SMELL_CACHE_KEY!,
-      {},
+  public setDocumentSmells(
+    filePath: string,
+    version: number,
+    smells: Smell[],
+    analyzedSmells: Record<string, DetectSmellConfig>,
+  ): void {
+    const configs = Object.fromEntries(
+      Object.entries(analyzedSmells).map(([smellKey, config]) => [
+        smellKey,
+        getSmellConfigFingerprint(config),
+      ]),
     );
+
+    this.documentSmells.set(normalizePath(filePath), {
+      configs,
+      smells: smells.map((smell) => ({ ...smell, id: this.generateSmellId(smell) })),
+      version,
+    });
+
+    this.cacheUpdatedEmitter.fire(filePath);
   }
 
   /**
-   * Retrieves hash-to-path mapping
-   * @returns Object mapping file hashes to original paths
+   * Changes the smells of an open document without touching the cached smells
+   * of the file on disk, e.g. after a command edited the document. Until the
+   * document is saved (see `commitDocumentSmells`) or closed (see
+   * `discardDocumentSmells`), `getCachedSmells` returns the changed smells.
+   * @param filePath - File path of the document
+   * @param update - Maps the current smells of the document to the new ones
+   * @returns Whether the file had smells to change
    */
-  public getHashToPathMap(): Record<string, string> {
-    return this.context.workspaceState.get<Record<string, string>>(
-      envConfig.HASH_PATH_MAP_KEY!,
-      {},
-    );
+  public updateDocumentSmells(
+    filePath: string,
+    update: (smells: Smell[]) => Smell[],
+  ): boolean {
+    const normalizedPath = normalizePath(filePath);
+    const documentSmells = this.documentSmells.get(normalizedPath);
+    const current = documentSmells ?? this.peekCurrentEntry(normalizedPath);
+    if (!current) return false;
+
+    this.documentSmells.set(normalizedPath, {
+      configs: current.configs,
+      smells: update(current.smells),
+      version: documentSmells?.version,
+    });
+
+    this.cacheUpdatedEmitter.fire(filePath);
+    return true;
+  }
+
+  /**
+   * Returns the document version that the smells of an open document were
+   * detected on, if they were detected on its unsaved text and not edited since
+   * @param filePath - File path of the document
+   */
+  public getDocumentVersion(filePath: string): number | undefined {
+    return this.documentSmells.get(normalizePath(filePath))?.version;
+  }
+
+  /**
+   * Stores the smells of a saved document as the cached smells of its new
+   * content. Smells that were moved through edits are marked as tracked, so
+   * the next detection analyzes the file again. Call after `invalidateFileHash`.
+   * @param filePath - File path of the saved document
+   * @returns Whether the file has cached smells for its saved content
+   */
+  public async commitDocumentSmells(filePath: string): Promise<boolean> {
+    const normalizedPath = normalizePath(filePath);
+    const documentSmells = this.documentSmells.get(normalizedPath);
+    if (!documentSmells) {
+      // Saving without edits leaves the cached smells valid
+      return this.hasCachedSmells(normalizedPath);
+    }
+
+    this.documentSmells.delete(normalizedPath);
+    await this.store.set({
+      path: normalizedPath,
+      fileHash: this.generateFileHash(normalizedPath),
+      configs: documentSmells.configs,
+      smells: documentSmells.smells,
+      ...(documentSmells.version === undefined && { tracked: true }),
+    });
+
+    this.cacheUpdatedEmitter.fire(filePath);
+    return true;
+  }
+
+  /**
+   * Forgets the smells of an open document's unsaved text, e.g. when it is
+   * closed without saving
+   * @param filePath - File path of the document
+   */
+  public discardDocumentSmells(filePath: string): void {
+    if (this.documentSmells.delete(normalizePath(filePath))) {
+      this.cacheUpdatedEmitter.fire(filePath);
+    }
+  }
+
+  /**
+   * Forgets the content hash of a file so the next lookup re-reads it. Call
+   * when the file was saved, replaced or deleted.
+   * @param filePath - File path whose content changed
+   */
+  public invalidateFileHash(filePath: string): void {
+    this.fileHashes.invalidate(filePath);
+  }
+
+  /**
+   * Forgets the content hash of a file if its modification time or size
+   * changed, e.g. when a file watcher reports a change
+   * @param filePath - File path that may have changed
+   */
+  public refreshFileHash(filePath: string): void {
+    this.fileHashes.refresh(filePath);
+  }
+
+  /**
+   * Notifies listeners that every file's smells should be re-read, e.g. when
+   * the baseline changes which cached smells are shown.
+   */
+  public notifySmellsChanged(): void {
+    this.cacheUpdatedEmitter.fire('all');
   }
 
   /**
    * Clears entire smell cache
    */
   public async clearAllCachedSmells(): Promise<void> {
-    await this.context.workspaceState.update(envConfig.SMELL_CACHE_KEY!, {});
-    await this.context.workspaceState.update(envConfig.HASH_PATH_MAP_KEY!, {});
+    await this.store.clear();
+    this.documentSmells.clear();
 
     this.cacheUpdatedEmitter.fire('all');
   }
@@ -167,11 +493,7 @@ export class SmellsCacheManager {
    * @returns Array of cached file paths
    */
   public getAllFilePaths(): string[] {
-    const map = this.context.workspaceState.get<Record<string, string>>(
-      envConfig.HASH_PATH_MAP_KEY!,
-      {},
-    );
-    return Object.values(map);
+    return this.store.getPaths();
   }
 
   /**
@@ -180,9 +502,8 @@ export class SmellsCacheManager {
    * @returns True if file exists in cache metadata
    */
   public hasFileInCache(filePath: string): boolean {
-    const pathMap = this.getHashToPathMap();
     const normalizedPath = normalizePath(filePath);
-    const fileExistsInCache = Object.values(pathMap).includes(normalizedPath);
+    const fileExistsInCache = this.store.has(normalizedPath);
 
     ecoOutput.debug(
       `[SmellCacheManager] Path existence check for ${normalizedPath}: ` +
@@ -191,4 +512,25 @@ export class SmellsCacheManager {
 
     return fileExistsInCache;
   }
+
+  /**
+   * Retrieves the size and hit rate of the cache
+   */
+  public getStatistics(): CacheStatistics {
+    return this.store.getStatistics();
+  }
+
+  /**
+   * Applies a changed cache size limit setting, evicting entries if needed
+   */
+  public async updateSizeLimit(): Promise<void> {
+    await this.store.setMaxBytes(this.getSizeLimit());
+  }
+
+  /**
+   * Writes pending cache changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
 }
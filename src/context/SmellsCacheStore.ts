@@ -0,0 +1,375 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export const CACHE_SCHEMA_VERSION = 1;
+const INDEX_FILENAME = 'index.json';
+const INDEX_WRITE_DELAY = 1000;
+const MAX_LOADED_ENTRIES = 200;
+
+/**
+ * Cached analysis results of one file.
+ */
+export interface CacheEntry {
+  /** Normalized path of the analyzed file */
+  path: string;
+  /** Content hash of the file when it was analyzed */
+  fileHash: string;
+  /** Config fingerprint per analyzed smell (see `getSmellConfigFingerprint`) */
+  configs: Record<string, string>;
+  /** Smells detected for the analyzed smell types */
+  smells: Smell[];
+  /** Whether the smells were moved through edits instead of detected on this content */
+  tracked?: boolean;
+}
+
+/**
+ * Usage figures of the cache, with hits and misses counted since activation.
+ */
+export interface CacheStatistics {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+}
+
+interface IndexRecord {
+  path: string;
+  size: number;
+  lastAccess: number;
+}
+
+interface CacheIndex {
+  version: number;
+  entries: Record<string, IndexRecord>;
+}
+
+/**
+ * File-backed store for cached smells with one JSON file per analyzed file.
+ * Entries are written atomically (to a temporary file that is then renamed)
+ * and the least recently used entries are evicted once the store grows past
+ * its size limit. A small index of entry sizes and access times is kept in
+ * memory and written to disk shortly after entries are added or removed;
+ * access times alone are saved with the next such write or on flush.
+ * The most recently used entries are kept in memory.
+ */
+export class SmellsCacheStore {
+  private index: Record<string, IndexRecord> = {};
+  // Loaded entries, from least to most recently used
+  private entries = new Map<string, CacheEntry>();
+  // Entries whose files are still being written
+  private pendingEntries = new Map<string, CacheEntry>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private indexTimer: NodeJS.Timeout | undefined;
+  private tempCounter = 0;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param directory - Directory holding the entry files
+   * @param maxBytes - Size limit of all entries together
+   */
+  constructor(
+    private directory: string,
+    private maxBytes: number,
+  ) {}
+
+  /**
+   * Loads the index from disk and reconciles it with the entry files, so a
+   * missing, outdated or stale index is completed from the files it does not
+   * list. Entries written with another schema are dropped.
+   */
+  load(): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.entries.clear();
+
+    const index = this.readJson<CacheIndex>(
+      path.join(this.directory, INDEX_FILENAME),
+    );
+    const indexValid = index?.version === CACHE_SCHEMA_VERSION && !!index.entries;
+    this.index = indexValid ? index.entries : {};
+
+    const fileNames = new Set(fs.readdirSync(this.directory));
+    let changed = !indexValid;
+    for (const key of Object.keys(this.index)) {
+      if (!fileNames.has(`${key}.json`)) {
+        delete this.index[key];
+        changed = true;
+      }
+    }
+
+    for (const fileName of fileNames) {
+      if (fileName === INDEX_FILENAME || !fileName.endsWith('.json')) continue;
+
+      const key = path.basename(fileName, '.json');
+      if (this.index[key]) continue;
+
+      changed = true;
+      const filePath = path.join(this.directory, fileName);
+      const stored = this.readJson<CacheEntry & { version?: number }>(filePath);
+      if (stored?.version !== CACHE_SCHEMA_VERSION || !stored.path) {
+        fs.rmSync(filePath, { force: true });
+        continue;
+      }
+
+      this.index[key] = {
+        path: stored.path,
+        size: fs.statSync(filePath).size,
+        lastAccess: 0,
+      };
+    }
+    if (changed) {
+      this.scheduleIndexWrite();
+    }
+  }
+
+  /**
+   * Reads the entry of a file and marks it as recently used.
+   * @param filePath - Normalized path of the analyzed file
+   * @param fileHash - Current content hash; entries for other contents count as misses
+   * @returns The entry, or undefined if the file has no up-to-date entry
+   */
+  get(filePath: string, fileHash?: string): CacheEntry | undefined {
+    const key = this.getKey(filePath);
+    const entry = this.readEntry(key);
+
+    if (!entry || (fileHash !== undefined && entry.fileHash !== fileHash)) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.index[key].lastAccess = Date.now();
+    return entry;
+  }
+
+  /**
+   * Reads the entry of a file without counting the lookup in the statistics.
+   * @param filePath - Normalized path of the analyzed file
+   */
+  peek(filePath: string): CacheEntry | undefined {
+    return this.readEntry(this.getKey(filePath));
+  }
+
+  /**
+   * Stores the entry of a file, replacing any earlier entry, and evicts the
+   * least recently used entries if the size limit is exceeded.
+   * @param entry - The entry to store
+   */
+  async set(entry: CacheEntry): Promise<void> {
+    const key = this.getKey(entry.path);
+    const data = JSON.stringify({ version: CACHE_SCHEMA_VERSION, ...entry });
+
+    this.loadEntry(key, entry);
+    this.pendingEntries.set(key, entry);
+    this.index[key] = {
+      path: entry.path,
+      size: Buffer.byteLength(data),
+      lastAccess: Date.now(),
+    };
+
+    const writes = [
+      this.enqueue(() => this.writeAtomic(this.getEntryPath(key), data)).finally(
+        () => {
+          if (this.pendingEntries.get(key) === entry) {
+            this.pendingEntries.delete(key);
+          }
+        },
+      ),
+    ];
+    writes.push(...this.evict(key));
+    this.scheduleIndexWrite();
+    await Promise.all(writes);
+  }
+
+  /**
+   * Removes the entry of a file.
+   * @param filePath - Normalized path of the analyzed file
+   * @returns Whether the file had an entry
+   */
+  async delete(filePath: string): Promise<boolean> {
+    const key = this.getKey(filePath);
+    if (!this.index[key]) return false;
+
+    await this.remove(key);
+    this.scheduleIndexWrite();
+    return true;
+  }
+
+  /**
+   * Removes every entry.
+   */
+  async clear(): Promise<void> {
+    await Promise.all(Object.keys(this.index).map((key) => this.remove(key)));
+    this.hits = 0;
+    this.misses = 0;
+    this.scheduleIndexWrite();
+  }
+
+  /**
+   * Lists the paths of all files with an entry.
+   */
+  getPaths(): string[] {
+    return Object.values(this.index).map((record) => record.path);
+  }
+
+  /**
+   * Checks whether a file has an entry, whatever content it was analyzed with.
+   * @param filePath - Normalized path of the analyzed file
+   */
+  has(filePath: string): boolean {
+    return this.index[this.getKey(filePath)] !== undefined;
+  }
+
+  getStatistics(): CacheStatistics {
+    return {
+      entries: Object.keys(this.index).length,
+      bytes: Object.values(this.index).reduce(
+        (total, record) => total + record.size,
+        0,
+      ),
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Changes the size limit, evicting entries if the store is now too large.
+   * @param maxBytes - New size limit of all entries together
+   */
+  async setMaxBytes(maxBytes: number): Promise<void> {
+    this.maxBytes = maxBytes;
+    const removals = this.evict();
+    this.scheduleIndexWrite();
+    await Promise.all(removals);
+  }
+
+  /**
+   * Waits for pending writes and saves the index.
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.indexTimer);
+    this.indexTimer = undefined;
+
+    const index: CacheIndex = { version: CACHE_SCHEMA_VERSION, entries: this.index };
+    await this.enqueue(() =>
+      this.writeAtomic(
+        path.join(this.directory, INDEX_FILENAME),
+        JSON.stringify(index),
+      ),
+    );
+  }
+
+  /**
+   * Evicts least recently used entries until the store fits its size limit.
+   * @param keep - Key of an entry that must not be evicted
+   * @returns The pending removals
+   */
+  private evict(keep?: string): Promise<void>[] {
+    const removals: Promise<void>[] = [];
+    let bytes = this.getStatistics().bytes;
+
+    const candidates = Object.entries(this.index)
+      .filter(([key]) => key !== keep)
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+
+    for (const [key, record] of candidates) {
+      if (bytes <= this.maxBytes) break;
+      bytes -= record.size;
+      removals.push(this.remove(key));
+    }
+
+    return removals;
+  }
+
+  private remove(key: string): Promise<void> {
+    delete this.index[key];
+    this.entries.delete(key);
+    this.pendingEntries.delete(key);
+    return this.enqueue(() =>
+      fs.promises.rm(this.getEntryPath(key), { force: true }),
+    );
+  }
+
+  private readEntry(key: string): CacheEntry | undefined {
+    if (!this.index[key]) return undefined;
+
+    let entry = this.entries.get(key) ?? this.pendingEntries.get(key);
+    if (!entry) {
+      const stored = this.readJson<CacheEntry>(this.getEntryPath(key));
+      if (!stored) {
+        // The entry file was removed or corrupted outside of the store
+        delete this.index[key];
+        this.scheduleIndexWrite();
+        return undefined;
+      }
+      entry = {
+        path: stored.path,
+        fileHash: stored.fileHash,
+        configs: stored.configs ?? {},
+        smells: stored.smells ?? [],
+        ...(stored.tracked && { tracked: true }),
+      };
+    }
+    this.loadEntry(key, entry);
+    return entry;
+  }
+
+  /**
+   * Keeps an entry in memory as the most recently used one, unloading the
+   * least recently used entries beyond the limit.
+   */
+  private loadEntry(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    for (const loadedKey of this.entries.keys()) {
+      if (this.entries.size <= MAX_LOADED_ENTRIES) break;
+      this.entries.delete(loadedKey);
+    }
+  }
+
+  private readJson<T>(filePath: string): T | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes a file through a temporary file, so readers never see partial data.
+   */
+  private async writeAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${this.tempCounter++}.tmp`;
+    await fs.promises.writeFile(tempPath, data, 'utf-8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  /**
+   * Runs file operations one after another, so later writes always win.
+   */
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.catch(() => {});
+    return result;
+  }
+
+  private scheduleIndexWrite(): void {
+    if (this.indexTimer) return;
+    this.indexTimer = setTimeout(() => {
+      this.flush().catch(() => {});
+    }, INDEX_WRITE_DELAY);
+    // A pending index write must not keep the process alive on shutdown
+    this.indexTimer.unref();
+  }
+
+  private getKey(filePath: string): string {
+    return createHash('sha256').update(filePath).digest('hex').substring(0, 32);
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
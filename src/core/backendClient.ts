@@ -0,0 +1,226 @@
+import { basename } from 'path';
+import { createHash } from 'crypto';
+
+import { logger } from './logger';
+import { formatBaseUrl, ServerSettings } from './serverSettings';
+import { AnalyzerOptionValue } from './smellConfig';
+import { parseSmellCatalog, SmellCatalog } from './smellCatalog';
+
+/**
+ * Error thrown when a backend request is cancelled by the caller.
+ */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Sends a request to the backend using the given connection settings.
+ * Requests are aborted once the configured timeout elapses, and network
+ * failures are retried with exponential backoff when `retry` is enabled.
+ * HTTP error responses are returned as-is and never retried. A `signal` in
+ * `init` cancels the request immediately, without further retries.
+ *
+ * @param url - Absolute URL of the endpoint
+ * @param init - Fetch options for the request
+ * @param settings - Connection settings for timeouts and retries
+ * @param retry - Whether network failures should be retried
+ * @returns The backend response
+ * @throws Error when every attempt fails or times out
+ */
+export async function requestBackend(
+  url: string,
+  init: RequestInit,
+  settings: ServerSettings,
+  retry: boolean = true,
+): Promise<Response> {
+  const { requestTimeout, retries, retryBackoff } = settings;
+  const { signal: cancelSignal, ...requestInit } = init;
+  const attempts = retry ? retries + 1 : 1;
+  let delay = retryBackoff;
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const cancel = (): void => controller.abort();
+    cancelSignal?.addEventListener('abort', cancel);
+    const timer =
+      requestTimeout > 0
+        ? setTimeout(() => controller.abort(), requestTimeout)
+        : undefined;
+
+    try {
+      if (cancelSignal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      return await fetch(url, { ...requestInit, signal: controller.signal });
+    } catch (error: any) {
+      if (cancelSignal?.aborted) {
+        throw error instanceof RequestCancelledError
+          ? error
+          : new RequestCancelledError();
+      }
+
+      const reason = controller.signal.aborted
+        ? new Error(`Request timed out after ${requestTimeout}ms`)
+        : error;
+
+      if (attempt >= attempts) {
+        throw reason;
+      }
+
+      logger.warn(
+        `[backendClient.ts] Request to ${url} failed (attempt ${attempt}/${attempts}): ${reason.message}. Retrying in ${delay}ms...`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay *= 2; // Exponential backoff
+    } finally {
+      clearTimeout(timer);
+      cancelSignal?.removeEventListener('abort', cancel);
+    }
+  }
+}
+
+/**
+ * Analyzes source code for code smells using backend detection service.
+ * @param filePath - Absolute path to the source file for analysis
+ * @param enabledSmells - Configuration object specifying which smells to detect
+ * @param options - Connection settings, an optional signal to cancel the request
+ * and optionally the text to analyze instead of the file on disk (e.g. an
+ * unsaved editor buffer), which is sent along with its SHA-256 hash
+ * @returns Promise resolving to smell detection results and HTTP status
+ * @throws RequestCancelledError when the request is cancelled through `signal`
+ * @throws Error when:
+ * - Network request fails
+ * - Backend returns non-OK status
+ * - Response contains invalid data format
+ */
+export async function fetchSmells(
+  filePath: string,
+  enabledSmells: Record<string, Record<string, AnalyzerOptionValue>>,
+  {
+    settings,
+    signal,
+    source,
+  }: { settings: ServerSettings; signal?: AbortSignal; source?: string },
+): Promise<{ smells: Smell[]; status: number }> {
+  const url = `${formatBaseUrl(settings)}/smells`;
+  const fileName = basename(filePath);
+  const payload = {
+    file_path: filePath,
+    enabled_smells: enabledSmells,
+    ...(source !== undefined && {
+      source,
+      source_hash: createHash('sha256').update(source).digest('hex'),
+    }),
+  };
+  logger.info(`[backendClient.ts] Starting smell detection for: ${fileName}`);
+
+  try {
+    logger.debug(`[backendClient.ts] Request payload for ${fileName}:`, {
+      file_path: filePath,
+      enabled_smells: enabledSmells,
+      source_hash: payload.source_hash,
+    });
+
+    const response = await requestBackend(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+        signal,
+      },
+      settings,
+    );
+
+    if (!response.ok) {
+      const errorMsg = `Backend request failed (${response.status})`;
+      logger.error(`[backendClient.ts] ${errorMsg}`);
+      try {
+        const errorBody = await response.json();
+        logger.error(`[backendClient.ts] Backend error details:`, errorBody);
+      } catch {
+        logger.error(`[backendClient.ts] Could not parse error response`);
+      }
+      throw new Error(errorMsg);
+    }
+
+    const smellsList = await response.json();
+
+    // Detailed logging of the response
+    logger.info(`[backendClient.ts] Detection complete for ${fileName}`);
+    logger.debug(
+      `[backendClient.ts] Raw response headers for ${fileName}:`,
+      Object.fromEntries(response.headers.entries()),
+    );
+    logger.debug(`[backendClient.ts] Full response for ${fileName}:`, {
+      status: response.status,
+      statusText: response.statusText,
+      body: smellsList,
+    });
+
+    // Detailed smell listing
+    logger.info(
+      `[backendClient.ts] Detected ${smellsList.length} smells in ${fileName}`,
+    );
+    if (smellsList.length > 0) {
+      logger.debug(
+        `[backendClient.ts] Complete smells list for ${fileName}:`,
+        smellsList,
+      );
+      logger.debug(
+        `[backendClient.ts] Verbose smell details for ${fileName}:`,
+        smellsList.map((smell: Smell) => ({
+          type: smell.symbol,
+          location: `${smell.path}:${smell.occurences}`,
+          message: smell.message,
+          context: smell.messageId,
+        })),
+      );
+    }
+
+    return { smells: smellsList, status: response.status };
+  } catch (error: any) {
+    if (error instanceof RequestCancelledError) {
+      logger.info(`[backendClient.ts] Smell detection cancelled for ${fileName}`);
+      throw error;
+    }
+
+    logger.error(
+      `[backendClient.ts] Smell detection failed for ${fileName}: ${error.message}`,
+    );
+    if (error instanceof Error && error.stack) {
+      logger.trace(`[backendClient.ts] Error stack info:`, error.stack);
+    }
+    throw new Error(`Detection failed: ${error.message}`);
+  }
+}
+
+/**
+ * Fetches the smells the backend can detect, with their options and default
+ * highlight colours.
+ * @param settings - Connection settings
+ * @returns The backend's smell catalog
+ * @throws Error when the request fails, the backend returns an error or the
+ * response is not a smell catalog
+ */
+export async function fetchSmellCatalog(
+  settings: ServerSettings,
+): Promise<SmellCatalog> {
+  const url = `${formatBaseUrl(settings)}/smells/catalog`;
+  const response = await requestBackend(url, {}, settings, false);
+
+  if (!response.ok) {
+    throw new Error(`Backend request failed (${response.status})`);
+  }
+
+  const catalog = parseSmellCatalog(await response.json());
+  logger.info(
+    `[backendClient.ts] Backend ${catalog.version} advertises ${Object.keys(catalog.smells).length} smells`,
+  );
+  return catalog;
+}
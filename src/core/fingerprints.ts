@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+import { logger } from './logger';
+
+/**
+ * Collapses whitespace in source lines so formatting-only edits and moved code
+ * keep the same fingerprint. Blank lines are dropped.
+ * @param lines - Source lines covered by a smell
+ * @returns The normalized code
+ */
+export function normalizeCode(lines: string[]): string {
+  return lines
+    .map((line) => line.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Computes a fingerprint for a smell that survives line shifts. It combines the
+ * smell's symbol, object and module with the normalized code of every line the
+ * smell occurs on, but never the line numbers themselves.
+ * @param smell - The detected smell
+ * @param sourceLines - Lines of the smell's file
+ * @returns A SHA-256 hex digest
+ */
+export function computeSmellFingerprint(
+  smell: Smell,
+  sourceLines: string[],
+): string {
+  const code = (smell.occurences ?? []).map((occurrence) => {
+    const start = occurrence.line;
+    const end = Math.max(occurrence.endLine ?? start, start);
+    return normalizeCode(sourceLines.slice(start - 1, end));
+  });
+
+  return createHash('sha256')
+    .update(
+      JSON.stringify([smell.symbol, smell.obj ?? '', smell.module ?? '', code]),
+    )
+    .digest('hex');
+}
+
+/**
+ * Adds a fingerprint to each smell of a file. Smells are returned unchanged if
+ * the file cannot be read.
+ * @param filePath - Path of the analyzed file
+ * @param smells - Smells detected in the file
+ * @param source - Text that was analyzed, if not the file on disk
+ * @returns The smells with their `fingerprint` set
+ */
+export async function addSmellFingerprints(
+  filePath: string,
+  smells: Smell[],
+  source?: string,
+): Promise<Smell[]> {
+  if (smells.length === 0) {
+    return smells;
+  }
+
+  try {
+    source ??= await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    logger.trace(
+      `[fingerprints.ts] Could not read ${filePath} for fingerprints: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return smells;
+  }
+
+  const lines = source.split(/\r?\n/);
+  return smells.map((smell) => ({
+    ...smell,
+    fingerprint: computeSmellFingerprint(smell, lines),
+  }));
+}
@@ -0,0 +1,190 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+
+import { logger } from './logger';
+
+const execFileAsync = promisify(execFile);
+
+// Diffs of large refactorings easily exceed the default 1 MB
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Inclusive range of 1-based line numbers.
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Changed lines per absolute file path. Files that are new to the repository
+ * map to undefined, since every line of them is changed.
+ */
+export type ChangedFiles = Map<string, LineRange[] | undefined>;
+
+/**
+ * Extracts the changed lines of each file from a unified diff, as produced by
+ * `git diff`. Deleted lines are attributed to the lines around them, so smells
+ * next to removed code count as changed. Deleted files are left out.
+ *
+ * @param diff - Output of `git diff`, with or without context lines
+ * @returns Changed line ranges per file path, relative to the repository root
+ */
+export function parseChangedLines(diff: string): Map<string, LineRange[]> {
+  const changedLines = new Map<string, LineRange[]>();
+  let ranges: LineRange[] | undefined;
+  let line = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let deleted = false;
+
+  const addRange = (start: number, end: number): void => {
+    const previous = ranges?.[ranges.length - 1];
+    if (previous && start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, end);
+    } else {
+      ranges?.push({ start, end });
+    }
+  };
+
+  // Lines removed without a replacement leave a change between their neighbours
+  const markDeletion = (): void => {
+    if (deleted) addRange(Math.max(line - 1, 1), line);
+    deleted = false;
+  };
+
+  for (const diffLine of diff.split('\n')) {
+    // Hunk bodies are consumed by their line counts, since their content may
+    // look like file headers
+    if (oldRemaining > 0 || newRemaining > 0) {
+      if (diffLine.startsWith('+')) {
+        addRange(line, line);
+        line++;
+        newRemaining--;
+        deleted = false;
+      } else if (diffLine.startsWith('-')) {
+        oldRemaining--;
+        deleted = true;
+      } else if (diffLine.startsWith(' ')) {
+        markDeletion();
+        line++;
+        oldRemaining--;
+        newRemaining--;
+      }
+      if (oldRemaining <= 0 && newRemaining <= 0) markDeletion();
+      continue;
+    }
+
+    if (diffLine.startsWith('+++ ')) {
+      const target = diffLine.slice(4).trim();
+      ranges = target === '/dev/null' ? undefined : [];
+      if (ranges) {
+        changedLines.set(target.replace(/^b\//, ''), ranges);
+      }
+      continue;
+    }
+
+    const hunk = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(diffLine);
+    if (hunk) {
+      oldRemaining = Number(hunk[1] ?? 1);
+      newRemaining = Number(hunk[3] ?? 1);
+      // Hunks without new lines start at the line before the change
+      line = Number(hunk[2]) + (newRemaining === 0 ? 1 : 0);
+    }
+  }
+
+  return changedLines;
+}
+
+/**
+ * Checks whether any occurrence of a smell overlaps the changed lines of its
+ * file.
+ * @param smell - The smell to check
+ * @param ranges - Changed lines of the smell's file, or undefined if the whole
+ * file is new
+ */
+export function isSmellInChangedLines(
+  smell: Smell,
+  ranges: LineRange[] | undefined,
+): boolean {
+  if (!ranges) return true;
+
+  return (smell.occurences ?? []).some((occurrence) => {
+    const endLine = occurrence.endLine ?? occurrence.line;
+    return ranges.some(
+      (range) => occurrence.line <= range.end && endLine >= range.start,
+    );
+  });
+}
+
+async function git(
+  cwd: string,
+  args: string[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const { stdout } = await execFileAsync(
+    'git',
+    ['-c', 'core.quotePath=false', ...args],
+    { cwd, maxBuffer: GIT_MAX_BUFFER, signal },
+  );
+  return stdout;
+}
+
+/**
+ * Lists the files of a Git working tree that are modified, staged or
+ * untracked, using the `git` command line. With a base ref, files committed
+ * since the branch point from that ref are included as well.
+ *
+ * @param folderPath - Any folder inside the working tree
+ * @param base - Optional branch or commit to compare against
+ * @param signal - Optional signal that stops the running `git` process
+ * @returns Changed lines per absolute file path
+ * @throws Error if `git` is unavailable or the folder is not in a repository
+ */
+export async function getChangedFilesFromCli(
+  folderPath: string,
+  base?: string,
+  signal?: AbortSignal,
+): Promise<ChangedFiles> {
+  const root = (
+    await git(folderPath, ['rev-parse', '--show-toplevel'], signal)
+  ).trim();
+  const ref = base
+    ? (await git(root, ['merge-base', base, 'HEAD'], signal)).trim()
+    : 'HEAD';
+
+  const diff = await git(
+    root,
+    [
+      'diff',
+      '-U0',
+      '--no-color',
+      '--no-ext-diff',
+      '--no-renames',
+      '--src-prefix=a/',
+      '--dst-prefix=b/',
+      ref,
+      '--',
+    ],
+    signal,
+  );
+  const untracked = await git(
+    root,
+    ['ls-files', '--others', '--exclude-standard', '-z'],
+    signal,
+  );
+
+  const changedFiles: ChangedFiles = new Map();
+  for (const [relativePath, ranges] of parseChangedLines(diff)) {
+    changedFiles.set(path.join(root, relativePath), ranges);
+  }
+  for (const relativePath of untracked.split('\0').filter(Boolean)) {
+    changedFiles.set(path.join(root, relativePath), undefined);
+  }
+
+  logger.debug(
+    `[gitChanges.ts] Found ${changedFiles.size} changed files in ${root} compared to ${base ?? 'HEAD'}`,
+  );
+  return changedFiles;
+}
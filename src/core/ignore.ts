@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+import { normalizePath } from '../utils/normalizePath';
+import { logger } from './logger';
+
+export const ECOIGNORE_FILENAME = '.ecoignore';
+export const GITIGNORE_FILENAME = '.gitignore';
+
+/**
+ * Sources of the ignore patterns of a workspace.
+ */
+export interface IgnoreOptions {
+  /** Glob patterns excluded in addition to the ignore files */
+  exclude?: string[];
+  /** Whether the workspace `.gitignore` is honoured */
+  useGitignore?: boolean;
+}
+
+/**
+ * Builds a matcher from gitignore-style patterns.
+ * @param patterns - Lines of one or more ignore files or glob settings
+ * @returns A matcher for paths relative to the workspace root
+ */
+export function createIgnoreMatcher(patterns: string[]): Ignore {
+  return ignore().add(patterns);
+}
+
+/**
+ * Collects the ignore patterns of a workspace: the `exclude` globs, the
+ * workspace `.gitignore` (when `useGitignore` is set) and the workspace
+ * `.ecoignore`, in that order, so `.ecoignore` can re-include paths with `!`.
+ * @param rootPath - The workspace folder
+ * @param options - Additional pattern sources
+ * @returns The ignore patterns
+ */
+export function readIgnorePatterns(
+  rootPath: string,
+  { exclude = [], useGitignore = false }: IgnoreOptions = {},
+): string[] {
+  const patterns: string[] = [];
+
+  if (Array.isArray(exclude)) {
+    patterns.push(...exclude.filter((glob) => typeof glob === 'string'));
+  }
+
+  if (useGitignore) {
+    patterns.push(...readIgnoreFile(path.join(rootPath, GITIGNORE_FILENAME)));
+  }
+
+  patterns.push(...readIgnoreFile(path.join(rootPath, ECOIGNORE_FILENAME)));
+
+  return patterns;
+}
+
+/**
+ * Checks whether a path matches the ignore patterns of a workspace. Paths
+ * outside the workspace are never ignored.
+ * @param matcher - Matcher built from the workspace patterns
+ * @param rootPath - The workspace folder the patterns are relative to
+ * @param filePath - Absolute path of the file or directory
+ * @param isDirectory - Whether the path is a directory, so `dir/` patterns match
+ * @returns True if the path matches an ignore pattern
+ */
+export function matchesIgnorePatterns(
+  matcher: Ignore,
+  rootPath: string,
+  filePath: string,
+  isDirectory = false,
+): boolean {
+  const relativePath = path.relative(
+    normalizePath(rootPath),
+    normalizePath(filePath),
+  );
+  if (
+    !relativePath ||
+    relativePath.startsWith('..') ||
+    path.isAbsolute(relativePath)
+  ) {
+    return false;
+  }
+
+  const posixPath = relativePath.split(path.sep).join('/');
+  return matcher.ignores(isDirectory ? `${posixPath}/` : posixPath);
+}
+
+/**
+ * Reads the non-empty lines of an ignore file.
+ * @param filePath - Path of the ignore file
+ * @returns The lines of the file, or an empty array if it does not exist
+ */
+function readIgnoreFile(filePath: string): string[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    return fs
+      .readFileSync(filePath, 'utf-8')
+      .split(/\r?\n/)
+      .filter((line) => line.trim().length > 0);
+  } catch (error) {
+    logger.error(
+      `[ignore.ts] Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return [];
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Minimal logging interface shared by the extension and the CLI. The extension
+ * routes core logs to its output channel; the CLI writes them to stderr.
+ */
+export interface Logger {
+  trace(message: string, ...args: unknown[]): void;
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+const silentLogger: Logger = {
+  trace: () => {},
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+let activeLogger: Logger = silentLogger;
+
+/**
+ * Sets where core modules write their logs.
+ * @param target - The logger to use, or undefined to discard logs
+ */
+export function setLogger(target: Logger | undefined): void {
+  activeLogger = target ?? silentLogger;
+}
+
+/**
+ * Logger used by core modules. Forwards to the logger set with `setLogger`.
+ */
+export const logger: Logger = {
+  trace: (message, ...args) => activeLogger.trace(message, ...args),
+  debug: (message, ...args) => activeLogger.debug(message, ...args),
+  info: (message, ...args) => activeLogger.info(message, ...args),
+  warn: (message, ...args) => activeLogger.warn(message, ...args),
+  error: (message, ...args) => activeLogger.error(message, ...args),
+};
@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { logger } from './logger';
+
+/**
+ * Recursively collects the Python files below a directory, skipping paths
+ * rejected by `isIgnored`. Unreadable directories are logged and skipped.
+ *
+ * @param dir - Directory to search
+ * @param isIgnored - Decides whether a file or directory is skipped
+ * @param signal - Optional signal that stops the search when aborted
+ * @returns Absolute paths of the Python files found
+ */
+export async function findPythonFiles(
+  dir: string,
+  isIgnored: (filePath: string, isDirectory: boolean) => boolean,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const pythonFiles: string[] = [];
+
+  async function walk(current: string): Promise<void> {
+    if (signal?.aborted) return;
+
+    try {
+      const entries = await fs.promises.readdir(current, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(current, entry.name);
+
+        if (isIgnored(fullPath, entry.isDirectory())) {
+          continue;
+        }
+
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile() && fullPath.endsWith('.py')) {
+          pythonFiles.push(fullPath);
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `[pythonFiles.ts] Scan error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  await walk(dir);
+  return pythonFiles;
+}
@@ -0,0 +1,227 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import { FilterSmellConfig } from './smellConfig';
+import { getSmellDocsUrl } from './smellDocs';
+
+const SARIF_SCHEMA =
+  'https://docs.oasis-open.org/sarif/sarif/v2.1.0/errata01/os/schemas/sarif-schema-2.1.0.json';
+const SRCROOT = '%SRCROOT%';
+const FINGERPRINT_KEY = 'ecoFingerprint/v1';
+
+// Subset of the SARIF 2.1.0 object model written by the export
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId?: string };
+    region: SarifRegion;
+  };
+  logicalLocations?: { name: string; fullyQualifiedName?: string }[];
+}
+
+export interface SarifRule {
+  id: string;
+  name?: string;
+  shortDescription?: { text: string };
+  fullDescription?: { text: string };
+  helpUri?: string;
+  defaultConfiguration?: { level: SarifLevel; enabled?: boolean };
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  properties: {
+    confidence: string;
+    additionalInfo: AdditionalInfo;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version?: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    columnKind: 'unicodeCodePoints';
+    results: SarifResult[];
+  }[];
+}
+
+/**
+ * Options for building a SARIF log.
+ */
+export interface SarifOptions {
+  /** Folder that result paths are made relative to */
+  rootPath: string;
+  /** Version of the tool that produced the smells */
+  toolVersion?: string;
+  /** Configured severity per smell symbol ("error", "warning", "information", "hint") */
+  severities?: Record<string, string>;
+}
+
+/**
+ * Converts detected smells into a SARIF 2.1.0 log with one rule per smell
+ * definition and one result per smell. Paths are relative to `%SRCROOT%` and
+ * smell fingerprints become partial fingerprints, so logs from different
+ * branches or checkouts can be compared.
+ * @param smells - The smells to export
+ * @param definitions - Smell definitions keyed by symbol (see `getFilterSmells`)
+ * @param options - Workspace root, tool version and severities
+ * @returns The SARIF log
+ */
+export function buildSarifLog(
+  smells: Smell[],
+  definitions: Record<string, FilterSmellConfig>,
+  options: SarifOptions,
+): SarifLog {
+  const severities = options.severities ?? {};
+  const rules: SarifRule[] = Object.entries(definitions ?? {}).map(
+    ([symbol, definition]) => ({
+      id: symbol,
+      name: definition.acronym,
+      shortDescription: { text: definition.name },
+      fullDescription: { text: definition.smell_description },
+      helpUri: getSmellDocsUrl(symbol),
+      defaultConfiguration: {
+        level: toSarifLevel(severities[symbol]),
+        enabled: definition.enabled,
+      },
+      properties: { messageId: definition.message_id },
+    }),
+  );
+  const ruleIndexes = new Map(rules.map((rule, index) => [rule.id, index]));
+
+  const results = smells.map((smell): SarifResult => {
+    let ruleIndex = ruleIndexes.get(smell.symbol);
+    if (ruleIndex === undefined) {
+      // Smells without a local definition still need a rule to point at
+      ruleIndex =
+        rules.push({ id: smell.symbol, helpUri: getSmellDocsUrl(smell.symbol) }) - 1;
+      ruleIndexes.set(smell.symbol, ruleIndex);
+    }
+
+    const result: SarifResult = {
+      ruleId: smell.symbol,
+      ruleIndex,
+      level: toSarifLevel(severities[smell.symbol]),
+      message: { text: smell.message },
+      locations: (smell.occurences ?? []).map((occurrence) =>
+        toLocation(smell, occurrence, options.rootPath),
+      ),
+      properties: {
+        confidence: smell.confidence,
+        additionalInfo: smell.additionalInfo ?? {},
+      },
+    };
+    if (smell.fingerprint) {
+      result.partialFingerprints = { [FINGERPRINT_KEY]: smell.fingerprint };
+    }
+    return result;
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'EcoOptimizer',
+            version: options.toolVersion,
+            informationUri:
+              'https://github.com/ssm-lab/capstone--sco-vs-code-plugin',
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          [SRCROOT]: {
+            uri: pathToFileURL(options.rootPath).href.replace(/\/?$/, '/'),
+          },
+        },
+        columnKind: 'unicodeCodePoints',
+        results,
+      },
+    ],
+  };
+}
+
+/**
+ * Maps an extension severity to a SARIF level. Information and hints are notes.
+ * @param severity - Severity from `ecooptimizer.detection.smellsSeverity`
+ */
+export function toSarifLevel(severity: string | undefined): SarifLevel {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+function toLocation(
+  smell: Smell,
+  occurrence: Occurrence,
+  rootPath: string,
+): SarifLocation {
+  const region: SarifRegion = {
+    startLine: Math.max(occurrence.line, 1),
+    startColumn: Math.max(occurrence.column ?? 1, 1),
+    endLine: occurrence.endLine,
+    endColumn: occurrence.endColumn,
+  };
+
+  const location: SarifLocation = {
+    physicalLocation: {
+      artifactLocation: toArtifactLocation(smell.path, rootPath),
+      region,
+    },
+  };
+  if (smell.obj) {
+    location.logicalLocations = [
+      {
+        name: smell.obj,
+        fullyQualifiedName: smell.module
+          ? `${smell.module}.${smell.obj}`
+          : smell.obj,
+      },
+    ];
+  }
+  return location;
+}
+
+function toArtifactLocation(
+  filePath: string,
+  rootPath: string,
+): { uri: string; uriBaseId?: string } {
+  const relativePath = path.relative(rootPath, filePath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return { uri: pathToFileURL(filePath).href };
+  }
+  return {
+    uri: relativePath.split(path.sep).map(encodeURIComponent).join('/'),
+    uriBaseId: SRCROOT,
+  };
+}
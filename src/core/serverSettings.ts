@@ -0,0 +1,103 @@
+import { envConfig } from '../utils/envConfig';
+
+/**
+ * Connection settings for the backend server.
+ */
+export interface ServerSettings {
+  /** Host name or IP address of the backend */
+  host: string;
+  /** Port the backend listens on */
+  port: number;
+  /** Protocol for HTTP requests (WebSockets use ws/wss accordingly) */
+  protocol: 'http' | 'https';
+  /** Request timeout in milliseconds (0 disables the timeout) */
+  requestTimeout: number;
+  /** Number of times a failed request is retried */
+  retries: number;
+  /** Initial delay between retries in milliseconds, doubled on each attempt */
+  retryBackoff: number;
+}
+
+/**
+ * Builds the fallback settings from the bundled environment configuration.
+ */
+export function getDefaultServerSettings(): ServerSettings {
+  const [host, port] = (envConfig.SERVER_URL ?? '127.0.0.1:8000').split(':');
+
+  return {
+    host,
+    port: Number(port) || 8000,
+    protocol: 'http',
+    requestTimeout: 120000,
+    retries: 2,
+    retryBackoff: 500,
+  };
+}
+
+/**
+ * Validates raw setting values, falling back to the defaults for invalid or
+ * missing ones.
+ * @param values - Values read from the settings or the command line
+ * @returns The resolved server settings
+ */
+export function resolveServerSettings(values: {
+  [K in keyof ServerSettings]?: unknown;
+}): ServerSettings {
+  const defaults = getDefaultServerSettings();
+  const { host, port, protocol, requestTimeout, retries, retryBackoff } = values;
+
+  return {
+    host: typeof host === 'string' && host.trim() ? host.trim() : defaults.host,
+    port: isNonNegativeInteger(port) && port > 0 ? port : defaults.port,
+    protocol: protocol === 'https' ? 'https' : defaults.protocol,
+    requestTimeout: isNonNegativeInteger(requestTimeout)
+      ? requestTimeout
+      : defaults.requestTimeout,
+    retries: isNonNegativeInteger(retries) ? retries : defaults.retries,
+    retryBackoff: isNonNegativeInteger(retryBackoff)
+      ? retryBackoff
+      : defaults.retryBackoff,
+  };
+}
+
+/**
+ * Splits a server address such as `https://eco.example.com:8443` or
+ * `127.0.0.1:8000` into host, port and protocol.
+ * @param address - The server address
+ * @returns The connection values found in the address
+ * @throws Error when the address cannot be parsed
+ */
+export function parseServerAddress(
+  address: string,
+): Pick<ServerSettings, 'host' | 'port' | 'protocol'> {
+  const url = new URL(/^[a-z]+:\/\//i.test(address) ? address : `http://${address}`);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported server protocol: ${url.protocol}`);
+  }
+
+  const protocol = url.protocol === 'https:' ? 'https' : 'http';
+  return {
+    host: url.hostname,
+    port: url.port ? Number(url.port) : protocol === 'https' ? 443 : 80,
+    protocol,
+  };
+}
+
+/**
+ * Base URL for HTTP requests to the backend (e.g. `http://127.0.0.1:8000`).
+ */
+export function formatBaseUrl(settings: ServerSettings): string {
+  return `${settings.protocol}://${settings.host}:${settings.port}`;
+}
+
+/**
+ * Base URL for the backend log WebSockets (e.g. `ws://127.0.0.1:8000/logs`).
+ */
+export function formatWebSocketBaseUrl(settings: ServerSettings): string {
+  const wsProtocol = settings.protocol === 'https' ? 'wss' : 'ws';
+  return `${wsProtocol}://${settings.host}:${settings.port}/logs`;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
@@ -0,0 +1,161 @@
+import { AnalyzerOption, FilterSmellConfig } from './smellConfig';
+
+/**
+ * A smell the backend can detect, as advertised by its catalog.
+ */
+export interface CatalogSmell {
+  name: string;
+  message_id: string;
+  acronym: string;
+  smell_description?: string;
+  /** Whether the smell is detected when no setting says otherwise */
+  enabled?: boolean;
+  analyzer_options?: Record<string, AnalyzerOption>;
+  /** Default highlight colour */
+  colour?: string;
+}
+
+/**
+ * The smells a backend can detect, served by `GET /smells/catalog`.
+ */
+export interface SmellCatalog {
+  /** Version of the backend serving the catalog */
+  version: string;
+  /** Oldest extension version the backend supports */
+  min_extension_version?: string;
+  /** Smells keyed by symbol */
+  smells: Record<string, CatalogSmell>;
+}
+
+/**
+ * Validates a catalog returned by the backend. Smells missing their name,
+ * message ID or acronym are dropped.
+ * @param data - The parsed response body
+ * @returns The catalog
+ * @throws Error when the response is not a smell catalog
+ */
+export function parseSmellCatalog(data: unknown): SmellCatalog {
+  const catalog = data as Partial<SmellCatalog> | null;
+  if (
+    !catalog ||
+    typeof catalog.version !== 'string' ||
+    typeof catalog.smells !== 'object' ||
+    catalog.smells === null ||
+    Array.isArray(catalog.smells)
+  ) {
+    throw new Error('The response is not a smell catalog');
+  }
+
+  const smells = Object.fromEntries(
+    Object.entries(catalog.smells).filter(
+      ([, smell]) =>
+        typeof smell?.name === 'string' &&
+        typeof smell.message_id === 'string' &&
+        typeof smell.acronym === 'string',
+    ),
+  );
+
+  return {
+    version: catalog.version,
+    ...(typeof catalog.min_extension_version === 'string' && {
+      min_extension_version: catalog.min_extension_version,
+    }),
+    smells,
+  };
+}
+
+/**
+ * Adds the smells advertised by the backend to the bundled definitions. The
+ * backend's names, descriptions and option schemas replace the bundled ones,
+ * while bundled option fields the backend leaves out are kept. Smells the
+ * backend does not advertise are left unchanged.
+ * @param smells - The bundled smell definitions
+ * @param catalog - The backend catalog, or undefined when none is available
+ * @returns A new configuration with the catalog merged in
+ */
+export function mergeSmellCatalog(
+  smells: Record<string, FilterSmellConfig>,
+  catalog: SmellCatalog | undefined,
+): Record<string, FilterSmellConfig> {
+  if (!catalog) return smells;
+
+  const merged = { ...smells };
+  for (const [symbol, smell] of Object.entries(catalog.smells)) {
+    const local = smells[symbol];
+    const localOptions = local?.analyzer_options ?? {};
+    const options = smell.analyzer_options
+      ? Object.fromEntries(
+          Object.entries(smell.analyzer_options).map(([key, option]) => [
+            key,
+            { ...localOptions[key], ...option },
+          ]),
+        )
+      : local?.analyzer_options;
+
+    merged[symbol] = {
+      name: smell.name,
+      message_id: smell.message_id,
+      acronym: smell.acronym,
+      smell_description: smell.smell_description ?? local?.smell_description ?? '',
+      enabled: smell.enabled ?? local?.enabled ?? true,
+      ...(options && { analyzer_options: options }),
+    };
+  }
+  return merged;
+}
+
+/**
+ * Returns the default highlight colours of the catalog's smells.
+ * @param catalog - The backend catalog
+ * @returns Colours keyed by smell symbol
+ */
+export function getCatalogColours(
+  catalog: SmellCatalog | undefined,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(catalog?.smells ?? {})
+      .filter(([, smell]) => typeof smell.colour === 'string')
+      .map(([symbol, smell]) => [symbol, smell.colour as string]),
+  );
+}
+
+/**
+ * Compares two dotted version numbers. Pre-release and build suffixes are
+ * ignored.
+ * @returns A negative number when `a` is older than `b`, a positive number
+ *   when it is newer and 0 when they are equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string): number[] =>
+    version
+      .split(/[-+]/)[0]
+      .split('.')
+      .map((part) => parseInt(part, 10) || 0);
+  const [left, right] = [parse(a), parse(b)];
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Checks whether the backend serving a catalog supports the extension, using
+ * the backend's `min_extension_version`. The backend and the extension are
+ * versioned independently, so a backend that declares no minimum is assumed
+ * to support every version.
+ * @param extensionVersion - The version of the extension
+ * @param catalog - The backend catalog
+ * @returns A description of the mismatch, or undefined when compatible
+ */
+export function checkCatalogVersion(
+  extensionVersion: string,
+  catalog: SmellCatalog,
+): string | undefined {
+  if (!catalog.min_extension_version) return undefined;
+
+  return compareVersions(extensionVersion, catalog.min_extension_version) < 0
+    ? `Backend ${catalog.version} requires extension ${catalog.min_extension_version} or newer (installed: ${extensionVersion})`
+    : undefined;
+}
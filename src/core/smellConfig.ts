@@ -0,0 +1,390 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+/**
+ * A value of an analyzer option.
+ */
+export type AnalyzerOptionValue = number | string | boolean;
+
+/**
+ * The kind of value an analyzer option takes.
+ */
+export type AnalyzerOptionType =
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'enum';
+
+/**
+ * An analyzer option of a smell and the schema its values must follow.
+ */
+export interface AnalyzerOption {
+  label: string;
+  description: string;
+  value: AnalyzerOptionValue;
+  /** Inferred from `enum`, `default` or `value` when left out */
+  type?: AnalyzerOptionType;
+  minimum?: number;
+  maximum?: number;
+  /** Values of numeric options must be multiples of the step, counted from `minimum` */
+  step?: number;
+  /** Allowed values of `enum` options */
+  enum?: (string | number)[];
+  default?: AnalyzerOptionValue;
+  /** Unit shown after the value (e.g., "characters") */
+  unit?: string;
+}
+
+/**
+ * Defines the structure of the smell configuration in smells.json.
+ * Used by FilterSmellsProvider.ts (modifies JSON based on user input).
+ */
+export interface FilterSmellConfig {
+  name: string;
+  message_id: string;
+  acronym: string;
+  smell_description: string;
+  enabled: boolean;
+  analyzer_options?: Record<string, AnalyzerOption>;
+}
+
+/**
+ * Defines the structure of enabled smells sent to the backend.
+ */
+export interface DetectSmellConfig {
+  message_id: string;
+  acronym: string;
+  options: Record<string, AnalyzerOptionValue>;
+}
+
+/**
+ * Settings that change the bundled configuration of a single smell. Values
+ * left out keep the configuration they override.
+ */
+export interface SmellOverride {
+  enabled?: boolean;
+  options?: Record<string, AnalyzerOptionValue>;
+}
+
+let filterSmells: Record<string, FilterSmellConfig>;
+let enabledSmells: Record<string, DetectSmellConfig>;
+
+/**
+ * Reads and parses a smells configuration file.
+ * @param filePath - Path of the JSON configuration file
+ * @returns The smells configuration
+ * @throws Error when the file cannot be read or is not valid JSON
+ */
+export function readSmellConfigFile(
+  filePath: string,
+): Record<string, FilterSmellConfig> {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Returns the kind of value an analyzer option takes.
+ * @param option - The analyzer option
+ */
+export function getOptionType(option: AnalyzerOption): AnalyzerOptionType {
+  if (option.type) return option.type;
+  if (option.enum) return 'enum';
+
+  const sample = option.default ?? option.value;
+  if (typeof sample === 'boolean') return 'boolean';
+  if (typeof sample === 'number') {
+    return Number.isInteger(sample) ? 'integer' : 'number';
+  }
+  return 'string';
+}
+
+/**
+ * Checks a value against the schema of an analyzer option.
+ * @param option - The analyzer option
+ * @param value - The value to check
+ * @returns A message describing why the value is invalid, or undefined if it is valid
+ */
+export function validateOptionValue(
+  option: AnalyzerOption,
+  value: unknown,
+): string | undefined {
+  const type = getOptionType(option);
+
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'Must be true or false';
+    case 'string':
+      return typeof value === 'string' ? undefined : 'Must be text';
+    case 'enum':
+      return (option.enum ?? []).includes(value as string | number)
+        ? undefined
+        : `Must be one of: ${(option.enum ?? []).join(', ')}`;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return 'Must be a number';
+  }
+  if (type === 'integer' && !Number.isInteger(value)) {
+    return 'Must be a whole number';
+  }
+  if (option.minimum !== undefined && value < option.minimum) {
+    return `Must be at least ${option.minimum}`;
+  }
+  if (option.maximum !== undefined && value > option.maximum) {
+    return `Must be at most ${option.maximum}`;
+  }
+  if (option.step) {
+    const steps = (value - (option.minimum ?? 0)) / option.step;
+    // Tolerates floating point error of decimal steps
+    if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+      return `Must be in steps of ${option.step}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Converts text entered for an analyzer option to a value of its type.
+ * @param option - The analyzer option
+ * @param input - The text entered
+ * @returns The value, which still has to pass `validateOptionValue`
+ */
+export function parseOptionInput(
+  option: AnalyzerOption,
+  input: string,
+): AnalyzerOptionValue {
+  const trimmed = input.trim();
+
+  switch (getOptionType(option)) {
+    case 'boolean':
+      return trimmed === 'true' ? true : trimmed === 'false' ? false : trimmed;
+    case 'string':
+      return input;
+    case 'enum':
+      return (
+        (option.enum ?? []).find((value) => String(value) === trimmed) ?? trimmed
+      );
+    default:
+      return trimmed === '' ? NaN : Number(trimmed);
+  }
+}
+
+/**
+ * Formats the value of an analyzer option for display, with its unit.
+ * @param option - The analyzer option
+ * @param value - The value to format, by default the option's current value
+ */
+export function formatOptionValue(
+  option: AnalyzerOption,
+  value: AnalyzerOptionValue = option.value,
+): string {
+  return option.unit ? `${value} ${option.unit}` : String(value);
+}
+
+/**
+ * Applies overrides to a smells configuration. Overrides of smells or options
+ * missing from the configuration are ignored, as are option values that do
+ * not match the option's schema.
+ * @param smells - The configuration to override
+ * @param overrides - Overrides keyed by smell symbol
+ * @param onInvalidOption - Called for every option value that is ignored
+ * @returns A copy of the configuration with the overrides applied
+ */
+export function applySmellOverrides(
+  smells: Record<string, FilterSmellConfig>,
+  overrides: Record<string, SmellOverride>,
+  onInvalidOption?: (symbol: string, optionKey: string, message: string) => void,
+): Record<string, FilterSmellConfig> {
+  const result: Record<string, FilterSmellConfig> = JSON.parse(
+    JSON.stringify(smells),
+  );
+
+  for (const [symbol, override] of Object.entries(overrides)) {
+    const smell = result[symbol];
+    if (!smell || !override) continue;
+
+    if (typeof override.enabled === 'boolean') {
+      smell.enabled = override.enabled;
+    }
+    for (const [optionKey, value] of Object.entries(override.options ?? {})) {
+      const option = smell.analyzer_options?.[optionKey];
+      if (!option) continue;
+
+      const message = validateOptionValue(option, value);
+      if (message) {
+        onInvalidOption?.(symbol, optionKey, message);
+      } else {
+        option.value = value;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merges changes into a set of overrides, keeping the values the changes
+ * leave out.
+ * @param overrides - The current overrides, keyed by smell symbol
+ * @param changes - The values to set, keyed by smell symbol
+ * @returns The merged overrides
+ */
+export function mergeSmellOverrides(
+  overrides: Record<string, SmellOverride> | undefined,
+  changes: Record<string, SmellOverride>,
+): Record<string, SmellOverride> {
+  const merged = { ...overrides };
+  for (const [symbol, change] of Object.entries(changes)) {
+    const current = merged[symbol] ?? {};
+    merged[symbol] = {
+      ...current,
+      ...(change.enabled !== undefined && { enabled: change.enabled }),
+      ...(change.options && { options: { ...current.options, ...change.options } }),
+    };
+  }
+  return merged;
+}
+
+/**
+ * Removes an analyzer option of a smell from a set of overrides.
+ * @param overrides - The current overrides, keyed by smell symbol
+ * @param symbol - The smell the option belongs to
+ * @param optionKey - The option to remove
+ * @returns The remaining overrides, or undefined when the option is not
+ *   overridden
+ */
+export function removeOptionOverride(
+  overrides: Record<string, SmellOverride> | undefined,
+  symbol: string,
+  optionKey: string,
+): Record<string, SmellOverride> | undefined {
+  const override = overrides?.[symbol];
+  if (!override?.options || !(optionKey in override.options)) return undefined;
+
+  const options = { ...override.options };
+  delete options[optionKey];
+  return {
+    ...overrides,
+    [symbol]: {
+      ...override,
+      options: Object.keys(options).length > 0 ? options : undefined,
+    },
+  };
+}
+
+/**
+ * Makes a smells configuration the active one for detection and lookups.
+ * @param smells - The smells configuration
+ */
+export function setSmellConfig(smells: Record<string, FilterSmellConfig>): void {
+  filterSmells = smells;
+  enabledSmells = parseEnabledSmells(smells);
+}
+
+/**
+ * Extracts raw smells data from the loaded configuration.
+ * @returns A dictionary of smell config data for smell filtering.
+ */
+export function getFilterSmells(): Record<string, FilterSmellConfig> {
+  return filterSmells;
+}
+
+/**
+ * Extracts enabled smells from the loaded configuration.
+ * @returns A dictionary of enabled smells formatted for backend processing.
+ */
+export function getEnabledSmells(): Record<string, DetectSmellConfig> {
+  return enabledSmells;
+}
+
+/**
+ * Parses the raw smells into a formatted object.
+ * @param smells - The smells configuration.
+ * @returns A dictionary of enabled smells formatted for backend processing.
+ */
+export function parseEnabledSmells(
+  smells: Record<string, FilterSmellConfig>,
+): Record<string, DetectSmellConfig> {
+  return Object.fromEntries(
+    Object.entries(smells)
+      .filter(([, smell]) => smell.enabled)
+      .map(([smellKey, smellData]) => [
+        smellKey,
+        {
+          message_id: smellData.message_id,
+          acronym: smellData.acronym,
+          options: Object.fromEntries(
+            Object.entries(smellData.analyzer_options ?? {}).map(
+              ([optionKey, optionData]) => [optionKey, optionData.value],
+            ),
+          ),
+        },
+      ]),
+  );
+}
+
+/**
+ * Transforms enabled smells into the `enabled_smells` payload of the backend.
+ * @param smells - Enabled smells, as returned by `getEnabledSmells`
+ * @returns The analyzer options of each enabled smell
+ */
+export function toBackendOptions(
+  smells: Record<string, DetectSmellConfig>,
+): Record<string, Record<string, AnalyzerOptionValue>> {
+  return Object.fromEntries(
+    Object.entries(smells).map(([key, value]) => [key, value.options]),
+  );
+}
+
+/**
+ * Fingerprints the detection settings of a single smell, so cached results can
+ * be matched to the options they were detected with.
+ * @param config - The enabled smell, as returned by `getEnabledSmells`
+ * @returns A short hash of the smell's message ID and analyzer options
+ */
+export function getSmellConfigFingerprint(config: DetectSmellConfig): string {
+  const options = Object.keys(config.options ?? {})
+    .sort()
+    .map((key) => [key, config.options[key]]);
+
+  return createHash('sha256')
+    .update(JSON.stringify([config.message_id, options]))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Returns the acronym for a given message ID.
+ * @param messageId - The message ID to look up (e.g., "R0913").
+ * @returns The acronym (e.g., "LPL") or undefined if not found.
+ */
+export function getAcronymByMessageId(messageId: string): string | undefined {
+  const match = Object.values(filterSmells).find(
+    (smell) => smell.message_id === messageId,
+  );
+  return match?.acronym;
+}
+
+/**
+ * Returns the full name for a given message ID.
+ * @param messageId - The message ID to look up (e.g., "R0913").
+ * @returns The full name (e.g., "Long Parameter List") or undefined if not found.
+ */
+export function getNameByMessageId(messageId: string): string | undefined {
+  const match = Object.values(filterSmells).find(
+    (smell) => smell.message_id === messageId,
+  );
+  return match?.name;
+}
+
+/**
+ * Returns the description for a given message ID.
+ * @param messageId - The message ID to look up (e.g., "R0913").
+ * @returns The description or undefined if not found.
+ */
+export function getDescriptionByMessageId(messageId: string): string | undefined {
+  const match = Object.values(filterSmells).find(
+    (smell) => smell.message_id === messageId,
+  );
+  return match?.smell_description; // This assumes your FilterSmellConfig has a description field
+}
@@ -0,0 +1,14 @@
+/**
+ * Wiki page documenting every smell, with one section per smell symbol.
+ */
+export const SMELL_DOCS_URL =
+  'https://github.com/ssm-lab/capstone--sco-vs-code-plugin/wiki/Code-Smells';
+
+/**
+ * Builds the documentation link for a smell.
+ * @param symbol - The smell symbol (e.g., "long-element-chain")
+ * @returns URL of the smell's section in the wiki
+ */
+export function getSmellDocsUrl(symbol: string): string {
+  return `${SMELL_DOCS_URL}#${symbol}`;
+}
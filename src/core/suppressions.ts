@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+
+import { getAcronymByMessageId } from './smellConfig';
+import { logger } from './logger';
+
+/**
+ * Smells a pragma applies to: every smell, or only the listed codes.
+ */
+type SuppressionScope = 'all' | Set<string>;
+
+/**
+ * Suppression pragmas found in a Python source file.
+ */
+export interface SuppressionPragmas {
+  /** Smells suppressed for the whole file (`# eco: ignore-file[...]`) */
+  file?: SuppressionScope;
+  /** Smells suppressed per 1-based line (`# eco: ignore[...]`, `# eco: ignore-next-line[...]`) */
+  lines: Map<number, SuppressionScope>;
+}
+
+const PRAGMA_PATTERN =
+  /#\s*eco:\s*(ignore-file|ignore-next-line|ignore)\b(?:\[([^\]]*)\])?/g;
+const LINE_PRAGMA_PATTERN = /#\s*eco:\s*ignore\b(?!-)(?:\[([^\]]*)\])?/;
+
+/**
+ * Parses the `# eco:` suppression pragmas of a source file:
+ * - `# eco: ignore[LPL]` suppresses smells reported on the same line
+ * - `# eco: ignore-next-line[LPL]` suppresses smells reported on the next line
+ * - `# eco: ignore-file[CRC,SCL]` suppresses smells anywhere in the file
+ *
+ * Omitting the bracketed list suppresses every smell in the pragma's scope.
+ * @param source - Contents of the Python file
+ * @returns The suppressions declared in the file
+ */
+export function parseSuppressionPragmas(source: string): SuppressionPragmas {
+  const pragmas: SuppressionPragmas = { lines: new Map() };
+
+  source.split(/\r?\n/).forEach((text, index) => {
+    for (const match of text.matchAll(PRAGMA_PATTERN)) {
+      const scope = parseScope(match[2]);
+
+      switch (match[1]) {
+        case 'ignore-file':
+          pragmas.file = mergeScopes(pragmas.file, scope);
+          break;
+        case 'ignore-next-line':
+          addLineScope(pragmas, index + 2, scope);
+          break;
+        default:
+          addLineScope(pragmas, index + 1, scope);
+      }
+    }
+  });
+
+  return pragmas;
+}
+
+/**
+ * Checks whether a smell is suppressed by a pragma. Line pragmas apply to the
+ * line a smell is reported on (its first occurrence). Codes match the smell's
+ * acronym, message id or symbol, case-insensitively.
+ * @param smell - The detected smell
+ * @param pragmas - Suppressions parsed from the smell's file
+ */
+export function isSmellSuppressed(
+  smell: Smell,
+  pragmas: SuppressionPragmas,
+): boolean {
+  const codes = [
+    getAcronymByMessageId(smell.messageId),
+    smell.messageId,
+    smell.symbol,
+  ]
+    .filter((code): code is string => Boolean(code))
+    .map((code) => code.toUpperCase());
+
+  const matches = (scope?: SuppressionScope): boolean =>
+    scope === 'all' || (!!scope && codes.some((code) => scope.has(code)));
+
+  const line = smell.occurences?.[0]?.line;
+  return (
+    matches(pragmas.file) ||
+    (typeof line === 'number' && matches(pragmas.lines.get(line)))
+  );
+}
+
+/**
+ * Splits detected smells into active and suppressed ones based on the
+ * pragmas in the analyzed file. Unreadable files suppress nothing.
+ * @param filePath - Path of the analyzed file
+ * @param smells - Smells returned by the backend
+ * @param source - Text that was analyzed, if not the file on disk
+ * @returns The smells to report and the smells hidden by pragmas
+ */
+export async function filterSuppressedSmells(
+  filePath: string,
+  smells: Smell[],
+  source?: string,
+): Promise<{ active: Smell[]; suppressed: Smell[] }> {
+  if (smells.length === 0) {
+    return { active: [], suppressed: [] };
+  }
+
+  try {
+    source ??= await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error) {
+    logger.trace(
+      `[suppressions.ts] Could not read ${filePath} for pragmas: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return { active: smells, suppressed: [] };
+  }
+
+  const pragmas = parseSuppressionPragmas(source);
+  const active: Smell[] = [];
+  const suppressed: Smell[] = [];
+
+  for (const smell of smells) {
+    (isSmellSuppressed(smell, pragmas) ? suppressed : active).push(smell);
+  }
+
+  return { active, suppressed };
+}
+
+/**
+ * How a source line ends for the Python tokenizer: inside an open string
+ * literal, or continued with a `\`.
+ */
+interface LineState {
+  /** Quote of the string literal the line ends in */
+  quote?: string;
+  /** The line ends in a `\` continuation */
+  continued: boolean;
+}
+
+/**
+ * Adds a smell code to the same-line pragma of a source line, creating the
+ * pragma if the line has none. Lines that cannot end in a comment, because
+ * they continue with a `\` or end inside a string, get a
+ * `# eco: ignore-next-line[...]` line above them instead.
+ * @param lineText - The current text of the line
+ * @param code - The smell acronym to suppress
+ * @param precedingLines - The lines of the file before the line, to tell
+ * whether the line starts inside a multi-line string
+ * @returns The line text with the pragma, preceded by the pragma line if one
+ * was added
+ * @throws Error if neither pragma can be added without changing the code
+ */
+export function addSuppressionPragma(
+  lineText: string,
+  code: string,
+  precedingLines: string[] = [],
+): string {
+  const before = precedingLines.reduce<LineState>(
+    (state, line) => scanLine(line, state.quote),
+    { continued: false },
+  );
+  const after = scanLine(lineText, before.quote);
+  const match = before.quote ? null : LINE_PRAGMA_PATTERN.exec(lineText);
+
+  if (!match) {
+    if (!after.quote && !after.continued) {
+      return `${lineText.trimEnd()}  # eco: ignore[${code}]`;
+    }
+    if (!before.quote && !before.continued) {
+      const indent = /^\s*/.exec(lineText)![0];
+      return `${indent}# eco: ignore-next-line[${code}]\n${lineText}`;
+    }
+    throw new Error('The smell is inside a string or a continued line');
+  }
+
+  // A bare `# eco: ignore` already suppresses everything on the line
+  if (match[1] === undefined) {
+    return lineText;
+  }
+
+  const codes = match[1]
+    .split(',')
+    .map((existing) => existing.trim())
+    .filter(Boolean);
+  if (codes.some((existing) => existing.toUpperCase() === code.toUpperCase())) {
+    return lineText;
+  }
+
+  const pragma = `# eco: ignore[${[...codes, code].join(',')}]`;
+  return (
+    lineText.slice(0, match.index) +
+    pragma +
+    lineText.slice(match.index + match[0].length)
+  );
+}
+
+/**
+ * Tokenizes a source line far enough to tell how it ends.
+ * @param lineText - The line to scan
+ * @param quote - Quote of the string literal the line starts in, if any
+ */
+function scanLine(lineText: string, quote?: string): LineState {
+  for (let i = 0; i < lineText.length; i++) {
+    const char = lineText[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (lineText.startsWith(quote, i)) {
+        i += quote.length - 1;
+        quote = undefined;
+      }
+    } else if (char === '#') {
+      // A comment runs to the end of the line
+      return { continued: false };
+    } else if (char === '"' || char === "'") {
+      quote = lineText.startsWith(char.repeat(3), i) ? char.repeat(3) : char;
+      i += quote.length - 1;
+    }
+  }
+
+  const continued = lineText.endsWith('\\');
+  // Single-quoted strings only span lines through a `\` continuation
+  if (quote?.length === 1 && !continued) {
+    quote = undefined;
+  }
+  return { quote, continued: !quote && continued };
+}
+
+function parseScope(codes: string | undefined): SuppressionScope {
+  if (codes === undefined) return 'all';
+
+  const parsed = codes
+    .split(',')
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+  return parsed.length > 0 ? new Set(parsed) : 'all';
+}
+
+function mergeScopes(
+  current: SuppressionScope | undefined,
+  scope: SuppressionScope,
+): SuppressionScope {
+  if (!current) return scope;
+  if (current === 'all' || scope === 'all') return 'all';
+  return new Set([...current, ...scope]);
+}
+
+function addLineScope(
+  pragmas: SuppressionPragmas,
+  line: number,
+  scope: SuppressionScope,
+): void {
+  pragmas.lines.set(line, mergeScopes(pragmas.lines.get(line), scope));
+}
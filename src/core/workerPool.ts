@@ -0,0 +1,29 @@
+/**
+ * Runs an async worker over a list of items with at most `concurrency`
+ * workers in flight. Items are started in order. Once the signal is aborted
+ * no further items are started, while workers already running are awaited.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum number of workers running at the same time
+ * @param worker - Async function processing a single item
+ * @param signal - Optional signal that stops queued items from starting
+ * @returns Promise resolving once every started worker has settled
+ */
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const limit = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  let nextIndex = 0;
+
+  async function runLane(): Promise<void> {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  }
+
+  await Promise.all(Array.from({ length: limit }, () => runLane()));
+}
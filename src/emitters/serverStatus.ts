@@ -9,6 +9,7 @@ export enum ServerStatusType {
   UNKNOWN = 'unknown', // Initial state before first connection attempt
   UP = 'up', // Server is available and responsive
   DOWN = 'down', // Server is unreachable or unresponsive
+  STARTING = 'starting', // Managed server process is being launched
 }
 
 /**
@@ -30,9 +31,14 @@ class ServerStatus extends EventEmitter {
 
   /**
    * Updates server status with change detection and notifications
-   * @param newStatus - Either UP or DOWN status
+   * @param newStatus - UP, DOWN or STARTING status
    */
-  setStatus(newStatus: ServerStatusType.UP | ServerStatusType.DOWN): void {
+  setStatus(
+    newStatus:
+      | ServerStatusType.UP
+      | ServerStatusType.DOWN
+      | ServerStatusType.STARTING,
+  ): void {
     if (this.status !== newStatus) {
       const previousStatus = this.status;
       this.status = newStatus;
@@ -44,13 +50,15 @@ class ServerStatus extends EventEmitter {
 
       // Handle status-specific notifications
       if (newStatus === ServerStatusType.UP) {
-        if (previousStatus !== ServerStatusType.UNKNOWN) {
+        if (previousStatus === ServerStatusType.DOWN) {
           ecoOutput.info('[serverStatus.ts] Server connection re-established');
           vscode.window.showInformationMessage(
             'Backend server reconnected - full functionality restored',
             { modal: false },
           );
         }
+      } else if (newStatus === ServerStatusType.STARTING) {
+        ecoOutput.info('[serverStatus.ts] Server is starting');
       } else {
         ecoOutput.info('[serverStatus.ts] Server connection lost');
         vscode.window.showWarningMessage(
@@ -1,12 +1,6 @@
 import * as vscode from 'vscode';
 import path from 'path';
 
-// let port: number;
-
-// export function getApiPort(): number {
-//   return port;
-// }
-
 // === Output Channel ===
 export const ecoOutput = vscode.window.createOutputChannel('Eco-Optimizer', {
   log: true,
@@ -24,13 +18,34 @@ import { existsSync, promises } from 'fs';
 
 // === Core Utilities ===
 import { envConfig } from './utils/envConfig';
-import { getNameByMessageId, loadSmells } from './utils/smellsData';
+import { setLogger } from './core/logger';
+import {
+  affectsSmellSettings,
+  getNameByMessageId,
+  loadSmells,
+  SMELL_SETTINGS_DIRECTORY,
+  SMELL_SETTINGS_FILENAME,
+} from './utils/smellsData';
+import {
+  affectsIgnorePatterns,
+  isPathIgnored,
+  loadIgnorePatterns,
+} from './utils/ignorePatterns';
+import { affectsBaseline, loadBaseline } from './utils/baseline';
+import { DismissalEntry, loadDismissals } from './utils/dismissals';
 import { initializeStatusesFromCache } from './utils/initializeStatusesFromCache';
+import { loadCachedSmellCatalog, refreshSmellCatalog } from './utils/smellCatalog';
+import { loadSmellScopes } from './utils/smellScopes';
+import { clearChangedLines } from './utils/gitChanges';
 import { checkServerStatus } from './api/backend';
+import { affectsServerSettings, usesExternalServer } from './api/serverConfig';
+import { serverStatus, ServerStatusType } from './emitters/serverStatus';
 
 // === Context & View Providers ===
 import { SmellsCacheManager } from './context/SmellsCacheManager';
+import { ConfigManager } from './context/configManager';
 import {
+  DismissedSmellItem,
   SmellsViewProvider,
   SmellTreeItem,
   TreeItem,
@@ -43,65 +58,127 @@ import { RefactoringDetailsViewProvider } from './providers/RefactoringDetailsVi
 import { configureWorkspace } from './commands/configureWorkspace';
 import { resetConfiguration } from './commands/resetConfiguration';
 import {
+  detectSmellsChanged,
+  detectSmellsDocument,
   detectSmellsFile,
   detectSmellsFolder,
 } from './commands/detection/detectSmells';
 import { registerFilterSmellCommands } from './commands/views/filterSmells';
+import { registerSmellProfileCommands } from './commands/views/smellProfiles';
+import { registerSmellsViewCommands } from './commands/views/smellsViewOptions';
+import { registerSmellNavigationCommands } from './commands/views/navigateSmells';
 import { jumpToSmell } from './commands/views/jumpToSmell';
 import { wipeWorkCache } from './commands/detection/wipeWorkCache';
+import { showCacheStatistics } from './commands/detection/showCacheStatistics';
+import { suppressSmell } from './commands/detection/suppressSmell';
+import {
+  dismissSmell,
+  exportFalsePositives,
+  markFalsePositive,
+  restoreSmell,
+} from './commands/detection/dismissSmell';
+import {
+  createBaseline,
+  listFixedBaselineSmells,
+} from './commands/detection/baseline';
+import {
+  restartServer,
+  showServerMenu,
+  startServer,
+  stopServer,
+} from './commands/manageServer';
 import { refactor, startRefactorSession } from './commands/refactor/refactor';
 import { acceptRefactoring } from './commands/refactor/acceptRefactoring';
 import { rejectRefactoring } from './commands/refactor/rejectRefactoring';
 import { exportMetricsData } from './commands/views/exportMetricsData';
+import { exportSmellsSarif } from './commands/views/exportSmellsSarif';
 
 // === Listeners & UI ===
 import { WorkspaceModifiedListener } from './listeners/workspaceModifiedListener';
+import { SmellPositionTracker } from './listeners/smellPositionTracker';
+import { LintAsYouTypeListener } from './listeners/lintAsYouTypeListener';
 import { FileHighlighter } from './ui/fileHighlighter';
 import { LineSelectionManager } from './ui/lineSelectionManager';
 import { HoverManager } from './ui/hoverManager';
+import { DiagnosticsManager } from './ui/diagnosticsManager';
+import { SmellFileDecorationProvider } from './ui/fileDecorations';
+import { CodeActionManager } from './ui/codeActionManager';
+import { ServerStatusBar } from './ui/serverStatusBar';
+import { SmellProfileStatusBar } from './ui/smellProfileStatusBar';
 import {
   closeAllTrackedDiffEditors,
   registerDiffEditor,
 } from './utils/trackedDiffEditors';
 import { initializeRefactorActionButtons } from './utils/refactorActionButtons';
+import { getVisibleSmells } from './utils/smellVisibility';
 import { LogManager } from './commands/showLogs';
 
 // === Backend Server ===
-// import { ServerProcess } from './lib/processManager';
-// import { DependencyManager } from './lib/dependencyManager';
+import { ServerProcess } from './lib/processManager';
 
 let backendLogManager: LogManager;
-// let server: ServerProcess;
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
+  // Route logs of the editor-independent core to the output channel
+  setLogger(ecoOutput);
   ecoOutput.info('Initializing Eco-Optimizer extension...');
   console.log('Initializing Eco-Optimizer extension...');
 
-  // === Install and Run Backend Server ====
-  // if (!(await DependencyManager.ensureDependencies(context))) {
-  //   vscode.window.showErrorMessage(
-  //     'Cannot run the extension without the ecooptimizer server. Deactivating extension.',
-  //   );
-  // }
+  backendLogManager = new LogManager(context);
 
-  // server = new ServerProcess(context);
-  // try {
-  //   port = await server.start();
+  // === Install and Run Managed Backend Server ===
+  const managedServer = new ServerProcess(context);
+  context.subscriptions.push(managedServer);
 
-  //   console.log(`Server started on port ${port}`);
-  // } catch (error) {
-  //   vscode.window.showErrorMessage(`Failed to start server: ${error}`);
-  // }
+  const serverStatusBar = new ServerStatusBar();
+  serverStatusBar.register(context);
 
-  backendLogManager = new LogManager(context);
+  if (!usesExternalServer()) {
+    startServer(managedServer, context);
+  }
 
   // === Load Core Data ===
-  loadSmells();
+  loadCachedSmellCatalog(context);
+  loadSmells(
+    context.workspaceState.get<string>(envConfig.WORKSPACE_CONFIGURED_PATH!),
+  );
+  await loadSmellScopes(
+    context.workspaceState.get<string>(envConfig.WORKSPACE_CONFIGURED_PATH!),
+  );
 
   // === Start periodic backend status checks ===
   checkServerStatus();
   setInterval(checkServerStatus, 10000);
 
+  // === Reconnect when backend connection settings change ===
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (event) => {
+      if (!affectsServerSettings(event)) {
+        return;
+      }
+
+      if (event.affectsConfiguration('ecooptimizer.server.useExternalServer')) {
+        if (usesExternalServer()) {
+          ecoOutput.info('Switched to an external backend server');
+          await managedServer.stop();
+        } else {
+          ecoOutput.info('Switched to a managed backend server');
+          await startServer(managedServer, context);
+        }
+      }
+
+      ecoOutput.info('Backend connection settings changed - reconnecting...');
+      await checkServerStatus();
+      try {
+        await backendLogManager.reconnect();
+      } catch (error) {
+        ecoOutput.error(
+          `Failed to reconnect backend logs: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+  );
+
   // === Initialize Refactor Action Buttons ===
   initializeRefactorActionButtons(context);
 
@@ -117,13 +194,25 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   );
   const refactoringDetailsViewProvider = new RefactoringDetailsViewProvider();
 
+  try {
+    await smellsCacheManager.initialize();
+  } catch (error) {
+    ecoOutput.error(
+      `Failed to load the smells cache: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  context.subscriptions.push({ dispose: () => smellsCacheManager.flush() });
+
   initializeStatusesFromCache(context, smellsCacheManager, smellsViewProvider);
 
   // === Register Tree Views ===
+  const smellsTreeView = vscode.window.createTreeView('ecooptimizer.smellsView', {
+    treeDataProvider: smellsViewProvider,
+  });
+  smellsViewProvider.setTreeView(smellsTreeView);
+
   context.subscriptions.push(
-    vscode.window.createTreeView('ecooptimizer.smellsView', {
-      treeDataProvider: smellsViewProvider,
-    }),
+    smellsTreeView,
     vscode.window.createTreeView('ecooptimizer.metricsView', {
       treeDataProvider: metricsViewProvider,
       showCollapseAll: true,
@@ -153,16 +242,85 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     Boolean(workspaceConfigured),
   );
 
+  // === Load Ignore Patterns, Baseline and Dismissals ===
+  loadIgnorePatterns(workspaceConfigured);
+  loadBaseline(workspaceConfigured);
+  loadDismissals(workspaceConfigured);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (affectsIgnorePatterns(event)) {
+        loadIgnorePatterns(
+          context.workspaceState.get<string>(envConfig.WORKSPACE_CONFIGURED_PATH!),
+        );
+        smellsViewProvider.refresh();
+        metricsViewProvider.refresh();
+      }
+      if (affectsBaseline(event)) {
+        smellsCacheManager.notifySmellsChanged();
+        smellsViewProvider.refresh();
+      }
+      if (event.affectsConfiguration('ecooptimizer.detection.cacheSizeLimit')) {
+        smellsCacheManager.updateSizeLimit();
+      }
+      if (affectsSmellSettings(event)) {
+        filterSmellsProvider.reloadSmells();
+      }
+    }),
+  );
+
+  // === Reload Smell Settings Committed to .eco/smells.json ===
+  const smellSettingsWatcher = vscode.workspace.createFileSystemWatcher(
+    `**/${SMELL_SETTINGS_DIRECTORY}/${SMELL_SETTINGS_FILENAME}`,
+  );
+  const reloadSmellSettings = (): void => {
+    filterSmellsProvider.reloadSmells();
+  };
+  context.subscriptions.push(
+    smellSettingsWatcher,
+    smellSettingsWatcher.onDidCreate(reloadSmellSettings),
+    smellSettingsWatcher.onDidChange(reloadSmellSettings),
+    smellSettingsWatcher.onDidDelete(reloadSmellSettings),
+  );
+
+  // === Refresh the Backend Smell Catalog Whenever the Backend Connects ===
+  const refreshCatalog = async (status: ServerStatusType): Promise<void> => {
+    if (status === ServerStatusType.UP && (await refreshSmellCatalog(context))) {
+      await filterSmellsProvider.reloadSmells();
+    }
+  };
+  serverStatus.on('change', refreshCatalog);
+  context.subscriptions.push({
+    dispose: () => serverStatus.off('change', refreshCatalog),
+  });
+  // The first health check may have reported the backend before this listener
+  refreshCatalog(serverStatus.getStatus());
+
   // === Register Commands ===
   context.subscriptions.push(
-    // vscode.commands.registerCommand('ecooptimizer.startServer', async () => {
-    //   port = await server.start();
-    // }),
-    // vscode.commands.registerCommand('ecooptimizer.stopServer', async () => {
-    //   server.dispose();
-    // }),
+    vscode.commands.registerCommand('ecooptimizer.startServer', async () => {
+      await startServer(managedServer, context);
+    }),
+    vscode.commands.registerCommand('ecooptimizer.stopServer', async () => {
+      await stopServer(managedServer);
+    }),
+    vscode.commands.registerCommand('ecooptimizer.restartServer', async () => {
+      await restartServer(managedServer, context);
+    }),
+    vscode.commands.registerCommand('ecooptimizer.showServerLogs', () => {
+      ecoOutput.show();
+    }),
+    vscode.commands.registerCommand('ecooptimizer.showServerMenu', async () => {
+      await showServerMenu(managedServer);
+    }),
     vscode.commands.registerCommand('ecooptimizer.configureWorkspace', async () => {
       await configureWorkspace(context);
+      const configuredPath = context.workspaceState.get<string>(
+        envConfig.WORKSPACE_CONFIGURED_PATH!,
+      );
+      loadIgnorePatterns(configuredPath);
+      loadBaseline(configuredPath);
+      loadDismissals(configuredPath);
+      await filterSmellsProvider.reloadSmells();
       smellsViewProvider.refresh();
       metricsViewProvider.refresh();
     }),
@@ -172,6 +330,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       if (didReset) {
         smellsCacheManager.clearAllCachedSmells();
         smellsViewProvider.clearAllStatuses();
+        loadIgnorePatterns(undefined);
+        loadBaseline(undefined);
+        loadDismissals(undefined);
+        await filterSmellsProvider.reloadSmells();
         smellsViewProvider.refresh();
         metricsViewProvider.refresh();
         vscode.window.showInformationMessage(
@@ -186,6 +348,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       await wipeWorkCache(smellsCacheManager, smellsViewProvider);
     }),
 
+    vscode.commands.registerCommand('ecooptimizer.showCacheStatistics', () => {
+      showCacheStatistics(smellsCacheManager);
+    }),
+
     vscode.commands.registerCommand(
       'ecooptimizer.detectSmellsFile',
       async (fileItem: TreeItem) => {
@@ -205,6 +371,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             );
             for (const [name, type] of files) {
               const fullPath = path.join(dirPath, name);
+              if (isPathIgnored(fullPath, type === vscode.FileType.Directory)) {
+                continue;
+              }
               if (type === vscode.FileType.File && name.endsWith('.py')) {
                 const relativePath = path.relative(folderPath, fullPath);
                 allPythonFiles.push({
@@ -219,7 +388,11 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
           };
 
           const currentFile = vscode.window.activeTextEditor?.document.fileName;
-          if (currentFile && currentFile.endsWith('.py')) {
+          if (
+            currentFile &&
+            currentFile.endsWith('.py') &&
+            !isPathIgnored(currentFile)
+          ) {
             const relativePath = path.relative(folderPath, currentFile);
             allPythonFiles.push({
               label: `${path.basename(currentFile)}`,
@@ -270,6 +443,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             return;
           }
         }
+        // Analyzing a single file reports all of its smells, also after a
+        // changed-lines-only run
+        clearChangedLines(filePath);
         detectSmellsFile(filePath, smellsViewProvider, smellsCacheManager);
       },
     ),
@@ -299,6 +475,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             for (const [name, type] of files) {
               const fullPath = path.join(dirPath, name);
               const newRelativePath = path.join(relativePath, name);
+              if (isPathIgnored(fullPath, type === vscode.FileType.Directory)) {
+                continue;
+              }
               if (type === vscode.FileType.File && name.endsWith('.py')) {
                 hasPythonFile = true;
               } else if (type === vscode.FileType.Directory) {
@@ -368,6 +547,17 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       },
     ),
 
+    vscode.commands.registerCommand('ecooptimizer.detectSmellsChanged', () => {
+      const configuredPath = context.workspaceState.get<string>(
+        envConfig.WORKSPACE_CONFIGURED_PATH!,
+      );
+      if (!configuredPath) {
+        vscode.window.showWarningMessage('No workspace configured.');
+        return;
+      }
+      detectSmellsChanged(configuredPath, smellsViewProvider, smellsCacheManager);
+    }),
+
     vscode.commands.registerCommand(
       'ecooptimizer.refactorSmell',
       (item: SmellTreeItem | Smell) => {
@@ -396,8 +586,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
           return;
         }
 
-        const cachedSmells = smellsCacheManager.getCachedSmells(filePath);
-        if (!cachedSmells || cachedSmells.length === 0) {
+        const cachedSmells = getVisibleSmells(
+          smellsCacheManager.getCachedSmells(filePath) ?? [],
+        );
+        if (cachedSmells.length === 0) {
           vscode.window.showInformationMessage('No smells detected in this file.');
           return;
         }
@@ -461,6 +653,66 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       },
     ),
 
+    vscode.commands.registerCommand(
+      'ecooptimizer.suppressSmell',
+      async (item: SmellTreeItem | Smell) => {
+        const smell = item instanceof SmellTreeItem ? item.smell : item;
+        await suppressSmell(smell, smellsCacheManager, smellsViewProvider);
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'ecooptimizer.dismissSmell',
+      async (item: SmellTreeItem | Smell) => {
+        const smell = item instanceof SmellTreeItem ? item.smell : item;
+        await dismissSmell(context, smell, smellsCacheManager, smellsViewProvider);
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'ecooptimizer.markFalsePositive',
+      async (item: SmellTreeItem | Smell) => {
+        const smell = item instanceof SmellTreeItem ? item.smell : item;
+        await markFalsePositive(
+          context,
+          smell,
+          smellsCacheManager,
+          smellsViewProvider,
+        );
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'ecooptimizer.restoreSmell',
+      (item: DismissedSmellItem | DismissalEntry) => {
+        const entry = item instanceof DismissedSmellItem ? item.entry : item;
+        restoreSmell(entry, smellsCacheManager, smellsViewProvider);
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'ecooptimizer.exportFalsePositives',
+      async () => {
+        await exportFalsePositives(context, smellsCacheManager);
+      },
+    ),
+
+    vscode.commands.registerCommand('ecooptimizer.toggleSuppressedSmells', () => {
+      const shown = smellsViewProvider.toggleSuppressedSmells();
+      ecoOutput.info(`Suppressed smells are now ${shown ? 'shown' : 'hidden'}`);
+    }),
+
+    vscode.commands.registerCommand('ecooptimizer.createBaseline', async () => {
+      await createBaseline(context, smellsCacheManager, smellsViewProvider);
+    }),
+
+    vscode.commands.registerCommand(
+      'ecooptimizer.listFixedBaselineSmells',
+      async () => {
+        await listFixedBaselineSmells(smellsCacheManager, smellsViewProvider);
+      },
+    ),
+
     vscode.commands.registerCommand('ecooptimizer.acceptRefactoring', async () => {
       await acceptRefactoring(
         context,
@@ -506,6 +758,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       exportMetricsData(context);
     }),
 
+    vscode.commands.registerCommand('ecooptimizer.exportSmellsSarif', async () => {
+      await exportSmellsSarif(context, smellsCacheManager);
+    }),
+
     vscode.commands.registerCommand('ecooptimizer.metricsView.refresh', () => {
       metricsViewProvider.refresh();
     }),
@@ -533,6 +789,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
   // === Register Filter UI Commands ===
   registerFilterSmellCommands(context, filterSmellsProvider);
+  registerSmellProfileCommands(context, filterSmellsProvider);
+  new SmellProfileStatusBar().register(context);
+  registerSmellsViewCommands(context, smellsViewProvider);
+  registerSmellNavigationCommands(context, smellsViewProvider, smellsTreeView);
 
   // === Workspace File Listener ===
   context.subscriptions.push(
@@ -542,6 +802,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       smellsViewProvider,
       metricsViewProvider,
     ),
+    new SmellPositionTracker(smellsCacheManager, smellsViewProvider),
+    new LintAsYouTypeListener(smellsCacheManager, smellsViewProvider),
   );
 
   // === File Highlighting ===
@@ -565,6 +827,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   const hoverManager = new HoverManager(smellsCacheManager);
   hoverManager.register(context);
 
+  // === Problems Panel Diagnostics ===
+  const diagnosticsManager = new DiagnosticsManager(smellsCacheManager);
+  diagnosticsManager.register(context);
+
+  // === Explorer Decorations ===
+  const fileDecorationProvider = new SmellFileDecorationProvider(
+    smellsCacheManager,
+    smellsViewProvider,
+  );
+  fileDecorationProvider.register(context);
+
+  // === Quick Fixes ===
+  const codeActionManager = new CodeActionManager(smellsCacheManager);
+  codeActionManager.register(context);
+
   // === Smell Linting ===
   const updateSmellLintingContext = (): void => {
     vscode.commands.executeCommand(
@@ -575,9 +852,19 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   };
 
   const lintActiveEditors = (): void => {
+    const lintAsYouType = ConfigManager.get<boolean>('lintAsYouType', false);
     for (const editor of vscode.window.visibleTextEditors) {
       const filePath = editor.document.uri.fsPath;
-      detectSmellsFile(filePath, smellsViewProvider, smellsCacheManager);
+      if (lintAsYouType) {
+        // Include unsaved changes, matching what is analyzed while typing
+        detectSmellsDocument(
+          editor.document,
+          smellsViewProvider,
+          smellsCacheManager,
+        );
+      } else {
+        detectSmellsFile(filePath, smellsViewProvider, smellsCacheManager);
+      }
       ecoOutput.info(
         `[WorkspaceListener] Smell linting is ON — auto-detecting smells for ${filePath}`,
       );
@@ -681,7 +968,6 @@ export function deactivate(): void {
   ecoOutput.info('Extension deactivated');
   console.log('Extension deactivated');
 
-  // server.dispose();
   backendLogManager.stopWatchingLogs();
   ecoOutput.dispose();
 }
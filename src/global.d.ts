@@ -65,6 +65,8 @@ declare global {
     additionalInfo: AdditionalInfo;
     /** Unique identifier for this specific smell instance */
     id?: string;
+    /** Line-independent fingerprint used to match the smell against the baseline and dismissals */
+    fingerprint?: string;
   }
 
   /**
@@ -4,21 +4,45 @@ import * as net from 'net';
 import { join } from 'path';
 import * as vscode from 'vscode';
 import { ecoOutput } from '../extension';
+import { setManagedServerPort } from '../api/serverConfig';
+import { serverStatus, ServerStatusType } from '../emitters/serverStatus';
+
+// Restart policy for crashed server processes
+const MAX_RESTART_ATTEMPTS = 5;
+const INITIAL_RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 30000;
+// A server that stays up this long is considered healthy again
+const STABLE_UPTIME = 60000;
 
 /**
  * Manages the lifecycle of the backend server process, including:
  * - Starting the Python server with proper environment
  * - Port allocation and verification
+ * - Automatic restarts with backoff when the process crashes
  * - Process cleanup on exit
  * - Logging and error handling
  */
-export class ServerProcess {
+export class ServerProcess implements vscode.Disposable {
   private process?: childProcess.ChildProcess;
+  private port?: number;
+  private stopping = false;
+  private starting = false;
+  private restartAttempts = 0;
+  private restartTimer?: NodeJS.Timeout;
+  private stableTimer?: NodeJS.Timeout;
 
   constructor(private context: vscode.ExtensionContext) {}
 
+  /**
+   * Whether a server process is currently running.
+   */
+  get isRunning(): boolean {
+    return this.process !== undefined;
+  }
+
   /**
    * Starts the backend server process and verifies it's ready.
+   * The chosen port is fed into the API client configuration.
    * @returns Promise resolving to the port number the server is running on
    * @throws Error if server fails to start or Python environment is missing
    */
@@ -36,34 +60,127 @@ export class ServerProcess {
     }
 
     // Clean up any existing server process
+    this.clearTimers();
     await this.killProcessTree();
 
-    // Find and bind to an available port
-    const port = await this.findFreePort();
-
-    // Start the Python server process
-    this.process = childProcess.spawn(
-      pythonPath,
-      ['-m', 'ecooptimizer.api', '--port', port.toString(), '--dev'],
-      {
-        cwd: this.context.extensionPath,
-        env: { ...process.env, PYTHONUNBUFFERED: '1' }, // Ensure unbuffered output
-      },
-    );
+    this.stopping = false;
+    this.starting = true;
+    serverStatus.setStatus(ServerStatusType.STARTING);
 
-    // Set up process event handlers
-    this.process.stdout?.on('data', (data) => ecoOutput.info(`[Server] ${data}`));
-    this.process.stderr?.on('data', (data) => ecoOutput.error(`[Server] ${data}`));
-    this.process.on('close', () => {
-      ecoOutput.info('Server stopped');
-      console.log('Server stopped');
-    });
+    let port: number;
+    try {
+      // Find and bind to an available port
+      port = await this.findFreePort();
+
+      // Start the Python server process
+      const serverProcess = childProcess.spawn(
+        pythonPath,
+        ['-m', 'ecooptimizer.api', '--port', port.toString(), '--dev'],
+        {
+          cwd: this.context.extensionPath,
+          env: { ...process.env, PYTHONUNBUFFERED: '1' }, // Ensure unbuffered output
+          detached: process.platform !== 'win32', // Own process group for tree cleanup
+        },
+      );
+      this.process = serverProcess;
 
-    // Verify server is actually listening before returning
-    await this.verifyReady(port);
+      // Set up process event handlers
+      serverProcess.stdout?.on('data', (data) => ecoOutput.info(`[Server] ${data}`));
+      serverProcess.stderr?.on('data', (data) =>
+        ecoOutput.error(`[Server] ${data}`),
+      );
+      serverProcess.on('exit', (code, signal) =>
+        this.handleExit(serverProcess, code, signal),
+      );
+
+      // Verify server is actually listening before returning
+      await this.verifyReady(port);
+    } catch (error) {
+      // Never leave the status stuck at STARTING, which pauses health checks
+      this.clearTimers();
+      await this.killProcessTree();
+      serverStatus.setStatus(ServerStatusType.DOWN);
+      throw error;
+    } finally {
+      this.starting = false;
+    }
+
+    this.port = port;
+    setManagedServerPort(port);
+    serverStatus.setStatus(ServerStatusType.UP);
+
+    // Reset the restart backoff once the server has been stable for a while
+    this.stableTimer = setTimeout(() => {
+      this.restartAttempts = 0;
+    }, STABLE_UPTIME);
+
+    ecoOutput.info(`[ServerProcess] Server started on port ${port}`);
     return port;
   }
 
+  /**
+   * Stops the server process without triggering an automatic restart.
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.clearTimers();
+    this.restartAttempts = 0;
+    await this.killProcessTree();
+
+    this.port = undefined;
+    setManagedServerPort(undefined);
+    serverStatus.setStatus(ServerStatusType.DOWN);
+    ecoOutput.info('[ServerProcess] Server stopped');
+  }
+
+  /**
+   * Handles the server process exiting. Unexpected exits are restarted
+   * with exponential backoff up to a maximum number of attempts.
+   */
+  private handleExit(
+    exitedProcess: childProcess.ChildProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ): void {
+    // Ignore exits of processes that have already been replaced
+    if (exitedProcess !== this.process) return;
+
+    this.process = undefined;
+    this.clearTimers();
+
+    // A failed start is reported to its caller instead of restarted
+    if (this.stopping || this.starting) {
+      return;
+    }
+
+    ecoOutput.error(
+      `[ServerProcess] Server exited unexpectedly (code: ${code}, signal: ${signal})`,
+    );
+    serverStatus.setStatus(ServerStatusType.DOWN);
+
+    if (this.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+      vscode.window.showErrorMessage(
+        `EcoOptimizer server crashed ${MAX_RESTART_ATTEMPTS} times and will not be restarted automatically.`,
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      INITIAL_RESTART_DELAY * 2 ** this.restartAttempts,
+      MAX_RESTART_DELAY,
+    );
+    this.restartAttempts++;
+
+    ecoOutput.info(
+      `[ServerProcess] Restarting server in ${delay}ms (attempt ${this.restartAttempts}/${MAX_RESTART_ATTEMPTS})`,
+    );
+    this.restartTimer = setTimeout(() => {
+      this.start().catch((error) =>
+        ecoOutput.error(`[ServerProcess] Restart failed: ${error}`),
+      );
+    }, delay);
+  }
+
   /**
    * Finds an available network port
    * @returns Promise resolving to an available port number
@@ -109,6 +226,9 @@ export class ServerProcess {
   private async verifyReady(port: number, timeout = 10000): Promise<void> {
     const start = Date.now();
     while (Date.now() - start < timeout) {
+      if (!this.process) {
+        throw new Error('Server exited before it was ready');
+      }
       try {
         const socket = net.createConnection({ port });
         await new Promise((resolve, reject) => {
@@ -125,10 +245,22 @@ export class ServerProcess {
     throw new Error(`Server didn't start within ${timeout}ms`);
   }
 
+  /**
+   * Clears pending restart and stability timers.
+   */
+  private clearTimers(): void {
+    clearTimeout(this.restartTimer);
+    clearTimeout(this.stableTimer);
+    this.restartTimer = undefined;
+    this.stableTimer = undefined;
+  }
+
   /**
    * Clean up resources when disposing of the manager
    */
   dispose(): void {
-    this.process?.kill();
+    this.stopping = true;
+    this.clearTimers();
+    this.killProcessTree();
   }
 }
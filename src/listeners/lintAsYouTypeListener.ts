@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+
+import { SmellsCacheManager } from '../context/SmellsCacheManager';
+import { SmellsViewProvider } from '../providers/SmellsViewProvider';
+import { ConfigManager } from '../context/configManager';
+import { detectSmellsDocument } from '../commands/detection/detectSmells';
+import { isPathIgnored } from '../utils/ignorePatterns';
+import { isSmellLintingEnabled } from '../extension';
+
+const DEFAULT_LINT_DELAY = 1000;
+
+/**
+ * Analyzes Python documents as they are edited while smell linting and
+ * `ecooptimizer.detection.lintAsYouType` are on. Analysis of a document starts
+ * once it has not changed for `ecooptimizer.detection.lintAsYouTypeDelay`
+ * milliseconds; a newer edit cancels any analysis still running for it.
+ */
+export class LintAsYouTypeListener implements vscode.Disposable {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private requests = new Map<string, AbortController>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private smellsCacheManager: SmellsCacheManager,
+    private smellsViewProvider: SmellsViewProvider,
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.schedule(event.document),
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.cancel(document.uri.fsPath),
+      ),
+    );
+  }
+
+  /**
+   * Restarts the delay before a changed document is analyzed
+   * @param document - The changed document
+   */
+  private schedule(document: vscode.TextDocument): void {
+    const filePath = document.uri.fsPath;
+    if (
+      !isSmellLintingEnabled() ||
+      !ConfigManager.get<boolean>('lintAsYouType', false) ||
+      document.languageId !== 'python' ||
+      document.uri.scheme !== 'file' ||
+      isPathIgnored(filePath)
+    ) {
+      return;
+    }
+
+    this.cancel(filePath);
+    const delay = ConfigManager.get<number>(
+      'lintAsYouTypeDelay',
+      DEFAULT_LINT_DELAY,
+    );
+    this.timers.set(
+      filePath,
+      setTimeout(() => {
+        this.timers.delete(filePath);
+        this.lint(document);
+      }, delay),
+    );
+  }
+
+  private async lint(document: vscode.TextDocument): Promise<void> {
+    const filePath = document.uri.fsPath;
+    const controller = new AbortController();
+    this.requests.set(filePath, controller);
+
+    try {
+      await detectSmellsDocument(
+        document,
+        this.smellsViewProvider,
+        this.smellsCacheManager,
+        controller.signal,
+      );
+    } finally {
+      if (this.requests.get(filePath) === controller) {
+        this.requests.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * Stops the pending and running analysis of a document
+   * @param filePath - File path of the document
+   */
+  private cancel(filePath: string): void {
+    clearTimeout(this.timers.get(filePath));
+    this.timers.delete(filePath);
+    this.requests.get(filePath)?.abort();
+    this.requests.delete(filePath);
+  }
+
+  /**
+   * Cancels all pending analyses and disposes the document listeners
+   */
+  public dispose(): void {
+    [...this.timers.keys(), ...this.requests.keys()].forEach((filePath) =>
+      this.cancel(filePath),
+    );
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
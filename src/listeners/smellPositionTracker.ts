@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+
+import { SmellsCacheManager } from '../context/SmellsCacheManager';
+import { SmellsViewProvider } from '../providers/SmellsViewProvider';
+import { ecoOutput } from '../extension';
+import { shiftSmells } from '../utils/smellPositions';
+import { trackChangedLines } from '../utils/gitChanges';
+
+/**
+ * Keeps smell locations in step with edits of open Python documents, so
+ * highlights, hovers, diagnostics and tree labels stay correct between
+ * detections. Smells on edited code are dropped until the file is analyzed
+ * again; all other smells move along with the surrounding code.
+ */
+export class SmellPositionTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private smellsCacheManager: SmellsCacheManager,
+    private smellsViewProvider: SmellsViewProvider,
+  ) {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.handleDocumentChange(event),
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.handleDocumentClose(document),
+      ),
+    );
+  }
+
+  /**
+   * Moves the smells of an edited document and updates its tree entries
+   * @param event - The document change event
+   */
+  private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    const { document, contentChanges } = event;
+    if (!this.isTrackedDocument(document) || contentChanges.length === 0) return;
+
+    const filePath = document.uri.fsPath;
+    trackChangedLines(filePath, contentChanges);
+
+    let dropped: Smell[] | undefined;
+    try {
+      dropped = this.smellsCacheManager.trackSmellPositions(
+        filePath,
+        contentChanges,
+      );
+    } catch (error) {
+      ecoOutput.trace(
+        `[SmellPositionTracker] Unable to track smells for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return;
+    }
+    if (!dropped) return;
+
+    if (dropped.length > 0) {
+      ecoOutput.trace(
+        `[SmellPositionTracker] Dropped ${dropped.length} edited smells in ${filePath}`,
+      );
+    }
+
+    const suppressed = this.smellsViewProvider.getSuppressedSmells(filePath);
+    if (suppressed.length > 0) {
+      this.smellsViewProvider.setSuppressedSmells(
+        filePath,
+        shiftSmells(suppressed, contentChanges).smells,
+      );
+    }
+    this.updateTreeSmells(filePath);
+  }
+
+  /**
+   * Restores the saved smell locations of a document closed without saving
+   * @param document - The closed document
+   */
+  private handleDocumentClose(document: vscode.TextDocument): void {
+    if (!this.isTrackedDocument(document)) return;
+
+    this.smellsCacheManager.discardDocumentSmells(document.uri.fsPath);
+    this.updateTreeSmells(document.uri.fsPath);
+  }
+
+  private isTrackedDocument(document: vscode.TextDocument): boolean {
+    return document.languageId === 'python' && document.uri.scheme === 'file';
+  }
+
+  private updateTreeSmells(filePath: string): void {
+    let smells: Smell[] | undefined;
+    try {
+      smells = this.smellsCacheManager.getCachedSmells(filePath);
+    } catch {
+      // Files deleted while open have no cached smells to show
+      return;
+    }
+    if (smells) {
+      this.smellsViewProvider.setSmells(filePath, smells);
+    }
+  }
+
+  /**
+   * Disposes the document listeners
+   */
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
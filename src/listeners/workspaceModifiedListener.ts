@@ -7,16 +7,34 @@ import { MetricsViewProvider } from '../providers/MetricsViewProvider';
 import { ecoOutput, isSmellLintingEnabled } from '../extension';
 import { detectSmellsFile } from '../commands/detection/detectSmells';
 import { envConfig } from '../utils/envConfig';
+import {
+  ECOIGNORE_FILENAME,
+  GITIGNORE_FILENAME,
+  isPathIgnored,
+  loadIgnorePatterns,
+} from '../utils/ignorePatterns';
+import { BASELINE_FILENAME, loadBaseline } from '../utils/baseline';
+import {
+  DISMISSALS_DIRECTORY,
+  DISMISSALS_FILENAME,
+  loadDismissals,
+} from '../utils/dismissals';
 
 /**
  * Monitors workspace modifications and maintains analysis state consistency by:
  * - Tracking file system changes (create/change/delete)
+ * - Reloading ignore patterns when ignore files change
+ * - Reloading the baseline when `.eco-baseline.json` changes
+ * - Reloading dismissed smells when `.eco/dismissed.json` changes
  * - Handling document save events
- * - Managing cache invalidation
+ * - Managing cache and file hash invalidation
  * - Coordinating view updates
  */
 export class WorkspaceModifiedListener {
   private fileWatcher: vscode.FileSystemWatcher | undefined;
+  private ignoreFileWatcher: vscode.FileSystemWatcher | undefined;
+  private baselineWatcher: vscode.FileSystemWatcher | undefined;
+  private dismissalsWatcher: vscode.FileSystemWatcher | undefined;
   private saveListener: vscode.Disposable | undefined;
 
   constructor(
@@ -54,16 +72,70 @@ export class WorkspaceModifiedListener {
         false, // Watch delete events
       );
 
-      this.fileWatcher.onDidCreate(() => {
+      this.fileWatcher.onDidCreate((uri) => {
+        this.smellsCacheManager.invalidateFileHash(uri.fsPath);
+        if (isPathIgnored(uri.fsPath)) return;
         ecoOutput.trace('[WorkspaceListener] Detected new Python file');
         this.refreshViews();
       });
 
+      // Changes made outside the editor are not saved as documents
+      this.fileWatcher.onDidChange((uri) => {
+        this.smellsCacheManager.refreshFileHash(uri.fsPath);
+      });
+
       this.fileWatcher.onDidDelete((uri) => {
         ecoOutput.trace(`[WorkspaceListener] Detected deletion of ${uri.fsPath}`);
         this.handleFileDeletion(uri.fsPath);
+        this.smellsCacheManager.invalidateFileHash(uri.fsPath);
       });
 
+      this.ignoreFileWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          configuredPath,
+          `{${ECOIGNORE_FILENAME},${GITIGNORE_FILENAME}}`,
+        ),
+      );
+      const reloadIgnorePatterns = (): void => {
+        ecoOutput.trace(
+          '[WorkspaceListener] Ignore file changed - reloading patterns',
+        );
+        loadIgnorePatterns(configuredPath);
+        this.refreshViews();
+      };
+      this.ignoreFileWatcher.onDidCreate(reloadIgnorePatterns);
+      this.ignoreFileWatcher.onDidChange(reloadIgnorePatterns);
+      this.ignoreFileWatcher.onDidDelete(reloadIgnorePatterns);
+
+      this.baselineWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(configuredPath, BASELINE_FILENAME),
+      );
+      const reloadBaseline = (): void => {
+        ecoOutput.trace('[WorkspaceListener] Baseline changed - reloading');
+        loadBaseline(configuredPath);
+        this.smellsCacheManager.notifySmellsChanged();
+        this.refreshViews();
+      };
+      this.baselineWatcher.onDidCreate(reloadBaseline);
+      this.baselineWatcher.onDidChange(reloadBaseline);
+      this.baselineWatcher.onDidDelete(reloadBaseline);
+
+      this.dismissalsWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          configuredPath,
+          `${DISMISSALS_DIRECTORY}/${DISMISSALS_FILENAME}`,
+        ),
+      );
+      const reloadDismissals = (): void => {
+        ecoOutput.trace('[WorkspaceListener] Dismissed smells changed - reloading');
+        loadDismissals(configuredPath);
+        this.smellsCacheManager.notifySmellsChanged();
+        this.refreshViews();
+      };
+      this.dismissalsWatcher.onDidCreate(reloadDismissals);
+      this.dismissalsWatcher.onDidChange(reloadDismissals);
+      this.dismissalsWatcher.onDidDelete(reloadDismissals);
+
       ecoOutput.trace(
         `[WorkspaceListener] Watching Python files in ${configuredPath}`,
       );
@@ -78,12 +150,13 @@ export class WorkspaceModifiedListener {
    * Sets up document save listener for Python files
    */
   private initializeSaveListener(): void {
-    this.saveListener = vscode.workspace.onDidSaveTextDocument((document) => {
-      if (document.languageId === 'python') {
+    this.saveListener = vscode.workspace.onDidSaveTextDocument(async (document) => {
+      this.smellsCacheManager.invalidateFileHash(document.uri.fsPath);
+      if (document.languageId === 'python' && !isPathIgnored(document.uri.fsPath)) {
         ecoOutput.trace(
           `[WorkspaceListener] Detected save in ${document.uri.fsPath}`,
         );
-        this.handleFileChange(document.uri.fsPath);
+        await this.handleFileChange(document.uri.fsPath);
 
         if (isSmellLintingEnabled()) {
           ecoOutput.info(
@@ -101,7 +174,8 @@ export class WorkspaceModifiedListener {
 
   /**
    * Handles file modifications by:
-   * - Invalidating cached analysis if exists
+   * - Keeping cached analysis whose smells were moved along with the edits
+   * - Otherwise invalidating cached analysis if exists
    * - Marking file as outdated in UI
    * @param filePath - Absolute path to modified file
    */
@@ -120,6 +194,14 @@ export class WorkspaceModifiedListener {
     }
 
     try {
+      if (await this.smellsCacheManager.commitDocumentSmells(filePath)) {
+        ecoOutput.trace(
+          `[WorkspaceListener] Kept tracked smell positions for ${filePath}`,
+        );
+        this.refreshViews();
+        return;
+      }
+
       await this.smellsCacheManager.clearCachedSmellsForFile(filePath);
       this.smellsViewProvider.setStatus(filePath, 'outdated');
 
@@ -195,6 +277,9 @@ export class WorkspaceModifiedListener {
    */
   public dispose(): void {
     this.fileWatcher?.dispose();
+    this.ignoreFileWatcher?.dispose();
+    this.baselineWatcher?.dispose();
+    this.dismissalsWatcher?.dispose();
     this.saveListener?.dispose();
     ecoOutput.trace('[WorkspaceListener] Disposed all listeners');
   }
@@ -1,17 +1,57 @@
 import * as vscode from 'vscode';
 import {
+  AnalyzerOption,
+  AnalyzerOptionValue,
+  formatOptionValue,
+  validateOptionValue,
+} from '../core/smellConfig';
+import {
+  clearSmellOptionOverride,
+  EditableSmellConfigLayer,
   FilterSmellConfig,
+  getEditableSmellLayers,
   getFilterSmells,
+  getSmellLayerLabel,
+  getSmellSources,
   loadSmells,
-  saveSmells,
+  resetSmellLayer,
+  SMELL_CONFIG_LAYERS,
+  SMELL_SETTINGS_DIRECTORY,
+  SMELL_SETTINGS_FILENAME,
+  SmellConfigLayer,
+  SmellOverride,
+  SmellSources,
+  updateSmellOverrides,
 } from '../utils/smellsData';
+import {
+  clearSmellScopeOptionOverride,
+  getScopeSmells,
+  getSmellScopeLabel,
+  getSmellScopeRoot,
+  getSmellScopes,
+  loadSmellScopes,
+  resetSmellScope,
+  SmellScope,
+  toFolderScope,
+  updateSmellScope,
+} from '../utils/smellScopes';
+import { setActiveSmellProfile } from '../utils/smellProfiles';
+import { envConfig } from '../utils/envConfig';
+import { ecoOutput } from '../extension';
 import { MetricsViewProvider } from './MetricsViewProvider';
 import { SmellsCacheManager } from '../context/SmellsCacheManager';
 import { SmellsViewProvider } from './SmellsViewProvider';
 
+const EDIT_LAYER_KEY = 'ecooptimizer.smellConfigLayer';
+const EDIT_SCOPE_KEY = 'ecooptimizer.smellConfigScope';
+const SMELL_SETTINGS_PATH = `${SMELL_SETTINGS_DIRECTORY}/${SMELL_SETTINGS_FILENAME}`;
+
 /**
  * Provides a tree view for managing and filtering code smells in the VS Code extension.
  * Handles smell configuration, option editing, and maintains consistency with cached results.
+ * Changes are written to one configuration layer or folder scope, chosen with
+ * `selectEditLayer`. While a folder scope is edited, the view shows the
+ * configuration of the files in that scope.
  */
 export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
   // Event emitter for tree view updates
@@ -23,6 +63,7 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
 
   private treeView?: vscode.TreeView<vscode.TreeItem>;
   private smells: Record<string, FilterSmellConfig> = {};
+  private sources: Record<string, SmellSources> = {};
 
   constructor(
     private context: vscode.ExtensionContext,
@@ -30,7 +71,7 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
     private smellsCacheManager: SmellsCacheManager,
     private smellsViewProvider: SmellsViewProvider,
   ) {
-    this.smells = getFilterSmells();
+    this.loadViewSmells();
   }
 
   /**
@@ -39,11 +80,14 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
    */
   setTreeView(treeView: vscode.TreeView<vscode.TreeItem>): void {
     this.treeView = treeView;
+    this.updateDescription();
 
     this.treeView.onDidChangeCheckboxState(async (event) => {
       for (const [item] of event.items) {
         if (item instanceof SmellItem) {
-          const confirmed = await this.confirmFilterChange();
+          // Disabling a smell only hides its cached results
+          const confirmed =
+            this.smells[item.key]?.enabled || (await this.confirmFilterChange());
           if (confirmed) {
             await this.toggleSmell(item.key);
           } else {
@@ -76,6 +120,7 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
               smellKey,
               smell.name,
               smell.enabled,
+              this.sources[smellKey]?.enabled ?? 'default',
               smell.analyzer_options &&
               Object.keys(smell.analyzer_options).length > 0
                 ? vscode.TreeItemCollapsibleState.Collapsed
@@ -93,10 +138,9 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
             ([optionKey, optionData]) =>
               new SmellOptionItem(
                 optionKey,
-                optionData.label,
-                optionData.value,
-                optionData.description,
+                optionData,
                 element.key,
+                this.sources[element.key]?.options[optionKey] ?? 'default',
               ),
           ),
         )
@@ -109,10 +153,10 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
    */
   async toggleSmell(smellKey: string): Promise<void> {
     if (this.smells[smellKey]) {
-      this.smells[smellKey].enabled = !this.smells[smellKey].enabled;
-      saveSmells(this.smells);
-      await this.invalidateCachedSmellsForAffectedFiles();
-      this._onDidChangeTreeData.fire();
+      await this.applyChanges({
+        [smellKey]: { enabled: !this.smells[smellKey].enabled },
+      });
+      this.warnIfOverridden(this.sources[smellKey]?.enabled);
     }
   }
 
@@ -125,16 +169,25 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
   async updateOption(
     smellKey: string,
     optionKey: string,
-    newValue: number | string,
+    newValue: AnalyzerOptionValue,
   ): Promise<void> {
+    const option = this.smells[smellKey]?.analyzer_options?.[optionKey];
+    const invalid = option && validateOptionValue(option, newValue);
+    if (invalid) {
+      vscode.window.showErrorMessage(
+        `Invalid value for ${option.label}: ${invalid}.`,
+      );
+      return;
+    }
+
     const confirmed = await this.confirmFilterChange();
     if (!confirmed) return;
 
-    if (this.smells[smellKey]?.analyzer_options?.[optionKey]) {
-      this.smells[smellKey].analyzer_options[optionKey].value = newValue;
-      saveSmells(this.smells);
-      await this.invalidateCachedSmellsForAffectedFiles();
-      this._onDidChangeTreeData.fire();
+    if (option) {
+      await this.applyChanges({
+        [smellKey]: { options: { [optionKey]: newValue } },
+      });
+      this.warnIfOverridden(this.sources[smellKey]?.options[optionKey]);
     } else {
       vscode.window.showErrorMessage(
         `Error: No analyzer option found for ${optionKey}`,
@@ -142,6 +195,49 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
     }
   }
 
+  /**
+   * Restores the default value of a smell analyzer option in the edited layer
+   * @param smellKey The smell containing the option
+   * @param optionKey The option to reset
+   */
+  async resetOption(smellKey: string, optionKey: string): Promise<void> {
+    const option = this.smells[smellKey]?.analyzer_options?.[optionKey];
+    if (option?.default === undefined) {
+      vscode.window.showErrorMessage(
+        `Error: No default value found for ${optionKey}`,
+      );
+      return;
+    }
+
+    const confirmed = await this.confirmFilterChange();
+    if (!confirmed) return;
+
+    await this.applyWrite(async () => {
+      const scope = this.getEditScope();
+      const layer = this.getEditLayer();
+      const resetValue = {
+        [smellKey]: { options: { [optionKey]: option.default! } },
+      };
+
+      // Layers below the edited one may still set another value
+      if (scope) {
+        await clearSmellScopeOptionOverride(scope, smellKey, optionKey);
+        const inherited =
+          getScopeSmells(scope).smells[smellKey]?.analyzer_options?.[optionKey];
+        if (inherited && inherited.value !== option.default) {
+          await updateSmellScope(scope, resetValue);
+        }
+      } else {
+        await clearSmellOptionOverride(layer, smellKey, optionKey);
+        const inherited = getFilterSmells()[smellKey]?.analyzer_options?.[optionKey];
+        if (inherited && inherited.value !== option.default) {
+          await updateSmellOverrides(layer, resetValue);
+        }
+      }
+    });
+    this.warnIfOverridden(this.sources[smellKey]?.options[optionKey]);
+  }
+
   refresh(): void {
     this._onDidChangeTreeData.fire(undefined);
   }
@@ -151,43 +247,296 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
    * @param enabled Whether to enable or disable all smells
    */
   async setAllSmellsEnabled(enabled: boolean): Promise<void> {
+    if (enabled && !(await this.confirmFilterChange())) return;
+
+    await this.applyChanges(
+      Object.fromEntries(Object.keys(this.smells).map((key) => [key, { enabled }])),
+    );
+  }
+
+  /**
+   * Removes the smell configuration of the edited layer or scope, so the
+   * values of the layers below it apply again
+   */
+  async resetToDefaults(): Promise<void> {
     const confirmed = await this.confirmFilterChange();
     if (!confirmed) return;
 
-    Object.keys(this.smells).forEach((key) => {
-      this.smells[key].enabled = enabled;
+    const scope = this.getEditScope();
+    await this.applyWrite(() =>
+      scope ? resetSmellScope(scope) : resetSmellLayer(this.getEditLayer()),
+    );
+  }
+
+  /**
+   * Returns the layer that changes made in the view are written to
+   */
+  getEditLayer(): EditableSmellConfigLayer {
+    const layers = getEditableSmellLayers();
+    const stored =
+      this.context.workspaceState.get<EditableSmellConfigLayer>(EDIT_LAYER_KEY);
+    if (stored && layers.includes(stored)) {
+      return stored;
+    }
+    return layers.includes('workspace') ? 'workspace' : layers[0];
+  }
+
+  /**
+   * Returns the folder scope that changes made in the view are written to, or
+   * undefined when they apply to the whole workspace
+   */
+  getEditScope(): SmellScope | undefined {
+    return getSmellScopeRoot()
+      ? this.context.workspaceState.get<SmellScope>(EDIT_SCOPE_KEY)
+      : undefined;
+  }
+
+  /**
+   * Prompts for the layer or folder scope that changes made in the view are
+   * written to. New folder and glob scopes can be added from the prompt.
+   */
+  async selectEditLayer(): Promise<void> {
+    type Target = vscode.QuickPickItem & {
+      layer?: EditableSmellConfigLayer;
+      scope?: SmellScope;
+      add?: 'folder' | 'glob';
+    };
+
+    const currentScope = this.getEditScope();
+    const currentLayer = currentScope ? undefined : this.getEditLayer();
+    const items: Target[] = getEditableSmellLayers().map((layer) => ({
+      label: getSmellLayerLabel(layer),
+      description: layer === currentLayer ? 'Editing' : undefined,
+      layer,
+    }));
+
+    if (getSmellScopeRoot()) {
+      items.push(
+        { label: 'Folder Scopes', kind: vscode.QuickPickItemKind.Separator },
+        ...getSmellScopes().map((scope) => ({
+          label: getSmellScopeLabel(scope),
+          description:
+            JSON.stringify(scope) === JSON.stringify(currentScope)
+              ? 'Editing'
+              : undefined,
+          scope,
+        })),
+        {
+          label: '$(new-folder) Add Folder Scope...',
+          detail: `Save settings to ${SMELL_SETTINGS_PATH} in a subfolder`,
+          add: 'folder',
+        },
+        {
+          label: '$(add) Add Glob Scope...',
+          detail:
+            'Save settings for the files matching a glob to workspace settings',
+          add: 'glob',
+        },
+      );
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select where smell settings are saved',
     });
-    saveSmells(this.smells);
-    await this.invalidateCachedSmellsForAffectedFiles();
+    if (!picked) return;
+
+    const scope =
+      picked.add === 'folder'
+        ? await this.promptFolderScope()
+        : picked.add === 'glob'
+          ? await this.promptGlobScope()
+          : picked.scope;
+    if (picked.add && !scope) return;
+
+    if (picked.layer) {
+      await this.context.workspaceState.update(EDIT_LAYER_KEY, picked.layer);
+    }
+    await this.context.workspaceState.update(EDIT_SCOPE_KEY, scope);
+    this.loadViewSmells();
+    this.updateDescription();
     this._onDidChangeTreeData.fire();
   }
 
   /**
-   * Resets all smell configurations to their default values
+   * Activates a smell profile and updates the cached results
+   * @param name The profile to activate, or undefined to use no profile
    */
-  async resetToDefaults(): Promise<void> {
+  async switchProfile(name: string | undefined): Promise<void> {
     const confirmed = await this.confirmFilterChange();
     if (!confirmed) return;
 
-    loadSmells('default');
-    this.smells = getFilterSmells();
-    saveSmells(this.smells);
+    try {
+      await setActiveSmellProfile(name);
+    } catch (error) {
+      const msg = `Failed to switch smell profile: ${error instanceof Error ? error.message : String(error)}`;
+      ecoOutput.error(`[FilterViewProvider.ts] ${msg}`);
+      vscode.window.showErrorMessage(msg);
+      return;
+    }
+    await this.reloadSmells();
+  }
+
+  /**
+   * Reloads the smell configuration of every layer, after settings or
+   * `.eco/smells.json` changed outside the view
+   */
+  async reloadSmells(): Promise<void> {
+    const previous = JSON.stringify(getFilterSmells());
+    const rootPath = this.context.workspaceState.get<string>(
+      envConfig.WORKSPACE_CONFIGURED_PATH!,
+    );
+    loadSmells(rootPath);
+    const scopesChanged = await loadSmellScopes(rootPath);
+    this.loadViewSmells();
+    this.updateDescription();
+
+    if (scopesChanged || JSON.stringify(getFilterSmells()) !== previous) {
+      await this.syncCachedSmellsWithFilters();
+    }
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Writes changes to the edited layer and updates the cached results
+   */
+  private async applyChanges(changes: Record<string, SmellOverride>): Promise<void> {
+    const scope = this.getEditScope();
+    await this.applyWrite(() =>
+      scope
+        ? updateSmellScope(scope, changes)
+        : updateSmellOverrides(this.getEditLayer(), changes),
+    );
+  }
 
-    await this.invalidateCachedSmellsForAffectedFiles();
+  /**
+   * Runs a write to the edited layer and updates the cached results
+   */
+  private async applyWrite(write: () => Promise<void>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      this.showWriteError(error);
+    }
+    this.loadViewSmells();
+
+    await this.syncCachedSmellsWithFilters();
     this._onDidChangeTreeData.fire();
   }
 
   /**
-   * Invalidates cached smells for all files when filters change
+   * Warns when a value just written is still set by a layer above the edited one
    */
-  async invalidateCachedSmellsForAffectedFiles(): Promise<void> {
-    const cachedFilePaths = this.smellsCacheManager.getAllFilePaths();
+  private warnIfOverridden(source: SmellConfigLayer | undefined): void {
+    // Nothing shown while editing a scope overrides it
+    if (this.getEditScope()) return;
+
+    const editLayer = this.getEditLayer();
+    if (
+      source &&
+      source !== 'scope' &&
+      SMELL_CONFIG_LAYERS.indexOf(source) > SMELL_CONFIG_LAYERS.indexOf(editLayer)
+    ) {
+      vscode.window.showWarningMessage(
+        `Saved to ${getSmellLayerLabel(editLayer)}, but ${getSmellLayerLabel(source)} overrides this value.`,
+      );
+    }
+  }
+
+  private showWriteError(error: unknown): void {
+    const msg = `Failed to save smell settings to ${this.getEditTargetLabel()}: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[FilterViewProvider.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+  }
 
-    for (const filePath of cachedFilePaths) {
-      this.smellsCacheManager.clearCachedSmellsForFile(filePath);
-      this.smellsViewProvider.setStatus(filePath, 'outdated');
+  private updateDescription(): void {
+    if (this.treeView) {
+      this.treeView.description = `Editing ${this.getEditTargetLabel()}`;
     }
+  }
 
+  private getEditTargetLabel(): string {
+    const scope = this.getEditScope();
+    return scope
+      ? getSmellScopeLabel(scope)
+      : getSmellLayerLabel(this.getEditLayer());
+  }
+
+  /**
+   * Shows the configuration of the edited scope, or of the workspace
+   */
+  private loadViewSmells(): void {
+    const scope = this.getEditScope();
+    if (scope) {
+      ({ smells: this.smells, sources: this.sources } = getScopeSmells(scope));
+    } else {
+      this.smells = getFilterSmells();
+      this.sources = getSmellSources();
+    }
+  }
+
+  /**
+   * Prompts for a subfolder of the workspace to save smell settings to
+   */
+  private async promptFolderScope(): Promise<SmellScope | undefined> {
+    const [uri] =
+      (await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(getSmellScopeRoot()!),
+        openLabel: 'Add Folder Scope',
+      })) ?? [];
+    if (!uri) return undefined;
+
+    const scope = toFolderScope(uri.fsPath);
+    if (!scope) {
+      vscode.window.showErrorMessage(
+        `Folder scopes must be subfolders of the configured workspace. Use ${SMELL_SETTINGS_PATH} for the whole workspace.`,
+      );
+    }
+    return scope;
+  }
+
+  /**
+   * Prompts for a glob matching the files to save smell settings for
+   */
+  private async promptGlobScope(): Promise<SmellScope | undefined> {
+    const glob = await vscode.window.showInputBox({
+      prompt: 'Glob matching the files the smell settings apply to',
+      placeHolder: 'e.g. services/api/**, **/tests/**',
+      validateInput: (input) => (input.trim() ? undefined : 'Enter a glob'),
+    });
+    return glob?.trim() ? { kind: 'glob', path: glob.trim() } : undefined;
+  }
+
+  /**
+   * Re-reads the cached results of every analyzed file after a filter change.
+   * Results of disabled smells are hidden without touching the cache. Files
+   * without results for every enabled smell and its current options are
+   * marked outdated; analyzing them again only detects the missing smells.
+   */
+  async syncCachedSmellsWithFilters(): Promise<void> {
+    for (const filePath of this.smellsCacheManager.getAllFilePaths()) {
+      let smells: Smell[] | undefined;
+      try {
+        smells = this.smellsCacheManager.getCachedSmells(filePath);
+      } catch {
+        // Files deleted since they were analyzed are cleaned up on the next start
+        continue;
+      }
+
+      if (smells === undefined) {
+        this.smellsViewProvider.setStatus(filePath, 'outdated');
+      } else {
+        this.smellsViewProvider.setStatus(
+          filePath,
+          smells.length > 0 ? 'passed' : 'no_issues',
+        );
+        this.smellsViewProvider.setSmells(filePath, smells);
+      }
+    }
+
+    this.smellsCacheManager.notifySmellsChanged();
     this.metricsViewProvider.refresh();
     this.smellsViewProvider.refresh();
   }
@@ -207,7 +556,7 @@ export class FilterViewProvider implements vscode.TreeDataProvider<vscode.TreeIt
     }
 
     const result = await vscode.window.showWarningMessage(
-      'Changing smell filters will invalidate existing analysis results. Do you want to continue?',
+      'Changing smell filters will mark affected analysis results as outdated. Do you want to continue?',
       { modal: true },
       'Yes',
       "Don't Remind Me Again",
@@ -233,10 +582,13 @@ class SmellItem extends vscode.TreeItem {
     public readonly key: string,
     public readonly name: string,
     public enabled: boolean,
+    public readonly source: SmellConfigLayer,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
   ) {
     super(name, collapsibleState);
     this.contextValue = 'smellItem';
+    this.description = source === 'default' ? '' : getSmellLayerLabel(source);
+    this.tooltip = `${enabled ? 'Enabled' : 'Disabled'} in ${getSmellLayerLabel(source)}`;
     this.checkboxState = enabled
       ? vscode.TreeItemCheckboxState.Checked
       : vscode.TreeItemCheckboxState.Unchecked;
@@ -247,19 +599,35 @@ class SmellItem extends vscode.TreeItem {
  * Tree item representing a configurable option for a smell
  */
 class SmellOptionItem extends vscode.TreeItem {
+  public readonly value: AnalyzerOptionValue;
+
   constructor(
     public readonly optionKey: string,
-    public readonly label: string,
-    public value: number | string,
-    public readonly description: string,
+    public readonly option: AnalyzerOption,
     public readonly smellKey: string,
+    public readonly source: SmellConfigLayer,
   ) {
-    super('placeholder', vscode.TreeItemCollapsibleState.None);
+    super(
+      `${option.label}: ${formatOptionValue(option)}`,
+      vscode.TreeItemCollapsibleState.None,
+    );
 
-    this.contextValue = 'smellOption';
-    this.label = `${label}: ${value}`;
-    this.tooltip = description;
-    this.description = '';
+    this.value = option.value;
+    // Options away from their default can be reset
+    this.contextValue =
+      option.default !== undefined && option.value !== option.default
+        ? 'smellOptionModified'
+        : 'smellOption';
+    this.tooltip = [
+      option.description,
+      option.default !== undefined
+        ? `Default: ${formatOptionValue(option, option.default)}`
+        : undefined,
+      `Set in ${getSmellLayerLabel(source)}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+    this.description = source === 'default' ? '' : getSmellLayerLabel(source);
     this.command = {
       command: 'ecooptimizer.editSmellFilterOption',
       title: 'Edit Option',
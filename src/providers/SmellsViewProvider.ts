@@ -2,31 +2,170 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { buildPythonTree } from '../utils/TreeStructureBuilder';
-import { getAcronymByMessageId } from '../utils/smellsData';
 import { normalizePath } from '../utils/normalizePath';
 import { envConfig } from '../utils/envConfig';
+import { getAcronymByMessageId } from '../utils/smellsData';
+import { isSmellBaselined } from '../utils/baseline';
+import {
+  DismissalEntry,
+  getDismissals,
+  isSmellDismissed,
+  resolveDismissalPath,
+} from '../utils/dismissals';
+import { getVisibleSmells } from '../utils/smellVisibility';
+import {
+  getGroupKey,
+  getSmellAcronym,
+  groupSmells,
+  matchesSmellFilter,
+  SmellGroup,
+  SmellsViewMode,
+  SmellsViewSort,
+  sortGroups,
+  sortSmells,
+  UNKNOWN_CONFIDENCE,
+} from '../utils/smellGrouping';
+
+/**
+ * Arrangement of the Code Smells tree that is kept per workspace.
+ */
+interface SmellsViewOptions {
+  mode: SmellsViewMode;
+  sort: SmellsViewSort;
+}
+
+const DEFAULT_VIEW_OPTIONS: SmellsViewOptions = { mode: 'folder', sort: 'line' };
+
+/**
+ * Any node of the Code Smells tree.
+ */
+export type SmellsViewItem =
+  | TreeItem
+  | SmellGroupItem
+  | SmellTreeItem
+  | DismissedSmellsItem
+  | DismissedSmellItem;
 
 /**
  * Provides a tree view for displaying code smells in the workspace.
- * Shows files and their detected smells in a hierarchical structure,
- * with status indicators and navigation capabilities.
+ * Shows files and their detected smells along the folder hierarchy or grouped
+ * by smell type or confidence, with status indicators, count badges, sorting,
+ * a text filter and navigation capabilities.
  */
-export class SmellsViewProvider
-  implements vscode.TreeDataProvider<TreeItem | SmellTreeItem>
-{
+export class SmellsViewProvider implements vscode.TreeDataProvider<SmellsViewItem> {
   // Event emitter for tree view updates
   private _onDidChangeTreeData: vscode.EventEmitter<
-    TreeItem | SmellTreeItem | undefined | void
-  > = new vscode.EventEmitter<TreeItem | SmellTreeItem | undefined | void>();
-  readonly onDidChangeTreeData: vscode.Event<
-    TreeItem | SmellTreeItem | undefined | void
-  > = this._onDidChangeTreeData.event;
+    SmellsViewItem | undefined | void
+  > = new vscode.EventEmitter<SmellsViewItem | undefined | void>();
+  readonly onDidChangeTreeData: vscode.Event<SmellsViewItem | undefined | void> =
+    this._onDidChangeTreeData.event;
+  // Fired with the path of a file whose status changed, or undefined when
+  // every status was cleared
+  private statusChangedEmitter = new vscode.EventEmitter<string | undefined>();
+  readonly onDidChangeStatus = this.statusChangedEmitter.event;
 
   // Tracks analysis status and smells for each file
   private fileStatuses: Map<string, string> = new Map();
   private fileSmells: Map<string, Smell[]> = new Map();
+  // Smells hidden by `# eco:` pragmas, shown only when toggled on
+  private fileSuppressedSmells: Map<string, Smell[]> = new Map();
+  private showSuppressed = false;
+  private options: SmellsViewOptions;
+  private filter = '';
+  private treeView?: vscode.TreeView<SmellsViewItem>;
+  // Parents of the nodes handed out by getChildren, so nodes can be revealed
+  private parents = new WeakMap<SmellsViewItem, SmellsViewItem>();
 
-  constructor(private context: vscode.ExtensionContext) {}
+  constructor(private context: vscode.ExtensionContext) {
+    this.options = {
+      ...DEFAULT_VIEW_OPTIONS,
+      ...context.workspaceState?.get<Partial<SmellsViewOptions>>(
+        envConfig.SMELLS_VIEW_OPTIONS!,
+      ),
+    };
+  }
+
+  /**
+   * Sets the tree view that shows this provider, so the active filter can be
+   * shown above the tree
+   * @param treeView The Code Smells tree view
+   */
+  setTreeView(treeView: vscode.TreeView<SmellsViewItem>): void {
+    this.treeView = treeView;
+    this.updateFilterMessage();
+  }
+
+  /**
+   * Gets how the tree arranges smells
+   */
+  getViewMode(): SmellsViewMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Arranges the tree along the folder hierarchy, by smell type or by
+   * confidence. The choice is kept for the workspace.
+   * @param mode The new view mode
+   */
+  async setViewMode(mode: SmellsViewMode): Promise<void> {
+    this.options = { ...this.options, mode };
+    await this.saveOptions();
+  }
+
+  /**
+   * Gets the order of nodes in the tree
+   */
+  getSort(): SmellsViewSort {
+    return this.options.sort;
+  }
+
+  /**
+   * Changes the order of nodes in the tree. The choice is kept for the
+   * workspace.
+   * @param sort The new sort order
+   */
+  async setSort(sort: SmellsViewSort): Promise<void> {
+    this.options = { ...this.options, sort };
+    await this.saveOptions();
+  }
+
+  /**
+   * Gets the text that listed smells must match
+   */
+  getFilter(): string {
+    return this.filter;
+  }
+
+  /**
+   * Lists only smells whose file name, acronym or message contains the text
+   * @param filter Filter text, or an empty string to list every smell
+   */
+  setFilter(filter: string): void {
+    this.filter = filter.trim();
+    vscode.commands.executeCommand(
+      'setContext',
+      'ecooptimizer.smellsViewFiltered',
+      this.filter.length > 0,
+    );
+    this.updateFilterMessage();
+    this._onDidChangeTreeData.fire();
+  }
+
+  private async saveOptions(): Promise<void> {
+    this._onDidChangeTreeData.fire();
+    await this.context.workspaceState.update(
+      envConfig.SMELLS_VIEW_OPTIONS!,
+      this.options,
+    );
+  }
+
+  private updateFilterMessage(): void {
+    if (this.treeView) {
+      this.treeView.message = this.filter
+        ? `Showing smells matching "${this.filter}"`
+        : undefined;
+    }
+  }
 
   /**
    * Triggers a refresh of the tree view
@@ -47,9 +186,20 @@ export class SmellsViewProvider
     // Clear smells if status is outdated
     if (status === 'outdated') {
       this.fileSmells.delete(normalizedPath);
+      this.fileSuppressedSmells.delete(normalizedPath);
     }
 
     this._onDidChangeTreeData.fire();
+    this.statusChangedEmitter.fire(filePath);
+  }
+
+  /**
+   * Gets the analysis status of a file
+   * @param filePath Path to the file
+   * @returns The file's status, or undefined if it has none
+   */
+  getStatus(filePath: string): string | undefined {
+    return this.fileStatuses.get(normalizePath(filePath));
   }
 
   /**
@@ -62,6 +212,45 @@ export class SmellsViewProvider
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Sets the smells of a file that are hidden by suppression pragmas
+   * @param filePath Path to the file
+   * @param smells Array of suppressed smells
+   */
+  setSuppressedSmells(filePath: string, smells: Smell[]): void {
+    this.fileSuppressedSmells.set(normalizePath(filePath), smells);
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Gets the smells of a file that are hidden by suppression pragmas
+   * @param filePath Path to the file
+   */
+  getSuppressedSmells(filePath: string): Smell[] {
+    return this.fileSuppressedSmells.get(normalizePath(filePath)) ?? [];
+  }
+
+  /**
+   * Adds a single smell to the suppressed smells of its file
+   * @param smell The smell that was suppressed
+   */
+  addSuppressedSmell(smell: Smell): void {
+    const normalizedPath = normalizePath(smell.path);
+    const suppressed = this.fileSuppressedSmells.get(normalizedPath) ?? [];
+    this.fileSuppressedSmells.set(normalizedPath, [...suppressed, smell]);
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Toggles whether suppressed smells are listed under their files
+   * @returns Whether suppressed smells are now shown
+   */
+  toggleSuppressedSmells(): boolean {
+    this.showSuppressed = !this.showSuppressed;
+    this._onDidChangeTreeData.fire();
+    return this.showSuppressed;
+  }
+
   /**
    * Removes a file from the tree view
    * @param filePath Path to the file to remove
@@ -73,6 +262,7 @@ export class SmellsViewProvider
     if (exists) {
       this.fileStatuses.delete(normalizedPath);
       this.fileSmells.delete(normalizedPath);
+      this.fileSuppressedSmells.delete(normalizedPath);
     }
     return exists;
   }
@@ -83,21 +273,82 @@ export class SmellsViewProvider
   public clearAllStatuses(): void {
     this.fileStatuses.clear();
     this.fileSmells.clear();
+    this.fileSuppressedSmells.clear();
     this._onDidChangeTreeData.fire();
+    this.statusChangedEmitter.fire(undefined);
   }
 
-  getTreeItem(element: TreeItem | SmellTreeItem): vscode.TreeItem {
+  getTreeItem(element: SmellsViewItem): vscode.TreeItem {
     return element;
   }
 
+  /**
+   * Gets the parent of a node returned by getChildren, as needed to reveal it
+   * @param element A node of the tree
+   * @returns The parent node, or undefined for root nodes
+   */
+  getParent(element: SmellsViewItem): SmellsViewItem | undefined {
+    return this.parents.get(element);
+  }
+
   /**
    * Builds the tree view hierarchy
    * @param element The parent element or undefined for root items
    * @returns Promise resolving to child tree items
    */
-  async getChildren(
-    element?: TreeItem | SmellTreeItem,
-  ): Promise<(TreeItem | SmellTreeItem)[]> {
+  async getChildren(element?: SmellsViewItem): Promise<SmellsViewItem[]> {
+    const children = await this.buildChildren(element);
+    if (element) {
+      children.forEach((child) => this.parents.set(child, element));
+    }
+    return children;
+  }
+
+  /**
+   * Lists the smell nodes of the tree in the order they are shown, leaving out
+   * suppressed and dismissed smells
+   * @param filePath Only list the smells of this file
+   * @returns The smell nodes, whose parents can be revealed
+   */
+  async getSmellItems(filePath?: string): Promise<SmellTreeItem[]> {
+    const target = filePath && normalizePath(filePath);
+    const items: SmellTreeItem[] = [];
+
+    const visit = async (element?: SmellsViewItem): Promise<void> => {
+      for (const child of await this.getChildren(element)) {
+        if (child instanceof SmellTreeItem) {
+          if (!child.suppressed) items.push(child);
+        } else if (child instanceof SmellGroupItem) {
+          await visit(child);
+        } else if (child instanceof TreeItem && this.leadsToSmells(child, target)) {
+          await visit(child);
+        }
+      }
+    };
+
+    await visit();
+    return items;
+  }
+
+  /**
+   * Checks whether a file or folder node has smells to list, without reading
+   * the folders below it
+   * @param item The file or folder node
+   * @param target Normalized path of the only file whose smells are listed
+   */
+  private leadsToSmells(item: TreeItem, target: string | undefined): boolean {
+    const itemPath = normalizePath(item.fullPath);
+    if (item.contextValue === 'directory') {
+      return target
+        ? target.startsWith(normalizePath(item.fullPath + path.sep))
+        : this.countFolderSmells(item.fullPath) > 0;
+    }
+    return target
+      ? target === itemPath
+      : item.collapsibleState !== vscode.TreeItemCollapsibleState.None;
+  }
+
+  private async buildChildren(element?: SmellsViewItem): Promise<SmellsViewItem[]> {
     const rootPath = this.context.workspaceState.get<string>(
       envConfig.WORKSPACE_CONFIGURED_PATH!,
     );
@@ -106,26 +357,63 @@ export class SmellsViewProvider
     }
 
     // Smell nodes are leaf nodes - no children
-    if (element instanceof SmellTreeItem) {
+    if (element instanceof SmellTreeItem || element instanceof DismissedSmellItem) {
       return [];
     }
 
+    // Dismissed smells node - list every dismissal of the workspace
+    if (element instanceof DismissedSmellsItem) {
+      return getDismissals().map(
+        (entry) => new DismissedSmellItem(entry, this.findSmellLine(entry)),
+      );
+    }
+
+    // Smell type or confidence node - show the files with its smells
+    if (element instanceof SmellGroupItem) {
+      const files = groupSmells(element.smells, (smell) => smell.path).map(
+        (group) => ({ ...group, label: path.basename(group.key) }),
+      );
+      return sortGroups(files, this.options.sort).map((group) =>
+        this.createGroupFileItem(rootPath, group),
+      );
+    }
+
     // If this is a file node, show its smells
     if (
       element?.contextValue === 'file' ||
       element?.contextValue === 'file_with_smells'
     ) {
-      const smells = this.fileSmells.get(element.fullPath) ?? [];
-      return smells.map((smell) => new SmellTreeItem(smell));
+      const smells = sortSmells(
+        element.groupSmells ?? this.getFilteredSmells(element.fullPath),
+        this.options.sort,
+      );
+      const items = smells.map((smell) => new SmellTreeItem(smell));
+      if (this.showSuppressed && !element.groupSmells) {
+        items.push(
+          ...this.getSuppressedSmells(element.fullPath)
+            .filter((smell) => matchesSmellFilter(smell, this.filter))
+            .map((smell) => new SmellTreeItem(smell, true)),
+        );
+      }
+      return items;
     }
 
-    // Root element - show either single file or folder contents
+    // Root element - show smell groups, or either single file or folder contents
     if (!element) {
+      const dismissedCount = getDismissals().length;
+      const dismissedItems =
+        dismissedCount > 0 ? [new DismissedSmellsItem(dismissedCount)] : [];
+
+      if (this.options.mode !== 'folder') {
+        return [...this.createGroupItems(), ...dismissedItems];
+      }
+
       const stat = fs.statSync(rootPath);
       if (stat.isFile()) {
-        return [this.createTreeItem(rootPath, true)];
+        return [this.createTreeItem(rootPath, true), ...dismissedItems];
       } else if (stat.isDirectory()) {
-        return [this.createTreeItem(rootPath, false)]; // Show root folder as top node
+        // Show root folder as top node
+        return [this.createTreeItem(rootPath, false), ...dismissedItems];
       }
     }
 
@@ -133,12 +421,120 @@ export class SmellsViewProvider
     const currentPath = element?.resourceUri?.fsPath;
     if (!currentPath) return [];
 
-    const childNodes = buildPythonTree(currentPath);
+    let childNodes = buildPythonTree(currentPath).map((node) => ({
+      ...node,
+      count: node.isFile
+        ? this.getFilteredSmells(node.fullPath).length
+        : this.countFolderSmells(node.fullPath),
+    }));
+    if (this.filter) {
+      childNodes = childNodes.filter((node) => node.count > 0);
+    }
+    if (this.options.sort === 'count') {
+      // Folders stay above files, as in the default order
+      childNodes.sort(
+        (a, b) => Number(a.isFile) - Number(b.isFile) || b.count - a.count,
+      );
+    }
     return childNodes.map(({ fullPath, isFile }) =>
       this.createTreeItem(fullPath, isFile),
     );
   }
 
+  /**
+   * Gets the smells of a file that are listed in the tree
+   * @param filePath Path to the file
+   */
+  private getListedSmells(filePath: string): Smell[] {
+    return getVisibleSmells(this.fileSmells.get(filePath) ?? []);
+  }
+
+  /**
+   * Finds the line a dismissed smell is currently reported on, which differs
+   * from the recorded line once code above it has moved
+   * @param entry The dismissal
+   * @returns The current line, or the recorded line if the smell is not listed
+   */
+  private findSmellLine(entry: DismissalEntry): number | undefined {
+    const filePath = normalizePath(resolveDismissalPath(entry));
+    for (const [smellsPath, smells] of this.fileSmells) {
+      if (normalizePath(smellsPath) !== filePath) continue;
+      const smell = smells.find((smell) => smell.fingerprint === entry.fingerprint);
+      if (smell) return smell.occurences?.[0]?.line;
+    }
+    return entry.line;
+  }
+
+  /**
+   * Gets the listed smells of a file that match the text filter
+   * @param filePath Path to the file
+   */
+  private getFilteredSmells(filePath: string): Smell[] {
+    return this.getListedSmells(filePath).filter((smell) =>
+      matchesSmellFilter(smell, this.filter),
+    );
+  }
+
+  /**
+   * Gets the listed smells of every file that match the text filter
+   */
+  private getAllFilteredSmells(): Smell[] {
+    return [...this.fileSmells.keys()].flatMap((filePath) =>
+      this.getFilteredSmells(filePath),
+    );
+  }
+
+  /**
+   * Counts the listed smells of the files below a folder
+   * @param folderPath Path to the folder
+   */
+  private countFolderSmells(folderPath: string): number {
+    const prefix = normalizePath(folderPath + path.sep);
+    let count = 0;
+    for (const filePath of this.fileSmells.keys()) {
+      if (normalizePath(filePath).startsWith(prefix)) {
+        count += this.getFilteredSmells(filePath).length;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Creates the root nodes of the smell type and confidence view modes
+   */
+  private createGroupItems(): SmellGroupItem[] {
+    const { mode, sort } = this.options;
+    const groups = groupSmells(
+      this.getAllFilteredSmells(),
+      (smell) => getGroupKey(smell, mode),
+      (key) => (mode === 'confidence' ? formatConfidence(key) : key),
+    );
+
+    return sortGroups(groups, sort, mode).map((group) => {
+      const item = new SmellGroupItem(group);
+      if (mode === 'type') {
+        item.tooltip = group.smells[0].symbol;
+      }
+      return item;
+    });
+  }
+
+  /**
+   * Creates a file node below a smell type or confidence node
+   * @param rootPath The configured workspace path
+   * @param group The file with the smells of the parent group
+   */
+  private createGroupFileItem(rootPath: string, group: SmellGroup): TreeItem {
+    const item = this.createTreeItem(group.key, true);
+    item.groupSmells = group.smells;
+    item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+    item.contextValue = 'file_with_smells';
+
+    const folder = path.relative(rootPath, path.dirname(group.key));
+    item.description = folder && !folder.startsWith('..') ? folder : undefined;
+    return item;
+  }
+
   /**
    * Creates a tree item for a file or folder
    * @param filePath Path to the file/folder
@@ -152,11 +548,20 @@ export class SmellsViewProvider
     const icon = isFile ? getStatusIcon(status) : new vscode.ThemeIcon('folder');
     const tooltip = isFile ? getStatusMessage(status) : undefined;
 
+    const suppressedCount = isFile ? this.getSuppressedSmells(filePath).length : 0;
+    const visibleCount = isFile ? this.getFilteredSmells(filePath).length : 0;
+    const baselinedCount = isFile
+      ? (this.fileSmells.get(filePath) ?? []).filter(isSmellBaselined).length
+      : 0;
+    const dismissedCount = isFile
+      ? (this.fileSmells.get(filePath) ?? []).filter(isSmellDismissed).length
+      : 0;
+
     // Determine collapsible state:
     // - Folders are always collapsible
-    // - Files are collapsible only if they have smells
+    // - Files are collapsible only if they have smells (or shown suppressed smells)
     const collapsibleState = isFile
-      ? this.fileSmells.has(filePath) && this.fileSmells.get(filePath)!.length > 0
+      ? visibleCount > 0 || (this.showSuppressed && suppressedCount > 0)
         ? vscode.TreeItemCollapsibleState.Collapsed
         : vscode.TreeItemCollapsibleState.None
       : vscode.TreeItemCollapsibleState.Collapsed;
@@ -167,27 +572,58 @@ export class SmellsViewProvider
     item.tooltip = tooltip;
 
     // Mark files with smells with special context
-    if (
-      isFile &&
-      this.fileSmells.has(filePath) &&
-      this.fileSmells.get(filePath)!.length > 0
-    ) {
+    if (isFile && visibleCount > 0) {
       item.contextValue = 'file_with_smells';
     }
 
-    // Show outdated status in description
+    // Show smell counts of folders, and outdated status, baselined, dismissed
+    // and suppressed smells of files in the description
+    const descriptions: string[] = [];
+    if (!isFile) {
+      const smellCount = this.countFolderSmells(filePath);
+      if (smellCount > 0) {
+        descriptions.push(formatSmellCount(smellCount));
+      }
+    }
     if (status === 'outdated') {
-      item.description = 'outdated';
+      descriptions.push('outdated');
+    }
+    if (baselinedCount > 0) {
+      descriptions.push(`${baselinedCount} baselined`);
+    }
+    if (dismissedCount > 0) {
+      descriptions.push(`${dismissedCount} dismissed`);
+    }
+    if (suppressedCount > 0) {
+      descriptions.push(`${suppressedCount} suppressed`);
+    }
+    if (descriptions.length > 0) {
+      item.description = descriptions.join(' · ');
     }
 
     return item;
   }
 }
 
+function formatSmellCount(count: number): string {
+  return `${count} ${count === 1 ? 'smell' : 'smells'}`;
+}
+
+function formatConfidence(confidence: string): string {
+  if (confidence === UNKNOWN_CONFIDENCE) {
+    return 'Unknown confidence';
+  }
+  const words = confidence.toLowerCase().replace(/_/g, ' ');
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)} confidence`;
+}
+
 /**
  * Tree item representing a file or folder in the smells view
  */
 export class TreeItem extends vscode.TreeItem {
+  /** Smells listed under a file below a smell type or confidence node */
+  public groupSmells?: Smell[];
+
   constructor(
     label: string,
     public readonly fullPath: string,
@@ -209,13 +645,78 @@ export class TreeItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * Tree item grouping the smells of one type or confidence level
+ */
+export class SmellGroupItem extends vscode.TreeItem {
+  public readonly smells: Smell[];
+
+  constructor(group: SmellGroup) {
+    super(group.label, vscode.TreeItemCollapsibleState.Collapsed);
+    this.smells = group.smells;
+    this.description = formatSmellCount(group.smells.length);
+    this.contextValue = 'smellGroup';
+    this.iconPath = new vscode.ThemeIcon('symbol-class');
+  }
+}
+
+/**
+ * Tree item listing the smells that were dismissed or marked as false positives
+ */
+export class DismissedSmellsItem extends vscode.TreeItem {
+  constructor(count: number) {
+    super('Dismissed smells', vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = formatSmellCount(count);
+    this.contextValue = 'dismissedSmells';
+    this.iconPath = new vscode.ThemeIcon('archive');
+  }
+}
+
+/**
+ * Tree item representing a dismissed smell, which can be restored
+ */
+export class DismissedSmellItem extends vscode.TreeItem {
+  constructor(
+    public readonly entry: DismissalEntry,
+    line: number | undefined,
+  ) {
+    const acronym = getAcronymByMessageId(entry.messageId) ?? entry.messageId;
+    super(
+      line ? `${acronym}: Line ${line}` : acronym,
+      vscode.TreeItemCollapsibleState.None,
+    );
+
+    const falsePositive = entry.kind === 'falsePositive';
+    this.description = `${entry.path}${falsePositive ? ' · false positive' : ''}`;
+    this.tooltip = falsePositive
+      ? `${entry.message}\nFalse positive: ${entry.reason || 'no reason given'}`
+      : entry.message;
+    this.contextValue = 'dismissedSmell';
+    this.iconPath = new vscode.ThemeIcon(
+      falsePositive ? 'report' : 'close',
+      new vscode.ThemeColor('disabledForeground'),
+    );
+
+    if (line) {
+      this.command = {
+        title: 'Jump to Smell',
+        command: 'ecooptimizer.jumpToSmell',
+        arguments: [resolveDismissalPath(entry), line - 1],
+      };
+    }
+  }
+}
+
 /**
  * Tree item representing a detected code smell
  */
 export class SmellTreeItem extends vscode.TreeItem {
-  constructor(public readonly smell: Smell) {
+  constructor(
+    public readonly smell: Smell,
+    public readonly suppressed: boolean = false,
+  ) {
     // Format label with acronym and line numbers
-    const acronym = getAcronymByMessageId(smell.messageId) ?? smell.messageId;
+    const acronym = getSmellAcronym(smell);
     const lines = smell.occurences
       ?.map((occ) => occ.line)
       .filter((line) => line !== undefined)
@@ -226,8 +727,17 @@ export class SmellTreeItem extends vscode.TreeItem {
     super(label, vscode.TreeItemCollapsibleState.None);
 
     this.tooltip = smell.message;
-    this.contextValue = 'smell';
-    this.iconPath = new vscode.ThemeIcon('snake');
+    this.contextValue = suppressed ? 'suppressedSmell' : 'smell';
+    this.iconPath = new vscode.ThemeIcon(suppressed ? 'eye-closed' : 'snake');
+    if (suppressed) {
+      this.description = 'suppressed';
+    } else if (isSmellBaselined(smell)) {
+      this.description = 'baselined';
+      this.iconPath = new vscode.ThemeIcon(
+        'snake',
+        new vscode.ThemeColor('disabledForeground'),
+      );
+    }
 
     // Set up command to jump to the first occurrence
     const firstLine = smell.occurences?.[0]?.line;
@@ -235,7 +745,7 @@ export class SmellTreeItem extends vscode.TreeItem {
       this.command = {
         title: 'Jump to Smell',
         command: 'ecooptimizer.jumpToSmell',
-        arguments: [smell.path, firstLine - 1],
+        arguments: [smell.path, firstLine - 1, smell.occurences[0]],
       };
     }
   }
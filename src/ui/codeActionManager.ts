@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import { SmellsCacheManager } from '../context/SmellsCacheManager';
+import { getAcronymByMessageId } from '../utils/smellsData';
+import { getVisibleSmells } from '../utils/smellVisibility';
+import { DIAGNOSTIC_SOURCE } from './diagnosticsManager';
+
+/**
+ * Provides quick fixes (lightbulb / Ctrl+.) for detected code smells in Python files.
+ * Offers to refactor the smell under the cursor, refactor every smell of the same
+ * type in the file, or suppress the smell.
+ */
+export class CodeActionManager implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private smellsCacheManager: SmellsCacheManager) {}
+
+  /**
+   * Registers the code action provider with VS Code
+   * @param context The extension context for managing disposables
+   */
+  public register(context: vscode.ExtensionContext): void {
+    const selector: vscode.DocumentSelector = {
+      language: 'python',
+      scheme: 'file',
+    };
+    const disposable = vscode.languages.registerCodeActionsProvider(selector, this, {
+      providedCodeActionKinds: CodeActionManager.providedCodeActionKinds,
+    });
+    context.subscriptions.push(disposable);
+  }
+
+  /**
+   * Builds quick fixes for every smell intersecting the given range
+   * @param document The active text document
+   * @param range The range or selection the actions are requested for
+   * @param context Diagnostics and trigger information from VS Code
+   * @returns Code actions for the smells under the cursor
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    _token: vscode.CancellationToken,
+  ): vscode.CodeAction[] | undefined {
+    const filePath = document.uri.fsPath;
+    if (!filePath.endsWith('.py')) return;
+
+    const cachedSmells = this.smellsCacheManager.getCachedSmells(filePath);
+    if (!cachedSmells) return;
+
+    const smells = getVisibleSmells(cachedSmells);
+    if (smells.length === 0) return;
+
+    // Convert VS Code range to 1-based line numbers
+    const startLine = range.start.line + 1;
+    const endLine = range.end.line + 1;
+
+    const smellsInRange = smells.filter((smell) =>
+      smell.occurences.some(
+        (occ) => occ.line <= endLine && (occ.endLine ?? occ.line) >= startLine,
+      ),
+    );
+
+    if (smellsInRange.length === 0) return;
+
+    const actions: vscode.CodeAction[] = [];
+    const refactoredTypes = new Set<string>();
+
+    smellsInRange.forEach((smell, index) => {
+      const acronym = getAcronymByMessageId(smell.messageId) ?? smell.messageId;
+      const diagnostics = context.diagnostics.filter((diagnostic) =>
+        isDiagnosticForSmell(diagnostic, acronym),
+      );
+
+      const refactorAction = this.createAction(
+        `Refactor this smell (${acronym})`,
+        {
+          title: 'Refactor Smell',
+          command: 'ecooptimizer.refactorSmell',
+          arguments: [smell],
+        },
+        diagnostics,
+      );
+      refactorAction.isPreferred = index === 0;
+      actions.push(refactorAction);
+
+      if (!refactoredTypes.has(smell.messageId)) {
+        refactoredTypes.add(smell.messageId);
+        actions.push(
+          this.createAction(
+            `Refactor all ${acronym} smells in this file`,
+            {
+              title: 'Refactor Smells By Type',
+              command: 'ecooptimizer.refactorAllSmellsOfType',
+              arguments: [{ fullPath: filePath, smellType: smell.messageId }],
+            },
+            diagnostics,
+          ),
+        );
+      }
+
+      actions.push(
+        this.createAction(
+          `Suppress this smell (${acronym})`,
+          {
+            title: 'Suppress Smell',
+            command: 'ecooptimizer.suppressSmell',
+            arguments: [smell],
+          },
+          diagnostics,
+        ),
+      );
+    });
+
+    return actions;
+  }
+
+  /**
+   * Creates a quick fix action that runs an extension command
+   */
+  private createAction(
+    title: string,
+    command: vscode.Command,
+    diagnostics: vscode.Diagnostic[],
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.command = command;
+    action.diagnostics = diagnostics;
+    return action;
+  }
+}
+
+/**
+ * Checks whether a diagnostic from the Problems panel belongs to a smell type
+ */
+function isDiagnosticForSmell(
+  diagnostic: vscode.Diagnostic,
+  acronym: string,
+): boolean {
+  if (diagnostic.source !== DIAGNOSTIC_SOURCE) return false;
+
+  const code =
+    typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  return code === acronym;
+}
@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import { SmellsCacheManager } from '../context/SmellsCacheManager';
+import { ConfigManager } from '../context/configManager';
+import { getAcronymByMessageId } from '../utils/smellsData';
+import { getEnabledSmellsForFile } from '../utils/smellScopes';
+import { normalizePath } from '../utils/normalizePath';
+import { occurrenceToRange } from '../utils/smellRanges';
+import { getSmellDocsUrl } from '../core/smellDocs';
+import { isSmellBaselined } from '../utils/baseline';
+import { getVisibleSmells } from '../utils/smellVisibility';
+import { ecoOutput } from '../extension';
+
+export const DIAGNOSTIC_SOURCE = 'EcoOptimizer';
+
+/**
+ * Publishes cached smells to the Problems panel through a diagnostic collection.
+ * Every occurrence of a smell becomes its own diagnostic so that problem filters
+ * and "next problem" navigation work for eco smells. The collection is kept in
+ * sync with the smells cache. Baselined smells are left out or, when they are
+ * configured to be de-emphasised, reported as hints.
+ */
+export class DiagnosticsManager implements vscode.Disposable {
+  private collection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private smellsCacheManager: SmellsCacheManager) {
+    this.collection = vscode.languages.createDiagnosticCollection('ecooptimizer');
+
+    this.disposables.push(
+      this.smellsCacheManager.onSmellsUpdated((target) => {
+        if (target === 'all') {
+          this.refreshAll();
+        } else {
+          this.refreshFile(target);
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('ecooptimizer.detection.smellsSeverity')) {
+          this.refreshAll();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Registers the diagnostic collection with VS Code and publishes the
+   * diagnostics for everything already in the cache.
+   * @param context The extension context for managing disposables
+   */
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(this);
+    this.refreshAll();
+  }
+
+  /**
+   * Rebuilds diagnostics for every file currently in the smells cache.
+   */
+  public refreshAll(): void {
+    this.collection.clear();
+
+    for (const filePath of this.smellsCacheManager.getAllFilePaths()) {
+      this.refreshFile(filePath);
+    }
+  }
+
+  /**
+   * Rebuilds diagnostics for a single file from its cached smells.
+   * Files without cached smells have their diagnostics removed.
+   * @param filePath - Path of the file whose cache changed
+   */
+  public refreshFile(filePath: string): void {
+    this.removeFile(filePath);
+
+    let smells: Smell[] | undefined;
+    try {
+      smells = this.smellsCacheManager.getCachedSmells(filePath);
+    } catch (error) {
+      ecoOutput.trace(
+        `[DiagnosticsManager] Unable to read smells for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return;
+    }
+
+    if (!smells || smells.length === 0) {
+      return;
+    }
+
+    const enabledSmells = getEnabledSmellsForFile(filePath);
+    const diagnostics = getVisibleSmells(smells)
+      .filter((smell) => enabledSmells[smell.symbol])
+      .flatMap((smell) => this.createDiagnostics(smell));
+
+    const uri = vscode.Uri.file(smells[0].path ?? filePath);
+    this.collection.set(uri, diagnostics);
+  }
+
+  /**
+   * Removes diagnostics for a file, matching on the normalized path since
+   * cache events may report paths with a different casing.
+   * @param filePath - Path of the file to clear
+   */
+  private removeFile(filePath: string): void {
+    const normalizedPath = normalizePath(filePath);
+    const staleUris: vscode.Uri[] = [];
+
+    this.collection.forEach((uri) => {
+      if (normalizePath(uri.fsPath) === normalizedPath) {
+        staleUris.push(uri);
+      }
+    });
+
+    staleUris.forEach((uri) => this.collection.delete(uri));
+  }
+
+  /**
+   * Creates one diagnostic for each occurrence of a smell.
+   * @param smell - The smell to convert
+   * @returns Diagnostics pointing at every occurrence of the smell
+   */
+  private createDiagnostics(smell: Smell): vscode.Diagnostic[] {
+    const severity = isSmellBaselined(smell)
+      ? vscode.DiagnosticSeverity.Hint
+      : getSmellSeverity(smell.symbol);
+    const acronym = getAcronymByMessageId(smell.messageId) ?? smell.messageId;
+
+    return (smell.occurences ?? []).map((occurrence) => {
+      const diagnostic = new vscode.Diagnostic(
+        occurrenceToRange(occurrence),
+        smell.message,
+        severity,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = {
+        value: acronym,
+        target: vscode.Uri.parse(getSmellDocsUrl(smell.symbol)),
+      };
+      return diagnostic;
+    });
+  }
+
+  /**
+   * Disposes the diagnostic collection and its listeners.
+   */
+  public dispose(): void {
+    this.collection.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
+
+/**
+ * Resolves the configured diagnostic severity for a smell.
+ * @param symbol - The smell symbol (e.g., "long-element-chain")
+ * @returns The matching diagnostic severity, Information if unset
+ */
+export function getSmellSeverity(symbol: string): vscode.DiagnosticSeverity {
+  const severities = ConfigManager.get<{ [key: string]: string }>(
+    'smellsSeverity',
+    {},
+  );
+
+  switch (severities?.[symbol]) {
+    case 'error':
+      return vscode.DiagnosticSeverity.Error;
+    case 'warning':
+      return vscode.DiagnosticSeverity.Warning;
+    case 'hint':
+      return vscode.DiagnosticSeverity.Hint;
+    default:
+      return vscode.DiagnosticSeverity.Information;
+  }
+}
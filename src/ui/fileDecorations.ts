@@ -0,0 +1,256 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { SmellsCacheManager } from '../context/SmellsCacheManager';
+import { SmellsViewProvider } from '../providers/SmellsViewProvider';
+import { ConfigManager } from '../context/configManager';
+import { getEnabledSmellsForFile } from '../utils/smellScopes';
+import { normalizePath } from '../utils/normalizePath';
+import { getVisibleSmells } from '../utils/smellVisibility';
+import { getConfidenceRank } from '../utils/smellGrouping';
+import { ecoOutput } from '../extension';
+
+const SETTING_KEY = 'fileDecorations';
+
+// Tints by the confidence of the most certain smell; less certain levels
+// and unknown levels are yellow
+const CONFIDENCE_COLORS: Record<string, string> = {
+  HIGH: 'charts.red',
+  MEDIUM: 'charts.orange',
+  CONTROL_FLOW: 'charts.orange',
+  INFERENCE: 'charts.orange',
+};
+
+/**
+ * Smell count and most certain confidence level of a file.
+ */
+interface SmellSummary {
+  count: number;
+  confidence: string;
+}
+
+/**
+ * Decorates Python files in the Explorer with the number of smells cached for
+ * them, tinted by the confidence of their most certain smell, and marks files
+ * whose results are outdated. Folders show the totals of the files below them.
+ * Summaries follow the cache; of the status changes, only marking a file as
+ * outdated changes them, by leaving the file out until it is analyzed again.
+ * Turned off with `ecooptimizer.detection.fileDecorations`.
+ */
+export class SmellFileDecorationProvider
+  implements vscode.FileDecorationProvider, vscode.Disposable
+{
+  private changeEmitter = new vscode.EventEmitter<
+    vscode.Uri | vscode.Uri[] | undefined
+  >();
+  readonly onDidChangeFileDecorations = this.changeEmitter.event;
+
+  private summaries = new Map<string, SmellSummary>();
+  // Totals of the folders containing summarized files, built on first use
+  private folderSummaries: Map<string, SmellSummary> | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private smellsCacheManager: SmellsCacheManager,
+    private smellsViewProvider: SmellsViewProvider,
+  ) {
+    this.disposables.push(
+      this.changeEmitter,
+      this.smellsCacheManager.onSmellsUpdated((target) => {
+        if (target === 'all') {
+          this.refreshAll();
+        } else {
+          this.refreshFile(target);
+        }
+      }),
+      // File statuses change without cache updates, e.g. when files are queued
+      this.smellsViewProvider.onDidChangeStatus((filePath) =>
+        filePath ? this.refreshStatus(filePath) : this.changeEmitter.fire(undefined),
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration(`ecooptimizer.detection.${SETTING_KEY}`)) {
+          this.changeEmitter.fire(undefined);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Registers the provider with VS Code and summarizes everything already in
+   * the cache.
+   * @param context The extension context for managing disposables
+   */
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      this,
+      vscode.window.registerFileDecorationProvider(this),
+    );
+    this.refreshAll();
+  }
+
+  /**
+   * Summarizes the cached smells of every file.
+   */
+  public refreshAll(): void {
+    this.summaries.clear();
+    this.folderSummaries = undefined;
+    for (const filePath of this.smellsCacheManager.getAllFilePaths()) {
+      this.summarizeFile(filePath);
+    }
+    this.changeEmitter.fire(undefined);
+  }
+
+  /**
+   * Summarizes the cached smells of a file again.
+   * @param filePath - Path of the file whose cache changed
+   */
+  public refreshFile(filePath: string): void {
+    this.summarizeFile(filePath);
+    this.folderSummaries = undefined;
+    this.changeEmitter.fire(getFileAndAncestorUris(filePath));
+  }
+
+  /**
+   * Updates the decoration of a file whose status changed.
+   * @param filePath - Path of the file
+   */
+  private refreshStatus(filePath: string): void {
+    const outdated = this.smellsViewProvider.getStatus(filePath) === 'outdated';
+    if (outdated && this.summaries.delete(normalizePath(filePath))) {
+      this.folderSummaries = undefined;
+      this.changeEmitter.fire(getFileAndAncestorUris(filePath));
+    } else {
+      this.changeEmitter.fire(vscode.Uri.file(filePath));
+    }
+  }
+
+  private summarizeFile(filePath: string): void {
+    const key = normalizePath(filePath);
+    this.summaries.delete(key);
+
+    let smells: Smell[] | undefined;
+    try {
+      smells = this.smellsCacheManager.getCachedSmells(filePath);
+    } catch (error) {
+      ecoOutput.trace(
+        `[SmellFileDecorationProvider] Unable to read smells for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return;
+    }
+
+    const enabledSmells = getEnabledSmellsForFile(filePath);
+    const listed = getVisibleSmells(smells ?? []).filter(
+      (smell) => enabledSmells[smell.symbol],
+    );
+    if (listed.length > 0) {
+      this.summaries.set(key, {
+        count: listed.length,
+        confidence: mostCertainConfidence(listed.map((smell) => smell.confidence)),
+      });
+    }
+  }
+
+  /**
+   * Provides the Explorer decoration of a file or folder.
+   * @param uri - The decorated resource
+   */
+  public provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== 'file' || !ConfigManager.get<boolean>(SETTING_KEY, true)) {
+      return undefined;
+    }
+
+    const filePath = uri.fsPath;
+    if (filePath.endsWith('.py')) {
+      if (this.smellsViewProvider.getStatus(filePath) === 'outdated') {
+        return new vscode.FileDecoration(
+          '!',
+          'Smells outdated - needs reanalysis',
+          new vscode.ThemeColor('charts.orange'),
+        );
+      }
+
+      const summary = this.summaries.get(normalizePath(filePath));
+      if (summary) {
+        return createDecoration(summary);
+      }
+      return this.smellsViewProvider.getStatus(filePath) === 'no_issues'
+        ? new vscode.FileDecoration(undefined, 'No smells found')
+        : undefined;
+    }
+
+    const folderSummary = this.getFolderSummaries().get(normalizePath(filePath));
+    return folderSummary && createDecoration(folderSummary);
+  }
+
+  /**
+   * Gets the totals of every folder containing summarized files, adding each
+   * file to all of its ancestors once after the summaries changed.
+   */
+  private getFolderSummaries(): Map<string, SmellSummary> {
+    if (this.folderSummaries) return this.folderSummaries;
+
+    const folderSummaries = new Map<string, SmellSummary>();
+    for (const [filePath, summary] of this.summaries) {
+      for (const folderPath of getAncestors(filePath)) {
+        const total = folderSummaries.get(folderPath);
+        folderSummaries.set(
+          folderPath,
+          total
+            ? {
+                count: total.count + summary.count,
+                confidence: mostCertainConfidence([
+                  total.confidence,
+                  summary.confidence,
+                ]),
+              }
+            : summary,
+        );
+      }
+    }
+    this.folderSummaries = folderSummaries;
+    return folderSummaries;
+  }
+
+  /**
+   * Disposes the change emitter and listeners.
+   */
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
+
+function getAncestors(filePath: string): string[] {
+  const ancestors: string[] = [];
+  for (
+    let folderPath = path.dirname(filePath);
+    ;
+    folderPath = path.dirname(folderPath)
+  ) {
+    ancestors.push(folderPath);
+    if (path.dirname(folderPath) === folderPath) return ancestors;
+  }
+}
+
+function getFileAndAncestorUris(filePath: string): vscode.Uri[] {
+  return [filePath, ...getAncestors(filePath)].map((uriPath) =>
+    vscode.Uri.file(uriPath),
+  );
+}
+
+function mostCertainConfidence(confidences: string[]): string {
+  return confidences.reduce((best, confidence) =>
+    getConfidenceRank(confidence) < getConfidenceRank(best) ? confidence : best,
+  );
+}
+
+function createDecoration(summary: SmellSummary): vscode.FileDecoration {
+  const { count, confidence } = summary;
+  const color = CONFIDENCE_COLORS[confidence] ?? 'charts.yellow';
+
+  // Badges hold at most two characters; the tooltip has the exact count
+  return new vscode.FileDecoration(
+    count > 99 ? '99' : String(count),
+    `${count} ${count === 1 ? 'smell' : 'smells'}${confidence ? ` (most certain: ${confidence.toLowerCase()})` : ''}`,
+    new vscode.ThemeColor(color),
+  );
+}
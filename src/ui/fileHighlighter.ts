@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
 import { SmellsCacheManager } from '../context/SmellsCacheManager';
 import { ConfigManager } from '../context/configManager';
-import { getEnabledSmells } from '../utils/smellsData';
+import { getEnabledSmellsForFile } from '../utils/smellScopes';
+import { getVisibleSmells } from '../utils/smellVisibility';
+import { getCatalogColour } from '../utils/smellCatalog';
 
 /**
  * The `FileHighlighter` class is responsible for managing and applying visual highlights
@@ -78,16 +80,18 @@ export class FileHighlighter {
 
   /**
    * Highlights code smells in the given editor based on cached smell data.
-   * Resets existing highlights before applying new ones.
+   * Resets existing highlights before applying new ones. Only the smells shown
+   * in the other views are highlighted (see `getVisibleSmells`).
    *
    * @param editor - The text editor to apply highlights to.
    */
   public highlightSmells(editor: vscode.TextEditor): void {
     this.resetHighlights();
 
-    const smells = this.smellsCacheManager.getCachedSmells(
+    const cachedSmells = this.smellsCacheManager.getCachedSmells(
       editor.document.uri.fsPath,
     );
+    const smells = cachedSmells && getVisibleSmells(cachedSmells);
 
     if (!smells) {
       return;
@@ -106,10 +110,13 @@ export class FileHighlighter {
 
     const activeSmells = new Set<string>(smells.map((smell) => smell.symbol));
 
-    const enabledSmells = getEnabledSmells();
+    const enabledSmells = getEnabledSmellsForFile(editor.document.uri.fsPath);
 
     activeSmells.forEach((smellType) => {
-      const smellColour = smellColours[smellType];
+      const smellColour =
+        smellColours[smellType] ??
+        getCatalogColour(smellType) ??
+        singleHighlightColour;
 
       if (enabledSmells[smellType]) {
         const colour = useSingleColour ? singleHighlightColour : smellColour;
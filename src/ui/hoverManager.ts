@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { SmellsCacheManager } from '../context/SmellsCacheManager';
+import { getVisibleSmells } from '../utils/smellVisibility';
 
 /**
  * Provides hover information for detected code smells in Python files.
@@ -36,8 +37,11 @@ export class HoverManager implements vscode.HoverProvider {
 
     if (!filePath.endsWith('.py')) return;
 
-    const smells = this.smellsCacheManager.getCachedSmells(filePath);
-    if (!smells || smells.length === 0) return;
+    const cachedSmells = this.smellsCacheManager.getCachedSmells(filePath);
+    if (!cachedSmells) return;
+
+    const smells = getVisibleSmells(cachedSmells);
+    if (smells.length === 0) return;
 
     // Convert VS Code position to 1-based line number
     const lineNumber = position.line + 1;
@@ -74,14 +78,20 @@ export class HoverManager implements vscode.HoverProvider {
           smellType: smell.messageId,
         }),
       )} "Fix all similar smells"`;
+      const suppressSmellCmd = `command:ecooptimizer.suppressSmell?${encodeURIComponent(JSON.stringify(smell))} "Add an eco: ignore comment for this smell"`;
+      const dismissSmellCmd = `command:ecooptimizer.dismissSmell?${encodeURIComponent(JSON.stringify(smell))} "Hide this smell for everyone sharing the workspace"`;
+      const falsePositiveCmd = `command:ecooptimizer.markFalsePositive?${encodeURIComponent(JSON.stringify(smell))} "Report this smell as detected by mistake"`;
 
       // Build the hover content
       markdown.appendMarkdown(messageLine);
       markdown.appendMarkdown(divider);
       markdown.appendMarkdown(`[$(tools) Refactor Smell](${refactorSmellCmd}) | `);
       markdown.appendMarkdown(
-        `[$(tools) Refactor All of This Type](${refactorTypeCmd})`,
+        `[$(tools) Refactor All of This Type](${refactorTypeCmd}) | `,
       );
+      markdown.appendMarkdown(`[$(eye-closed) Suppress](${suppressSmellCmd}) | `);
+      markdown.appendMarkdown(`[$(close) Dismiss](${dismissSmellCmd}) | `);
+      markdown.appendMarkdown(`[$(report) False Positive](${falsePositiveCmd})`);
     });
 
     return new vscode.Hover(markdown);
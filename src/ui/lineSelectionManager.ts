@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { SmellsCacheManager } from '../context/SmellsCacheManager';
+import { getVisibleSmells } from '../utils/smellVisibility';
 
 /**
  * Manages line selection and decoration in a VS Code editor, specifically for
@@ -58,7 +59,7 @@ export class LineSelectionManager {
     this.removeLastComment();
     this.lastDecoratedLine = selectedLine;
 
-    const smellsAtLine = smells.filter((smell) =>
+    const smellsAtLine = getVisibleSmells(smells).filter((smell) =>
       smell.occurences.some((occ) => occ.line === selectedLine + 1),
     );
 
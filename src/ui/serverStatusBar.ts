@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { serverStatus, ServerStatusType } from '../emitters/serverStatus';
+
+/**
+ * Status bar item reflecting the backend server status.
+ * Clicking it opens the server management menu.
+ */
+export class ServerStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private onStatusChange = (): void => this.update();
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+    this.item.command = 'ecooptimizer.showServerMenu';
+
+    serverStatus.on('change', this.onStatusChange);
+  }
+
+  /**
+   * Shows the status bar item and registers it for disposal
+   * @param context The extension context for managing disposables
+   */
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(this);
+    this.update();
+    this.item.show();
+  }
+
+  /**
+   * Updates the text, tooltip and colour to match the current server status.
+   */
+  public update(): void {
+    const display = getStatusDisplay(serverStatus.getStatus());
+
+    this.item.text = display.text;
+    this.item.tooltip = `${display.tooltip} - click to manage`;
+    this.item.backgroundColor = display.background
+      ? new vscode.ThemeColor(display.background)
+      : undefined;
+  }
+
+  /**
+   * Removes the status listener and the status bar item.
+   */
+  public dispose(): void {
+    serverStatus.off('change', this.onStatusChange);
+    this.item.dispose();
+  }
+}
+
+/**
+ * Maps a server status to the text, tooltip and background of the status bar item.
+ * @param status - The current server status
+ */
+function getStatusDisplay(status: ServerStatusType): {
+  text: string;
+  tooltip: string;
+  background?: string;
+} {
+  switch (status) {
+    case ServerStatusType.STARTING:
+      return {
+        text: '$(sync~spin) Eco Server',
+        tooltip: 'EcoOptimizer server is starting...',
+      };
+    case ServerStatusType.UP:
+      return {
+        text: '$(check) Eco Server',
+        tooltip: 'EcoOptimizer server is running',
+      };
+    case ServerStatusType.DOWN:
+      return {
+        text: '$(error) Eco Server',
+        tooltip: 'EcoOptimizer server is unavailable',
+        background: 'statusBarItem.errorBackground',
+      };
+    default:
+      return {
+        text: '$(question) Eco Server',
+        tooltip: 'EcoOptimizer server status unknown',
+      };
+  }
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+import { getActiveSmellProfile, getSmellProfiles } from '../utils/smellProfiles';
+
+/**
+ * Status bar item showing the active smell profile.
+ * Clicking it switches to another profile.
+ */
+export class SmellProfileStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private configListener: vscode.Disposable;
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      -1,
+    );
+    this.item.command = 'ecooptimizer.switchSmellProfile';
+
+    this.configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration('ecooptimizer.activeSmellProfile') ||
+        event.affectsConfiguration('ecooptimizer.smellProfiles')
+      ) {
+        this.update();
+      }
+    });
+  }
+
+  /**
+   * Shows the status bar item and registers it for disposal
+   * @param context The extension context for managing disposables
+   */
+  public register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(this);
+    this.update();
+    this.item.show();
+  }
+
+  /**
+   * Updates the text and tooltip to match the active profile. Profiles that
+   * are no longer defined are flagged.
+   */
+  public update(): void {
+    const active = getActiveSmellProfile();
+
+    if (!active) {
+      this.item.text = '$(filter) Eco: No Profile';
+      this.item.tooltip = 'No smell profile is active - click to switch';
+      this.item.backgroundColor = undefined;
+    } else if (!getSmellProfiles()[active]) {
+      this.item.text = `$(warning) Eco: ${active}`;
+      this.item.tooltip = `Smell profile "${active}" is not defined - click to switch`;
+      this.item.backgroundColor = new vscode.ThemeColor(
+        'statusBarItem.warningBackground',
+      );
+    } else {
+      this.item.text = `$(filter) Eco: ${active}`;
+      this.item.tooltip = `Smell profile "${active}" is active - click to switch`;
+      this.item.backgroundColor = undefined;
+    }
+  }
+
+  /**
+   * Removes the configuration listener and the status bar item.
+   */
+  public dispose(): void {
+    this.configListener.dispose();
+    this.item.dispose();
+  }
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { normalizePath } from './normalizePath';
+import { isPathIgnored } from './ignorePatterns';
 
 /**
  * Options for configuring tree node appearance and behavior in the VS Code UI
@@ -32,7 +33,8 @@ export interface TreeNode {
 }
 
 /**
- * Builds a hierarchical tree structure of Python files and directories containing Python files
+ * Builds a hierarchical tree structure of Python files and directories containing Python files.
+ * Paths matching the workspace ignore patterns are left out.
  * @param rootPath - The absolute path to start building the tree from
  * @returns Array of TreeNode objects representing the directory structure
  */
@@ -46,6 +48,10 @@ export function buildPythonTree(rootPath: string): TreeNode[] {
       const fullPath = normalizePath(path.join(rootPath, entry));
       const stat = fs.statSync(fullPath);
 
+      if (isPathIgnored(fullPath, stat.isDirectory())) {
+        continue;
+      }
+
       if (stat.isDirectory()) {
         // Only include directories that contain Python files
         if (containsPythonFiles(fullPath)) {
@@ -85,7 +91,7 @@ export function buildPythonTree(rootPath: string): TreeNode[] {
 }
 
 /**
- * Recursively checks if a directory contains any Python files
+ * Recursively checks if a directory contains any Python files that are not ignored
  * @param folderPath - Absolute path to the directory to check
  * @returns True if any .py files exist in this directory or subdirectories
  */
@@ -97,6 +103,10 @@ function containsPythonFiles(folderPath: string): boolean {
       const fullPath = normalizePath(path.join(folderPath, entry));
       const stat = fs.statSync(fullPath);
 
+      if (isPathIgnored(fullPath, stat.isDirectory())) {
+        continue;
+      }
+
       if (stat.isFile() && entry.endsWith('.py')) {
         return true;
       }
@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { ConfigManager } from '../context/configManager';
+import { ecoOutput } from '../extension';
+
+export const BASELINE_FILENAME = '.eco-baseline.json';
+const BASELINE_VERSION = 1;
+
+/**
+ * How baselined smells are presented: removed from every view, or kept in the
+ * Smells view and Problems panel at low visibility.
+ */
+export type BaselineMode = 'hide' | 'deemphasize';
+
+/**
+ * A smell recorded in the baseline file.
+ */
+export interface BaselineEntry {
+  /** Stable fingerprint of the smell (see `computeSmellFingerprint`) */
+  fingerprint: string;
+  /** Smell symbol (e.g., "long-parameter-list") */
+  symbol: string;
+  /** Message id of the smell (e.g., "R0913") */
+  messageId: string;
+  /** File path relative to the baseline file, with forward slashes */
+  path: string;
+  /** Module where the smell was found */
+  module: string;
+  /** Function or class the smell belongs to, if any */
+  obj?: string;
+  /** Line the smell was reported on when the baseline was created */
+  line?: number;
+}
+
+interface BaselineFile {
+  version: number;
+  updatedAt: string;
+  smells: BaselineEntry[];
+}
+
+let baselineFilePath: string | undefined;
+let baselineEntries: BaselineEntry[] = [];
+let baselineFingerprints = new Set<string>();
+
+/**
+ * Resolves where the baseline file of a workspace lives: the workspace folder,
+ * or the parent folder when a single file is configured.
+ * @param rootPath - The configured workspace path
+ */
+export function getBaselinePath(rootPath: string): string {
+  let directory = rootPath;
+  try {
+    if (fs.statSync(rootPath).isFile()) {
+      directory = path.dirname(rootPath);
+    }
+  } catch {
+    // Missing paths are treated as folders
+  }
+  return path.join(directory, BASELINE_FILENAME);
+}
+
+/**
+ * Loads the baseline of the configured workspace. A missing or unreadable file
+ * results in an empty baseline.
+ * @param rootPath - The configured workspace path, or undefined to clear the baseline
+ */
+export function loadBaseline(rootPath: string | undefined): void {
+  baselineFilePath = rootPath ? getBaselinePath(rootPath) : undefined;
+  setEntries([]);
+
+  if (!baselineFilePath || !fs.existsSync(baselineFilePath)) {
+    return;
+  }
+
+  try {
+    const data = JSON.parse(
+      fs.readFileSync(baselineFilePath, 'utf-8'),
+    ) as Partial<BaselineFile>;
+    const entries = Array.isArray(data.smells)
+      ? data.smells.filter((entry) => typeof entry?.fingerprint === 'string')
+      : [];
+    setEntries(entries);
+    ecoOutput.trace(
+      `[baseline.ts] Loaded ${entries.length} baselined smells from ${baselineFilePath}`,
+    );
+  } catch (error) {
+    ecoOutput.error(
+      `[baseline.ts] Failed to read ${baselineFilePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Writes a new baseline containing the given smells and makes it the active
+ * baseline. Smells without a fingerprint are skipped.
+ * @param rootPath - The configured workspace path
+ * @param smells - Smells to record
+ * @returns The entries that were written
+ */
+export function writeBaseline(rootPath: string, smells: Smell[]): BaselineEntry[] {
+  const filePath = getBaselinePath(rootPath);
+  const seen = new Set<string>();
+  const entries: BaselineEntry[] = [];
+
+  for (const smell of smells) {
+    if (!smell.fingerprint || seen.has(smell.fingerprint)) continue;
+    seen.add(smell.fingerprint);
+    entries.push(createEntry(filePath, smell));
+  }
+
+  entries.sort(
+    (a, b) => a.path.localeCompare(b.path) || (a.line ?? 0) - (b.line ?? 0),
+  );
+  saveEntries(filePath, entries);
+  baselineFilePath = filePath;
+  setEntries(entries);
+  return entries;
+}
+
+/**
+ * Removes entries from the active baseline file.
+ * @param fingerprints - Fingerprints of the entries to remove
+ * @returns The number of entries removed
+ */
+export function removeBaselineEntries(fingerprints: Set<string>): number {
+  if (!baselineFilePath) {
+    return 0;
+  }
+
+  const remaining = baselineEntries.filter(
+    (entry) => !fingerprints.has(entry.fingerprint),
+  );
+  const removed = baselineEntries.length - remaining.length;
+  if (removed > 0) {
+    saveEntries(baselineFilePath, remaining);
+    setEntries(remaining);
+  }
+  return removed;
+}
+
+/**
+ * Gets the entries of the active baseline.
+ */
+export function getBaselineEntries(): BaselineEntry[] {
+  return baselineEntries;
+}
+
+/**
+ * Resolves the absolute path of the file a baseline entry belongs to.
+ * @param entry - The baseline entry
+ */
+export function resolveBaselineEntryPath(entry: BaselineEntry): string {
+  const directory = baselineFilePath ? path.dirname(baselineFilePath) : '';
+  return path.resolve(directory, ...entry.path.split('/'));
+}
+
+/**
+ * Checks whether a smell is recorded in the active baseline.
+ * @param smell - The detected smell
+ */
+export function isSmellBaselined(smell: Smell): boolean {
+  return !!smell.fingerprint && baselineFingerprints.has(smell.fingerprint);
+}
+
+/**
+ * Reads how baselined smells should be presented.
+ */
+export function getBaselineMode(): BaselineMode {
+  return ConfigManager.get<string>('baselinedSmells', 'hide') === 'deemphasize'
+    ? 'deemphasize'
+    : 'hide';
+}
+
+/**
+ * Removes the smells that the baseline hides from a list of smells.
+ * @param smells - Smells of a file
+ * @returns The smells that should be shown
+ */
+export function withoutHiddenBaselinedSmells(smells: Smell[]): Smell[] {
+  if (baselineFingerprints.size === 0 || getBaselineMode() !== 'hide') {
+    return smells;
+  }
+  return smells.filter((smell) => !isSmellBaselined(smell));
+}
+
+/**
+ * Checks whether a configuration change affects how baselined smells are shown.
+ * @param event - The configuration change event from VS Code
+ */
+export function affectsBaseline(event: vscode.ConfigurationChangeEvent): boolean {
+  return event.affectsConfiguration('ecooptimizer.detection.baselinedSmells');
+}
+
+function createEntry(filePath: string, smell: Smell): BaselineEntry {
+  const relativePath = path
+    .relative(path.dirname(filePath), smell.path)
+    .split(path.sep)
+    .join('/');
+
+  return {
+    fingerprint: smell.fingerprint!,
+    symbol: smell.symbol,
+    messageId: smell.messageId,
+    path: relativePath,
+    module: smell.module,
+    obj: smell.obj || undefined,
+    line: smell.occurences?.[0]?.line,
+  };
+}
+
+function saveEntries(filePath: string, entries: BaselineEntry[]): void {
+  const data: BaselineFile = {
+    version: BASELINE_VERSION,
+    updatedAt: new Date().toISOString(),
+    smells: entries,
+  };
+  fs.writeFileSync(filePath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+}
+
+function setEntries(entries: BaselineEntry[]): void {
+  baselineEntries = entries;
+  baselineFingerprints = new Set(entries.map((entry) => entry.fingerprint));
+}
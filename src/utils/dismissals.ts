@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { ecoOutput } from '../extension';
+
+export const DISMISSALS_DIRECTORY = '.eco';
+export const DISMISSALS_FILENAME = 'dismissed.json';
+const DISMISSALS_VERSION = 1;
+
+/**
+ * Why a smell was dismissed: it is not worth fixing, or the detector reported
+ * it by mistake.
+ */
+export type DismissalKind = 'dismissed' | 'falsePositive';
+
+/**
+ * A smell recorded in the dismissals file.
+ */
+export interface DismissalEntry {
+  /** Stable fingerprint of the smell (see `computeSmellFingerprint`) */
+  fingerprint: string;
+  kind: DismissalKind;
+  /** Why the smell is a false positive, as given by the user */
+  reason?: string;
+  /** Smell symbol (e.g., "long-parameter-list") */
+  symbol: string;
+  /** Message id of the smell (e.g., "R0913") */
+  messageId: string;
+  /** Message of the smell when it was dismissed */
+  message: string;
+  /** File path relative to the workspace folder, with forward slashes */
+  path: string;
+  /** Module where the smell was found */
+  module: string;
+  /** Function or class the smell belongs to, if any */
+  obj?: string;
+  /** Line the smell was reported on when it was dismissed */
+  line?: number;
+  /** ISO timestamp of the dismissal */
+  dismissedAt: string;
+}
+
+interface DismissalsFile {
+  version: number;
+  updatedAt: string;
+  smells: DismissalEntry[];
+}
+
+let dismissalsFilePath: string | undefined;
+let dismissalEntries: DismissalEntry[] = [];
+let dismissedFingerprints = new Set<string>();
+
+/**
+ * Resolves where the dismissals file of a workspace lives: `.eco/dismissed.json`
+ * in the workspace folder, or in the parent folder when a single file is
+ * configured.
+ * @param rootPath - The configured workspace path
+ */
+export function getDismissalsPath(rootPath: string): string {
+  let directory = rootPath;
+  try {
+    if (fs.statSync(rootPath).isFile()) {
+      directory = path.dirname(rootPath);
+    }
+  } catch {
+    // Missing paths are treated as folders
+  }
+  return path.join(directory, DISMISSALS_DIRECTORY, DISMISSALS_FILENAME);
+}
+
+/**
+ * Loads the dismissed smells of the configured workspace. A missing or
+ * unreadable file results in no dismissals.
+ * @param rootPath - The configured workspace path, or undefined to clear the dismissals
+ */
+export function loadDismissals(rootPath: string | undefined): void {
+  dismissalsFilePath = rootPath ? getDismissalsPath(rootPath) : undefined;
+  setEntries([]);
+
+  if (!dismissalsFilePath || !fs.existsSync(dismissalsFilePath)) {
+    return;
+  }
+
+  try {
+    const data = JSON.parse(
+      fs.readFileSync(dismissalsFilePath, 'utf-8'),
+    ) as Partial<DismissalsFile>;
+    const entries = Array.isArray(data.smells)
+      ? data.smells.filter((entry) => typeof entry?.fingerprint === 'string')
+      : [];
+    setEntries(entries);
+    ecoOutput.trace(
+      `[dismissals.ts] Loaded ${entries.length} dismissed smells from ${dismissalsFilePath}`,
+    );
+  } catch (error) {
+    ecoOutput.error(
+      `[dismissals.ts] Failed to read ${dismissalsFilePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Records a smell in the dismissals file of the workspace, replacing an
+ * earlier dismissal of the same smell.
+ * @param rootPath - The configured workspace path
+ * @param smell - The smell to dismiss; it must have a fingerprint
+ * @param kind - Whether the smell is dismissed or a false positive
+ * @param reason - Why the smell is a false positive
+ * @returns The recorded entry
+ */
+export function addDismissal(
+  rootPath: string,
+  smell: Smell,
+  kind: DismissalKind,
+  reason?: string,
+): DismissalEntry {
+  if (!smell.fingerprint) {
+    throw new Error('The smell has no fingerprint');
+  }
+
+  const filePath = getDismissalsPath(rootPath);
+  if (filePath !== dismissalsFilePath) {
+    loadDismissals(rootPath);
+  }
+
+  const entry = createEntry(filePath, smell, kind, reason);
+  const entries = [
+    ...dismissalEntries.filter(
+      (existing) => existing.fingerprint !== entry.fingerprint,
+    ),
+    entry,
+  ].sort((a, b) => a.path.localeCompare(b.path) || (a.line ?? 0) - (b.line ?? 0));
+
+  saveEntries(filePath, entries);
+  setEntries(entries);
+  return entry;
+}
+
+/**
+ * Removes entries from the active dismissals file, so the smells are reported
+ * again.
+ * @param fingerprints - Fingerprints of the entries to remove
+ * @returns The number of entries removed
+ */
+export function removeDismissals(fingerprints: Set<string>): number {
+  if (!dismissalsFilePath) {
+    return 0;
+  }
+
+  const remaining = dismissalEntries.filter(
+    (entry) => !fingerprints.has(entry.fingerprint),
+  );
+  const removed = dismissalEntries.length - remaining.length;
+  if (removed > 0) {
+    saveEntries(dismissalsFilePath, remaining);
+    setEntries(remaining);
+  }
+  return removed;
+}
+
+/**
+ * Gets the entries of the active dismissals file.
+ */
+export function getDismissals(): DismissalEntry[] {
+  return dismissalEntries;
+}
+
+/**
+ * Resolves the absolute path of the file a dismissal belongs to.
+ * @param entry - The dismissal entry
+ */
+export function resolveDismissalPath(entry: DismissalEntry): string {
+  const directory = dismissalsFilePath
+    ? path.dirname(path.dirname(dismissalsFilePath))
+    : '';
+  return path.resolve(directory, ...entry.path.split('/'));
+}
+
+/**
+ * Checks whether a smell has been dismissed or marked as a false positive.
+ * @param smell - The detected smell
+ */
+export function isSmellDismissed(smell: Smell): boolean {
+  return !!smell.fingerprint && dismissedFingerprints.has(smell.fingerprint);
+}
+
+/**
+ * Removes dismissed smells from a list of smells.
+ * @param smells - Smells of a file
+ * @returns The smells that should be shown
+ */
+export function withoutDismissedSmells(smells: Smell[]): Smell[] {
+  if (dismissedFingerprints.size === 0) {
+    return smells;
+  }
+  return smells.filter((smell) => !isSmellDismissed(smell));
+}
+
+function createEntry(
+  filePath: string,
+  smell: Smell,
+  kind: DismissalKind,
+  reason?: string,
+): DismissalEntry {
+  const relativePath = path
+    .relative(path.dirname(path.dirname(filePath)), smell.path)
+    .split(path.sep)
+    .join('/');
+
+  return {
+    fingerprint: smell.fingerprint!,
+    kind,
+    reason: reason || undefined,
+    symbol: smell.symbol,
+    messageId: smell.messageId,
+    message: smell.message,
+    path: relativePath,
+    module: smell.module,
+    obj: smell.obj || undefined,
+    line: smell.occurences?.[0]?.line,
+    dismissedAt: new Date().toISOString(),
+  };
+}
+
+function saveEntries(filePath: string, entries: DismissalEntry[]): void {
+  const data: DismissalsFile = {
+    version: DISMISSALS_VERSION,
+    updatedAt: new Date().toISOString(),
+    smells: entries,
+  };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+}
+
+function setEntries(entries: DismissalEntry[]): void {
+  dismissalEntries = entries;
+  dismissedFingerprints = new Set(entries.map((entry) => entry.fingerprint));
+}
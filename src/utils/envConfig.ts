@@ -5,6 +5,7 @@ export interface EnvConfig {
   WORKSPACE_METRICS_DATA?: string;
   WORKSPACE_CONFIGURED_PATH?: string;
   UNFINISHED_REFACTORING?: string;
+  SMELLS_VIEW_OPTIONS?: string;
 }
 
 export const envConfig: EnvConfig = {
@@ -14,4 +15,5 @@ export const envConfig: EnvConfig = {
   WORKSPACE_METRICS_DATA: 'workspaceMetrics',
   WORKSPACE_CONFIGURED_PATH: 'workspacePath',
   UNFINISHED_REFACTORING: 'pastRefactor',
+  SMELLS_VIEW_OPTIONS: 'smellsViewOptions',
 };
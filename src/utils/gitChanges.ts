@@ -0,0 +1,250 @@
+import * as vscode from 'vscode';
+
+import {
+  ChangedFiles,
+  getChangedFilesFromCli,
+  isSmellInChangedLines,
+  LineRange,
+  parseChangedLines,
+} from '../core/gitChanges';
+import { ecoOutput } from '../extension';
+import { normalizePath } from './normalizePath';
+import { TextChange } from './smellPositions';
+
+export type { ChangedFiles, LineRange } from '../core/gitChanges';
+
+// Subset of the API exported by the built-in `vscode.git` extension
+// (extensions/git/src/api/git.d.ts in the VS Code repository)
+enum GitStatus {
+  INDEX_ADDED = 1,
+  INDEX_DELETED = 2,
+  DELETED = 6,
+  UNTRACKED = 7,
+}
+
+interface GitChange {
+  readonly uri: vscode.Uri;
+  readonly status: GitStatus;
+}
+
+interface GitRepository {
+  readonly state: {
+    readonly workingTreeChanges: GitChange[];
+    readonly indexChanges: GitChange[];
+    readonly untrackedChanges?: GitChange[];
+  };
+  getMergeBase(ref1: string, ref2: string): Promise<string | undefined>;
+  diffWith(ref: string): Promise<GitChange[]>;
+  diffWith(ref: string, path: string): Promise<string>;
+}
+
+interface GitAPI {
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+async function getRepository(
+  folderPath: string,
+): Promise<GitRepository | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  if (!extension) return undefined;
+
+  const gitExtension = extension.isActive
+    ? extension.exports
+    : await extension.activate();
+  return (
+    gitExtension.getAPI(1).getRepository(vscode.Uri.file(folderPath)) ?? undefined
+  );
+}
+
+async function getChangedFilesFromRepository(
+  repository: GitRepository,
+  base: string | undefined,
+): Promise<ChangedFiles> {
+  const ref = base ? await repository.getMergeBase(base, 'HEAD') : 'HEAD';
+  if (!ref) {
+    throw new Error(`No common history with ${base}`);
+  }
+
+  const {
+    workingTreeChanges,
+    indexChanges,
+    untrackedChanges = [],
+  } = repository.state;
+  const changes = [
+    ...indexChanges,
+    ...workingTreeChanges,
+    ...untrackedChanges,
+    ...(base ? await repository.diffWith(ref) : []),
+  ];
+
+  const changedFiles: ChangedFiles = new Map();
+  for (const { uri, status } of changes) {
+    const filePath = uri.fsPath;
+    if (
+      changedFiles.has(filePath) ||
+      status === GitStatus.DELETED ||
+      status === GitStatus.INDEX_DELETED
+    ) {
+      continue;
+    }
+
+    if (status === GitStatus.UNTRACKED || status === GitStatus.INDEX_ADDED) {
+      changedFiles.set(filePath, undefined);
+      continue;
+    }
+
+    const diff = await repository.diffWith(ref, filePath);
+    const ranges = [...parseChangedLines(diff).values()].flat();
+    if (ranges.length > 0) {
+      changedFiles.set(filePath, ranges);
+    }
+  }
+
+  return changedFiles;
+}
+
+/**
+ * Lists the files of the Git repository containing a folder that are
+ * modified, staged or untracked, together with their changed lines. With a
+ * base ref, changes committed since the branch point from that ref are
+ * included as well. Uses the built-in Git extension, and the `git` command
+ * line when the extension is disabled or does not know the repository.
+ *
+ * @param folderPath - Folder inside the repository
+ * @param base - Optional branch or commit to compare against
+ * @param signal - Optional signal that stops `git` command line calls
+ * @returns Changed lines per absolute file path
+ * @throws Error if the changes cannot be determined
+ */
+export async function getChangedFiles(
+  folderPath: string,
+  base?: string,
+  signal?: AbortSignal,
+): Promise<ChangedFiles> {
+  let repository: GitRepository | undefined;
+  try {
+    repository = await getRepository(folderPath);
+  } catch (error) {
+    ecoOutput.trace(
+      `[gitChanges.ts] Git extension unavailable: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (repository) {
+    return getChangedFilesFromRepository(repository, base);
+  }
+
+  ecoOutput.trace('[gitChanges.ts] Falling back to the git command line');
+  return getChangedFilesFromCli(folderPath, base, signal);
+}
+
+// Changed lines of the files analyzed by the last changed-lines-only run,
+// keyed by normalized path. Kept in step with edits by `trackChangedLines`.
+let changedLines = new Map<string, LineRange[] | undefined>();
+
+/**
+ * Restricts the smells reported for files to those on their changed lines.
+ * Files left out are reported in full. Replaces earlier changed lines.
+ * @param changedFiles - Changed lines per absolute file path
+ */
+export function setChangedLines(changedFiles: ChangedFiles): void {
+  changedLines = new Map(
+    [...changedFiles].map(([filePath, ranges]) => [normalizePath(filePath), ranges]),
+  );
+}
+
+/**
+ * Reports every smell again, as before any changed-lines-only run.
+ * @param filePath - Optional file to report every smell of, instead of all files
+ */
+export function clearChangedLines(filePath?: string): void {
+  if (filePath) {
+    changedLines.delete(normalizePath(filePath));
+  } else {
+    changedLines = new Map();
+  }
+}
+
+/**
+ * Moves the changed lines of an edited file along with the edits, and adds
+ * the edited lines to them, so smells found on new code while the file is
+ * edited are reported as well.
+ * @param filePath - Path of the edited file
+ * @param changes - Edits of one change event, in the order VS Code reports them
+ */
+export function trackChangedLines(
+  filePath: string,
+  changes: readonly TextChange[],
+): void {
+  const normalizedPath = normalizePath(filePath);
+  let ranges = changedLines.get(normalizedPath);
+  if (!ranges) return;
+
+  for (const change of changes) {
+    ranges = shiftLineRanges(ranges, change);
+  }
+  changedLines.set(normalizedPath, ranges);
+}
+
+/**
+ * Moves 1-based line ranges through an edit and adds the lines it wrote.
+ */
+function shiftLineRanges(ranges: LineRange[], change: TextChange): LineRange[] {
+  const editStart = change.range.start.line + 1;
+  const editEnd = change.range.end.line + 1;
+  const newEnd = editStart + change.text.split(/\r\n|\r|\n/).length - 1;
+  const delta = newEnd - editEnd;
+
+  const shifted: LineRange[] = [{ start: editStart, end: newEnd }];
+  for (const range of ranges) {
+    if (range.start < editStart) {
+      shifted.push({ start: range.start, end: Math.min(range.end, editStart - 1) });
+    }
+    if (range.end > editEnd) {
+      shifted.push({
+        start: Math.max(range.start, editEnd + 1) + delta,
+        end: range.end + delta,
+      });
+    }
+  }
+
+  shifted.sort((a, b) => a.start - b.start);
+  const merged: LineRange[] = [];
+  for (const range of shifted) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Checks whether a smell is reported given the changed lines of its file.
+ * @param smell - The detected smell
+ */
+export function isSmellOnChangedLines(smell: Smell): boolean {
+  const filePath = normalizePath(smell.path);
+  return (
+    !changedLines.has(filePath) ||
+    isSmellInChangedLines(smell, changedLines.get(filePath))
+  );
+}
+
+/**
+ * Removes the smells outside the changed lines of their file.
+ * @param smells - Smells of a file
+ * @returns The smells that should be shown
+ */
+export function withoutUnchangedSmells(smells: Smell[]): Smell[] {
+  if (changedLines.size === 0) {
+    return smells;
+  }
+  return smells.filter(isSmellOnChangedLines);
+}
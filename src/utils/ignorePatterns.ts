@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { Ignore } from 'ignore';
+
+import { ConfigManager } from '../context/configManager';
+import {
+  createIgnoreMatcher,
+  matchesIgnorePatterns,
+  readIgnorePatterns,
+} from '../core/ignore';
+import { ecoOutput } from '../extension';
+
+export { ECOIGNORE_FILENAME, GITIGNORE_FILENAME } from '../core/ignore';
+
+let ignoreRoot: string | undefined;
+let matcher: Ignore | undefined;
+
+/**
+ * Loads the ignore patterns for the configured workspace. Patterns come from
+ * the `ecooptimizer.detection.exclude` setting, the workspace `.gitignore`
+ * (when `ecooptimizer.detection.useGitignore` is enabled) and the workspace
+ * `.ecoignore`, in that order, so `.ecoignore` can re-include paths with `!`.
+ * @param rootPath - The configured workspace folder, or undefined to clear the patterns
+ */
+export function loadIgnorePatterns(rootPath: string | undefined): void {
+  ignoreRoot = rootPath;
+  matcher = undefined;
+
+  if (!rootPath) {
+    return;
+  }
+
+  const patterns = readIgnorePatterns(rootPath, {
+    exclude: ConfigManager.get<string[]>('exclude', []),
+    useGitignore: ConfigManager.get<boolean>('useGitignore', false) === true,
+  });
+
+  matcher = createIgnoreMatcher(patterns);
+  ecoOutput.trace(
+    `[ignorePatterns.ts] Loaded ${patterns.length} ignore patterns for ${rootPath}`,
+  );
+}
+
+/**
+ * Checks whether a path is excluded from detection and the file trees.
+ * Paths outside the workspace are never ignored.
+ * @param filePath - Absolute path of the file or directory
+ * @param isDirectory - Whether the path is a directory, so `dir/` patterns match
+ * @returns True if the path matches an ignore pattern
+ */
+export function isPathIgnored(filePath: string, isDirectory = false): boolean {
+  if (!matcher || !ignoreRoot) {
+    return false;
+  }
+
+  return matchesIgnorePatterns(matcher, ignoreRoot, filePath, isDirectory);
+}
+
+/**
+ * Checks whether a configuration change affects the ignore patterns.
+ * @param event - The configuration change event from VS Code
+ */
+export function affectsIgnorePatterns(
+  event: vscode.ConfigurationChangeEvent,
+): boolean {
+  return (
+    event.affectsConfiguration('ecooptimizer.detection.exclude') ||
+    event.affectsConfiguration('ecooptimizer.detection.useGitignore')
+  );
+}
@@ -46,6 +46,7 @@ export async function initializeStatusesFromCache(
   let removedFiles = 0;
   let filesWithSmells = 0;
   let cleanFiles = 0;
+  let outdatedFiles = 0;
 
   // Process each cached file
   for (const filePath of pathMap) {
@@ -93,9 +94,10 @@ export async function initializeStatusesFromCache(
         cleanFiles++;
       }
     } else {
-      ecoOutput.trace(
-        `[CacheInit] No cache data found for file (should not happen): ${filePath}`,
-      );
+      // The file changed, or smells were enabled or reconfigured since
+      ecoOutput.trace(`[CacheInit] Cached results are outdated: ${filePath}`);
+      smellsViewProvider.setStatus(filePath, 'outdated');
+      outdatedFiles++;
     }
   }
 
@@ -103,6 +105,6 @@ export async function initializeStatusesFromCache(
   ecoOutput.info(
     `[CacheInit] Cache initialization complete. ` +
       `Results: ${validFiles} valid files (${filesWithSmells} with smells, ${cleanFiles} clean), ` +
-      `${removedFiles} files removed from cache`,
+      `${removedFiles} files removed from cache, ${outdatedFiles} outdated`,
   );
 }
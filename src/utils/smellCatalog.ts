@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+
+import { fetchSmellCatalog } from '../api/backend';
+import {
+  checkCatalogVersion,
+  getCatalogColours,
+  SmellCatalog,
+} from '../core/smellCatalog';
+import { ecoOutput } from '../extension';
+
+const SMELL_CATALOG_KEY = 'ecooptimizer.smellCatalog';
+
+let smellCatalog: SmellCatalog | undefined;
+let catalogColours: Record<string, string> = {};
+let reportedMismatch: string | undefined;
+
+/**
+ * Returns the catalog of the backend last connected to, or undefined when no
+ * backend has provided one yet.
+ */
+export function getSmellCatalog(): SmellCatalog | undefined {
+  return smellCatalog;
+}
+
+/**
+ * Returns the default highlight colour the backend advertises for a smell.
+ * @param symbol - The smell symbol
+ */
+export function getCatalogColour(symbol: string): string | undefined {
+  return catalogColours[symbol];
+}
+
+/**
+ * Loads the catalog cached by the last successful refresh so backend smells
+ * are known while the backend is offline.
+ * @param context - The extension context holding the cache
+ */
+export function loadCachedSmellCatalog(context: vscode.ExtensionContext): void {
+  setCatalog(context.globalState.get<SmellCatalog>(SMELL_CATALOG_KEY));
+  if (smellCatalog) {
+    ecoOutput.trace(
+      `[smellCatalog.ts] Loaded cached smell catalog of backend ${smellCatalog.version}`,
+    );
+  }
+}
+
+/**
+ * Fetches the catalog from the backend and caches it. Failures keep the cached
+ * catalog. A warning is shown once per backend version when the backend does
+ * not support this version of the extension.
+ * @param context - The extension context holding the cache
+ * @returns Whether the catalog changed
+ */
+export async function refreshSmellCatalog(
+  context: vscode.ExtensionContext,
+): Promise<boolean> {
+  let catalog: SmellCatalog;
+  try {
+    catalog = await fetchSmellCatalog();
+  } catch (error) {
+    ecoOutput.trace(
+      `[smellCatalog.ts] Keeping cached smell catalog: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return false;
+  }
+
+  checkVersion(context, catalog);
+
+  if (JSON.stringify(catalog) === JSON.stringify(smellCatalog)) {
+    return false;
+  }
+
+  setCatalog(catalog);
+  await context.globalState.update(SMELL_CATALOG_KEY, catalog);
+  ecoOutput.info(
+    `[smellCatalog.ts] Updated smell catalog from backend ${catalog.version}`,
+  );
+  return true;
+}
+
+function setCatalog(catalog: SmellCatalog | undefined): void {
+  smellCatalog = catalog;
+  catalogColours = getCatalogColours(catalog);
+}
+
+/**
+ * Warns when the backend does not support the installed extension.
+ */
+function checkVersion(
+  context: vscode.ExtensionContext,
+  catalog: SmellCatalog,
+): void {
+  const extensionVersion: string | undefined =
+    context.extension?.packageJSON?.version;
+  if (!extensionVersion) return;
+
+  if (!catalog.min_extension_version) {
+    ecoOutput.trace(
+      `[smellCatalog.ts] Backend ${catalog.version} declares no minimum extension version`,
+    );
+    return;
+  }
+
+  const mismatch = checkCatalogVersion(extensionVersion, catalog);
+  if (!mismatch || mismatch === reportedMismatch) return;
+
+  reportedMismatch = mismatch;
+  ecoOutput.warn(`[smellCatalog.ts] ${mismatch}`);
+  vscode.window.showWarningMessage(
+    `${mismatch}. Update the extension or the backend so their versions match.`,
+  );
+}
@@ -0,0 +1,149 @@
+import * as path from 'path';
+
+import { getAcronymByMessageId } from './smellsData';
+
+/**
+ * How the Code Smells tree arranges smells: along the folder hierarchy, or
+ * grouped by smell type or by detection confidence, then by file.
+ */
+export type SmellsViewMode = 'folder' | 'type' | 'confidence';
+
+/**
+ * Order of nodes in the Code Smells tree. `count` puts the nodes with the most
+ * smells (or occurrences, for smells) first; `name` sorts alphabetically and
+ * `line` lists smells in the order they appear in their file.
+ */
+export type SmellsViewSort = 'count' | 'name' | 'line';
+
+export const SMELLS_VIEW_MODES: SmellsViewMode[] = ['folder', 'type', 'confidence'];
+export const SMELLS_VIEW_SORTS: SmellsViewSort[] = ['line', 'name', 'count'];
+
+// Confidence levels reported by the backend, most certain first
+const CONFIDENCE_ORDER = [
+  'HIGH',
+  'MEDIUM',
+  'CONTROL_FLOW',
+  'INFERENCE',
+  'LOW',
+  'INFERENCE_FAILURE',
+];
+export const UNKNOWN_CONFIDENCE = 'UNDEFINED';
+
+/**
+ * Ranks a confidence level, from 0 for the most certain level. Unknown levels
+ * rank last.
+ */
+export function getConfidenceRank(confidence: string | undefined): number {
+  const index = CONFIDENCE_ORDER.indexOf(confidence ?? '');
+  return index === -1 ? CONFIDENCE_ORDER.length : index;
+}
+
+/**
+ * A node of the tree that contains smells, such as a smell type or a file.
+ */
+export interface SmellGroup {
+  key: string;
+  label: string;
+  smells: Smell[];
+}
+
+/**
+ * Gets the acronym shown for a smell, falling back to its message ID.
+ */
+export function getSmellAcronym(smell: Smell): string {
+  return getAcronymByMessageId(smell.messageId) ?? smell.messageId;
+}
+
+/**
+ * Checks whether a smell matches the text filter of the tree. The filter is
+ * matched case-insensitively against the file name, acronym and message.
+ * @param smell - The smell to check
+ * @param filter - Filter text; an empty filter matches every smell
+ */
+export function matchesSmellFilter(smell: Smell, filter: string): boolean {
+  const needle = filter.trim().toLowerCase();
+  if (!needle) return true;
+
+  return [path.basename(smell.path ?? ''), getSmellAcronym(smell), smell.message]
+    .filter((text): text is string => typeof text === 'string')
+    .some((text) => text.toLowerCase().includes(needle));
+}
+
+/**
+ * Groups smells by a key, keeping the order of smells within each group.
+ * @param smells - The smells to group
+ * @param getKey - Computes the group of a smell
+ * @param getLabel - Computes the label of a group from its key
+ */
+export function groupSmells(
+  smells: Smell[],
+  getKey: (smell: Smell) => string,
+  getLabel: (key: string) => string = (key): string => key,
+): SmellGroup[] {
+  const groups = new Map<string, SmellGroup>();
+  for (const smell of smells) {
+    const key = getKey(smell);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label: getLabel(key), smells: [] };
+      groups.set(key, group);
+    }
+    group.smells.push(smell);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Gets the group key of a smell for a view mode that groups smells.
+ */
+export function getGroupKey(smell: Smell, mode: SmellsViewMode): string {
+  return mode === 'confidence'
+    ? smell.confidence || UNKNOWN_CONFIDENCE
+    : getSmellAcronym(smell);
+}
+
+function firstLine(smell: Smell): number {
+  return smell.occurences?.[0]?.line ?? 0;
+}
+
+/**
+ * Sorts smells for display. Returns a new array.
+ */
+export function sortSmells(smells: Smell[], sort: SmellsViewSort): Smell[] {
+  const byLine = (a: Smell, b: Smell): number => firstLine(a) - firstLine(b);
+
+  return [...smells].sort((a, b) => {
+    switch (sort) {
+      case 'count':
+        return (
+          (b.occurences?.length ?? 0) - (a.occurences?.length ?? 0) || byLine(a, b)
+        );
+      case 'name':
+        return getSmellAcronym(a).localeCompare(getSmellAcronym(b)) || byLine(a, b);
+      default:
+        return byLine(a, b);
+    }
+  });
+}
+
+/**
+ * Sorts groups for display. Confidence groups are ordered from most to least
+ * certain unless they are sorted by count. Returns a new array.
+ */
+export function sortGroups<T extends SmellGroup>(
+  groups: T[],
+  sort: SmellsViewSort,
+  mode: SmellsViewMode = 'folder',
+): T[] {
+  const rank = (group: T): number => getConfidenceRank(group.key);
+  const byName = (a: T, b: T): number =>
+    mode === 'confidence'
+      ? rank(a) - rank(b) || a.label.localeCompare(b.label)
+      : a.label.localeCompare(b.label);
+
+  return [...groups].sort((a, b) =>
+    sort === 'count'
+      ? b.smells.length - a.smells.length || byName(a, b)
+      : byName(a, b),
+  );
+}
@@ -0,0 +1,100 @@
+import { normalizePath } from './normalizePath';
+
+/**
+ * Which way to move through smells.
+ */
+export type NavigationDirection = 'next' | 'previous';
+
+/**
+ * One occurrence of a smell, the unit that smell navigation moves between.
+ */
+export interface SmellLocation {
+  smell: Smell;
+  occurrence: Occurrence;
+}
+
+/**
+ * A position in a file, with 1-based lines and columns like smell occurrences.
+ */
+export interface NavigationPosition {
+  filePath: string;
+  line: number;
+  column: number;
+}
+
+function comparePositions(a: Occurrence, line: number, column: number): number {
+  return a.line - line || (a.column ?? 1) - column;
+}
+
+/**
+ * Lists every occurrence of the given smells, grouping the occurrences of each
+ * file in the order the files first appear and sorting them by position within
+ * the file.
+ * @param smells - Smells in the order of the Code Smells tree
+ */
+export function getSmellLocations(smells: Smell[]): SmellLocation[][] {
+  const files = new Map<string, SmellLocation[]>();
+  for (const smell of smells) {
+    const key = normalizePath(smell.path);
+    const locations = files.get(key) ?? [];
+    locations.push(
+      ...(smell.occurences ?? []).map((occurrence) => ({ smell, occurrence })),
+    );
+    files.set(key, locations);
+  }
+
+  return [...files.values()]
+    .map((locations) =>
+      locations.sort((a, b) =>
+        comparePositions(a.occurrence, b.occurrence.line, b.occurrence.column ?? 1),
+      ),
+    )
+    .filter((locations) => locations.length > 0);
+}
+
+/**
+ * Finds the smell occurrence to move to from a position. Occurrences after
+ * (or before) the position in its file come first, then the first (or last)
+ * occurrence of the following (or preceding) files, wrapping around at the end.
+ * @param files - Occurrences grouped by file, as returned by `getSmellLocations`
+ * @param position - The cursor position, or undefined to start at the first file
+ * @param direction - Whether to move forwards or backwards
+ * @returns The occurrence to move to, or undefined if there are no smells
+ */
+export function findAdjacentSmell(
+  files: SmellLocation[][],
+  position: NavigationPosition | undefined,
+  direction: NavigationDirection,
+): SmellLocation | undefined {
+  if (files.length === 0) return undefined;
+
+  const forward = direction === 'next';
+  const fileIndex = position
+    ? files.findIndex(
+        (locations) =>
+          normalizePath(locations[0].smell.path) ===
+          normalizePath(position.filePath),
+      )
+    : -1;
+
+  if (position && fileIndex !== -1) {
+    const locations = files[fileIndex];
+    const inFile = forward
+      ? locations.find(
+          ({ occurrence }) =>
+            comparePositions(occurrence, position.line, position.column) > 0,
+        )
+      : [...locations]
+          .reverse()
+          .find(
+            ({ occurrence }) =>
+              comparePositions(occurrence, position.line, position.column) < 0,
+          );
+    if (inFile) return inFile;
+  }
+
+  // Files outside the tree start from its first (or last) file
+  const start = fileIndex === -1 ? (forward ? -1 : files.length) : fileIndex;
+  const next = files[(start + (forward ? 1 : -1) + files.length) % files.length];
+  return forward ? next[0] : next[next.length - 1];
+}
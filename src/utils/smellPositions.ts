@@ -0,0 +1,148 @@
+/**
+ * Zero-based position in a document, as used by VS Code.
+ */
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * A single edit of a document, structurally compatible with
+ * `vscode.TextDocumentContentChangeEvent`.
+ */
+export interface TextChange {
+  range: { start: TextPosition; end: TextPosition };
+  text: string;
+}
+
+/**
+ * Smells moved through a batch of edits.
+ */
+export interface ShiftedSmells {
+  /** Smells whose occurrences were left untouched, at their new positions */
+  smells: Smell[];
+  /** Smells with an occurrence inside an edited range */
+  dropped: Smell[];
+}
+
+function comparePositions(a: TextPosition, b: TextPosition): number {
+  return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+/**
+ * Moves a position that lies outside of an edited range to where the same
+ * text is after the edit.
+ * @param position - Position before the edit
+ * @param change - The edit
+ * @param isEnd - Whether the position ends a range; ends touching an
+ * insertion stay in place so the range does not grow
+ */
+function shiftPosition(
+  position: TextPosition,
+  change: TextChange,
+  isEnd: boolean,
+): TextPosition {
+  const { start, end } = change.range;
+  if (comparePositions(position, end) < 0) return position;
+  if (isEnd && comparePositions(position, start) === 0) return position;
+
+  const insertedLines = change.text.split(/\r\n|\r|\n/);
+  const lastInsertedLine = insertedLines[insertedLines.length - 1];
+  const newEndLine = start.line + insertedLines.length - 1;
+
+  if (position.line !== end.line) {
+    return {
+      line: position.line + newEndLine - end.line,
+      character: position.character,
+    };
+  }
+
+  const newEndCharacter =
+    insertedLines.length === 1
+      ? start.character + lastInsertedLine.length
+      : lastInsertedLine.length;
+  return {
+    line: newEndLine,
+    character: newEndCharacter + position.character - end.character,
+  };
+}
+
+/**
+ * Moves an occurrence through an edit.
+ * @returns The moved occurrence, or undefined if the edit touched it
+ */
+function shiftOccurrence(
+  occurrence: Occurrence,
+  change: TextChange,
+): Occurrence | undefined {
+  // Occurrences use 1-based lines and columns; a missing end column spans to
+  // the end of the line, which only moves with its line
+  const start = {
+    line: occurrence.line - 1,
+    character: (occurrence.column ?? 1) - 1,
+  };
+  const end = {
+    line: (occurrence.endLine ?? occurrence.line) - 1,
+    character:
+      occurrence.endColumn !== undefined ? occurrence.endColumn - 1 : Infinity,
+  };
+
+  const { range } = change;
+  if (
+    comparePositions(range.start, end) < 0 &&
+    comparePositions(range.end, start) > 0
+  ) {
+    return undefined;
+  }
+
+  const newStart = shiftPosition(start, change, false);
+  const newEnd = shiftPosition(end, change, true);
+  return {
+    ...occurrence,
+    line: newStart.line + 1,
+    column:
+      occurrence.column !== undefined ? newStart.character + 1 : occurrence.column,
+    ...(occurrence.endLine !== undefined && { endLine: newEnd.line + 1 }),
+    ...(occurrence.endColumn !== undefined && { endColumn: newEnd.character + 1 }),
+  };
+}
+
+/**
+ * Moves smells through the edits of a document, so their occurrences keep
+ * pointing at the same code until the file is analyzed again. Smells with an
+ * occurrence that overlaps an edited range are dropped, since the edit may
+ * have fixed or changed them.
+ * @param smells - Smells located in the document before the edits
+ * @param changes - Edits of one change event, in the order VS Code reports
+ * them (from the end of the document backwards, so they can be applied one
+ * after another)
+ * @returns The smells at their new positions and the dropped smells
+ */
+export function shiftSmells(
+  smells: Smell[],
+  changes: readonly TextChange[],
+): ShiftedSmells {
+  const result: ShiftedSmells = { smells: [], dropped: [] };
+
+  for (const smell of smells) {
+    let occurrences: Occurrence[] | undefined = smell.occurences ?? [];
+    for (const change of changes) {
+      const shifted: Occurrence[] = [];
+      for (const occurrence of occurrences) {
+        const moved = shiftOccurrence(occurrence, change);
+        if (!moved) break;
+        shifted.push(moved);
+      }
+      occurrences = shifted.length === occurrences.length ? shifted : undefined;
+      if (!occurrences) break;
+    }
+
+    if (occurrences) {
+      result.smells.push({ ...smell, occurences: occurrences });
+    } else {
+      result.dropped.push(smell);
+    }
+  }
+
+  return result;
+}
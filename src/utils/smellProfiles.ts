@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+
+import { FilterSmellConfig, SmellOverride } from '../core/smellConfig';
+
+const SMELL_PROFILE_VERSION = 1;
+
+/**
+ * A named set of smell settings, keyed by smell symbol.
+ */
+export type SmellProfile = Record<string, SmellOverride>;
+
+/**
+ * The JSON document a profile is exported to and imported from.
+ */
+export interface SmellProfileFile {
+  version: number;
+  name: string;
+  smells: SmellProfile;
+}
+
+/**
+ * Returns every profile defined in user, workspace and folder settings.
+ * Profiles of the same name in more specific settings win.
+ * @param scope - The resource whose settings are read
+ */
+export function getSmellProfiles(scope?: vscode.Uri): Record<string, SmellProfile> {
+  return (
+    vscode.workspace
+      .getConfiguration('ecooptimizer', scope)
+      .get<Record<string, SmellProfile>>('smellProfiles') ?? {}
+  );
+}
+
+/**
+ * Returns the name of the active profile, or undefined when none is selected.
+ * @param scope - The resource whose settings are read
+ */
+export function getActiveSmellProfile(scope?: vscode.Uri): string | undefined {
+  return (
+    vscode.workspace
+      .getConfiguration('ecooptimizer', scope)
+      .get<string>('activeSmellProfile') || undefined
+  );
+}
+
+/**
+ * Makes a profile the active one of the workspace, or of the user when no
+ * folder is open.
+ * @param name - The profile to activate, or undefined to use no profile
+ */
+export async function setActiveSmellProfile(
+  name: string | undefined,
+): Promise<void> {
+  await vscode.workspace
+    .getConfiguration('ecooptimizer')
+    .update(
+      'activeSmellProfile',
+      name,
+      vscode.workspace.workspaceFolders?.length
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global,
+    );
+}
+
+/**
+ * Saves a profile to the settings that define it, or to user settings for new
+ * profiles so they are available in every workspace.
+ * @param name - The profile name
+ * @param smells - The settings of the profile
+ * @param scope - The resource whose settings are written
+ */
+export async function saveSmellProfile(
+  name: string,
+  smells: SmellProfile,
+  scope?: vscode.Uri,
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration('ecooptimizer', scope);
+  const inspected = config.inspect<Record<string, SmellProfile>>('smellProfiles');
+
+  const layers: [
+    Record<string, SmellProfile> | undefined,
+    vscode.ConfigurationTarget,
+  ][] = [
+    [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder],
+    [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+    [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+  ];
+  const [profiles, target] = layers.find(([value]) => value?.[name]) ?? [
+    inspected?.globalValue,
+    vscode.ConfigurationTarget.Global,
+  ];
+
+  await config.update('smellProfiles', { ...profiles, [name]: smells }, target);
+}
+
+/**
+ * Captures the enabled state and analyzer options of every smell.
+ * @param smells - The effective smells configuration
+ * @returns A profile reproducing the configuration
+ */
+export function captureSmellProfile(
+  smells: Record<string, FilterSmellConfig>,
+): SmellProfile {
+  return Object.fromEntries(
+    Object.entries(smells).map(([symbol, smell]) => [
+      symbol,
+      {
+        enabled: smell.enabled,
+        options: Object.fromEntries(
+          Object.entries(smell.analyzer_options ?? {}).map(([key, option]) => [
+            key,
+            option.value,
+          ]),
+        ),
+      },
+    ]),
+  );
+}
+
+/**
+ * Serializes a profile for export.
+ * @param name - The profile name
+ * @param smells - The settings of the profile
+ */
+export function serializeSmellProfile(name: string, smells: SmellProfile): string {
+  const data: SmellProfileFile = {
+    version: SMELL_PROFILE_VERSION,
+    name,
+    smells,
+  };
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * Parses an exported profile.
+ * @param content - The JSON document
+ * @returns The profile name and settings
+ * @throws Error when the document is not a smell profile
+ */
+export function parseSmellProfile(content: string): {
+  name: string;
+  smells: SmellProfile;
+} {
+  const data = JSON.parse(content) as Partial<SmellProfileFile>;
+  if (
+    !data ||
+    typeof data.smells !== 'object' ||
+    data.smells === null ||
+    Array.isArray(data.smells)
+  ) {
+    throw new Error('The file is not a smell profile');
+  }
+
+  return {
+    name: typeof data.name === 'string' ? data.name : '',
+    smells: data.smells,
+  };
+}
@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+
+/**
+ * Converts a smell occurrence (1-based lines and columns) into a zero-based
+ * VS Code range. Missing end positions fall back to the end of the start line.
+ * @param occurrence - The occurrence reported by the backend
+ * @returns Range covering the occurrence in the editor
+ */
+export function occurrenceToRange(occurrence: Occurrence): vscode.Range {
+  const startLine = Math.max(occurrence.line - 1, 0);
+  const startCharacter = Math.max((occurrence.column ?? 1) - 1, 0);
+  const endLine = Math.max((occurrence.endLine ?? occurrence.line) - 1, startLine);
+  const endCharacter =
+    occurrence.endColumn !== undefined
+      ? Math.max(occurrence.endColumn - 1, 0)
+      : Number.MAX_SAFE_INTEGER;
+
+  return new vscode.Range(startLine, startCharacter, endLine, endCharacter);
+}
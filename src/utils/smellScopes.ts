@@ -0,0 +1,431 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Ignore } from 'ignore';
+
+import {
+  DetectSmellConfig,
+  FilterSmellConfig,
+  mergeSmellOverrides,
+  parseEnabledSmells,
+  removeOptionOverride,
+  SmellOverride,
+} from '../core/smellConfig';
+import { createIgnoreMatcher } from '../core/ignore';
+import {
+  applySmellLayer,
+  getFilterSmells,
+  getSmellSettingsPath,
+  getSmellSources,
+  readSmellSettingsFile,
+  SMELL_SETTINGS_DIRECTORY,
+  SMELL_SETTINGS_FILENAME,
+  SmellSources,
+  writeSmellSettingsFile,
+} from './smellsData';
+import { normalizePath } from './normalizePath';
+import { ecoOutput } from '../extension';
+
+export const SMELL_SCOPES_SETTING = 'smellScopes';
+
+/**
+ * A part of the workspace with its own smell configuration: a subfolder with
+ * a `.eco/smells.json` file, or a glob-keyed section of the
+ * `ecooptimizer.smellScopes` setting. Scopes apply on top of the workspace
+ * configuration to the files they contain: folders from the outermost to the
+ * innermost, then matching globs in the order they are defined.
+ */
+export interface SmellScope {
+  kind: 'folder' | 'glob';
+  /** Folder or glob relative to the configured workspace, with `/` separators */
+  path: string;
+}
+
+/**
+ * The effective configuration of files in one or more scopes.
+ */
+export interface ScopedSmells {
+  smells: Record<string, FilterSmellConfig>;
+  /** The layer each value comes from, with 'scope' for values set by a scope */
+  sources: Record<string, SmellSources>;
+  enabled: Record<string, DetectSmellConfig>;
+}
+
+let scopeRoot: string | undefined;
+let globScopes: Record<string, Record<string, SmellOverride>> = {};
+let globMatchers: [string, Ignore][] = [];
+// Overrides of the `.eco/smells.json` files below the workspace root, keyed by
+// normalized folder path relative to the root
+let folderScopes = new Map<
+  string,
+  { path: string; overrides: Record<string, SmellOverride> }
+>();
+// Resolved configurations keyed by the scopes they apply, for the workspace
+// configuration they were resolved from
+let resolvedScopes = new Map<string, ScopedSmells>();
+let resolvedFrom: Record<string, FilterSmellConfig> | undefined;
+
+/**
+ * Finds the `.eco/smells.json` files below the configured workspace and reads
+ * the glob scopes of the settings. Call after `loadSmells`.
+ * @param rootPath - The configured workspace path, or undefined when no
+ *   workspace is configured
+ * @returns Whether any scope changed since the last load
+ */
+export async function loadSmellScopes(rootPath?: string): Promise<boolean> {
+  const previous = describeScopes();
+
+  // Scopes are relative to the folder holding the workspace's own settings file
+  scopeRoot = rootPath
+    ? path.dirname(path.dirname(getSmellSettingsPath(rootPath)))
+    : undefined;
+  folderScopes = scopeRoot ? await findFolderScopes(scopeRoot) : new Map();
+  globScopes = scopeRoot ? readGlobScopes() : {};
+  globMatchers = Object.keys(globScopes).map((glob) => [
+    glob,
+    createIgnoreMatcher([glob]),
+  ]);
+  resolvedScopes = new Map();
+
+  const scopeCount = folderScopes.size + globMatchers.length;
+  if (scopeCount > 0) {
+    ecoOutput.info(`[smellScopes.ts] Loaded ${scopeCount} smell scopes`);
+  }
+  return describeScopes() !== previous;
+}
+
+/**
+ * Lists the scopes that apply to a file, in the order they are applied.
+ * @param filePath - Absolute path of the file
+ */
+export function getSmellScopesForFile(filePath: string): SmellScope[] {
+  const relativePath = getRelativePath(filePath);
+  if (!relativePath) return [];
+
+  const scopes: SmellScope[] = [];
+  const folders = relativePath.split('/').slice(0, -1);
+  for (let depth = 1; depth <= folders.length; depth++) {
+    const folder = folderScopes.get(folders.slice(0, depth).join('/'));
+    if (folder) {
+      scopes.push({ kind: 'folder', path: folder.path });
+    }
+  }
+  for (const [glob, matcher] of globMatchers) {
+    if (matcher.ignores(relativePath)) {
+      scopes.push({ kind: 'glob', path: glob });
+    }
+  }
+  return scopes;
+}
+
+/**
+ * Resolves the smell configuration of a file: the workspace configuration
+ * with the scopes containing the file applied on top.
+ * @param filePath - Absolute path of the file
+ */
+export function getSmellsForFile(
+  filePath: string,
+): Record<string, FilterSmellConfig> {
+  return resolveScopes(getSmellScopesForFile(filePath)).smells;
+}
+
+/**
+ * Resolves the smells enabled for a file, formatted for backend processing.
+ * @param filePath - Absolute path of the file
+ */
+export function getEnabledSmellsForFile(
+  filePath: string,
+): Record<string, DetectSmellConfig> {
+  return resolveScopes(getSmellScopesForFile(filePath)).enabled;
+}
+
+/**
+ * Resolves the configuration shown while editing a scope. Folder scopes
+ * include the folder scopes containing them; glob scopes only their own
+ * section.
+ * @param scope - The edited scope
+ */
+export function getScopeSmells(scope: SmellScope): ScopedSmells {
+  if (scope.kind === 'glob') {
+    return resolveScopes([scope]);
+  }
+
+  const folders = scope.path.split('/');
+  const outer = folders
+    .slice(0, -1)
+    .map((_, index) => folders.slice(0, index + 1).join('/'))
+    .filter((folder) => folderScopes.has(normalizePath(folder)))
+    .map((folder): SmellScope => ({ kind: 'folder', path: folder }));
+  return resolveScopes([...outer, scope]);
+}
+
+/**
+ * Lists the scopes defined in the configured workspace.
+ */
+export function getSmellScopes(): SmellScope[] {
+  return [
+    ...[...folderScopes.values()]
+      .map((folder): SmellScope => ({ kind: 'folder', path: folder.path }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    ...Object.keys(globScopes).map(
+      (glob): SmellScope => ({ kind: 'glob', path: glob }),
+    ),
+  ];
+}
+
+/**
+ * Returns the folder scopes are relative to, or undefined when no workspace is
+ * configured.
+ */
+export function getSmellScopeRoot(): string | undefined {
+  return scopeRoot;
+}
+
+/**
+ * Converts a folder inside the configured workspace into a folder scope.
+ * @param folderPath - Absolute path of the folder
+ * @returns The scope, or undefined when the folder is the workspace root or
+ *   outside it
+ */
+export function toFolderScope(folderPath: string): SmellScope | undefined {
+  if (!scopeRoot) return undefined;
+
+  const relativePath = path.relative(scopeRoot, folderPath);
+  if (
+    !relativePath ||
+    relativePath.startsWith('..') ||
+    path.isAbsolute(relativePath)
+  ) {
+    return undefined;
+  }
+  return { kind: 'folder', path: relativePath.split(path.sep).join('/') };
+}
+
+/**
+ * Describes a scope for display.
+ * @param scope - The scope to describe
+ */
+export function getSmellScopeLabel(scope: SmellScope): string {
+  return scope.kind === 'folder'
+    ? `${scope.path}/${SMELL_SETTINGS_DIRECTORY}/${SMELL_SETTINGS_FILENAME}`
+    : `Scope "${scope.path}"`;
+}
+
+/**
+ * Writes smell configuration to a scope, keeping the other values it sets.
+ * @param scope - The scope to write to
+ * @param changes - The values to set, keyed by smell symbol
+ */
+export async function updateSmellScope(
+  scope: SmellScope,
+  changes: Record<string, SmellOverride>,
+): Promise<void> {
+  await writeScope(scope, mergeSmellOverrides(getScopeOverrides(scope), changes));
+}
+
+/**
+ * Removes an analyzer option of a smell from a scope, so the value outside the
+ * scope applies again.
+ * @param scope - The scope to write to
+ * @param symbol - The smell the option belongs to
+ * @param optionKey - The option to remove
+ */
+export async function clearSmellScopeOptionOverride(
+  scope: SmellScope,
+  symbol: string,
+  optionKey: string,
+): Promise<void> {
+  const overrides = removeOptionOverride(
+    getScopeOverrides(scope),
+    symbol,
+    optionKey,
+  );
+  if (overrides) {
+    await writeScope(scope, overrides);
+  }
+}
+
+/**
+ * Removes every smell override of a scope.
+ * @param scope - The scope to clear
+ */
+export async function resetSmellScope(scope: SmellScope): Promise<void> {
+  await writeScope(scope, undefined);
+}
+
+/**
+ * Applies scopes to the workspace configuration. Results are reused until the
+ * workspace configuration or the scopes change.
+ */
+function resolveScopes(scopes: SmellScope[]): ScopedSmells {
+  const base = getFilterSmells();
+  if (resolvedFrom !== base) {
+    resolvedScopes = new Map();
+    resolvedFrom = base;
+  }
+
+  const key = JSON.stringify(scopes);
+  let resolved = resolvedScopes.get(key);
+  if (!resolved) {
+    const sources: Record<string, SmellSources> = JSON.parse(
+      JSON.stringify(getSmellSources()),
+    );
+    let smells = base;
+    for (const scope of scopes) {
+      const overrides = getScopeOverrides(scope);
+      if (overrides) {
+        smells = applySmellLayer(
+          smells,
+          sources,
+          overrides,
+          'scope',
+          getSmellScopeLabel(scope),
+        );
+      }
+    }
+
+    resolved = { smells, sources, enabled: parseEnabledSmells(smells) };
+    resolvedScopes.set(key, resolved);
+  }
+  return resolved;
+}
+
+function getScopeOverrides(
+  scope: SmellScope,
+): Record<string, SmellOverride> | undefined {
+  return scope.kind === 'folder'
+    ? folderScopes.get(normalizePath(scope.path))?.overrides
+    : globScopes[scope.path];
+}
+
+/**
+ * Replaces the overrides of a scope and updates the loaded scopes. Undefined
+ * removes them.
+ */
+async function writeScope(
+  scope: SmellScope,
+  overrides: Record<string, SmellOverride> | undefined,
+): Promise<void> {
+  if (!scopeRoot) {
+    throw new Error('No workspace configured.');
+  }
+
+  if (scope.kind === 'folder') {
+    writeSmellSettingsFile(
+      path.join(
+        scopeRoot,
+        scope.path,
+        SMELL_SETTINGS_DIRECTORY,
+        SMELL_SETTINGS_FILENAME,
+      ),
+      overrides,
+    );
+    if (overrides) {
+      folderScopes.set(normalizePath(scope.path), { path: scope.path, overrides });
+    } else {
+      folderScopes.delete(normalizePath(scope.path));
+    }
+  } else {
+    const config = vscode.workspace.getConfiguration('ecooptimizer', getScopeUri());
+    const sections = {
+      ...config.inspect<Record<string, Record<string, SmellOverride>>>(
+        SMELL_SCOPES_SETTING,
+      )?.workspaceValue,
+    };
+    if (overrides) {
+      sections[scope.path] = overrides;
+    } else {
+      delete sections[scope.path];
+    }
+    await config.update(
+      SMELL_SCOPES_SETTING,
+      Object.keys(sections).length > 0 ? sections : undefined,
+      vscode.ConfigurationTarget.Workspace,
+    );
+    globScopes = readGlobScopes();
+    globMatchers = Object.keys(globScopes).map((glob) => [
+      glob,
+      createIgnoreMatcher([glob]),
+    ]);
+  }
+  resolvedScopes = new Map();
+}
+
+/**
+ * Reads the `.eco/smells.json` files of the subfolders of the workspace.
+ */
+async function findFolderScopes(
+  rootPath: string,
+): Promise<Map<string, { path: string; overrides: Record<string, SmellOverride> }>> {
+  const files = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(
+      rootPath,
+      `**/${SMELL_SETTINGS_DIRECTORY}/${SMELL_SETTINGS_FILENAME}`,
+    ),
+  );
+
+  const scopes = new Map<
+    string,
+    { path: string; overrides: Record<string, SmellOverride> }
+  >();
+  for (const file of files) {
+    const scope = toFolderScope(path.dirname(path.dirname(file.fsPath)));
+    const overrides = scope && readSmellSettingsFile(file.fsPath);
+    if (scope && overrides) {
+      scopes.set(normalizePath(scope.path), { path: scope.path, overrides });
+    }
+  }
+  return scopes;
+}
+
+/**
+ * Reads the glob-keyed sections of the `ecooptimizer.smellScopes` setting.
+ * Sections that are not objects are ignored.
+ */
+function readGlobScopes(): Record<string, Record<string, SmellOverride>> {
+  const sections =
+    vscode.workspace
+      .getConfiguration('ecooptimizer', getScopeUri())
+      .get<Record<string, Record<string, SmellOverride>>>(SMELL_SCOPES_SETTING) ??
+    {};
+
+  return Object.fromEntries(
+    Object.entries(sections).filter(
+      ([glob, overrides]) =>
+        glob.trim() &&
+        overrides &&
+        typeof overrides === 'object' &&
+        !Array.isArray(overrides),
+    ),
+  );
+}
+
+/**
+ * Returns the path of a file relative to the workspace root, normalized and
+ * with `/` separators, or undefined for files outside the workspace.
+ */
+function getRelativePath(filePath: string): string | undefined {
+  if (!scopeRoot) return undefined;
+
+  const relativePath = path.relative(
+    normalizePath(scopeRoot),
+    normalizePath(filePath),
+  );
+  if (
+    !relativePath ||
+    relativePath.startsWith('..') ||
+    path.isAbsolute(relativePath)
+  ) {
+    return undefined;
+  }
+  return relativePath.split(path.sep).join('/');
+}
+
+function getScopeUri(): vscode.Uri | undefined {
+  return scopeRoot
+    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(scopeRoot))?.uri
+    : undefined;
+}
+
+function describeScopes(): string {
+  return JSON.stringify([scopeRoot, globScopes, [...folderScopes]]);
+}
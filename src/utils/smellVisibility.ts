@@ -0,0 +1,16 @@
+import { withoutHiddenBaselinedSmells } from './baseline';
+import { withoutDismissedSmells } from './dismissals';
+import { withoutUnchangedSmells } from './gitChanges';
+
+/**
+ * Removes the smells that no view shows: dismissed smells, smells outside the
+ * changed lines of a changed-lines-only run, and baselined smells unless they
+ * are configured to be de-emphasised.
+ * @param smells - Smells of a file
+ * @returns The smells that should be shown
+ */
+export function getVisibleSmells(smells: Smell[]): Smell[] {
+  return withoutUnchangedSmells(
+    withoutDismissedSmells(withoutHiddenBaselinedSmells(smells)),
+  );
+}
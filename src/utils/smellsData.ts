@@ -1,48 +1,134 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+
+import {
+  applySmellOverrides,
+  FilterSmellConfig,
+  mergeSmellOverrides,
+  readSmellConfigFile,
+  removeOptionOverride,
+  setSmellConfig,
+  SmellOverride,
+  validateOptionValue,
+} from '../core/smellConfig';
+import {
+  getActiveSmellProfile,
+  getSmellProfiles,
+  saveSmellProfile,
+} from './smellProfiles';
+import { getSmellCatalog } from './smellCatalog';
+import { mergeSmellCatalog } from '../core/smellCatalog';
 import { ecoOutput } from '../extension';
 
+export {
+  FilterSmellConfig,
+  getAcronymByMessageId,
+  getDescriptionByMessageId,
+  getEnabledSmells,
+  getFilterSmells,
+  getNameByMessageId,
+  SmellOverride,
+} from '../core/smellConfig';
+
+export const SMELL_SETTINGS_DIRECTORY = '.eco';
+export const SMELL_SETTINGS_FILENAME = 'smells.json';
+const SMELL_SETTINGS_VERSION = 1;
+
 /**
- * Defines the structure of the smell configuration in smells.json.
- * Used by FilterSmellsProvider.ts (modifies JSON based on user input).
+ * A source of smell configuration. Later layers override earlier ones:
+ * bundled defaults, the active profile, user settings, the committed
+ * `.eco/smells.json`, workspace settings and finally the settings of the
+ * workspace folder. Folder scopes (see `smellScopes.ts`) apply on top of
+ * every layer, to the files they contain.
  */
-export interface FilterSmellConfig {
-  name: string;
-  message_id: string;
-  acronym: string;
-  smell_description: string;
-  enabled: boolean;
-  analyzer_options?: Record<
-    string,
-    { label: string; description: string; value: number | string }
-  >;
-}
+export type SmellConfigLayer =
+  | 'default'
+  | 'profile'
+  | 'user'
+  | 'project'
+  | 'workspace'
+  | 'folder'
+  | 'scope';
+
+/**
+ * A layer the user can write smell configuration to. Folder scopes are
+ * written through `smellScopes.ts`.
+ */
+export type EditableSmellConfigLayer = Exclude<
+  SmellConfigLayer,
+  'default' | 'scope'
+>;
+
+/** Workspace-wide layers in the order they are applied */
+export const SMELL_CONFIG_LAYERS: Exclude<SmellConfigLayer, 'scope'>[] = [
+  'default',
+  'profile',
+  'user',
+  'project',
+  'workspace',
+  'folder',
+];
+
+export const SMELL_CONFIG_LAYER_LABELS: Record<SmellConfigLayer, string> = {
+  default: 'Defaults',
+  profile: 'Profile',
+  user: 'User Settings',
+  project: `${SMELL_SETTINGS_DIRECTORY}/${SMELL_SETTINGS_FILENAME}`,
+  workspace: 'Workspace Settings',
+  folder: 'Folder Settings',
+  scope: 'Folder Scope',
+};
 
 /**
- * Defines the structure of enabled smells sent to the backend.
+ * The layer each value of a smell's effective configuration comes from.
  */
-interface DetectSmellConfig {
-  message_id: string;
-  acronym: string;
-  options: Record<string, string | number>;
+export interface SmellSources {
+  enabled: SmellConfigLayer;
+  /** Sources keyed by analyzer option */
+  options: Record<string, SmellConfigLayer>;
 }
 
-let filterSmells: Record<string, FilterSmellConfig>;
-let enabledSmells: Record<string, DetectSmellConfig>;
+interface SmellSettingsFile {
+  version: number;
+  smells: Record<string, SmellOverride>;
+}
+
+let configuredRootPath: string | undefined;
+let activeProfile: string | undefined;
+let layerOverrides: Partial<
+  Record<EditableSmellConfigLayer, Record<string, SmellOverride>>
+> = {};
+let smellSources: Record<string, SmellSources> = {};
 
 /**
- * Loads the full smells configuration from smells.json.
- * @param version - The version of the smells configuration to load.
- * @returns A dictionary of smells with their respective configuration.
+ * Resolves where the smell settings file of a workspace lives:
+ * `.eco/smells.json` in the workspace folder, or in the parent folder when a
+ * single file is configured.
+ * @param rootPath - The configured workspace path
  */
-export function loadSmells(version: 'working' | 'default' = 'working'): void {
-  const filePath = path.join(
-    __dirname,
-    '..',
-    'data',
-    `${version}_smells_config.json`,
-  );
+export function getSmellSettingsPath(rootPath: string): string {
+  let directory = rootPath;
+  try {
+    if (fs.statSync(rootPath).isFile()) {
+      directory = path.dirname(rootPath);
+    }
+  } catch {
+    // Missing paths are treated as folders
+  }
+  return path.join(directory, SMELL_SETTINGS_DIRECTORY, SMELL_SETTINGS_FILENAME);
+}
+
+/**
+ * Loads the smells configuration: the bundled defaults, extended with the
+ * smells of the backend catalog, with the overrides of every layer applied on
+ * top.
+ * @param rootPath - The configured workspace path, or undefined when no
+ *   workspace is configured
+ */
+export function loadSmells(rootPath?: string): void {
+  configuredRootPath = rootPath;
+  const filePath = path.join(__dirname, '..', 'data', 'default_smells_config.json');
 
   if (!fs.existsSync(filePath)) {
     vscode.window.showErrorMessage(
@@ -51,10 +137,45 @@ export function loadSmells(version: 'working' | 'default' = 'working'): void {
   }
 
   try {
-    filterSmells = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-    enabledSmells = parseSmells(filterSmells);
+    let smells = mergeSmellCatalog(readSmellConfigFile(filePath), getSmellCatalog());
+    const sources: Record<string, SmellSources> = Object.fromEntries(
+      Object.entries(smells).map(([symbol, smell]) => [
+        symbol,
+        {
+          enabled: 'default',
+          options: Object.fromEntries(
+            Object.keys(smell.analyzer_options ?? {}).map((optionKey) => [
+              optionKey,
+              'default',
+            ]),
+          ),
+        },
+      ]),
+    );
 
-    ecoOutput.info(`[smellsData.ts] Loaded smells configuration: ${version}`);
+    layerOverrides = readSmellLayers(rootPath);
+    for (const layer of SMELL_CONFIG_LAYERS) {
+      const overrides = layer === 'default' ? undefined : layerOverrides[layer];
+      if (!overrides) continue;
+
+      smells = applySmellLayer(
+        smells,
+        sources,
+        overrides,
+        layer,
+        getSmellLayerLabel(layer),
+      );
+    }
+
+    smellSources = sources;
+    setSmellConfig(smells);
+
+    const layers = SMELL_CONFIG_LAYERS.filter(
+      (layer) => layer === 'default' || layerOverrides[layer],
+    );
+    ecoOutput.info(
+      `[smellsData.ts] Loaded smells configuration: ${layers.map(getSmellLayerLabel).join(' → ')}`,
+    );
   } catch (error) {
     vscode.window.showErrorMessage(
       'Error loading smells.json. Please check the file format.',
@@ -64,103 +185,285 @@ export function loadSmells(version: 'working' | 'default' = 'working'): void {
 }
 
 /**
- * Saves the smells configuration to smells.json.
- * @param smells - The smells data to be saved.
+ * Applies the overrides of a layer, recording the layer as the source of the
+ * values it sets. Invalid option values are logged and ignored.
+ * @param smells - The configuration to override
+ * @param sources - Sources of the configuration, updated in place
+ * @param overrides - Overrides keyed by smell symbol
+ * @param layer - The layer the overrides come from
+ * @param label - Describes the layer in log messages
+ * @returns A copy of the configuration with the overrides applied
  */
-export function saveSmells(smells: Record<string, FilterSmellConfig>): void {
-  filterSmells = smells;
+export function applySmellLayer(
+  smells: Record<string, FilterSmellConfig>,
+  sources: Record<string, SmellSources>,
+  overrides: Record<string, SmellOverride>,
+  layer: SmellConfigLayer,
+  label: string,
+): Record<string, FilterSmellConfig> {
+  recordSources(sources, smells, overrides, layer);
+  return applySmellOverrides(smells, overrides, (symbol, optionKey, message) =>
+    ecoOutput.warn(
+      `[smellsData.ts] Ignoring ${symbol}.${optionKey} from ${label}: ${message}`,
+    ),
+  );
+}
 
-  const filePath = path.join(__dirname, '..', 'data', 'working_smells_config.json');
+/**
+ * Returns the layer each value of the loaded configuration comes from.
+ * @returns Sources keyed by smell symbol
+ */
+export function getSmellSources(): Record<string, SmellSources> {
+  return smellSources;
+}
 
-  enabledSmells = parseSmells(filterSmells);
-  try {
-    fs.writeFileSync(filePath, JSON.stringify(smells, null, 2));
-  } catch (error) {
-    vscode.window.showErrorMessage('Error saving smells.json.');
-    console.error('ERROR: Failed to write smells.json', error);
+/**
+ * Returns the overrides a layer contains, as loaded by `loadSmells`.
+ * @param layer - The layer to read
+ * @returns Overrides keyed by smell symbol, or undefined when the layer is empty
+ */
+export function getSmellOverrides(
+  layer: EditableSmellConfigLayer,
+): Record<string, SmellOverride> | undefined {
+  return layerOverrides[layer];
+}
+
+/**
+ * Describes a layer for display, naming the active profile.
+ * @param layer - The layer to describe
+ */
+export function getSmellLayerLabel(layer: SmellConfigLayer): string {
+  return layer === 'profile' && activeProfile
+    ? `Profile "${activeProfile}"`
+    : SMELL_CONFIG_LAYER_LABELS[layer];
+}
+
+/**
+ * Lists the layers that can be written to in the current workspace. Folder
+ * settings only differ from workspace settings in multi-root workspaces.
+ */
+export function getEditableSmellLayers(): EditableSmellConfigLayer[] {
+  const layers: EditableSmellConfigLayer[] = activeProfile
+    ? ['profile', 'user']
+    : ['user'];
+  if (configuredRootPath) {
+    layers.push('project');
   }
+  if (vscode.workspace.workspaceFolders?.length) {
+    layers.push('workspace');
+  }
+  if (vscode.workspace.workspaceFile && getWorkspaceFolderUri()) {
+    layers.push('folder');
+  }
+  return layers;
 }
 
 /**
- * Extracts raw smells data from the loaded configuration.
- * @returns A dictionary of smell config data for smell filtering.
+ * Writes smell configuration to a layer, keeping the other values the layer
+ * sets, and reloads the configuration.
+ * @param layer - The layer to write to
+ * @param changes - The values to set, keyed by smell symbol
  */
-export function getFilterSmells(): Record<string, FilterSmellConfig> {
-  return filterSmells;
+export async function updateSmellOverrides(
+  layer: EditableSmellConfigLayer,
+  changes: Record<string, SmellOverride>,
+): Promise<void> {
+  await writeSmellLayer(layer, mergeSmellOverrides(layerOverrides[layer], changes));
+  loadSmells(configuredRootPath);
 }
 
 /**
- * Extracts enabled smells from the loaded configuration.
- * @returns A dictionary of enabled smells formatted for backend processing.
+ * Removes an analyzer option of a smell from a layer, so the value of the
+ * layers below it applies again, and reloads the configuration.
+ * @param layer - The layer to write to
+ * @param symbol - The smell the option belongs to
+ * @param optionKey - The option to remove
  */
-export function getEnabledSmells(): Record<string, DetectSmellConfig> {
-  return enabledSmells;
+export async function clearSmellOptionOverride(
+  layer: EditableSmellConfigLayer,
+  symbol: string,
+  optionKey: string,
+): Promise<void> {
+  const overrides = removeOptionOverride(layerOverrides[layer], symbol, optionKey);
+  if (!overrides) return;
+
+  await writeSmellLayer(layer, overrides);
+  loadSmells(configuredRootPath);
 }
 
 /**
- * Parses the raw smells into a formatted object.
- * @param smells - The smells data to be saved.
- * @returns A dictionary of enabled smells formatted for backend processing.
+ * Removes every smell override of a layer and reloads the configuration.
+ * @param layer - The layer to clear
  */
-function parseSmells(
-  smells: Record<string, FilterSmellConfig>,
-): Record<string, DetectSmellConfig> {
+export async function resetSmellLayer(
+  layer: EditableSmellConfigLayer,
+): Promise<void> {
+  await writeSmellLayer(layer, undefined);
+  loadSmells(configuredRootPath);
+}
+
+/**
+ * Checks whether a configuration change affects the smells configuration.
+ */
+export function affectsSmellSettings(
+  event: vscode.ConfigurationChangeEvent,
+): boolean {
+  return [
+    'ecooptimizer.smells',
+    'ecooptimizer.smellProfiles',
+    'ecooptimizer.activeSmellProfile',
+    'ecooptimizer.smellScopes',
+  ].some((section) => event.affectsConfiguration(section));
+}
+
+/**
+ * Reads the overrides of every layer. Empty layers are left out.
+ */
+function readSmellLayers(
+  rootPath: string | undefined,
+): Partial<Record<EditableSmellConfigLayer, Record<string, SmellOverride>>> {
+  const folderUri = getWorkspaceFolderUri();
+  const inspected = vscode.workspace
+    .getConfiguration('ecooptimizer', folderUri)
+    .inspect<Record<string, SmellOverride>>('smells');
+
+  // Profiles that no longer exist are ignored
+  const profiles = getSmellProfiles(folderUri);
+  const profileName = getActiveSmellProfile(folderUri);
+  activeProfile = profileName && profiles[profileName] ? profileName : undefined;
+
+  const layers = {
+    profile: activeProfile ? profiles[activeProfile] : undefined,
+    user: inspected?.globalValue,
+    project: rootPath
+      ? readSmellSettingsFile(getSmellSettingsPath(rootPath))
+      : undefined,
+    workspace: inspected?.workspaceValue,
+    // Outside multi-root workspaces, folder settings are the workspace settings
+    folder: vscode.workspace.workspaceFile
+      ? inspected?.workspaceFolderValue
+      : undefined,
+  };
+
   return Object.fromEntries(
-    Object.entries(smells)
-      .filter(([, smell]) => smell.enabled)
-      .map(([smellKey, smellData]) => [
-        smellKey,
-        {
-          message_id: smellData.message_id,
-          acronym: smellData.acronym,
-          options: Object.fromEntries(
-            Object.entries(smellData.analyzer_options ?? {}).map(
-              ([optionKey, optionData]) => [
-                optionKey,
-                typeof optionData.value === 'string' ||
-                typeof optionData.value === 'number'
-                  ? optionData.value
-                  : String(optionData.value),
-              ],
-            ),
-          ),
-        },
-      ]),
+    Object.entries(layers).filter(
+      ([, overrides]) => overrides && Object.keys(overrides).length > 0,
+    ),
   );
 }
 
 /**
- * Returns the acronym for a given message ID.
- * @param messageId - The message ID to look up (e.g., "R0913").
- * @returns The acronym (e.g., "LPL") or undefined if not found.
+ * Reads the overrides of a `.eco/smells.json` file. A missing or unreadable
+ * file results in no overrides.
+ * @param filePath - Path of the settings file
  */
-export function getAcronymByMessageId(messageId: string): string | undefined {
-  const match = Object.values(filterSmells).find(
-    (smell) => smell.message_id === messageId,
-  );
-  return match?.acronym;
+export function readSmellSettingsFile(
+  filePath: string,
+): Record<string, SmellOverride> | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    const data = JSON.parse(
+      fs.readFileSync(filePath, 'utf-8'),
+    ) as Partial<SmellSettingsFile>;
+    return data.smells && typeof data.smells === 'object' ? data.smells : undefined;
+  } catch (error) {
+    const msg = `Failed to read smell settings from ${filePath}: ${error instanceof Error ? error.message : String(error)}`;
+    ecoOutput.error(`[smellsData.ts] ${msg}`);
+    vscode.window.showErrorMessage(msg);
+    return undefined;
+  }
 }
 
 /**
- * Returns the full name for a given message ID.
- * @param messageId - The message ID to look up (e.g., "R0913").
- * @returns The full name (e.g., "Long Parameter List") or undefined if not found.
+ * Replaces the overrides of a `.eco/smells.json` file. Undefined deletes the
+ * file.
+ * @param filePath - Path of the settings file
+ * @param overrides - Overrides keyed by smell symbol
  */
-export function getNameByMessageId(messageId: string): string | undefined {
-  const match = Object.values(filterSmells).find(
-    (smell) => smell.message_id === messageId,
-  );
-  return match?.name;
+export function writeSmellSettingsFile(
+  filePath: string,
+  overrides: Record<string, SmellOverride> | undefined,
+): void {
+  if (!overrides) {
+    fs.rmSync(filePath, { force: true });
+    return;
+  }
+
+  const data: SmellSettingsFile = {
+    version: SMELL_SETTINGS_VERSION,
+    smells: overrides,
+  };
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(data, null, 2)}\n`);
 }
 
 /**
- * Returns the description for a given message ID.
- * @param messageId - The message ID to look up (e.g., "R0913").
- * @returns The description or undefined if not found.
+ * Replaces the overrides of a layer. Undefined removes them.
  */
-export function getDescriptionByMessageId(messageId: string): string | undefined {
-  const match = Object.values(filterSmells).find(
-    (smell) => smell.message_id === messageId,
-  );
-  return match?.smell_description; // This assumes your FilterSmellConfig has a description field
+async function writeSmellLayer(
+  layer: EditableSmellConfigLayer,
+  overrides: Record<string, SmellOverride> | undefined,
+): Promise<void> {
+  if (layer === 'profile') {
+    if (!activeProfile) {
+      throw new Error('No smell profile is active.');
+    }
+    await saveSmellProfile(activeProfile, overrides ?? {}, getWorkspaceFolderUri());
+    return;
+  }
+
+  if (layer === 'project') {
+    if (!configuredRootPath) {
+      throw new Error('No workspace configured.');
+    }
+
+    writeSmellSettingsFile(getSmellSettingsPath(configuredRootPath), overrides);
+    return;
+  }
+
+  const targets: Record<typeof layer, vscode.ConfigurationTarget> = {
+    user: vscode.ConfigurationTarget.Global,
+    workspace: vscode.ConfigurationTarget.Workspace,
+    folder: vscode.ConfigurationTarget.WorkspaceFolder,
+  };
+  await vscode.workspace
+    .getConfiguration('ecooptimizer', getWorkspaceFolderUri())
+    .update('smells', overrides, targets[layer]);
+}
+
+/**
+ * Records the layer as the source of every value it overrides.
+ */
+function recordSources(
+  sources: Record<string, SmellSources>,
+  smells: Record<string, FilterSmellConfig>,
+  overrides: Record<string, SmellOverride>,
+  layer: SmellConfigLayer,
+): void {
+  for (const [symbol, override] of Object.entries(overrides)) {
+    const source = sources[symbol];
+    if (!source || !override) continue;
+
+    if (typeof override.enabled === 'boolean') {
+      source.enabled = layer;
+    }
+    for (const [optionKey, value] of Object.entries(override.options ?? {})) {
+      const option = smells[symbol]?.analyzer_options?.[optionKey];
+      if (option && !validateOptionValue(option, value)) {
+        source.options[optionKey] = layer;
+      }
+    }
+  }
+}
+
+/**
+ * Returns the workspace folder containing the configured workspace path.
+ */
+function getWorkspaceFolderUri(): vscode.Uri | undefined {
+  return configuredRootPath
+    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(configuredRootPath))?.uri
+    : undefined;
 }
@@ -1,16 +1,20 @@
 /* eslint-disable unused-imports/no-unused-imports */
 import path from 'path';
+import * as vscode from 'vscode';
 
 import { envConfig } from '../../src/utils/envConfig';
 import {
   checkServerStatus,
   initLogs,
   fetchSmells,
+  fetchSmellCatalog,
   backendRefactorSmell,
   backendRefactorSmellType,
+  RequestCancelledError,
 } from '../../src/api/backend';
 import { serverStatus, ServerStatusType } from '../../src/emitters/serverStatus';
 import { ecoOutput } from '../../src/extension';
+import { setLogger } from '../../src/core/logger';
 
 // Mock dependencies
 jest.mock('../../src/emitters/serverStatus');
@@ -36,8 +40,20 @@ describe('Backend Service', () => {
     messageId: 'test-001',
   } as unknown as Smell;
 
+  // Server settings returned by the `ecooptimizer.server` configuration section
+  let serverSettings: Record<string, unknown>;
+
+  beforeAll(() => {
+    setLogger(ecoOutput);
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
+
+    serverSettings = { retries: 0, retryBackoff: 0 };
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string) => serverSettings[key]),
+    });
   });
 
   describe('checkServerStatus', () => {
@@ -46,7 +62,9 @@ describe('Backend Service', () => {
 
       await checkServerStatus();
 
-      expect(fetch).toHaveBeenCalledWith(`http://${mockServerUrl}/health`);
+      expect(fetch).toHaveBeenCalledWith(`http://${mockServerUrl}/health`, {
+        signal: expect.any(AbortSignal),
+      });
       expect(serverStatus.setStatus).toHaveBeenCalledWith(ServerStatusType.UP);
       expect(ecoOutput.trace).toHaveBeenCalledWith(
         '[backend.ts] Backend server is healthy',
@@ -75,6 +93,17 @@ describe('Backend Service', () => {
         '[backend.ts] Server connection failed: Network error',
       );
     });
+
+    it('should not check a managed server that is still starting', async () => {
+      (serverStatus.getStatus as jest.Mock).mockReturnValueOnce(
+        ServerStatusType.STARTING,
+      );
+
+      await checkServerStatus();
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(serverStatus.setStatus).not.toHaveBeenCalled();
+    });
   });
 
   describe('initLogs', () => {
@@ -87,6 +116,7 @@ describe('Backend Service', () => {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ log_dir: mockLogDir }),
+        signal: expect.any(AbortSignal),
       });
       expect(result).toBe(true);
     });
@@ -137,16 +167,39 @@ describe('Backend Service', () => {
           file_path: mockFilePath,
           enabled_smells: mockEnabledSmells,
         }),
+        signal: expect.any(AbortSignal),
       });
       expect(result).toEqual({ smells: mockSmellsResponse, status: 200 });
       expect(ecoOutput.info).toHaveBeenCalledWith(
-        '[backend.ts] Starting smell detection for: file.py',
+        '[backendClient.ts] Starting smell detection for: file.py',
       );
       expect(ecoOutput.info).toHaveBeenCalledWith(
-        '[backend.ts] Detection complete for file.py',
+        '[backendClient.ts] Detection complete for file.py',
       );
     });
 
+    it('should send unsaved source with its content hash', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: jest.fn().mockResolvedValueOnce(mockSmellsResponse),
+      });
+
+      await fetchSmells(mockFilePath, mockEnabledSmells, undefined, 'x = 1\n');
+
+      const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body).toEqual({
+        file_path: mockFilePath,
+        enabled_smells: mockEnabledSmells,
+        source: 'x = 1\n',
+        source_hash: require('crypto')
+          .createHash('sha256')
+          .update('x = 1\n')
+          .digest('hex'),
+      });
+    });
+
     it('should throw error when server responds with error', async () => {
       const mockResponse = {
         ok: false,
@@ -160,7 +213,7 @@ describe('Backend Service', () => {
       );
 
       expect(ecoOutput.error).toHaveBeenCalledWith(
-        '[backend.ts] Backend error details:',
+        '[backendClient.ts] Backend error details:',
         { detail: 'Server error' },
       );
     });
@@ -173,7 +226,139 @@ describe('Backend Service', () => {
       );
 
       expect(ecoOutput.error).toHaveBeenCalledWith(
-        '[backend.ts] Smell detection failed for file.py: Network failed',
+        '[backendClient.ts] Smell detection failed for file.py: Network failed',
+      );
+    });
+  });
+
+  describe('connection settings', () => {
+    it('should use the configured host, port and protocol', async () => {
+      serverSettings = {
+        ...serverSettings,
+        host: 'backend.local',
+        port: 9000,
+        protocol: 'https',
+      };
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: true });
+
+      await checkServerStatus();
+
+      expect(fetch).toHaveBeenCalledWith(
+        'https://backend.local:9000/health',
+        expect.any(Object),
+      );
+    });
+
+    it('should retry network failures with backoff', async () => {
+      serverSettings = { ...serverSettings, retries: 2 };
+      (fetch as jest.Mock)
+        .mockRejectedValueOnce(new Error('Network failed'))
+        .mockResolvedValueOnce({ ok: true });
+
+      const result = await initLogs(mockLogDir);
+
+      expect(result).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(ecoOutput.warn).toHaveBeenCalledWith(
+        expect.stringContaining('failed (attempt 1/3): Network failed'),
+      );
+    });
+
+    it('should not retry the health check', async () => {
+      serverSettings = { ...serverSettings, retries: 2 };
+      (fetch as jest.Mock).mockRejectedValueOnce(new Error('Network failed'));
+
+      await checkServerStatus();
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(serverStatus.setStatus).toHaveBeenCalledWith(ServerStatusType.DOWN);
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      serverSettings = { ...serverSettings, requestTimeout: 10 };
+      (fetch as jest.Mock).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(new Error('This operation was aborted')),
+            );
+          }),
+      );
+
+      await expect(fetchSmells(mockFilePath, { 'test-smell': {} })).rejects.toThrow(
+        'Detection failed: Request timed out after 10ms',
+      );
+    });
+
+    it('should not time out refactorings', async () => {
+      serverSettings = { ...serverSettings, requestTimeout: 10 };
+      (fetch as jest.Mock).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(new Error('This operation was aborted')),
+            );
+            setTimeout(
+              () => resolve({ ok: true, json: async () => ({ success: true }) }),
+              50,
+            );
+          }),
+      );
+
+      await expect(
+        backendRefactorSmell(mockSmell, mockWorkspacePath),
+      ).resolves.toEqual({ success: true });
+    });
+
+    it('should cancel requests without retrying', async () => {
+      serverSettings = { ...serverSettings, retries: 2 };
+      const controller = new AbortController();
+      (fetch as jest.Mock).mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(new Error('This operation was aborted')),
+            );
+            controller.abort();
+          }),
+      );
+
+      await expect(
+        fetchSmells(mockFilePath, { 'test-smell': {} }, controller.signal),
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('fetchSmellCatalog', () => {
+    it('should fetch and validate the catalog', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          version: '0.2.0',
+          smells: {
+            'new-smell': { name: 'New Smell', message_id: 'X001', acronym: 'NS' },
+            broken: { name: 'Broken' },
+          },
+        }),
+      });
+
+      const catalog = await fetchSmellCatalog();
+
+      expect(fetch).toHaveBeenCalledWith(`http://${mockServerUrl}/smells/catalog`, {
+        signal: expect.any(AbortSignal),
+      });
+      expect(Object.keys(catalog.smells)).toEqual(['new-smell']);
+      expect(ecoOutput.info).toHaveBeenCalledWith(
+        '[backendClient.ts] Backend 0.2.0 advertises 1 smells',
+      );
+    });
+
+    it('should throw when the backend has no catalog', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      await expect(fetchSmellCatalog()).rejects.toThrow(
+        'Backend request failed (404)',
       );
     });
   });
@@ -195,6 +380,7 @@ describe('Backend Service', () => {
           sourceDir: mockWorkspacePath,
           smell: mockSmell,
         }),
+        signal: expect.any(AbortSignal),
       });
       expect(result).toEqual({ success: true });
       expect(ecoOutput.info).toHaveBeenCalledWith(
@@ -249,6 +435,7 @@ describe('Backend Service', () => {
             smellType: 'test-smell',
             firstSmell: mockSmell,
           }),
+          signal: expect.any(AbortSignal),
         },
       );
       expect(result).toEqual({ success: true });
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import {
+  affectsServerSettings,
+  getBaseUrl,
+  getServerSettings,
+  getWebSocketBaseUrl,
+  setManagedServerPort,
+  usesExternalServer,
+} from '../../src/api/serverConfig';
+
+describe('serverConfig', () => {
+  let settings: Record<string, unknown>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    settings = {};
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string) => settings[key]),
+    });
+  });
+
+  it('should fall back to the bundled server address', () => {
+    expect(getServerSettings()).toEqual({
+      host: 'localhost',
+      port: 8000,
+      protocol: 'http',
+      requestTimeout: 120000,
+      retries: 2,
+      retryBackoff: 500,
+    });
+    expect(getBaseUrl()).toBe('http://localhost:8000');
+    expect(getWebSocketBaseUrl()).toBe('ws://localhost:8000/logs');
+  });
+
+  it('should read the configured settings', () => {
+    settings = {
+      host: ' 10.0.0.5 ',
+      port: 8443,
+      protocol: 'https',
+      requestTimeout: 0,
+      retries: 5,
+      retryBackoff: 100,
+    };
+
+    expect(getServerSettings()).toEqual({
+      host: '10.0.0.5',
+      port: 8443,
+      protocol: 'https',
+      requestTimeout: 0,
+      retries: 5,
+      retryBackoff: 100,
+    });
+    expect(getBaseUrl()).toBe('https://10.0.0.5:8443');
+    expect(getWebSocketBaseUrl()).toBe('wss://10.0.0.5:8443/logs');
+  });
+
+  it('should ignore invalid values', () => {
+    settings = {
+      host: '',
+      port: -1,
+      protocol: 'ftp',
+      requestTimeout: 1.5,
+      retries: '3',
+    };
+
+    const resolved = getServerSettings();
+
+    expect(resolved.host).toBe('localhost');
+    expect(resolved.port).toBe(8000);
+    expect(resolved.protocol).toBe('http');
+    expect(resolved.requestTimeout).toBe(120000);
+    expect(resolved.retries).toBe(2);
+  });
+
+  it('should connect to the managed server while one is running', () => {
+    settings = { host: '10.0.0.5', port: 8443, protocol: 'https', retries: 5 };
+
+    setManagedServerPort(54321);
+    const resolved = getServerSettings();
+    setManagedServerPort(undefined);
+
+    expect(resolved.host).toBe('127.0.0.1');
+    expect(resolved.port).toBe(54321);
+    expect(resolved.protocol).toBe('http');
+    expect(resolved.retries).toBe(5);
+    expect(getServerSettings().host).toBe('10.0.0.5');
+  });
+
+  it('should use an external server unless disabled', () => {
+    expect(usesExternalServer()).toBe(true);
+
+    settings = { useExternalServer: false };
+    expect(usesExternalServer()).toBe(false);
+  });
+
+  it('should detect changes to the server section', () => {
+    const event = {
+      affectsConfiguration: jest.fn(
+        (section: string) => section === 'ecooptimizer.server',
+      ),
+    } as unknown as vscode.ConfigurationChangeEvent;
+
+    expect(affectsServerSettings(event)).toBe(true);
+  });
+});
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ExitCode, runCli } from '../../src/cli/run';
+import { fetchSmells } from '../../src/core/backendClient';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('../../src/core/backendClient');
+
+describe('runCli', () => {
+  let workspace: string;
+  let configPath: string;
+  let stdout: string;
+  let stderr: string;
+
+  const io = {
+    stdout: (text: string): void => {
+      stdout += text;
+    },
+    stderr: (text: string): void => {
+      stderr += text;
+    },
+  };
+
+  const smellAt = (filePath: string, line: number): Smell =>
+    createSmell({
+      type: 'refactor',
+      symbol: 'too-many-arguments',
+      message: 'Too many arguments (8/6)',
+      messageId: 'R0913',
+      confidence: 'UNDEFINED',
+      path: filePath,
+      module: path.basename(filePath, '.py'),
+      obj: 'handler',
+      occurences: [{ line, endLine: line, column: 0, endColumn: 10 }],
+    });
+
+  const writeFile = (relativePath: string, contents: string): string => {
+    const filePath = path.join(workspace, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents);
+    return filePath;
+  };
+
+  const detect = (...args: string[]): Promise<number> =>
+    runCli(['detect', workspace, '--config', configPath, ...args], io);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stdout = '';
+    stderr = '';
+
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'eco-cli-'));
+    configPath = writeFile(
+      'smells.json',
+      JSON.stringify({
+        'too-many-arguments': {
+          name: 'Too Many Arguments',
+          message_id: 'R0913',
+          acronym: 'LPL',
+          smell_description: 'Functions with many arguments',
+          enabled: true,
+          analyzer_options: {
+            max_args: { label: 'Arguments', description: 'Max', value: 6 },
+          },
+        },
+        'no-self-use': {
+          name: 'No Self Use',
+          message_id: 'R6301',
+          acronym: 'NSU',
+          smell_description: 'Methods that do not use self',
+          enabled: false,
+        },
+      }),
+    );
+
+    (fetchSmells as jest.Mock).mockImplementation(async (filePath: string) => ({
+      smells: filePath.endsWith('app.py') ? [smellAt(filePath, 1)] : [],
+      status: 200,
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it('should analyze every Python file with the enabled smells', async () => {
+    const appPath = writeFile(
+      'app.py',
+      'def handler(a, b, c, d, e, f, g, h): pass\n',
+    );
+    const utilPath = writeFile('pkg/util.py', 'x = 1\n');
+    writeFile('README.md', '# not python\n');
+
+    const exitCode = await detect('--max-smells', '1');
+
+    expect(exitCode).toBe(ExitCode.OK);
+    expect(fetchSmells).toHaveBeenCalledTimes(2);
+    expect(fetchSmells).toHaveBeenCalledWith(
+      appPath,
+      { 'too-many-arguments': { max_args: 6 } },
+      expect.objectContaining({
+        settings: expect.objectContaining({ host: 'localhost' }),
+      }),
+    );
+    expect(fetchSmells).toHaveBeenCalledWith(
+      utilPath,
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(stdout).toBe(
+      'app.py:1:0: LPL Too many arguments (8/6) (too-many-arguments)\n' +
+        'Found 1 smells in 2 files\n',
+    );
+  });
+
+  it('should exit with 1 when more smells than allowed are found', async () => {
+    writeFile('app.py', 'def handler(a, b, c, d, e, f, g, h): pass\n');
+
+    await expect(detect()).resolves.toBe(ExitCode.SMELLS_FOUND);
+  });
+
+  it('should skip ignored paths and suppressed smells', async () => {
+    writeFile(
+      'app.py',
+      'def handler(a, b, c, d, e, f, g, h): pass  # eco: ignore[LPL]\n',
+    );
+    writeFile('build/app.py', 'def handler(a, b, c, d, e, f, g, h): pass\n');
+    writeFile('.ecoignore', 'build/\n');
+
+    const exitCode = await detect('--format', 'json');
+
+    expect(exitCode).toBe(ExitCode.OK);
+    expect(fetchSmells).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(stdout)).toEqual([]);
+  });
+
+  it('should write fingerprinted smells as SARIF', async () => {
+    writeFile('app.py', 'def handler(a, b, c, d, e, f, g, h): pass\n');
+    const outputPath = path.join(workspace, 'out.sarif');
+
+    await detect('--format', 'sarif', '--output', outputPath, '--max-smells', '5');
+
+    const sarif = JSON.parse(fs.readFileSync(outputPath, 'utf-8'));
+    const [result] = sarif.runs[0].results;
+    expect(result.ruleId).toBe('too-many-arguments');
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe('app.py');
+    expect(result.partialFingerprints['ecoFingerprint/v1']).toMatch(
+      /^[0-9a-f]{64}$/,
+    );
+    expect(stdout).toBe('');
+    expect(stderr).toContain(`Wrote 1 smells to ${outputPath}`);
+  });
+
+  it('should analyze a single file against the given server', async () => {
+    const appPath = writeFile(
+      'app.py',
+      'def handler(a, b, c, d, e, f, g, h): pass\n',
+    );
+
+    await runCli(
+      [
+        'detect',
+        appPath,
+        '--config',
+        configPath,
+        '--server',
+        'https://eco.example.com:8443',
+      ],
+      io,
+    );
+
+    expect(fetchSmells).toHaveBeenCalledTimes(1);
+    expect(fetchSmells).toHaveBeenCalledWith(appPath, expect.anything(), {
+      settings: expect.objectContaining({
+        host: 'eco.example.com',
+        port: 8443,
+        protocol: 'https',
+      }),
+    });
+  });
+
+  it('should exit with 2 when a file cannot be analyzed', async () => {
+    writeFile('app.py', 'x = 1\n');
+    (fetchSmells as jest.Mock).mockRejectedValue(
+      new Error('Detection failed: connection refused'),
+    );
+
+    await expect(detect()).resolves.toBe(ExitCode.ERROR);
+    expect(stderr).toContain('Detection failed: connection refused');
+  });
+
+  it('should reject invalid arguments', async () => {
+    await expect(runCli(['scan', workspace], io)).resolves.toBe(ExitCode.ERROR);
+    await expect(detect('--format', 'xml')).resolves.toBe(ExitCode.ERROR);
+    await expect(detect('--max-smells', '1.5')).resolves.toBe(ExitCode.ERROR);
+    await expect(
+      runCli(
+        ['detect', path.join(workspace, 'missing'), '--config', configPath],
+        io,
+      ),
+    ).resolves.toBe(ExitCode.ERROR);
+
+    expect(stderr).toContain('Unknown command: scan');
+    expect(stderr).toContain('Unknown format: xml');
+    expect(stderr).toContain('--max-smells must be a non-negative integer');
+    expect(stderr).toContain('Path not found');
+    expect(fetchSmells).not.toHaveBeenCalled();
+  });
+
+  it('should print usage for --help', async () => {
+    await expect(runCli(['--help'], io)).resolves.toBe(ExitCode.OK);
+
+    expect(stdout).toContain('Usage: eco-optimizer detect <path>');
+  });
+});
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import {
+  createBaseline,
+  listFixedBaselineSmells,
+} from '../../src/commands/detection/baseline';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
+import { addSmellFingerprints } from '../../src/core/fingerprints';
+import {
+  BaselineEntry,
+  getBaselineEntries,
+  removeBaselineEntries,
+  resolveBaselineEntryPath,
+  writeBaseline,
+} from '../../src/utils/baseline';
+import { envConfig } from '../../src/utils/envConfig';
+
+import context from '../mocks/context-mock';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('fs', () => ({ existsSync: jest.fn() }));
+jest.mock('../../src/core/fingerprints');
+jest.mock('../../src/utils/baseline');
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/extension');
+
+describe('baseline commands', () => {
+  let smellsCacheManager: {
+    getAllFilePaths: jest.Mock;
+    getCachedSmells: jest.Mock;
+    notifySmellsChanged: jest.Mock;
+  };
+  let smellsViewProvider: { refresh: jest.Mock };
+
+  const smellA = createSmell({ path: '/project/a.py', fingerprint: 'a' });
+  const smellB = createSmell({ path: '/project/b.py' });
+
+  const entry = (fingerprint: string, path: string): BaselineEntry => ({
+    fingerprint,
+    symbol: 'long-message-chain',
+    messageId: 'LMC001',
+    path,
+    module: 'app',
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await context.workspaceState.update(
+      envConfig.WORKSPACE_CONFIGURED_PATH!,
+      '/project',
+    );
+
+    smellsCacheManager = {
+      getAllFilePaths: jest.fn(() => ['/project/a.py', '/project/b.py']),
+      getCachedSmells: jest.fn((filePath: string) =>
+        filePath === '/project/a.py' ? [smellA] : [smellB],
+      ),
+      notifySmellsChanged: jest.fn(),
+    };
+    smellsViewProvider = { refresh: jest.fn() };
+
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (getBaselineEntries as jest.Mock).mockReturnValue([]);
+    (addSmellFingerprints as jest.Mock).mockImplementation(async (_file, smells) =>
+      smells.map((smell: Smell) => ({ ...smell, fingerprint: 'b' })),
+    );
+    (writeBaseline as jest.Mock).mockImplementation((_root, smells) => smells);
+    (resolveBaselineEntryPath as jest.Mock).mockImplementation(
+      (baselineEntry: BaselineEntry) => `/project/${baselineEntry.path}`,
+    );
+  });
+
+  describe('createBaseline', () => {
+    it('should write every cached smell to the baseline', async () => {
+      await createBaseline(
+        context as unknown as vscode.ExtensionContext,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(addSmellFingerprints).toHaveBeenCalledWith('/project/b.py', [smellB]);
+      expect(writeBaseline).toHaveBeenCalledWith('/project', [
+        smellA,
+        { ...smellB, fingerprint: 'b' },
+      ]);
+      expect(smellsCacheManager.notifySmellsChanged).toHaveBeenCalled();
+      expect(smellsViewProvider.refresh).toHaveBeenCalled();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Baselined 2 smells. Commit .eco-baseline.json to share the baseline.',
+      );
+    });
+
+    it('should ask before replacing an existing baseline', async () => {
+      (getBaselineEntries as jest.Mock).mockReturnValue([entry('a', 'a.py')]);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+
+      await createBaseline(
+        context as unknown as vscode.ExtensionContext,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'Replace the existing baseline of 1 smells?',
+        { modal: true },
+        'Replace',
+      );
+      expect(writeBaseline).not.toHaveBeenCalled();
+    });
+
+    it('should warn when nothing has been analyzed', async () => {
+      smellsCacheManager.getAllFilePaths.mockReturnValue([]);
+
+      await createBaseline(
+        context as unknown as vscode.ExtensionContext,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'No detected smells to baseline. Analyze your workspace first.',
+      );
+      expect(writeBaseline).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listFixedBaselineSmells', () => {
+    it('should offer to prune smells that are no longer detected', async () => {
+      const fixedEntry = entry('gone', 'a.py');
+      const deletedEntry = entry('deleted', 'removed.py');
+      (getBaselineEntries as jest.Mock).mockReturnValue([
+        entry('a', 'a.py'),
+        fixedEntry,
+        deletedEntry,
+        entry('unchecked', 'c.py'),
+      ]);
+      (fs.existsSync as jest.Mock).mockImplementation(
+        (filePath: string) => filePath !== '/project/removed.py',
+      );
+      smellsCacheManager.getCachedSmells.mockImplementation((filePath: string) =>
+        filePath === '/project/a.py' ? [smellA] : undefined,
+      );
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(
+        async (items) => items,
+      );
+      (removeBaselineEntries as jest.Mock).mockReturnValue(2);
+
+      await listFixedBaselineSmells(
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(vscode.window.showQuickPick).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ entry: fixedEntry, picked: true }),
+          expect.objectContaining({ entry: deletedEntry, picked: true }),
+        ],
+        expect.objectContaining({
+          canPickMany: true,
+          title:
+            '2 baselined smells have been fixed (1 files have not been analyzed)',
+        }),
+      );
+      expect(removeBaselineEntries).toHaveBeenCalledWith(
+        new Set(['gone', 'deleted']),
+      );
+      expect(smellsCacheManager.notifySmellsChanged).toHaveBeenCalled();
+    });
+
+    it('should report when no baselined smell has been fixed', async () => {
+      (getBaselineEntries as jest.Mock).mockReturnValue([entry('a', 'a.py')]);
+
+      await listFixedBaselineSmells(
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'No fixed baseline smells found.',
+      );
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+    });
+  });
+});
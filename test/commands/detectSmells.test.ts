@@ -3,24 +3,53 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import {
+  detectSmellsChanged,
+  detectSmellsDocument,
   detectSmellsFile,
   detectSmellsFolder,
 } from '../../src/commands/detection/detectSmells';
 import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
 import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
 import { serverStatus, ServerStatusType } from '../../src/emitters/serverStatus';
+import { ConfigManager } from '../../src/context/configManager';
+import { isPathIgnored } from '../../src/utils/ignorePatterns';
+import { filterSuppressedSmells } from '../../src/core/suppressions';
+import { addSmellFingerprints } from '../../src/core/fingerprints';
+import { RequestCancelledError, fetchSmells } from '../../src/api/backend';
+import {
+  clearChangedLines,
+  getChangedFiles,
+  withoutUnchangedSmells,
+} from '../../src/utils/gitChanges';
 import { ecoOutput } from '../../src/extension';
+import { logger } from '../../src/core/logger';
 
 import context from '../mocks/context-mock';
+import { createSmell } from '../mocks/smell-mock';
 
 // Mock the external dependencies
-jest.mock('fs');
+jest.mock('fs', () => ({ promises: { readdir: jest.fn() } }));
 jest.mock('path');
 jest.mock('../../src/api/backend');
 jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/utils/smellScopes', () => ({
+  getEnabledSmellsForFile: jest.fn(() =>
+    jest.requireMock('../../src/utils/smellsData').getEnabledSmells(),
+  ),
+}));
 jest.mock('../../src/providers/SmellsViewProvider');
 jest.mock('../../src/context/SmellsCacheManager');
 jest.mock('../../src/emitters/serverStatus');
+jest.mock('../../src/context/configManager');
+jest.mock('../../src/utils/ignorePatterns');
+jest.mock('../../src/core/suppressions');
+jest.mock('../../src/core/fingerprints');
+jest.mock('../../src/utils/baseline');
+jest.mock('../../src/utils/gitChanges', () => ({
+  ...jest.requireActual('../../src/utils/gitChanges'),
+  getChangedFiles: jest.fn(),
+}));
+jest.mock('../../src/core/logger');
 jest.mock('../../src/extension');
 
 describe('detectSmellsFile', () => {
@@ -48,6 +77,18 @@ describe('detectSmellsFile', () => {
 
     // Mock path.basename
     (path.basename as jest.Mock).mockImplementation((p) => p.split('/').pop());
+
+    // No suppression pragmas by default
+    (filterSuppressedSmells as jest.Mock).mockImplementation(
+      async (_file, smells) => ({
+        active: smells,
+        suppressed: [],
+      }),
+    );
+    (addSmellFingerprints as jest.Mock).mockImplementation(
+      async (_file, smells) => smells,
+    );
+    (smellsViewProvider.getSuppressedSmells as jest.Mock).mockReturnValue([]);
   });
 
   it('should skip non-file URIs', async () => {
@@ -71,6 +112,7 @@ describe('detectSmellsFile', () => {
   it('should use cached smells when available', async () => {
     const mockCachedSmells = [{ id: 'smell1' }];
     (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(true);
+    (smellsCacheManager.getMissingSmells as jest.Mock).mockReturnValue([]);
     (smellsCacheManager.getCachedSmells as jest.Mock).mockReturnValue(
       mockCachedSmells,
     );
@@ -144,6 +186,7 @@ describe('detectSmellsFile', () => {
     expect(smellsCacheManager.setCachedSmells).toHaveBeenCalledWith(
       mockFilePath,
       mockSmells,
+      { smell1: { options: {} } },
     );
     expect(smellsViewProvider.setSmells).toHaveBeenCalledWith(
       mockFilePath,
@@ -158,6 +201,139 @@ describe('detectSmellsFile', () => {
     );
   });
 
+  it('should detect with the configuration of the folder scopes of the file', async () => {
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+    (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(false);
+    const scopedSmells = { smell1: { options: { max_args: 8 } } };
+    // Resolved once to check for enabled smells and once to detect them
+    (require('../../src/utils/smellScopes').getEnabledSmellsForFile as jest.Mock)
+      .mockReturnValueOnce(scopedSmells)
+      .mockReturnValueOnce(scopedSmells);
+    (require('../../src/api/backend').fetchSmells as jest.Mock).mockResolvedValue({
+      smells: [],
+      status: 200,
+    });
+
+    await detectSmellsFile(mockFilePath, smellsViewProvider, smellsCacheManager);
+
+    expect(
+      require('../../src/utils/smellScopes').getEnabledSmellsForFile,
+    ).toHaveBeenCalledWith(mockFilePath);
+    expect(require('../../src/api/backend').fetchSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      { smell1: { max_args: 8 } },
+      undefined,
+    );
+  });
+
+  it('should keep suppressed smells out of the cache', async () => {
+    const activeSmell = { id: 'active' };
+    const suppressedSmell = { id: 'suppressed' };
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+    (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(false);
+    (
+      require('../../src/utils/smellsData').getEnabledSmells as jest.Mock
+    ).mockReturnValue({
+      smell1: { options: {} },
+    });
+    (require('../../src/api/backend').fetchSmells as jest.Mock).mockResolvedValue({
+      smells: [activeSmell, suppressedSmell],
+      status: 200,
+    });
+    (filterSuppressedSmells as jest.Mock).mockResolvedValue({
+      active: [activeSmell],
+      suppressed: [suppressedSmell],
+    });
+
+    await detectSmellsFile(mockFilePath, smellsViewProvider, smellsCacheManager);
+
+    expect(smellsCacheManager.setCachedSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      [activeSmell],
+      { smell1: { options: {} } },
+    );
+    expect(smellsViewProvider.setSuppressedSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      [suppressedSmell],
+    );
+  });
+
+  it('should cache fingerprinted smells', async () => {
+    const smell = { id: 'smell' };
+    const fingerprinted = { id: 'smell', fingerprint: 'abc' };
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+    (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(false);
+    (
+      require('../../src/utils/smellsData').getEnabledSmells as jest.Mock
+    ).mockReturnValue({
+      smell1: { options: {} },
+    });
+    (require('../../src/api/backend').fetchSmells as jest.Mock).mockResolvedValue({
+      smells: [smell],
+      status: 200,
+    });
+    (addSmellFingerprints as jest.Mock).mockResolvedValue([fingerprinted]);
+
+    await detectSmellsFile(mockFilePath, smellsViewProvider, smellsCacheManager);
+
+    expect(addSmellFingerprints).toHaveBeenCalledWith(mockFilePath, [smell]);
+    expect(smellsCacheManager.setCachedSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      [fingerprinted],
+      { smell1: { options: {} } },
+    );
+    expect(smellsViewProvider.setSmells).toHaveBeenCalledWith(mockFilePath, [
+      fingerprinted,
+    ]);
+  });
+
+  it('should only detect smells missing from the cache', async () => {
+    const cachedSmell = { id: 'cached', symbol: 'smell1' };
+    const newSmell = { id: 'new', symbol: 'smell2' };
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+    (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(true);
+    (smellsCacheManager.getMissingSmells as jest.Mock).mockReturnValue(['smell2']);
+    (smellsCacheManager.getCachedSmells as jest.Mock).mockReturnValue([
+      cachedSmell,
+      newSmell,
+    ]);
+    (smellsViewProvider.getSuppressedSmells as jest.Mock).mockReturnValue([
+      { id: 'kept', symbol: 'smell1' },
+      { id: 'stale', symbol: 'smell2' },
+    ]);
+    (
+      require('../../src/utils/smellsData').getEnabledSmells as jest.Mock
+    ).mockReturnValue({
+      smell1: { options: {} },
+      smell2: { options: { threshold: 3 } },
+    });
+    (require('../../src/api/backend').fetchSmells as jest.Mock).mockResolvedValue({
+      smells: [newSmell],
+      status: 200,
+    });
+
+    await detectSmellsFile(mockFilePath, smellsViewProvider, smellsCacheManager);
+
+    expect(require('../../src/api/backend').fetchSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      { smell2: { threshold: 3 } },
+      undefined,
+    );
+    expect(smellsCacheManager.setCachedSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      [newSmell],
+      { smell2: { options: { threshold: 3 } } },
+    );
+    expect(smellsViewProvider.setSuppressedSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      [{ id: 'kept', symbol: 'smell1' }],
+    );
+    expect(smellsViewProvider.setSmells).toHaveBeenCalledWith(mockFilePath, [
+      cachedSmell,
+      newSmell,
+    ]);
+  });
+
   it('should handle no smells found', async () => {
     (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
     (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(false);
@@ -180,6 +356,7 @@ describe('detectSmellsFile', () => {
     expect(smellsCacheManager.setCachedSmells).toHaveBeenCalledWith(
       mockFilePath,
       [],
+      { smell1: { options: {} } },
     );
     expect(ecoOutput.info).toHaveBeenCalledWith(
       expect.stringContaining('File has no detectable smells'),
@@ -223,7 +400,7 @@ describe('detectSmellsFile', () => {
     await detectSmellsFile(mockFilePath, smellsViewProvider, smellsCacheManager);
 
     expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
-      'Analysis failed: API failed',
+      'Analysis failed for file.py: API failed',
     );
     expect(smellsViewProvider.setStatus).toHaveBeenCalledWith(
       mockFilePath,
@@ -236,8 +413,18 @@ describe('detectSmellsFile', () => {
 describe('detectSmellsFolder', () => {
   let smellsViewProvider: SmellsViewProvider;
   let smellsCacheManager: SmellsCacheManager;
+  let progress: { report: jest.Mock };
+  let cancel: () => void;
+  let statuses: Map<string, string>;
   const mockFolderPath = '/path/to/folder';
 
+  const dirent = (name: string, isDirectory: boolean): fs.Dirent =>
+    ({
+      name,
+      isDirectory: (): boolean => isDirectory,
+      isFile: (): boolean => !isDirectory,
+    }) as unknown as fs.Dirent;
+
   beforeEach(() => {
     jest.clearAllMocks();
 
@@ -248,25 +435,69 @@ describe('detectSmellsFolder', () => {
       context as unknown as vscode.ExtensionContext,
     );
 
-    // Mock vscode.window.withProgress
+    // Track statuses so queued files can be restored
+    statuses = new Map();
+    (smellsViewProvider.setStatus as jest.Mock).mockImplementation((file, status) =>
+      statuses.set(file, status),
+    );
+    (smellsViewProvider.getStatus as jest.Mock).mockImplementation((file) =>
+      statuses.get(file),
+    );
+
+    // Mock vscode.window.withProgress with a cancellable token
+    progress = { report: jest.fn() };
     (vscode.window.withProgress as jest.Mock).mockImplementation((_, callback) => {
-      return callback();
+      const token = {
+        onCancellationRequested: (listener: () => void): vscode.Disposable => {
+          cancel = listener;
+          return { dispose: jest.fn() } as unknown as vscode.Disposable;
+        },
+      };
+      return callback(progress, token);
     });
 
-    // Mock path.basename
+    (vscode.Uri.file as jest.Mock).mockImplementation((p) => ({
+      scheme: 'file',
+      path: p,
+    }));
     (path.basename as jest.Mock).mockImplementation((p) => p.split('/').pop());
+    (path.join as jest.Mock).mockImplementation((...parts) => parts.join('/'));
+
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+    (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(false);
+    (
+      require('../../src/utils/smellsData').getEnabledSmells as jest.Mock
+    ).mockReturnValue({
+      smell1: { options: {} },
+    });
+    (ConfigManager.get as jest.Mock).mockImplementation(
+      (_key, fallback) => fallback,
+    );
+    (filterSuppressedSmells as jest.Mock).mockImplementation(
+      async (_file, smells) => ({
+        active: smells,
+        suppressed: [],
+      }),
+    );
+    (addSmellFingerprints as jest.Mock).mockImplementation(
+      async (_file, smells) => smells,
+    );
+    (smellsViewProvider.getSuppressedSmells as jest.Mock).mockReturnValue([]);
   });
 
-  it('should show progress notification', async () => {
-    (fs.readdirSync as jest.Mock).mockReturnValue([]);
+  it('should show a cancellable progress notification', async () => {
+    (fs.promises.readdir as jest.Mock).mockResolvedValue([]);
 
     await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
 
-    expect(vscode.window.withProgress).toHaveBeenCalled();
+    expect(vscode.window.withProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ cancellable: true }),
+      expect.any(Function),
+    );
   });
 
   it('should handle empty folder', async () => {
-    (fs.readdirSync as jest.Mock).mockReturnValue([]);
+    (fs.promises.readdir as jest.Mock).mockResolvedValue([]);
 
     await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
 
@@ -279,45 +510,20 @@ describe('detectSmellsFolder', () => {
   });
 
   it('should process Python files in folder', async () => {
-    const mockFiles = ['file1.py', 'subdir/file2.py', 'ignore.txt'];
-
-    (fs.readdirSync as jest.Mock).mockImplementation((dir) => {
-      if (dir === mockFolderPath) return mockFiles;
-      if (dir === mockFolderPath + 'subdir') return ['file2.py'];
-      console.log('Here');
-      return mockFiles;
+    (fs.promises.readdir as jest.Mock).mockImplementation(async (dir) => {
+      if (dir === mockFolderPath) {
+        return [
+          dirent('file1.py', false),
+          dirent('subdir', true),
+          dirent('ignore.txt', false),
+        ];
+      }
+      return [dirent('file2.py', false)];
+    });
+    (require('../../src/api/backend').fetchSmells as jest.Mock).mockResolvedValue({
+      smells: [],
+      status: 200,
     });
-
-    jest
-      .spyOn(fs, 'statSync')
-      .mockReturnValueOnce({
-        isDirectory: (): boolean => false,
-        isFile: (): boolean => true,
-      } as unknown as fs.Stats)
-      .mockReturnValueOnce({
-        isDirectory: (): boolean => true,
-      } as unknown as fs.Stats)
-      .mockReturnValueOnce({
-        isDirectory: (): boolean => false,
-        isFile: (): boolean => true,
-      } as unknown as fs.Stats)
-      .mockReturnValueOnce({
-        isDirectory: (): boolean => false,
-        isFile: (): boolean => true,
-      } as unknown as fs.Stats);
-
-    jest
-      .spyOn(String.prototype, 'endsWith')
-      .mockReturnValueOnce(true)
-      .mockReturnValueOnce(true)
-      .mockReturnValueOnce(false);
-
-    jest
-      .spyOn(path, 'join')
-      .mockReturnValueOnce(mockFolderPath + '/file1.py')
-      .mockReturnValueOnce(mockFolderPath + '/subdir')
-      .mockReturnValueOnce(mockFolderPath + '/subdir' + '/file2.py')
-      .mockReturnValueOnce(mockFolderPath + 'ignore.txt');
 
     await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
 
@@ -327,17 +533,433 @@ describe('detectSmellsFolder', () => {
     expect(ecoOutput.info).toHaveBeenCalledWith(
       expect.stringContaining('Found 2 files to analyze'),
     );
+    expect(statuses.get(`${mockFolderPath}/file1.py`)).toBe('no_issues');
+    expect(statuses.get(`${mockFolderPath}/subdir/file2.py`)).toBe('no_issues');
+    expect(progress.report).toHaveBeenCalledWith({
+      increment: 50,
+      message: '2/2 files',
+    });
   });
 
-  it('should handle directory scan errors', async () => {
-    (fs.readdirSync as jest.Mock).mockImplementation(() => {
-      throw new Error('Permission denied');
+  it('should skip ignored files and folders', async () => {
+    (fs.promises.readdir as jest.Mock).mockImplementation(async (dir) => {
+      if (dir === mockFolderPath) {
+        return [
+          dirent('main.py', false),
+          dirent('.venv', true),
+          dirent('gen_pb2.py', false),
+        ];
+      }
+      return [dirent('site.py', false)];
+    });
+    (isPathIgnored as jest.Mock).mockImplementation(
+      (p: string) => p.endsWith('.venv') || p.endsWith('_pb2.py'),
+    );
+    (require('../../src/api/backend').fetchSmells as jest.Mock).mockResolvedValue({
+      smells: [],
+      status: 200,
+    });
+
+    await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
+
+    expect(fs.promises.readdir).toHaveBeenCalledTimes(1);
+    expect(ecoOutput.info).toHaveBeenCalledWith(
+      expect.stringContaining('Found 1 files to analyze'),
+    );
+  });
+
+  it('should limit the number of files analyzed at once', async () => {
+    (fs.promises.readdir as jest.Mock).mockResolvedValue(
+      ['a.py', 'b.py', 'c.py', 'd.py', 'e.py'].map((name) => dirent(name, false)),
+    );
+    (ConfigManager.get as jest.Mock).mockReturnValue(2);
+
+    let inFlight = 0;
+    let maxInFlight = 0;
+    (require('../../src/api/backend').fetchSmells as jest.Mock).mockImplementation(
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        inFlight--;
+        return { smells: [], status: 200 };
+      },
+    );
+
+    await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
+
+    expect(maxInFlight).toBe(2);
+    expect(progress.report).toHaveBeenCalledTimes(6);
+  });
+
+  it('should report failed files together', async () => {
+    (fs.promises.readdir as jest.Mock).mockResolvedValue(
+      ['a.py', 'b.py', 'c.py'].map((name) => dirent(name, false)),
+    );
+    (fetchSmells as jest.Mock).mockImplementation(async (file: string) => {
+      if (file.endsWith('c.py')) return { smells: [], status: 200 };
+      throw new Error('API failed');
     });
 
     await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
 
     expect(ecoOutput.error).toHaveBeenCalledWith(
+      '[detection.ts] Analysis failed for a.py: API failed',
+    );
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledTimes(1);
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      '2 of 3 files failed to analyze, see the Eco-Optimizer output for details',
+    );
+  });
+
+  it('should abort in-flight requests and restore queued files on cancel', async () => {
+    statuses.set(`${mockFolderPath}/b.py`, 'outdated');
+
+    (fs.promises.readdir as jest.Mock).mockResolvedValue(
+      ['a.py', 'b.py', 'c.py'].map((name) => dirent(name, false)),
+    );
+    (ConfigManager.get as jest.Mock).mockReturnValue(1);
+    (fetchSmells as jest.Mock).mockImplementation(
+      async (_file: string, _smells: unknown, signal: AbortSignal) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () =>
+            reject(new RequestCancelledError()),
+          );
+          cancel();
+        }),
+    );
+
+    await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
+
+    expect(fetchSmells).toHaveBeenCalledTimes(1);
+    expect(statuses.get(`${mockFolderPath}/a.py`)).toBe('not_yet_detected');
+    expect(statuses.get(`${mockFolderPath}/b.py`)).toBe('outdated');
+    expect(statuses.get(`${mockFolderPath}/c.py`)).toBe('not_yet_detected');
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'Analysis cancelled after 0 of 3 files',
+    );
+  });
+
+  it('should not start when the server is down', async () => {
+    (fs.promises.readdir as jest.Mock).mockResolvedValue([dirent('a.py', false)]);
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.DOWN);
+
+    await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    expect(smellsViewProvider.setStatus).not.toHaveBeenCalled();
+  });
+
+  it('should handle directory scan errors', async () => {
+    (fs.promises.readdir as jest.Mock).mockRejectedValue(
+      new Error('Permission denied'),
+    );
+
+    await detectSmellsFolder(mockFolderPath, smellsViewProvider, smellsCacheManager);
+
+    expect(logger.error).toHaveBeenCalledWith(
       expect.stringContaining('Scan error: Permission denied'),
     );
   });
 });
+
+describe('detectSmellsDocument', () => {
+  let smellsViewProvider: SmellsViewProvider;
+  let smellsCacheManager: SmellsCacheManager;
+  let document: { isDirty: boolean; version: number; [key: string]: unknown };
+  const mockFilePath = '/path/to/file.py';
+  const source = 'def f(a, b, c, d, e, f):\n    pass\n';
+  const mockSmells = [{ symbol: 'too-many-arguments' }] as Smell[];
+
+  const detect = (): Promise<void> =>
+    detectSmellsDocument(
+      document as unknown as vscode.TextDocument,
+      smellsViewProvider,
+      smellsCacheManager,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    smellsViewProvider = new SmellsViewProvider(
+      context as unknown as vscode.ExtensionContext,
+    );
+    smellsCacheManager = new SmellsCacheManager(
+      context as unknown as vscode.ExtensionContext,
+    );
+    document = {
+      isDirty: true,
+      version: 3,
+      uri: { fsPath: mockFilePath, scheme: 'file' },
+      getText: jest.fn(() => source),
+    };
+
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+    (
+      require('../../src/utils/smellsData').getEnabledSmells as jest.Mock
+    ).mockReturnValue({ 'too-many-arguments': { options: {} } });
+    (fetchSmells as jest.Mock).mockResolvedValue({
+      smells: mockSmells,
+      status: 200,
+    });
+    (filterSuppressedSmells as jest.Mock).mockImplementation(
+      async (_filePath, smells) => ({ active: smells, suppressed: [] }),
+    );
+    (addSmellFingerprints as jest.Mock).mockImplementation(
+      async (_filePath, smells) => smells,
+    );
+    (smellsCacheManager.getCachedSmells as jest.Mock).mockReturnValue(mockSmells);
+  });
+
+  it('should analyze the unsaved buffer content', async () => {
+    await detect();
+
+    expect(fetchSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      expect.any(Object),
+      undefined,
+      source,
+    );
+    expect(filterSuppressedSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      mockSmells,
+      source,
+    );
+    expect(addSmellFingerprints).toHaveBeenCalledWith(
+      mockFilePath,
+      mockSmells,
+      source,
+    );
+    expect(smellsCacheManager.setDocumentSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      3,
+      mockSmells,
+      { 'too-many-arguments': { options: {} } },
+    );
+    expect(smellsViewProvider.setStatus).toHaveBeenCalledWith(
+      mockFilePath,
+      'passed',
+    );
+    expect(smellsViewProvider.setSmells).toHaveBeenCalledWith(
+      mockFilePath,
+      mockSmells,
+    );
+  });
+
+  it('should analyze saved documents from disk', async () => {
+    document.isDirty = false;
+    (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(true);
+    (smellsCacheManager.getMissingSmells as jest.Mock).mockReturnValue([]);
+
+    await detect();
+
+    expect(fetchSmells).not.toHaveBeenCalled();
+    expect(smellsCacheManager.setDocumentSmells).not.toHaveBeenCalled();
+    expect(smellsCacheManager.hasCachedSmells).toHaveBeenCalledWith(mockFilePath);
+  });
+
+  it('should skip buffer versions that were already analyzed', async () => {
+    (smellsCacheManager.getDocumentVersion as jest.Mock).mockReturnValue(3);
+
+    await detect();
+
+    expect(fetchSmells).not.toHaveBeenCalled();
+  });
+
+  it('should discard results for documents edited during analysis', async () => {
+    (fetchSmells as jest.Mock).mockImplementation(async () => {
+      document.version = 4;
+      return { smells: mockSmells, status: 200 };
+    });
+
+    await detect();
+
+    expect(smellsCacheManager.setDocumentSmells).not.toHaveBeenCalled();
+    expect(smellsViewProvider.setSmells).not.toHaveBeenCalled();
+  });
+
+  it('should warn without notifying when the analysis fails', async () => {
+    (fetchSmells as jest.Mock).mockRejectedValue(new Error('API failed'));
+
+    await detect();
+
+    expect(ecoOutput.warn).toHaveBeenCalledWith(
+      '[detection.ts] Analysis of unsaved changes failed: API failed',
+    );
+    expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+  });
+
+  it('should ignore cancelled requests', async () => {
+    (fetchSmells as jest.Mock).mockRejectedValue(new RequestCancelledError());
+
+    await detect();
+
+    expect(ecoOutput.warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('detectSmellsChanged', () => {
+  let smellsViewProvider: SmellsViewProvider;
+  let smellsCacheManager: SmellsCacheManager;
+  let statuses: Map<string, string>;
+  let settings: Record<string, unknown>;
+  const workspacePath = '/project';
+  const smellAt = (line: number): Smell =>
+    createSmell({ symbol: 'smell1', occurences: [{ line, column: 1 }] });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearChangedLines();
+
+    smellsViewProvider = new SmellsViewProvider(
+      context as unknown as vscode.ExtensionContext,
+    );
+    smellsCacheManager = new SmellsCacheManager(
+      context as unknown as vscode.ExtensionContext,
+    );
+
+    statuses = new Map();
+    (smellsViewProvider.setStatus as jest.Mock).mockImplementation((file, status) =>
+      statuses.set(file, status),
+    );
+    (smellsViewProvider.getStatus as jest.Mock).mockImplementation((file) =>
+      statuses.get(file),
+    );
+    (vscode.window.withProgress as jest.Mock).mockImplementation((_, callback) =>
+      callback(
+        { report: jest.fn() },
+        { onCancellationRequested: () => ({ dispose: jest.fn() }) },
+      ),
+    );
+    (vscode.Uri.file as jest.Mock).mockImplementation((p) => ({
+      scheme: 'file',
+      path: p,
+    }));
+
+    settings = {};
+    (ConfigManager.get as jest.Mock).mockImplementation(
+      (key, fallback) => settings[key] ?? fallback,
+    );
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+    (smellsCacheManager.hasCachedSmells as jest.Mock).mockReturnValue(false);
+    (
+      require('../../src/utils/smellsData').getEnabledSmells as jest.Mock
+    ).mockReturnValue({ smell1: { options: {} } });
+    (filterSuppressedSmells as jest.Mock).mockImplementation(
+      async (_file, smells) => ({ active: smells, suppressed: [] }),
+    );
+    (addSmellFingerprints as jest.Mock).mockImplementation(
+      async (_file, smells) => smells,
+    );
+    (smellsViewProvider.getSuppressedSmells as jest.Mock).mockReturnValue([]);
+    (fetchSmells as jest.Mock).mockResolvedValue({
+      smells: [smellAt(2), smellAt(20)],
+      status: 200,
+    });
+    (smellsCacheManager.getCachedSmells as jest.Mock).mockReturnValue([
+      smellAt(2),
+      smellAt(20),
+    ]);
+    (getChangedFiles as jest.Mock).mockResolvedValue(
+      new Map([
+        ['/project/app.py', [{ start: 1, end: 3 }]],
+        ['/project/README.md', undefined],
+        ['/project/docs/conf.py', undefined],
+        ['/elsewhere/other.py', undefined],
+      ]),
+    );
+    (isPathIgnored as jest.Mock).mockImplementation((p) => p.includes('/docs/'));
+  });
+
+  it('should analyze changed Python files of the workspace', async () => {
+    await detectSmellsChanged(workspacePath, smellsViewProvider, smellsCacheManager);
+
+    expect(getChangedFiles).toHaveBeenCalledWith(
+      workspacePath,
+      undefined,
+      expect.any(AbortSignal),
+    );
+    expect(fetchSmells).toHaveBeenCalledTimes(1);
+    expect(fetchSmells).toHaveBeenCalledWith(
+      '/project/app.py',
+      expect.any(Object),
+      expect.any(AbortSignal),
+    );
+    expect(smellsViewProvider.setSmells).toHaveBeenLastCalledWith(
+      '/project/app.py',
+      [smellAt(2), smellAt(20)],
+    );
+  });
+
+  it('should compare against the configured base branch', async () => {
+    settings.changedFilesBase = ' main ';
+    (getChangedFiles as jest.Mock).mockResolvedValue(new Map());
+
+    await detectSmellsChanged(workspacePath, smellsViewProvider, smellsCacheManager);
+
+    expect(getChangedFiles).toHaveBeenCalledWith(
+      workspacePath,
+      'main',
+      expect.any(AbortSignal),
+    );
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'No changed Python files since main',
+    );
+    expect(fetchSmells).not.toHaveBeenCalled();
+  });
+
+  it('should report only smells on changed lines when configured', async () => {
+    settings.changedLinesOnly = true;
+
+    await detectSmellsChanged(workspacePath, smellsViewProvider, smellsCacheManager);
+
+    // The cache and the tree keep every smell, reporting filters them
+    expect(smellsViewProvider.setSmells).toHaveBeenLastCalledWith(
+      '/project/app.py',
+      [smellAt(2), smellAt(20)],
+    );
+    expect(withoutUnchangedSmells([smellAt(2), smellAt(20)])).toEqual([smellAt(2)]);
+    expect(statuses.get('/project/app.py')).toBe('passed');
+  });
+
+  it('should report every smell again after a folder scan', async () => {
+    settings.changedLinesOnly = true;
+    await detectSmellsChanged(workspacePath, smellsViewProvider, smellsCacheManager);
+
+    (path.join as jest.Mock).mockImplementation((...parts) => parts.join('/'));
+    (fs.promises.readdir as jest.Mock).mockResolvedValue([
+      { name: 'app.py', isDirectory: () => false, isFile: () => true },
+    ]);
+    await detectSmellsFolder(workspacePath, smellsViewProvider, smellsCacheManager);
+
+    expect(withoutUnchangedSmells([smellAt(2), smellAt(20)])).toEqual([
+      smellAt(2),
+      smellAt(20),
+    ]);
+  });
+
+  it('should mark files without smells on changed lines as clean', async () => {
+    settings.changedLinesOnly = true;
+    (getChangedFiles as jest.Mock).mockResolvedValue(
+      new Map([['/project/app.py', [{ start: 10, end: 12 }]]]),
+    );
+
+    await detectSmellsChanged(workspacePath, smellsViewProvider, smellsCacheManager);
+
+    expect(withoutUnchangedSmells([smellAt(2), smellAt(20)])).toEqual([]);
+    expect(statuses.get('/project/app.py')).toBe('no_issues');
+  });
+
+  it('should report when changed files cannot be listed', async () => {
+    (getChangedFiles as jest.Mock).mockRejectedValue(
+      new Error('not a git repository'),
+    );
+
+    await detectSmellsChanged(workspacePath, smellsViewProvider, smellsCacheManager);
+
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'Unable to list changed files: not a git repository',
+    );
+    expect(fetchSmells).not.toHaveBeenCalled();
+  });
+});
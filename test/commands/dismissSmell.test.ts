@@ -0,0 +1,269 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import {
+  dismissSmell,
+  exportFalsePositives,
+  markFalsePositive,
+  restoreSmell,
+} from '../../src/commands/detection/dismissSmell';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
+import { addSmellFingerprints } from '../../src/core/fingerprints';
+import {
+  addDismissal,
+  DismissalEntry,
+  getDismissals,
+  getDismissalsPath,
+  removeDismissals,
+  resolveDismissalPath,
+} from '../../src/utils/dismissals';
+import { envConfig } from '../../src/utils/envConfig';
+
+import context from '../mocks/context-mock';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('fs', () => ({ readFileSync: jest.fn(), writeFileSync: jest.fn() }));
+jest.mock('../../src/core/fingerprints');
+jest.mock('../../src/utils/dismissals', () => ({
+  ...jest.requireActual('../../src/utils/dismissals'),
+  addDismissal: jest.fn(),
+  getDismissals: jest.fn(),
+  getDismissalsPath: jest.fn(),
+  removeDismissals: jest.fn(),
+  resolveDismissalPath: jest.fn(),
+}));
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/extension');
+
+describe('dismissal commands', () => {
+  let smellsCacheManager: {
+    getCachedSmells: jest.Mock;
+    updateDocumentSmells: jest.Mock;
+    notifySmellsChanged: jest.Mock;
+  };
+  let smellsViewProvider: { refresh: jest.Mock; setSmells: jest.Mock };
+
+  const smell = createSmell({
+    fingerprint: 'a',
+    occurences: [{ line: 3, endLine: 4, column: 1 }],
+  });
+
+  const entry = (overrides: Partial<DismissalEntry> = {}): DismissalEntry => ({
+    fingerprint: 'a',
+    kind: 'falsePositive',
+    reason: 'Built once at import',
+    symbol: 'long-message-chain',
+    messageId: 'LMC001',
+    message: 'Method chain too long',
+    path: 'app.py',
+    module: 'app',
+    line: 2,
+    dismissedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await context.workspaceState.update(
+      envConfig.WORKSPACE_CONFIGURED_PATH!,
+      '/project',
+    );
+
+    smellsCacheManager = {
+      getCachedSmells: jest.fn(() => [smell]),
+      updateDocumentSmells: jest.fn(() => true),
+      notifySmellsChanged: jest.fn(),
+    };
+    smellsViewProvider = { refresh: jest.fn(), setSmells: jest.fn() };
+
+    (addDismissal as jest.Mock).mockImplementation((_root, dismissed, kind) =>
+      entry({ fingerprint: dismissed.fingerprint, kind }),
+    );
+    (getDismissalsPath as jest.Mock).mockReturnValue('/project/.eco/dismissed.json');
+    (resolveDismissalPath as jest.Mock).mockReturnValue('/project/app.py');
+  });
+
+  describe('dismissSmell', () => {
+    it('should record the dismissal and refresh the views', async () => {
+      await dismissSmell(
+        context as unknown as vscode.ExtensionContext,
+        smell,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(addDismissal).toHaveBeenCalledWith(
+        '/project',
+        smell,
+        'dismissed',
+        undefined,
+      );
+      expect(addSmellFingerprints).not.toHaveBeenCalled();
+      expect(smellsCacheManager.notifySmellsChanged).toHaveBeenCalled();
+      expect(smellsViewProvider.refresh).toHaveBeenCalled();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Dismissed smell. Commit .eco/dismissed.json to share it.',
+      );
+    });
+
+    it('should fingerprint smells cached without a fingerprint', async () => {
+      const unfingerprinted = { ...smell, id: 'x1', fingerprint: undefined };
+      const other = {
+        ...smell,
+        id: 'x2',
+        messageId: 'R0913',
+        fingerprint: undefined,
+      };
+      smellsCacheManager.getCachedSmells.mockReturnValue([unfingerprinted, other]);
+      (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue({
+        getText: () => 'edited source',
+      });
+      (addSmellFingerprints as jest.Mock).mockImplementation(
+        async (_path: string, smells: Smell[]) =>
+          smells.map((cached) => ({ ...cached, fingerprint: cached.messageId })),
+      );
+
+      await dismissSmell(
+        context as unknown as vscode.ExtensionContext,
+        unfingerprinted,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(addDismissal).toHaveBeenCalledWith(
+        '/project',
+        { ...unfingerprinted, fingerprint: 'LMC001' },
+        'dismissed',
+        undefined,
+      );
+      // Fingerprints are computed on the open document's unsaved text
+      expect(addSmellFingerprints).toHaveBeenCalledWith(
+        '/project/app.py',
+        [unfingerprinted, unfingerprinted, other],
+        'edited source',
+      );
+      // The smells of the open document keep them so the dismissal hides them
+      const [, update] = smellsCacheManager.updateDocumentSmells.mock.calls[0];
+      expect(update([unfingerprinted, other])).toEqual([
+        { ...unfingerprinted, fingerprint: 'LMC001' },
+        { ...other, fingerprint: 'R0913' },
+      ]);
+      expect(smellsViewProvider.setSmells).toHaveBeenCalledWith('/project/app.py', [
+        unfingerprinted,
+        other,
+      ]);
+    });
+
+    it('should report failures to write the dismissals', async () => {
+      (addDismissal as jest.Mock).mockImplementation(() => {
+        throw new Error('EACCES');
+      });
+
+      await dismissSmell(
+        context as unknown as vscode.ExtensionContext,
+        smell,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Failed to dismiss smell: EACCES',
+      );
+      expect(smellsViewProvider.refresh).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markFalsePositive', () => {
+    it('should record the reason given', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue(
+        '  Built once at import ',
+      );
+
+      await markFalsePositive(
+        context as unknown as vscode.ExtensionContext,
+        smell,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(addDismissal).toHaveBeenCalledWith(
+        '/project',
+        smell,
+        'falsePositive',
+        'Built once at import',
+      );
+    });
+
+    it('should do nothing when the reason prompt is cancelled', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue(undefined);
+
+      await markFalsePositive(
+        context as unknown as vscode.ExtensionContext,
+        smell,
+        smellsCacheManager as unknown as SmellsCacheManager,
+        smellsViewProvider as unknown as SmellsViewProvider,
+      );
+
+      expect(addDismissal).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should restore dismissed smells', () => {
+    restoreSmell(
+      entry(),
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(removeDismissals).toHaveBeenCalledWith(new Set(['a']));
+    expect(smellsViewProvider.refresh).toHaveBeenCalled();
+  });
+
+  describe('exportFalsePositives', () => {
+    it('should export false positives with their reason and code', async () => {
+      (getDismissals as jest.Mock).mockReturnValue([
+        entry(),
+        entry({ fingerprint: 'b', kind: 'dismissed' }),
+        entry({ fingerprint: 'gone', line: 1, reason: undefined }),
+      ]);
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        'import os\nx = 1\nvalue = a.b().c()\n    .d()\n',
+      );
+
+      await exportFalsePositives(
+        context as unknown as vscode.ExtensionContext,
+        smellsCacheManager as unknown as SmellsCacheManager,
+      );
+
+      const [outputPath, content] = (fs.writeFileSync as jest.Mock).mock.calls[0];
+      expect(outputPath).toMatch(/eco-false-positives\.json$/);
+      expect(JSON.parse(content).falsePositives).toEqual([
+        expect.objectContaining({
+          messageId: 'LMC001',
+          reason: 'Built once at import',
+          line: 2,
+          // Read from the smell's current location in the cache
+          code: 'value = a.b().c()\n    .d()',
+        }),
+        expect.objectContaining({ line: 1, code: 'import os' }),
+      ]);
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        expect.stringContaining('Exported 2 false positives'),
+      );
+    });
+
+    it('should report when no smell has been marked', async () => {
+      (getDismissals as jest.Mock).mockReturnValue([entry({ kind: 'dismissed' })]);
+
+      await exportFalsePositives(
+        context as unknown as vscode.ExtensionContext,
+        smellsCacheManager as unknown as SmellsCacheManager,
+      );
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'No smells have been marked as false positives.',
+      );
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
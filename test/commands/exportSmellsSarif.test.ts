@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { exportSmellsSarif } from '../../src/commands/views/exportSmellsSarif';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { addSmellFingerprints } from '../../src/core/fingerprints';
+import { buildSarifLog } from '../../src/core/sarif';
+import { getFilterSmells } from '../../src/utils/smellsData';
+import { envConfig } from '../../src/utils/envConfig';
+
+import context from '../mocks/context-mock';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('fs', () => ({ writeFileSync: jest.fn() }));
+jest.mock('../../src/core/fingerprints');
+jest.mock('../../src/core/sarif');
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/context/configManager');
+jest.mock('../../src/extension');
+
+describe('exportSmellsSarif', () => {
+  let smellsCacheManager: {
+    getAllFilePaths: jest.Mock;
+    getCachedSmells: jest.Mock;
+  };
+
+  const smellA = createSmell({ path: '/project/a.py', fingerprint: 'a' });
+  const smellB = createSmell({ path: '/project/b.py' });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await context.workspaceState.update(
+      envConfig.WORKSPACE_CONFIGURED_PATH!,
+      '/project',
+    );
+
+    smellsCacheManager = {
+      getAllFilePaths: jest.fn(() => ['/project/a.py', '/project/b.py', '/gone.py']),
+      getCachedSmells: jest.fn((filePath: string) => {
+        if (filePath === '/gone.py') throw new Error('ENOENT');
+        return filePath === '/project/a.py' ? [smellA] : [smellB];
+      }),
+    };
+
+    (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({
+      type: vscode.FileType.Directory,
+    });
+    (addSmellFingerprints as jest.Mock).mockImplementation(async (_file, smells) =>
+      smells.map((smell: Smell) => ({ ...smell, fingerprint: 'b' })),
+    );
+    (getFilterSmells as jest.Mock).mockReturnValue({});
+    (buildSarifLog as jest.Mock).mockReturnValue({ version: '2.1.0' });
+  });
+
+  it('should write the cached smells to a SARIF file in the workspace', async () => {
+    await exportSmellsSarif(
+      context as unknown as vscode.ExtensionContext,
+      smellsCacheManager as unknown as SmellsCacheManager,
+    );
+
+    expect(buildSarifLog).toHaveBeenCalledWith(
+      [smellA, { ...smellB, fingerprint: 'b' }],
+      {},
+      expect.objectContaining({ rootPath: '/project' }),
+    );
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      expect.stringMatching(/eco-smells\.sarif$/),
+      JSON.stringify({ version: '2.1.0' }, null, 2),
+      'utf-8',
+    );
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      expect.stringContaining('Exported 2 smells'),
+    );
+  });
+
+  it('should report when there is nothing to export', async () => {
+    smellsCacheManager.getAllFilePaths.mockReturnValue([]);
+
+    await exportSmellsSarif(
+      context as unknown as vscode.ExtensionContext,
+      smellsCacheManager as unknown as SmellsCacheManager,
+    );
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'No detected smells to export. Analyze your workspace first.',
+    );
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+
+  it('should show an error when no workspace is configured', async () => {
+    await context.workspaceState.update(envConfig.WORKSPACE_CONFIGURED_PATH!, '');
+
+    await exportSmellsSarif(
+      context as unknown as vscode.ExtensionContext,
+      smellsCacheManager as unknown as SmellsCacheManager,
+    );
+
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'No configured workspace path found.',
+    );
+  });
+});
@@ -26,6 +26,8 @@ describe('registerFilterSmellCommands', () => {
       refresh: jest.fn(),
       setAllSmellsEnabled: jest.fn(),
       resetToDefaults: jest.fn(),
+      selectEditLayer: jest.fn(),
+      resetOption: jest.fn(),
     } as unknown as jest.Mocked<FilterViewProvider>;
 
     // Mock commands
@@ -91,6 +93,101 @@ describe('registerFilterSmellCommands', () => {
     expect(mockFilterProvider.updateOption).not.toHaveBeenCalled();
   });
 
+  describe('editSmellFilterOption with an option schema', () => {
+    const getHandler = (): ((item: unknown) => Promise<void>) => {
+      registerFilterSmellCommands(mockContext, mockFilterProvider);
+      return (mockCommands.registerCommand as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'ecooptimizer.editSmellFilterOption',
+      )[1];
+    };
+
+    it('should validate numbers against the bounds of the option', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValue('8');
+
+      await getHandler()({
+        smellKey: 'long-message-chain',
+        optionKey: 'threshold',
+        option: {
+          label: 'Threshold',
+          description: '',
+          value: 9,
+          type: 'integer',
+          minimum: 2,
+          maximum: 30,
+          unit: 'calls',
+        },
+      });
+
+      const { prompt, validateInput } = (vscode.window.showInputBox as jest.Mock)
+        .mock.calls[0][0];
+      expect(prompt).toBe('Enter a new value for Threshold (2 to 30, calls)');
+      expect(validateInput('1')).toBe('Must be at least 2');
+      expect(validateInput('2.5')).toBe('Must be a whole number');
+      expect(mockFilterProvider.updateOption).toHaveBeenCalledWith(
+        'long-message-chain',
+        'threshold',
+        8,
+      );
+    });
+
+    it('should pick enum values from a list', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(
+        async (items: { value: string }[]) => items[1],
+      );
+
+      await getHandler()({
+        smellKey: 'string-concat-loop',
+        optionKey: 'mode',
+        option: {
+          label: 'Mode',
+          description: '',
+          value: 'fast',
+          enum: ['fast', 'thorough'],
+          default: 'thorough',
+        },
+      });
+
+      const [items] = (vscode.window.showQuickPick as jest.Mock).mock.calls[0];
+      expect(
+        items.map((item: { description?: string }) => item.description),
+      ).toEqual(['Current', 'Default']);
+      expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+      expect(mockFilterProvider.updateOption).toHaveBeenCalledWith(
+        'string-concat-loop',
+        'mode',
+        'thorough',
+      );
+    });
+
+    it('should toggle boolean options', async () => {
+      await getHandler()({
+        smellKey: 'no-self-use',
+        optionKey: 'ignore_private',
+        option: { label: 'Ignore Private', description: '', value: true },
+      });
+
+      expect(mockFilterProvider.updateOption).toHaveBeenCalledWith(
+        'no-self-use',
+        'ignore_private',
+        false,
+      );
+    });
+  });
+
+  it('should register resetSmellFilterOption command', () => {
+    registerFilterSmellCommands(mockContext, mockFilterProvider);
+
+    const [, handler] = (mockCommands.registerCommand as jest.Mock).mock.calls.find(
+      (call) => call[0] === 'ecooptimizer.resetSmellFilterOption',
+    );
+
+    handler({ smellKey: 'long-message-chain', optionKey: 'threshold' });
+    expect(mockFilterProvider.resetOption).toHaveBeenCalledWith(
+      'long-message-chain',
+      'threshold',
+    );
+  });
+
   it('should show error for editSmellFilterOption with missing keys', async () => {
     registerFilterSmellCommands(mockContext, mockFilterProvider);
 
@@ -141,10 +238,22 @@ describe('registerFilterSmellCommands', () => {
     expect(mockFilterProvider.resetToDefaults).toHaveBeenCalled();
   });
 
+  it('should register selectSmellConfigLayer command', () => {
+    registerFilterSmellCommands(mockContext, mockFilterProvider);
+
+    const selectLayerCall = (
+      mockCommands.registerCommand as jest.Mock
+    ).mock.calls.find((call) => call[0] === 'ecooptimizer.selectSmellConfigLayer');
+    const [, handler] = selectLayerCall;
+
+    handler();
+    expect(mockFilterProvider.selectEditLayer).toHaveBeenCalled();
+  });
+
   it('should add all commands to context subscriptions', () => {
     registerFilterSmellCommands(mockContext, mockFilterProvider);
 
     // Verify all commands were added to subscriptions
-    expect(mockContext.subscriptions).toHaveLength(5);
+    expect(mockContext.subscriptions).toHaveLength(7);
   });
 });
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import {
+  restartServer,
+  showServerMenu,
+  startServer,
+  stopServer,
+} from '../../src/commands/manageServer';
+import { ServerProcess } from '../../src/lib/processManager';
+import { DependencyManager } from '../../src/lib/dependencyManager';
+import { checkServerStatus } from '../../src/api/backend';
+import { usesExternalServer } from '../../src/api/serverConfig';
+
+jest.mock('../../src/lib/processManager');
+jest.mock('../../src/lib/dependencyManager');
+jest.mock('../../src/api/backend');
+jest.mock('../../src/api/serverConfig');
+jest.mock('../../src/extension');
+
+describe('manageServer', () => {
+  let server: { start: jest.Mock; stop: jest.Mock; isRunning: boolean };
+  const context = {} as vscode.ExtensionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    server = {
+      start: jest.fn().mockResolvedValue(54321),
+      stop: jest.fn().mockResolvedValue(undefined),
+      isRunning: false,
+    };
+    (usesExternalServer as jest.Mock).mockReturnValue(false);
+    (DependencyManager.ensureDependencies as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('startServer', () => {
+    it('should start the managed server', async () => {
+      const started = await startServer(server as unknown as ServerProcess, context);
+
+      expect(started).toBe(true);
+      expect(DependencyManager.ensureDependencies).toHaveBeenCalledWith(context);
+      expect(server.start).toHaveBeenCalled();
+    });
+
+    it('should not start a server when an external one is configured', async () => {
+      (usesExternalServer as jest.Mock).mockReturnValue(true);
+
+      const started = await startServer(server as unknown as ServerProcess, context);
+
+      expect(started).toBe(false);
+      expect(server.start).not.toHaveBeenCalled();
+      expect(vscode.window.showWarningMessage).toHaveBeenCalled();
+    });
+
+    it('should not start without dependencies', async () => {
+      (DependencyManager.ensureDependencies as jest.Mock).mockResolvedValue(false);
+
+      const started = await startServer(server as unknown as ServerProcess, context);
+
+      expect(started).toBe(false);
+      expect(server.start).not.toHaveBeenCalled();
+      expect(vscode.window.showErrorMessage).toHaveBeenCalled();
+    });
+
+    it('should report start failures', async () => {
+      server.start.mockRejectedValue(new Error('Python environment not found'));
+
+      const started = await startServer(server as unknown as ServerProcess, context);
+
+      expect(started).toBe(false);
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        'Failed to start server: Python environment not found',
+      );
+    });
+  });
+
+  describe('stopServer', () => {
+    it('should stop the managed server', async () => {
+      await stopServer(server as unknown as ServerProcess);
+
+      expect(server.stop).toHaveBeenCalled();
+    });
+
+    it('should leave an external server alone', async () => {
+      (usesExternalServer as jest.Mock).mockReturnValue(true);
+
+      await stopServer(server as unknown as ServerProcess);
+
+      expect(server.stop).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restartServer', () => {
+    it('should stop and start the managed server', async () => {
+      await restartServer(server as unknown as ServerProcess, context);
+
+      expect(server.stop).toHaveBeenCalled();
+      expect(server.start).toHaveBeenCalled();
+    });
+
+    it('should re-check the connection to an external server', async () => {
+      (usesExternalServer as jest.Mock).mockReturnValue(true);
+
+      await restartServer(server as unknown as ServerProcess, context);
+
+      expect(checkServerStatus).toHaveBeenCalled();
+      expect(server.stop).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('showServerMenu', () => {
+    it('should offer to start a stopped server and run the selection', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementation(
+        async (items: any[]) => items[0],
+      );
+
+      await showServerMenu(server as unknown as ServerProcess);
+
+      const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+      expect(items.map((item: any) => item.command)).toEqual([
+        'ecooptimizer.startServer',
+        'ecooptimizer.showServerLogs',
+      ]);
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'ecooptimizer.startServer',
+      );
+    });
+
+    it('should offer restart and stop for a running server', async () => {
+      server.isRunning = true;
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValue(undefined);
+
+      await showServerMenu(server as unknown as ServerProcess);
+
+      const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+      expect(items.map((item: any) => item.command)).toEqual([
+        'ecooptimizer.restartServer',
+        'ecooptimizer.stopServer',
+        'ecooptimizer.showServerLogs',
+      ]);
+      expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+
+import {
+  navigateSmells,
+  registerSmellNavigationCommands,
+} from '../../src/commands/views/navigateSmells';
+import { jumpToSmell } from '../../src/commands/views/jumpToSmell';
+import {
+  SmellsViewItem,
+  SmellsViewProvider,
+  SmellTreeItem,
+} from '../../src/providers/SmellsViewProvider';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('vscode', () => {
+  const actualVscode = jest.requireActual('vscode');
+  return {
+    ...actualVscode,
+    TextEditorSelectionChangeKind: { Keyboard: 1, Mouse: 2, Command: 3 },
+    ThemeIcon: class {
+      constructor(public id: string) {}
+    },
+    window: {
+      ...actualVscode.window,
+      onDidChangeTextEditorSelection: jest.fn(() => ({ dispose: jest.fn() })),
+    },
+  };
+});
+jest.mock('../../src/commands/views/jumpToSmell');
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/extension');
+
+describe('smell navigation commands', () => {
+  let smellsViewProvider: { getSmellItems: jest.Mock };
+  let smellsTreeView: {
+    visible: boolean;
+    selection: SmellsViewItem[];
+    reveal: jest.Mock;
+  };
+
+  const createItem = (filePath: string, line: number): SmellTreeItem =>
+    new SmellTreeItem(
+      createSmell({
+        path: filePath,
+        occurences: [{ line, endLine: line + 1, column: 3 }],
+      }),
+    );
+
+  const itemA = createItem('/project/a.py', 4);
+  const itemB = createItem('/project/b.py', 2);
+
+  const setCursor = (fsPath: string, line: number): void => {
+    vscode.window.activeTextEditor = {
+      document: { uri: { fsPath } },
+      selection: {
+        start: { line, character: 0 },
+        active: { line, character: 0 },
+      },
+    } as unknown as vscode.TextEditor;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+
+    smellsViewProvider = { getSmellItems: jest.fn(async () => [itemA, itemB]) };
+    smellsTreeView = { visible: true, selection: [], reveal: jest.fn() };
+    setCursor('/project/a.py', 0);
+  });
+
+  const navigate = (direction: 'next' | 'previous'): Promise<void> =>
+    navigateSmells(
+      direction,
+      smellsViewProvider as unknown as SmellsViewProvider,
+      smellsTreeView as unknown as vscode.TreeView<SmellsViewItem>,
+    );
+
+  it('should select the next smell and reveal it in the tree', async () => {
+    await navigate('next');
+
+    expect(jumpToSmell).toHaveBeenCalledWith(
+      '/project/a.py',
+      3,
+      itemA.smell.occurences[0],
+    );
+    expect(smellsTreeView.reveal).toHaveBeenCalledWith(itemA, {
+      select: true,
+      focus: false,
+      expand: true,
+    });
+  });
+
+  it('should move to the previous file in tree order', async () => {
+    setCursor('/project/b.py', 0);
+
+    await navigate('previous');
+
+    expect(jumpToSmell).toHaveBeenCalledWith(
+      '/project/a.py',
+      3,
+      itemA.smell.occurences[0],
+    );
+  });
+
+  it('should not open the tree when it is hidden', async () => {
+    smellsTreeView.visible = false;
+
+    await navigate('next');
+
+    expect(jumpToSmell).toHaveBeenCalled();
+    expect(smellsTreeView.reveal).not.toHaveBeenCalled();
+  });
+
+  it('should report when there is nothing to navigate', async () => {
+    smellsViewProvider.getSmellItems.mockResolvedValue([]);
+
+    await navigate('next');
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'No smells to navigate. Analyze your workspace first.',
+    );
+    expect(jumpToSmell).not.toHaveBeenCalled();
+  });
+
+  describe('following the editor', () => {
+    let onSelectionChange: (event: unknown) => void;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      registerSmellNavigationCommands(
+        { subscriptions: [] } as unknown as vscode.ExtensionContext,
+        smellsViewProvider as unknown as SmellsViewProvider,
+        smellsTreeView as unknown as vscode.TreeView<SmellsViewItem>,
+      );
+      onSelectionChange = (vscode.window.onDidChangeTextEditorSelection as jest.Mock)
+        .mock.calls[0][0];
+    });
+
+    const moveCursor = async (line: number, kind?: number): Promise<void> => {
+      setCursor('/project/b.py', line);
+      smellsViewProvider.getSmellItems.mockResolvedValue([itemB]);
+      onSelectionChange({ textEditor: vscode.window.activeTextEditor, kind });
+      await jest.runAllTimersAsync();
+    };
+
+    it('should select the smell under the cursor', async () => {
+      await moveCursor(2, vscode.TextEditorSelectionChangeKind.Keyboard);
+
+      expect(smellsViewProvider.getSmellItems).toHaveBeenCalledWith('/project/b.py');
+      expect(smellsTreeView.reveal).toHaveBeenCalledWith(
+        itemB,
+        expect.objectContaining({ focus: false }),
+      );
+    });
+
+    it('should leave the tree alone away from smells or when already selected', async () => {
+      await moveCursor(6, vscode.TextEditorSelectionChangeKind.Mouse);
+      smellsTreeView.selection = [itemB];
+      await moveCursor(1, vscode.TextEditorSelectionChangeKind.Mouse);
+      await moveCursor(1, undefined);
+
+      expect(smellsTreeView.reveal).not.toHaveBeenCalled();
+    });
+  });
+});
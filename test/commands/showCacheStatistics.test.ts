@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { showCacheStatistics } from '../../src/commands/detection/showCacheStatistics';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+
+describe('showCacheStatistics', () => {
+  const createManager = (statistics: object): SmellsCacheManager =>
+    ({ getStatistics: jest.fn(() => statistics) }) as unknown as SmellsCacheManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the cache size and hit rate', () => {
+    showCacheStatistics(
+      createManager({
+        entries: 12,
+        bytes: 1536,
+        maxBytes: 100 * 1024 * 1024,
+        hits: 3,
+        misses: 1,
+      }),
+    );
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'Smells cache: 12 files, 1.5 KB of 100.0 MB. Hit rate: 75% (3 of 4 lookups).',
+    );
+  });
+
+  it('should report when the cache has not been used yet', () => {
+    showCacheStatistics(
+      createManager({ entries: 0, bytes: 0, maxBytes: 1024, hits: 0, misses: 0 }),
+    );
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'Smells cache: 0 files, 0 B of 1.0 KB. Hit rate: no lookups yet.',
+    );
+  });
+});
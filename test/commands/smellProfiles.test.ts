@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+import {
+  createSmellProfile,
+  importSmellProfile,
+  switchSmellProfile,
+} from '../../src/commands/views/smellProfiles';
+import { FilterViewProvider } from '../../src/providers/FilterViewProvider';
+import {
+  getActiveSmellProfile,
+  getSmellProfiles,
+  saveSmellProfile,
+} from '../../src/utils/smellProfiles';
+import { getFilterSmells } from '../../src/utils/smellsData';
+
+jest.mock('vscode', () => {
+  const actualVscode = jest.requireActual('vscode');
+  return {
+    ...actualVscode,
+    window: { ...actualVscode.window, showOpenDialog: jest.fn() },
+  };
+});
+jest.mock('fs');
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/utils/smellProfiles', () => ({
+  ...jest.requireActual('../../src/utils/smellProfiles'),
+  getActiveSmellProfile: jest.fn(),
+  getSmellProfiles: jest.fn(),
+  saveSmellProfile: jest.fn(),
+}));
+jest.mock('../../src/extension', () => ({
+  ecoOutput: { info: jest.fn(), error: jest.fn() },
+}));
+
+describe('smell profile commands', () => {
+  let filterProvider: { switchProfile: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    filterProvider = { switchProfile: jest.fn() };
+    (getSmellProfiles as jest.Mock).mockReturnValue({
+      strict: { 'no-self-use': { enabled: true } },
+    });
+    (getActiveSmellProfile as jest.Mock).mockReturnValue(undefined);
+  });
+
+  const provider = (): FilterViewProvider =>
+    filterProvider as unknown as FilterViewProvider;
+
+  it('should switch to the picked profile', async () => {
+    (vscode.window.showQuickPick as jest.Mock).mockImplementation(
+      async (items: { name?: string }[]) => items.find((item) => item.name),
+    );
+
+    await switchSmellProfile(provider());
+
+    const [items] = (vscode.window.showQuickPick as jest.Mock).mock.calls[0];
+    expect(items.map((item: { label: string }) => item.label)).toEqual([
+      'No Profile',
+      'strict',
+    ]);
+    expect(filterProvider.switchProfile).toHaveBeenCalledWith('strict');
+  });
+
+  it('should not switch when the active profile is picked again', async () => {
+    (getActiveSmellProfile as jest.Mock).mockReturnValue('strict');
+    (vscode.window.showQuickPick as jest.Mock).mockImplementation(
+      async (items: { name?: string }[]) => items.find((item) => item.name),
+    );
+
+    await switchSmellProfile(provider());
+
+    expect(filterProvider.switchProfile).not.toHaveBeenCalled();
+  });
+
+  it('should create a profile from the current configuration', async () => {
+    (getFilterSmells as jest.Mock).mockReturnValue({
+      'no-self-use': { enabled: false },
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValue(' relaxed ');
+    (vscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce(
+      'Switch to Profile',
+    );
+
+    await createSmellProfile(provider());
+
+    const { validateInput } = (vscode.window.showInputBox as jest.Mock).mock
+      .calls[0][0];
+    expect(validateInput('strict')).toBe(
+      'A smell profile named "strict" already exists',
+    );
+    expect(saveSmellProfile).toHaveBeenCalledWith('relaxed', {
+      'no-self-use': { enabled: false, options: {} },
+    });
+    expect(filterProvider.switchProfile).toHaveBeenCalledWith('relaxed');
+  });
+
+  it('should import an exported profile', async () => {
+    (vscode.window.showOpenDialog as jest.Mock).mockResolvedValue([
+      { fsPath: '/exports/legacy.eco-profile.json' },
+    ]);
+    (fs.readFileSync as jest.Mock).mockReturnValue(
+      JSON.stringify({
+        version: 1,
+        name: 'legacy-service',
+        smells: { 'too-many-arguments': { options: { max_args: 10 } } },
+      }),
+    );
+    (vscode.window.showInputBox as jest.Mock).mockImplementation(
+      async ({ value }) => value,
+    );
+    (vscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce(
+      undefined,
+    );
+
+    await importSmellProfile(provider());
+
+    expect(saveSmellProfile).toHaveBeenCalledWith('legacy-service', {
+      'too-many-arguments': { options: { max_args: 10 } },
+    });
+    expect(filterProvider.switchProfile).not.toHaveBeenCalled();
+  });
+
+  it('should report files that are not profiles', async () => {
+    (vscode.window.showOpenDialog as jest.Mock).mockResolvedValue([
+      { fsPath: '/exports/other.json' },
+    ]);
+    (fs.readFileSync as jest.Mock).mockReturnValue('[]');
+
+    await importSmellProfile(provider());
+
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'Failed to import smell profile: The file is not a smell profile',
+    );
+    expect(saveSmellProfile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+
+import { registerSmellsViewCommands } from '../../src/commands/views/smellsViewOptions';
+import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
+
+describe('registerSmellsViewCommands', () => {
+  let smellsViewProvider: jest.Mocked<SmellsViewProvider>;
+
+  const runCommand = async (command: string): Promise<void> => {
+    const [, handler] = (
+      vscode.commands.registerCommand as jest.Mock
+    ).mock.calls.find(([name]) => name === command);
+    await handler();
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    smellsViewProvider = {
+      getViewMode: jest.fn(() => 'folder'),
+      setViewMode: jest.fn(),
+      getSort: jest.fn(() => 'line'),
+      setSort: jest.fn(),
+      getFilter: jest.fn(() => 'lpl'),
+      setFilter: jest.fn(),
+    } as unknown as jest.Mocked<SmellsViewProvider>;
+
+    registerSmellsViewCommands(
+      { subscriptions: [] } as unknown as vscode.ExtensionContext,
+      smellsViewProvider,
+    );
+  });
+
+  it('should switch the view mode to the picked one', async () => {
+    (vscode.window.showQuickPick as jest.Mock).mockImplementation(async (items) =>
+      items.find((item: { value: string }) => item.value === 'type'),
+    );
+
+    await runCommand('ecooptimizer.setSmellsViewMode');
+
+    const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+    expect(items[0]).toEqual(
+      expect.objectContaining({ label: 'Folder', description: 'current' }),
+    );
+    expect(smellsViewProvider.setViewMode).toHaveBeenCalledWith('type');
+  });
+
+  it('should keep the sort order when the pick is dismissed', async () => {
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValue(undefined);
+
+    await runCommand('ecooptimizer.setSmellsViewSort');
+
+    expect(smellsViewProvider.setSort).not.toHaveBeenCalled();
+  });
+
+  it('should edit and clear the text filter', async () => {
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('nsm');
+
+    await runCommand('ecooptimizer.filterSmellsView');
+    await runCommand('ecooptimizer.clearSmellsViewFilter');
+
+    expect(vscode.window.showInputBox).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'lpl' }),
+    );
+    expect(smellsViewProvider.setFilter).toHaveBeenNthCalledWith(1, 'nsm');
+    expect(smellsViewProvider.setFilter).toHaveBeenNthCalledWith(2, '');
+  });
+});
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { suppressSmell } from '../../src/commands/detection/suppressSmell';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
+import { getAcronymByMessageId } from '../../src/utils/smellsData';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('../../src/extension');
+jest.mock('../../src/utils/smellsData');
+
+describe('suppressSmell', () => {
+  let smellsCacheManager: {
+    getCachedSmells: jest.Mock;
+    setCachedSmells: jest.Mock;
+    updateDocumentSmells: jest.Mock;
+  };
+  let smellsViewProvider: {
+    setStatus: jest.Mock;
+    setSmells: jest.Mock;
+    addSuppressedSmell: jest.Mock;
+  };
+  let lineText: string;
+  let lineNumber: number;
+  let precedingLines: string[];
+
+  const smellAt = (id: string, line: number): Smell =>
+    createSmell({
+      id,
+      symbol: id,
+      messageId: 'R0913',
+      path: '/project/file.py',
+      occurences: [{ line, column: 1 }],
+    });
+
+  const smellA = smellAt('a', 3);
+  const smellB = smellAt('b', 7);
+
+  const getEdit = (): { replace: jest.Mock } =>
+    (vscode.WorkspaceEdit as unknown as jest.Mock).mock.instances[0];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    let cache: Smell[] | undefined = [smellA, smellB];
+    smellsCacheManager = {
+      getCachedSmells: jest.fn(() => cache),
+      setCachedSmells: jest.fn(),
+      updateDocumentSmells: jest.fn(
+        (_path: string, update: (smells: Smell[]) => Smell[]) => {
+          cache = update(cache ?? []);
+          return true;
+        },
+      ),
+    };
+    smellsViewProvider = {
+      setStatus: jest.fn(),
+      setSmells: jest.fn(),
+      addSuppressedSmell: jest.fn(),
+    };
+
+    lineText = 'def handler(a, b, c, d, e, f, g):';
+    lineNumber = 3;
+    precedingLines = [];
+    (getAcronymByMessageId as jest.Mock).mockReturnValue('LPL');
+    (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(
+      async () => ({
+        uri: { fsPath: '/project/file.py' },
+        lineAt: jest.fn((line: number) => ({
+          text: line === lineNumber - 1 ? lineText : (precedingLines[line] ?? ''),
+          range: { line },
+        })),
+      }),
+    );
+    (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('should add an eco: ignore pragma to the smell line', async () => {
+    await suppressSmell(
+      smellA,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(getEdit().replace).toHaveBeenCalledWith(
+      { fsPath: '/project/file.py' },
+      { line: 2 },
+      'def handler(a, b, c, d, e, f, g):  # eco: ignore[LPL]',
+    );
+    expect(vscode.workspace.applyEdit).toHaveBeenCalled();
+  });
+
+  it('should not edit lines that already suppress the smell', async () => {
+    lineText = 'def handler(a, b, c, d, e, f, g):  # eco: ignore[LPL]';
+
+    await suppressSmell(
+      smellA,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    expect(smellsViewProvider.addSuppressedSmell).toHaveBeenCalledWith(smellA);
+  });
+
+  it('should move the smell from the document to the suppressed smells', async () => {
+    await suppressSmell(
+      smellA,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    // The unsaved edit must not replace the cached smells of the file on disk
+    expect(smellsCacheManager.setCachedSmells).not.toHaveBeenCalled();
+    expect(smellsViewProvider.setSmells).toHaveBeenCalledWith('/project/file.py', [
+      smellB,
+    ]);
+    expect(smellsViewProvider.setStatus).toHaveBeenCalledWith(
+      '/project/file.py',
+      'passed',
+    );
+    expect(smellsViewProvider.addSuppressedSmell).toHaveBeenCalledWith(smellA);
+  });
+
+  it('should mark the file as clean when the last smell is suppressed', async () => {
+    await suppressSmell(
+      smellA,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+    lineNumber = 7;
+    await suppressSmell(
+      smellB,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(smellsViewProvider.setStatus).toHaveBeenLastCalledWith(
+      '/project/file.py',
+      'no_issues',
+    );
+    expect(smellsViewProvider.setSmells).toHaveBeenLastCalledWith(
+      '/project/file.py',
+      [],
+    );
+  });
+
+  it('should report edits that cannot be applied', async () => {
+    (vscode.workspace.applyEdit as jest.Mock).mockResolvedValue(false);
+
+    await suppressSmell(
+      smellA,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'Failed to suppress smell: The edit was rejected',
+    );
+    expect(smellsCacheManager.updateDocumentSmells).not.toHaveBeenCalled();
+  });
+
+  it('should add a pragma line above lines that cannot end in a comment', async () => {
+    lineText = '    total = a + \\';
+
+    await suppressSmell(
+      smellA,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(getEdit().replace).toHaveBeenCalledWith(
+      { fsPath: '/project/file.py' },
+      { line: 2 },
+      '    # eco: ignore-next-line[LPL]\n    total = a + \\',
+    );
+    expect(smellsViewProvider.addSuppressedSmell).toHaveBeenCalledWith({
+      ...smellA,
+      occurences: [{ line: 4, column: 1 }],
+    });
+  });
+
+  it('should not add pragmas inside multi-line strings', async () => {
+    precedingLines = ['', 'sql = """'];
+
+    await suppressSmell(
+      smellA,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'Failed to suppress smell: The smell is inside a string or a continued line',
+    );
+  });
+
+  it('should show an error when no smell is provided', async () => {
+    await suppressSmell(
+      undefined as unknown as Smell,
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'No code smell selected to suppress.',
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+import { FileHashIndex } from '../../src/context/FileHashIndex';
+
+describe('FileHashIndex', () => {
+  let directory: string;
+  let filePath: string;
+  let index: FileHashIndex;
+
+  const sha256 = (content: string): string =>
+    createHash('sha256').update(content).digest('hex');
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'eco-hash-'));
+    filePath = path.join(directory, 'app.py');
+    fs.writeFileSync(filePath, 'x = 1\n');
+    index = new FileHashIndex();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should hash a file on its first lookup', () => {
+    expect(index.getHash(filePath)).toBe(sha256('x = 1\n'));
+    expect(index.size).toBe(1);
+  });
+
+  it('should serve repeated lookups without touching the disk', () => {
+    index.getHash(filePath);
+    const readSpy = jest.spyOn(fs, 'readFileSync');
+    const statSpy = jest.spyOn(fs, 'statSync');
+
+    for (let i = 0; i < 10000; i++) {
+      index.getHash(filePath);
+    }
+
+    expect(readSpy).not.toHaveBeenCalled();
+    expect(statSpy).not.toHaveBeenCalled();
+  });
+
+  it('should serve lookups across a large index without touching the disk', () => {
+    const readSpy = jest
+      .spyOn(fs, 'readFileSync')
+      .mockImplementation((file) => String(file));
+    const statSpy = jest
+      .spyOn(fs, 'statSync')
+      .mockReturnValue({ mtimeMs: 1, size: 1 } as fs.Stats);
+
+    const paths = Array.from({ length: 5000 }, (_, i) => `/project/m${i}.py`);
+    const hashes = paths.map((p) => index.getHash(p));
+    expect(readSpy).toHaveBeenCalledTimes(paths.length);
+    readSpy.mockClear();
+    statSpy.mockClear();
+
+    for (let round = 0; round < 3; round++) {
+      expect(paths.map((p) => index.getHash(p))).toEqual(hashes);
+    }
+
+    expect(readSpy).not.toHaveBeenCalled();
+    expect(statSpy).not.toHaveBeenCalled();
+    expect(index.size).toBe(paths.length);
+  });
+
+  it('should re-hash a file after it was invalidated', () => {
+    index.getHash(filePath);
+    fs.writeFileSync(filePath, 'x = 2\n');
+
+    expect(index.getHash(filePath)).toBe(sha256('x = 1\n'));
+
+    index.invalidate(filePath);
+    expect(index.getHash(filePath)).toBe(sha256('x = 2\n'));
+  });
+
+  it('should only drop hashes of files whose modification time or size changed', () => {
+    index.getHash(filePath);
+
+    index.refresh(filePath);
+    const readSpy = jest.spyOn(fs, 'readFileSync');
+    index.getHash(filePath);
+    expect(readSpy).not.toHaveBeenCalled();
+    readSpy.mockRestore();
+
+    fs.writeFileSync(filePath, 'x = 10\n');
+    index.refresh(filePath);
+    expect(index.getHash(filePath)).toBe(sha256('x = 10\n'));
+
+    fs.rmSync(filePath);
+    index.refresh(filePath);
+    expect(index.size).toBe(0);
+    expect(() => index.getHash(filePath)).toThrow();
+  });
+});
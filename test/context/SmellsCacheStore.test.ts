@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CacheEntry, SmellsCacheStore } from '../../src/context/SmellsCacheStore';
+import { createSmell } from '../mocks/smell-mock';
+
+describe('SmellsCacheStore', () => {
+  let directory: string;
+  let store: SmellsCacheStore;
+
+  const createEntry = (filePath: string, fileHash = 'hash'): CacheEntry => ({
+    path: filePath,
+    fileHash,
+    configs: { 'too-many-arguments': 'abc' },
+    smells: [createSmell({ symbol: 'too-many-arguments', path: filePath })],
+  });
+
+  const entrySize = (entry: CacheEntry): number =>
+    Buffer.byteLength(JSON.stringify({ version: 1, ...entry }));
+
+  const listEntryFiles = (): string[] =>
+    fs.readdirSync(directory).filter((fileName) => fileName !== 'index.json');
+
+  beforeEach(() => {
+    directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'eco-cache-')), 'c');
+    store = new SmellsCacheStore(directory, 1024 * 1024);
+    store.load();
+  });
+
+  afterEach(async () => {
+    await store.flush();
+    fs.rmSync(path.dirname(directory), { recursive: true, force: true });
+  });
+
+  it('should persist one entry file per analyzed file', async () => {
+    await store.set(createEntry('/project/a.py'));
+    await store.set(createEntry('/project/b.py'));
+    await store.flush();
+
+    expect(listEntryFiles()).toHaveLength(2);
+
+    const reloaded = new SmellsCacheStore(directory, 1024 * 1024);
+    reloaded.load();
+    expect(reloaded.getPaths().sort()).toEqual(['/project/a.py', '/project/b.py']);
+    expect(reloaded.get('/project/a.py', 'hash')).toEqual(
+      createEntry('/project/a.py'),
+    );
+  });
+
+  it('should treat entries for other file contents as misses', async () => {
+    await store.set(createEntry('/project/a.py', 'old'));
+
+    expect(store.get('/project/a.py', 'new')).toBeUndefined();
+    expect(store.get('/project/a.py', 'old')).toBeDefined();
+    expect(store.get('/project/missing.py')).toBeUndefined();
+    expect(store.has('/project/a.py')).toBe(true);
+    expect(store.getStatistics()).toEqual(
+      expect.objectContaining({ entries: 1, hits: 1, misses: 2 }),
+    );
+  });
+
+  it('should evict the least recently used entries beyond the size limit', async () => {
+    const size = entrySize(createEntry('/project/a.py'));
+    store = new SmellsCacheStore(directory, size * 2);
+    store.load();
+
+    await store.set(createEntry('/project/a.py'));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.set(createEntry('/project/b.py'));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    store.get('/project/a.py');
+    await store.set(createEntry('/project/c.py'));
+
+    expect(store.getPaths().sort()).toEqual(['/project/a.py', '/project/c.py']);
+    expect(listEntryFiles()).toHaveLength(2);
+    expect(store.getStatistics().bytes).toBe(size * 2);
+  });
+
+  it('should rebuild a missing index from the entry files', async () => {
+    await store.set(createEntry('/project/a.py'));
+    await store.flush();
+    fs.rmSync(path.join(directory, 'index.json'));
+    fs.writeFileSync(path.join(directory, 'stale.json'), '{"version":0}');
+
+    const reloaded = new SmellsCacheStore(directory, 1024 * 1024);
+    reloaded.load();
+
+    expect(reloaded.getPaths()).toEqual(['/project/a.py']);
+    expect(fs.existsSync(path.join(directory, 'stale.json'))).toBe(false);
+    await reloaded.flush();
+  });
+
+  it('should keep access times in memory until the index is saved', async () => {
+    const size = entrySize(createEntry('/project/a.py'));
+    await store.set(createEntry('/project/a.py'));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.set(createEntry('/project/b.py'));
+    await store.flush();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    jest.useFakeTimers();
+    try {
+      store.get('/project/a.py');
+      expect(jest.getTimerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+    await store.flush();
+
+    const reloaded = new SmellsCacheStore(directory, size * 2);
+    reloaded.load();
+    await reloaded.set(createEntry('/project/c.py'));
+
+    expect(reloaded.getPaths().sort()).toEqual(['/project/a.py', '/project/c.py']);
+    await reloaded.flush();
+  });
+
+  it('should reconcile a stale index with the entry files', async () => {
+    await store.set(createEntry('/project/a.py'));
+    await store.set(createEntry('/project/b.py'));
+    await store.flush();
+
+    const entryFileOf = (filePath: string): string =>
+      listEntryFiles().find(
+        (fileName) =>
+          JSON.parse(fs.readFileSync(path.join(directory, fileName), 'utf-8'))
+            .path === filePath,
+      )!;
+    fs.rmSync(path.join(directory, entryFileOf('/project/a.py')));
+    const unlisted = { version: 1, ...createEntry('/project/unlisted.py') };
+    fs.writeFileSync(
+      path.join(directory, 'unlisted.json'),
+      JSON.stringify(unlisted),
+    );
+
+    const reloaded = new SmellsCacheStore(directory, 1024 * 1024);
+    reloaded.load();
+
+    expect(reloaded.getPaths().sort()).toEqual([
+      '/project/b.py',
+      '/project/unlisted.py',
+    ]);
+    await reloaded.clear();
+    expect(listEntryFiles()).toEqual([]);
+  });
+
+  it('should only keep the most recently used entries in memory', async () => {
+    const paths = Array.from({ length: 250 }, (_, i) => `/project/m${i}.py`);
+    for (const filePath of paths) {
+      await store.set(createEntry(filePath));
+    }
+
+    expect(store['entries'].size).toBeLessThanOrEqual(200);
+    expect(store.get(paths[0], 'hash')).toEqual(createEntry(paths[0]));
+  });
+
+  it('should delete single entries and clear the whole store', async () => {
+    await store.set(createEntry('/project/a.py'));
+    await store.set(createEntry('/project/b.py'));
+
+    await expect(store.delete('/project/a.py')).resolves.toBe(true);
+    await expect(store.delete('/project/a.py')).resolves.toBe(false);
+    expect(store.getPaths()).toEqual(['/project/b.py']);
+
+    await store.clear();
+    expect(store.getPaths()).toEqual([]);
+    expect(listEntryFiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import {
+  addSmellFingerprints,
+  computeSmellFingerprint,
+  normalizeCode,
+} from '../../src/core/fingerprints';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('fs', () => ({ promises: { readFile: jest.fn() } }));
+
+describe('fingerprints', () => {
+  const smellAt = (line: number, overrides: Partial<Smell> = {}): Smell =>
+    createSmell({ obj: 'handler', occurences: [{ line, column: 1 }], ...overrides });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('computeSmellFingerprint', () => {
+    it('should ignore line numbers and whitespace', () => {
+      const before = computeSmellFingerprint(smellAt(1), ['x = a.b().c().d()']);
+      const after = computeSmellFingerprint(smellAt(3), [
+        '',
+        '',
+        '    x  =  a.b().c().d()',
+      ]);
+
+      expect(after).toBe(before);
+    });
+
+    it('should change when the code or smell changes', () => {
+      const lines = ['x = a.b().c().d()', 'y = a.b().c().d()'];
+      const fingerprint = computeSmellFingerprint(smellAt(1), lines);
+
+      expect(computeSmellFingerprint(smellAt(2), lines)).not.toBe(fingerprint);
+      expect(computeSmellFingerprint(smellAt(1, { obj: 'other' }), lines)).not.toBe(
+        fingerprint,
+      );
+    });
+
+    it('should include every line of multi-line occurrences', () => {
+      expect(normalizeCode(['  foo(a,', '', '      b)'])).toBe('foo(a,\nb)');
+
+      const smell = smellAt(1, {
+        occurences: [{ line: 1, endLine: 2, column: 1 }],
+      });
+      expect(computeSmellFingerprint(smell, ['foo(a,', '    b)'])).not.toBe(
+        computeSmellFingerprint(smell, ['foo(a,', '    c)']),
+      );
+    });
+  });
+
+  describe('addSmellFingerprints', () => {
+    it('should fingerprint smells from the file contents', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValue('x = a.b().c().d()');
+
+      const [smell] = await addSmellFingerprints('/project/app.py', [smellAt(1)]);
+
+      expect(smell.fingerprint).toBe(
+        computeSmellFingerprint(smellAt(1), ['x = a.b().c().d()']),
+      );
+    });
+
+    it('should leave smells unchanged when the file cannot be read', async () => {
+      (fs.promises.readFile as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+      const smells = [smellAt(1)];
+
+      await expect(addSmellFingerprints('/project/app.py', smells)).resolves.toBe(
+        smells,
+      );
+    });
+  });
+});
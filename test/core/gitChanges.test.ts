@@ -0,0 +1,164 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  getChangedFilesFromCli,
+  isSmellInChangedLines,
+  parseChangedLines,
+} from '../../src/core/gitChanges';
+import { createSmell } from '../mocks/smell-mock';
+
+describe('gitChanges', () => {
+  describe('parseChangedLines', () => {
+    it('should collect added and modified lines per file', () => {
+      const diff = [
+        'diff --git a/app.py b/app.py',
+        'index 1111111..2222222 100644',
+        '--- a/app.py',
+        '+++ b/app.py',
+        '@@ -3 +3,2 @@ def main():',
+        '-    pass',
+        '+    run()',
+        '+    stop()',
+        '@@ -10,0 +12 @@',
+        '+    return 1',
+        'diff --git a/pkg/util.py b/pkg/util.py',
+        '--- a/pkg/util.py',
+        '+++ b/pkg/util.py',
+        '@@ -1 +1 @@',
+        '-x = 1',
+        '+x = 2',
+      ].join('\n');
+
+      expect(parseChangedLines(diff)).toEqual(
+        new Map([
+          [
+            'app.py',
+            [
+              { start: 3, end: 4 },
+              { start: 12, end: 12 },
+            ],
+          ],
+          ['pkg/util.py', [{ start: 1, end: 1 }]],
+        ]),
+      );
+    });
+
+    it('should mark the lines around removed code', () => {
+      const withoutContext = ['+++ b/app.py', '@@ -5,2 +4,0 @@', '-a = 1', '-b = 2'];
+      const withContext = [
+        '+++ b/app.py',
+        '@@ -3,4 +3,2 @@',
+        ' x = 0',
+        '-a = 1',
+        '-b = 2',
+        ' y = 3',
+      ];
+
+      expect(parseChangedLines(withoutContext.join('\n')).get('app.py')).toEqual([
+        { start: 4, end: 5 },
+      ]);
+      expect(parseChangedLines(withContext.join('\n')).get('app.py')).toEqual([
+        { start: 3, end: 4 },
+      ]);
+    });
+
+    it('should skip deleted files and hunk lines that look like headers', () => {
+      const diff = [
+        '--- a/old.py',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-x = 1',
+        '--- a/app.py',
+        '+++ b/app.py',
+        '@@ -1,0 +2 @@',
+        '+++ counter',
+      ].join('\n');
+
+      expect(parseChangedLines(diff)).toEqual(
+        new Map([['app.py', [{ start: 2, end: 2 }]]]),
+      );
+    });
+  });
+
+  describe('isSmellInChangedLines', () => {
+    const smell = createSmell({
+      symbol: 'long-lambda-expression',
+      occurences: [{ line: 10, endLine: 12, column: 1 }],
+    });
+
+    it('should match smells overlapping a changed range', () => {
+      expect(isSmellInChangedLines(smell, [{ start: 12, end: 14 }])).toBe(true);
+      expect(isSmellInChangedLines(smell, [{ start: 1, end: 9 }])).toBe(false);
+    });
+
+    it('should match every smell of new files', () => {
+      expect(isSmellInChangedLines(smell, undefined)).toBe(true);
+    });
+  });
+
+  describe('getChangedFilesFromCli', () => {
+    let repoPath: string;
+
+    const git = (...args: string[]): string =>
+      execFileSync(
+        'git',
+        ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+        { cwd: repoPath, encoding: 'utf8' },
+      );
+    const write = (name: string, content: string): void =>
+      fs.writeFileSync(path.join(repoPath, name), content);
+
+    beforeEach(() => {
+      repoPath = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'eco-git-')));
+      git('init', '-q', '-b', 'main');
+      write('app.py', 'a = 1\nb = 2\nc = 3\n');
+      write('lib.py', 'x = 1\n');
+      git('add', '.');
+      git('commit', '-q', '-m', 'initial');
+    });
+
+    afterEach(() => {
+      fs.rmSync(repoPath, { recursive: true, force: true });
+    });
+
+    it('should list modified, staged and untracked files', async () => {
+      write('app.py', 'a = 1\nb = 20\nc = 3\n');
+      write('lib.py', 'x = 1\ny = 2\n');
+      git('add', 'lib.py');
+      write('new.py', 'z = 1\n');
+
+      const changedFiles = await getChangedFilesFromCli(repoPath);
+
+      expect(changedFiles).toEqual(
+        new Map([
+          [path.join(repoPath, 'app.py'), [{ start: 2, end: 2 }]],
+          [path.join(repoPath, 'lib.py'), [{ start: 2, end: 2 }]],
+          [path.join(repoPath, 'new.py'), undefined],
+        ]),
+      );
+    });
+
+    it('should include changes committed since the base branch', async () => {
+      git('checkout', '-q', '-b', 'feature');
+      write('lib.py', 'x = 10\n');
+      git('commit', '-q', '-am', 'change lib');
+
+      expect(await getChangedFilesFromCli(repoPath)).toEqual(new Map());
+      expect(await getChangedFilesFromCli(repoPath, 'main')).toEqual(
+        new Map([[path.join(repoPath, 'lib.py'), [{ start: 1, end: 1 }]]]),
+      );
+    });
+
+    it('should fail outside of a repository', async () => {
+      const folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'eco-nogit-'));
+      try {
+        await expect(getChangedFilesFromCli(folderPath)).rejects.toThrow();
+      } finally {
+        fs.rmSync(folderPath, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { buildSarifLog, toSarifLevel } from '../../src/core/sarif';
+import { FilterSmellConfig } from '../../src/core/smellConfig';
+
+describe('sarif', () => {
+  const rootPath = path.join('/project');
+
+  const definitions: Record<string, FilterSmellConfig> = {
+    'too-many-arguments': {
+      name: 'Too Many Arguments (LPL)',
+      message_id: 'R0913',
+      acronym: 'LPL',
+      smell_description: 'Functions with many arguments.',
+      enabled: true,
+    },
+    'long-message-chain': {
+      name: 'Long Message Chain (LMC)',
+      message_id: 'LMC001',
+      acronym: 'LMC',
+      smell_description: 'Long chains of method calls.',
+      enabled: false,
+    },
+  };
+
+  const smell: Smell = {
+    type: 'refactor',
+    symbol: 'long-message-chain',
+    message: 'Method chain too long (4/3)',
+    messageId: 'LMC001',
+    confidence: 'UNDEFINED',
+    path: path.join(rootPath, 'pkg', 'app.py'),
+    module: 'pkg.app',
+    obj: 'handler',
+    occurences: [{ line: 12, endLine: 12, column: 4, endColumn: 30 }],
+    additionalInfo: { repetitions: 4 },
+    fingerprint: 'abc123',
+  };
+
+  it('should create a rule for every smell definition', () => {
+    const log = buildSarifLog([], definitions, {
+      rootPath,
+      toolVersion: '1.2.3',
+      severities: { 'too-many-arguments': 'error' },
+    });
+
+    expect(log.version).toBe('2.1.0');
+    const { driver } = log.runs[0].tool;
+    expect(driver.version).toBe('1.2.3');
+    expect(driver.rules).toEqual([
+      expect.objectContaining({
+        id: 'too-many-arguments',
+        name: 'LPL',
+        shortDescription: { text: 'Too Many Arguments (LPL)' },
+        fullDescription: { text: 'Functions with many arguments.' },
+        defaultConfiguration: { level: 'error', enabled: true },
+        properties: { messageId: 'R0913' },
+      }),
+      expect.objectContaining({
+        id: 'long-message-chain',
+        defaultConfiguration: { level: 'note', enabled: false },
+      }),
+    ]);
+  });
+
+  it('should convert smells into results with relative locations', () => {
+    const log = buildSarifLog([smell], definitions, { rootPath });
+
+    expect(log.runs[0].originalUriBaseIds['%SRCROOT%'].uri).toMatch(/\/project\/$/);
+    expect(log.runs[0].results).toEqual([
+      {
+        ruleId: 'long-message-chain',
+        ruleIndex: 1,
+        level: 'note',
+        message: { text: 'Method chain too long (4/3)' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'pkg/app.py', uriBaseId: '%SRCROOT%' },
+              region: { startLine: 12, startColumn: 4, endLine: 12, endColumn: 30 },
+            },
+            logicalLocations: [
+              { name: 'handler', fullyQualifiedName: 'pkg.app.handler' },
+            ],
+          },
+        ],
+        partialFingerprints: { 'ecoFingerprint/v1': 'abc123' },
+        properties: { confidence: 'UNDEFINED', additionalInfo: { repetitions: 4 } },
+      },
+    ]);
+  });
+
+  it('should add rules for smells without a definition', () => {
+    const log = buildSarifLog(
+      [{ ...smell, symbol: 'unknown-smell', fingerprint: undefined }],
+      definitions,
+      { rootPath },
+    );
+
+    const [result] = log.runs[0].results;
+    expect(log.runs[0].tool.driver.rules[result.ruleIndex].id).toBe('unknown-smell');
+    expect(result.partialFingerprints).toBeUndefined();
+  });
+
+  it('should use absolute URIs for files outside the root', () => {
+    const log = buildSarifLog(
+      [{ ...smell, path: path.join('/elsewhere', 'app.py') }],
+      definitions,
+      { rootPath },
+    );
+
+    expect(
+      log.runs[0].results[0].locations[0].physicalLocation.artifactLocation,
+    ).toEqual({ uri: 'file:///elsewhere/app.py' });
+  });
+
+  it('should map severities to SARIF levels', () => {
+    expect(toSarifLevel('error')).toBe('error');
+    expect(toSarifLevel('warning')).toBe('warning');
+    expect(toSarifLevel('hint')).toBe('note');
+    expect(toSarifLevel(undefined)).toBe('note');
+  });
+});
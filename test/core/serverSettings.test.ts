@@ -0,0 +1,40 @@
+import {
+  formatBaseUrl,
+  parseServerAddress,
+  resolveServerSettings,
+} from '../../src/core/serverSettings';
+
+describe('serverSettings', () => {
+  it('should parse addresses with or without a protocol', () => {
+    expect(parseServerAddress('10.0.0.5:9000')).toEqual({
+      host: '10.0.0.5',
+      port: 9000,
+      protocol: 'http',
+    });
+    expect(parseServerAddress('https://eco.example.com')).toEqual({
+      host: 'eco.example.com',
+      port: 443,
+      protocol: 'https',
+    });
+  });
+
+  it('should reject addresses that are not HTTP', () => {
+    expect(() => parseServerAddress('ftp://eco.example.com')).toThrow(
+      'Unsupported server protocol: ftp:',
+    );
+  });
+
+  it('should fall back to the defaults for invalid values', () => {
+    const settings = resolveServerSettings({ host: '', port: -1, retries: 1.5 });
+
+    expect(settings).toEqual({
+      host: 'localhost',
+      port: 8000,
+      protocol: 'http',
+      requestTimeout: 120000,
+      retries: 2,
+      retryBackoff: 500,
+    });
+    expect(formatBaseUrl(settings)).toBe('http://localhost:8000');
+  });
+});
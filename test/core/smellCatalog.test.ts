@@ -0,0 +1,189 @@
+import {
+  checkCatalogVersion,
+  compareVersions,
+  getCatalogColours,
+  mergeSmellCatalog,
+  parseSmellCatalog,
+  SmellCatalog,
+} from '../../src/core/smellCatalog';
+import { FilterSmellConfig } from '../../src/core/smellConfig';
+
+describe('smellCatalog', () => {
+  const bundled: Record<string, FilterSmellConfig> = {
+    'long-parameter-list': {
+      name: 'Long Parameter List',
+      message_id: 'R0913',
+      acronym: 'LPL',
+      smell_description: 'Too many parameters.',
+      enabled: true,
+      analyzer_options: {
+        max_args: {
+          label: 'Max Arguments',
+          description: 'Maximum number of arguments',
+          value: 6,
+          type: 'integer',
+          minimum: 1,
+          default: 6,
+        },
+      },
+    },
+    'no-self-use': {
+      name: 'No Self Use',
+      message_id: 'R6301',
+      acronym: 'NSU',
+      smell_description: 'Methods not using self.',
+      enabled: false,
+    },
+  };
+
+  const catalog: SmellCatalog = {
+    version: '0.2.1',
+    smells: {
+      'long-parameter-list': {
+        name: 'Long Parameter List',
+        message_id: 'R0913',
+        acronym: 'LPL',
+        smell_description: 'Functions taking too many parameters.',
+        analyzer_options: {
+          max_args: {
+            label: 'Max Arguments',
+            description: 'Maximum number of arguments',
+            value: 5,
+            maximum: 20,
+          },
+        },
+        colour: 'lightcoral',
+      },
+      'global-variable': {
+        name: 'Global Variable',
+        message_id: 'W0603',
+        acronym: 'GV',
+        enabled: false,
+        colour: '#ff00ff',
+      },
+    },
+  };
+
+  describe('parseSmellCatalog', () => {
+    it('should drop smells missing required fields', () => {
+      const parsed = parseSmellCatalog({
+        version: '0.2.1',
+        min_extension_version: '0.2.0',
+        smells: {
+          ...catalog.smells,
+          incomplete: { name: 'Incomplete', message_id: 'X001' },
+          empty: null,
+        },
+      });
+
+      expect(Object.keys(parsed.smells)).toEqual([
+        'long-parameter-list',
+        'global-variable',
+      ]);
+      expect(parsed.min_extension_version).toBe('0.2.0');
+    });
+
+    it('should reject responses that are not catalogs', () => {
+      expect(() => parseSmellCatalog(null)).toThrow(
+        'The response is not a smell catalog',
+      );
+      expect(() => parseSmellCatalog({ version: '1', smells: [] })).toThrow(
+        'The response is not a smell catalog',
+      );
+      expect(() => parseSmellCatalog({ smells: {} })).toThrow(
+        'The response is not a smell catalog',
+      );
+    });
+  });
+
+  describe('mergeSmellCatalog', () => {
+    it('should return the bundled smells when there is no catalog', () => {
+      expect(mergeSmellCatalog(bundled, undefined)).toBe(bundled);
+    });
+
+    it('should add smells only the backend knows about', () => {
+      const merged = mergeSmellCatalog(bundled, catalog);
+
+      expect(merged['global-variable']).toEqual({
+        name: 'Global Variable',
+        message_id: 'W0603',
+        acronym: 'GV',
+        smell_description: '',
+        enabled: false,
+      });
+      expect(merged['no-self-use']).toBe(bundled['no-self-use']);
+    });
+
+    it('should take descriptions and option schemas from the backend', () => {
+      const merged = mergeSmellCatalog(bundled, catalog);
+      const smell = merged['long-parameter-list'];
+
+      expect(smell.smell_description).toBe('Functions taking too many parameters.');
+      expect(smell.enabled).toBe(true);
+      expect(smell.analyzer_options?.max_args).toEqual({
+        label: 'Max Arguments',
+        description: 'Maximum number of arguments',
+        value: 5,
+        type: 'integer',
+        minimum: 1,
+        maximum: 20,
+        default: 6,
+      });
+      expect(bundled['long-parameter-list'].analyzer_options?.max_args.value).toBe(
+        6,
+      );
+    });
+
+    it('should keep bundled options when the backend advertises none', () => {
+      const merged = mergeSmellCatalog(bundled, {
+        version: '0.2.1',
+        smells: {
+          'long-parameter-list': {
+            name: 'Long Parameter List',
+            message_id: 'R0913',
+            acronym: 'LPL',
+          },
+        },
+      });
+
+      expect(merged['long-parameter-list'].analyzer_options).toBe(
+        bundled['long-parameter-list'].analyzer_options,
+      );
+      expect(merged['long-parameter-list'].smell_description).toBe(
+        'Too many parameters.',
+      );
+    });
+  });
+
+  it('should collect the default colours of the catalog', () => {
+    expect(getCatalogColours(catalog)).toEqual({
+      'long-parameter-list': 'lightcoral',
+      'global-variable': '#ff00ff',
+    });
+    expect(getCatalogColours(undefined)).toEqual({});
+  });
+
+  it('should compare versions numerically', () => {
+    expect(compareVersions('0.10.0', '0.9.3')).toBeGreaterThan(0);
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('1.2.0-beta.1', '1.2.1')).toBeLessThan(0);
+  });
+
+  describe('checkCatalogVersion', () => {
+    it('should accept any extension when the backend declares no minimum', () => {
+      expect(checkCatalogVersion('0.3.0', catalog)).toBeUndefined();
+      expect(
+        checkCatalogVersion('2.0.0', { ...catalog, version: '1.0.2' }),
+      ).toBeUndefined();
+    });
+
+    it('should use the minimum extension version declared by the backend', () => {
+      const declared = { ...catalog, min_extension_version: '0.2.5' };
+
+      expect(checkCatalogVersion('0.2.4', declared)).toBe(
+        'Backend 0.2.1 requires extension 0.2.5 or newer (installed: 0.2.4)',
+      );
+      expect(checkCatalogVersion('0.4.0', declared)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  AnalyzerOption,
+  applySmellOverrides,
+  DetectSmellConfig,
+  FilterSmellConfig,
+  formatOptionValue,
+  getOptionType,
+  parseOptionInput,
+  validateOptionValue,
+  getSmellConfigFingerprint,
+  mergeSmellOverrides,
+  removeOptionOverride,
+  toBackendOptions,
+} from '../../src/core/smellConfig';
+
+describe('smellConfig', () => {
+  const config: DetectSmellConfig = {
+    message_id: 'R0913',
+    acronym: 'LPL',
+    options: { max_args: 6, ignore: 'self' },
+  };
+
+  it('should fingerprint the options regardless of their order', () => {
+    expect(
+      getSmellConfigFingerprint({
+        ...config,
+        options: { ignore: 'self', max_args: 6 },
+      }),
+    ).toBe(getSmellConfigFingerprint(config));
+  });
+
+  it('should change the fingerprint when an option changes', () => {
+    expect(
+      getSmellConfigFingerprint({
+        ...config,
+        options: { ...config.options, max_args: 7 },
+      }),
+    ).not.toBe(getSmellConfigFingerprint(config));
+  });
+
+  it('should send only the analyzer options to the backend', () => {
+    expect(toBackendOptions({ 'too-many-arguments': config })).toEqual({
+      'too-many-arguments': { max_args: 6, ignore: 'self' },
+    });
+  });
+
+  it('should apply overrides to a copy of the configuration', () => {
+    const smells: Record<string, FilterSmellConfig> = {
+      'too-many-arguments': {
+        name: 'Too Many Arguments',
+        message_id: 'R0913',
+        acronym: 'LPL',
+        smell_description: '',
+        enabled: true,
+        analyzer_options: {
+          max_args: { label: 'Arguments', description: '', value: 6 },
+        },
+      },
+    };
+
+    const result = applySmellOverrides(smells, {
+      'too-many-arguments': {
+        enabled: false,
+        options: { max_args: 8, unknown: 1 },
+      },
+      'unknown-smell': { enabled: true },
+    });
+
+    expect(result['too-many-arguments'].enabled).toBe(false);
+    expect(result['too-many-arguments'].analyzer_options).toEqual({
+      max_args: { label: 'Arguments', description: '', value: 8 },
+    });
+    expect(result['unknown-smell']).toBeUndefined();
+    expect(smells['too-many-arguments'].enabled).toBe(true);
+  });
+
+  describe('analyzer options', () => {
+    const threshold: AnalyzerOption = {
+      label: 'Threshold',
+      description: '',
+      value: 4,
+      minimum: 2,
+      maximum: 10,
+      step: 2,
+      unit: 'calls',
+    };
+    const mode: AnalyzerOption = {
+      label: 'Mode',
+      description: '',
+      value: 'fast',
+      enum: ['fast', 'thorough'],
+    };
+    const strict: AnalyzerOption = {
+      label: 'Strict',
+      description: '',
+      value: false,
+    };
+
+    it('should infer the type of options without one', () => {
+      expect(getOptionType(threshold)).toBe('integer');
+      expect(getOptionType({ ...threshold, value: 0.5 })).toBe('number');
+      expect(getOptionType(mode)).toBe('enum');
+      expect(getOptionType(strict)).toBe('boolean');
+      expect(getOptionType({ ...mode, enum: undefined })).toBe('string');
+    });
+
+    it('should validate values against the schema', () => {
+      expect(validateOptionValue(threshold, 6)).toBeUndefined();
+      expect(validateOptionValue(threshold, 1)).toBe('Must be at least 2');
+      expect(validateOptionValue(threshold, 12)).toBe('Must be at most 10');
+      expect(validateOptionValue(threshold, 5)).toBe('Must be in steps of 2');
+      expect(validateOptionValue({ ...threshold, step: undefined }, 5.5)).toBe(
+        'Must be a whole number',
+      );
+      expect(validateOptionValue(threshold, NaN)).toBe('Must be a number');
+      expect(
+        validateOptionValue({ ...threshold, type: 'number', step: 0.1 }, 2.3),
+      ).toBeUndefined();
+      expect(validateOptionValue(mode, 'slow')).toBe(
+        'Must be one of: fast, thorough',
+      );
+      expect(validateOptionValue(strict, 'yes')).toBe('Must be true or false');
+    });
+
+    it('should convert entered text to the option type', () => {
+      expect(parseOptionInput(threshold, ' 8 ')).toBe(8);
+      expect(parseOptionInput(threshold, '')).toBeNaN();
+      expect(parseOptionInput(strict, 'true')).toBe(true);
+      expect(parseOptionInput({ ...mode, enum: [1, 2] }, '2')).toBe(2);
+      expect(formatOptionValue(threshold)).toBe('4 calls');
+    });
+
+    it('should ignore override values that break the schema', () => {
+      const onInvalid = jest.fn();
+      const smells = {
+        'long-message-chain': {
+          enabled: true,
+          analyzer_options: { threshold },
+        },
+      } as unknown as Record<string, FilterSmellConfig>;
+
+      const result = applySmellOverrides(
+        smells,
+        { 'long-message-chain': { options: { threshold: 11 } } },
+        onInvalid,
+      );
+
+      expect(result['long-message-chain'].analyzer_options?.threshold.value).toBe(4);
+      expect(onInvalid).toHaveBeenCalledWith(
+        'long-message-chain',
+        'threshold',
+        'Must be at most 10',
+      );
+    });
+  });
+
+  describe('editing overrides', () => {
+    const overrides = {
+      'no-self-use': { enabled: false },
+      'long-message-chain': { options: { threshold: 5, strict: true } },
+    };
+
+    it('should merge changes and keep the values they leave out', () => {
+      expect(
+        mergeSmellOverrides(overrides, {
+          'long-message-chain': { enabled: true, options: { threshold: 6 } },
+        }),
+      ).toEqual({
+        'no-self-use': { enabled: false },
+        'long-message-chain': {
+          enabled: true,
+          options: { threshold: 6, strict: true },
+        },
+      });
+      expect(mergeSmellOverrides(undefined, { 'no-self-use': {} })).toEqual({
+        'no-self-use': {},
+      });
+    });
+
+    it('should remove a single option override', () => {
+      expect(
+        removeOptionOverride(overrides, 'long-message-chain', 'threshold'),
+      ).toEqual({
+        'no-self-use': { enabled: false },
+        'long-message-chain': { options: { strict: true } },
+      });
+      expect(
+        removeOptionOverride(overrides, 'no-self-use', 'threshold'),
+      ).toBeUndefined();
+    });
+  });
+});
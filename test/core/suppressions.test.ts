@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import {
+  addSuppressionPragma,
+  filterSuppressedSmells,
+  isSmellSuppressed,
+  parseSuppressionPragmas,
+} from '../../src/core/suppressions';
+import { getAcronymByMessageId } from '../../src/core/smellConfig';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('fs', () => ({ promises: { readFile: jest.fn() } }));
+jest.mock('../../src/core/smellConfig');
+
+describe('suppressions', () => {
+  const acronyms: Record<string, string> = {
+    R0913: 'LPL',
+    CRC001: 'CRC',
+    LEC001: 'LEC',
+  };
+
+  const smellAt = (messageId: string, line: number): Smell =>
+    createSmell({
+      symbol: `symbol-${messageId}`,
+      messageId,
+      path: '/project/file.py',
+      occurences: [{ line, column: 1 }],
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getAcronymByMessageId as jest.Mock).mockImplementation((id) => acronyms[id]);
+  });
+
+  describe('parseSuppressionPragmas', () => {
+    it('should read same-line, next-line and file pragmas', () => {
+      const pragmas = parseSuppressionPragmas(
+        [
+          '# eco: ignore-file[CRC, scl]',
+          'def f(a, b, c, d, e):  # eco: ignore[LPL]',
+          '# eco: ignore-next-line',
+          'x = a.b.c.d.e',
+        ].join('\n'),
+      );
+
+      expect(pragmas.file).toEqual(new Set(['CRC', 'SCL']));
+      expect(pragmas.lines.get(2)).toEqual(new Set(['LPL']));
+      expect(pragmas.lines.get(4)).toBe('all');
+    });
+
+    it('should merge pragmas for the same line', () => {
+      const pragmas = parseSuppressionPragmas(
+        '# eco: ignore-next-line[LEC]\ny = z  # eco: ignore[LPL]',
+      );
+
+      expect(pragmas.lines.get(2)).toEqual(new Set(['LEC', 'LPL']));
+    });
+  });
+
+  describe('isSmellSuppressed', () => {
+    it('should match smells by acronym on their line', () => {
+      const pragmas = parseSuppressionPragmas('\nfoo()  # eco: ignore[lpl]');
+
+      expect(isSmellSuppressed(smellAt('R0913', 2), pragmas)).toBe(true);
+      expect(isSmellSuppressed(smellAt('LEC001', 2), pragmas)).toBe(false);
+      expect(isSmellSuppressed(smellAt('R0913', 1), pragmas)).toBe(false);
+    });
+
+    it('should match file-level pragmas anywhere', () => {
+      const pragmas = parseSuppressionPragmas('# eco: ignore-file[CRC]');
+
+      expect(isSmellSuppressed(smellAt('CRC001', 40), pragmas)).toBe(true);
+    });
+
+    it('should also accept message ids', () => {
+      const pragmas = parseSuppressionPragmas('foo()  # eco: ignore[R0913]');
+
+      expect(isSmellSuppressed(smellAt('R0913', 1), pragmas)).toBe(true);
+    });
+  });
+
+  describe('filterSuppressedSmells', () => {
+    it('should split smells into active and suppressed', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValue(
+        'def f(a, b, c, d, e):  # eco: ignore[LPL]\nx = a.b.c.d.e',
+      );
+      const lpl = smellAt('R0913', 1);
+      const lec = smellAt('LEC001', 2);
+
+      const result = await filterSuppressedSmells('/project/file.py', [lpl, lec]);
+
+      expect(result).toEqual({ active: [lec], suppressed: [lpl] });
+    });
+
+    it('should keep every smell when the file cannot be read', async () => {
+      (fs.promises.readFile as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+      const lpl = smellAt('R0913', 1);
+
+      const result = await filterSuppressedSmells('/project/file.py', [lpl]);
+
+      expect(result).toEqual({ active: [lpl], suppressed: [] });
+    });
+  });
+
+  describe('addSuppressionPragma', () => {
+    it('should append a pragma to the line', () => {
+      expect(addSuppressionPragma('foo(a, b)   ', 'LPL')).toBe(
+        'foo(a, b)  # eco: ignore[LPL]',
+      );
+    });
+
+    it('should extend an existing pragma', () => {
+      expect(addSuppressionPragma('foo()  # eco: ignore[LEC]  # noqa', 'LPL')).toBe(
+        'foo()  # eco: ignore[LEC,LPL]  # noqa',
+      );
+    });
+
+    it('should leave lines that already suppress the smell unchanged', () => {
+      expect(addSuppressionPragma('foo()  # eco: ignore[lpl]', 'LPL')).toBe(
+        'foo()  # eco: ignore[lpl]',
+      );
+      expect(addSuppressionPragma('foo()  # eco: ignore', 'LPL')).toBe(
+        'foo()  # eco: ignore',
+      );
+    });
+
+    it('should add a next-line pragma above lines continued with a backslash', () => {
+      expect(addSuppressionPragma('    total = a + \\', 'LMC')).toBe(
+        '    # eco: ignore-next-line[LMC]\n    total = a + \\',
+      );
+      expect(addSuppressionPragma('total = a  # sum \\', 'LMC')).toBe(
+        'total = a  # sum \\  # eco: ignore[LMC]',
+      );
+    });
+
+    it('should add a next-line pragma above lines opening a triple-quoted string', () => {
+      expect(addSuppressionPragma('    query = f"""SELECT *', 'SCL')).toBe(
+        '    # eco: ignore-next-line[SCL]\n    query = f"""SELECT *',
+      );
+      expect(addSuppressionPragma("text = '''a''' + 'b\\'c'", 'SCL')).toBe(
+        "text = '''a''' + 'b\\'c'  # eco: ignore[SCL]",
+      );
+    });
+
+    it('should not add pragmas inside a multi-line string', () => {
+      const preceding = ['def query():', '    sql = """', '    SELECT *'];
+
+      expect(() => addSuppressionPragma('    FROM users', 'SCL', preceding)).toThrow(
+        'The smell is inside a string or a continued line',
+      );
+      expect(addSuppressionPragma('    """ + where', 'SCL', preceding)).toBe(
+        '    """ + where  # eco: ignore[SCL]',
+      );
+      expect(
+        addSuppressionPragma('    return sql', 'SCL', [...preceding, '"""']),
+      ).toBe('    return sql  # eco: ignore[SCL]');
+    });
+
+    it('should not add pragmas between continued lines', () => {
+      expect(() =>
+        addSuppressionPragma('    b + \\', 'LMC', ['total = a + \\']),
+      ).toThrow('The smell is inside a string or a continued line');
+      expect(addSuppressionPragma('    b', 'LMC', ['total = a + \\'])).toBe(
+        '    b  # eco: ignore[LMC]',
+      );
+    });
+
+    it('should not treat next-line pragmas as same-line ones', () => {
+      expect(addSuppressionPragma('# eco: ignore-next-line[LEC]', 'LPL')).toBe(
+        '# eco: ignore-next-line[LEC]  # eco: ignore[LPL]',
+      );
+    });
+  });
+});
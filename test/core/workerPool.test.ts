@@ -0,0 +1,66 @@
+import { runWithConcurrency } from '../../src/core/workerPool';
+
+describe('runWithConcurrency', () => {
+  const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('should process every item in order of start', async () => {
+    const started: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4], 2, async (item) => {
+      started.push(item);
+      await tick();
+    });
+
+    expect(started).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await tick();
+        inFlight--;
+      },
+    );
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should treat invalid limits as a single worker', async () => {
+    let maxInFlight = 0;
+    let inFlight = 0;
+
+    await runWithConcurrency([1, 2, 3], 0, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('should stop starting items once aborted', async () => {
+    const controller = new AbortController();
+    const processed: number[] = [];
+
+    await runWithConcurrency(
+      [1, 2, 3, 4],
+      1,
+      async (item) => {
+        processed.push(item);
+        if (item === 2) controller.abort();
+        await tick();
+      },
+      controller.signal,
+    );
+
+    expect(processed).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+
+import { LintAsYouTypeListener } from '../../src/listeners/lintAsYouTypeListener';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
+import { ConfigManager } from '../../src/context/configManager';
+import { detectSmellsDocument } from '../../src/commands/detection/detectSmells';
+import { isPathIgnored } from '../../src/utils/ignorePatterns';
+import { isSmellLintingEnabled } from '../../src/extension';
+
+jest.mock('../../src/context/configManager');
+jest.mock('../../src/commands/detection/detectSmells');
+jest.mock('../../src/utils/ignorePatterns');
+jest.mock('../../src/extension');
+
+describe('LintAsYouTypeListener', () => {
+  const smellsCacheManager = {} as SmellsCacheManager;
+  const smellsViewProvider = {} as SmellsViewProvider;
+  const filePath = '/project/app.py';
+  let settings: Record<string, unknown>;
+  let listener: LintAsYouTypeListener;
+
+  const createDocument = (languageId = 'python'): vscode.TextDocument =>
+    ({
+      languageId,
+      uri: { fsPath: filePath, scheme: 'file' },
+    }) as unknown as vscode.TextDocument;
+
+  const fireChange = (document = createDocument()): void =>
+    (vscode.workspace.onDidChangeTextDocument as jest.Mock).mock.calls[0][0]({
+      document,
+      contentChanges: [],
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    settings = { lintAsYouType: true, lintAsYouTypeDelay: 500 };
+    (ConfigManager.get as jest.Mock).mockImplementation(
+      (key: string, defaultValue: unknown) => settings[key] ?? defaultValue,
+    );
+    (isSmellLintingEnabled as jest.Mock).mockReturnValue(true);
+    (isPathIgnored as jest.Mock).mockReturnValue(false);
+    (detectSmellsDocument as jest.Mock).mockResolvedValue(undefined);
+
+    listener = new LintAsYouTypeListener(smellsCacheManager, smellsViewProvider);
+  });
+
+  afterEach(() => {
+    listener.dispose();
+    jest.useRealTimers();
+  });
+
+  it('should analyze a document once edits pause for the configured delay', () => {
+    const document = createDocument();
+    fireChange(document);
+    jest.advanceTimersByTime(300);
+    fireChange(document);
+    jest.advanceTimersByTime(300);
+
+    expect(detectSmellsDocument).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(200);
+
+    expect(detectSmellsDocument).toHaveBeenCalledTimes(1);
+    expect(detectSmellsDocument).toHaveBeenCalledWith(
+      document,
+      smellsViewProvider,
+      smellsCacheManager,
+      expect.any(AbortSignal),
+    );
+  });
+
+  it('should abort a running analysis when the document changes again', () => {
+    (detectSmellsDocument as jest.Mock).mockReturnValue(new Promise(() => {}));
+    fireChange();
+    jest.advanceTimersByTime(500);
+    const signal: AbortSignal = (detectSmellsDocument as jest.Mock).mock.calls[0][3];
+
+    fireChange();
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should not analyze while the setting or smell linting is off', () => {
+    settings.lintAsYouType = false;
+    fireChange();
+    settings.lintAsYouType = true;
+    (isSmellLintingEnabled as jest.Mock).mockReturnValue(false);
+    fireChange();
+    jest.advanceTimersByTime(1000);
+
+    expect(detectSmellsDocument).not.toHaveBeenCalled();
+  });
+
+  it('should ignore other languages and ignored paths', () => {
+    fireChange(createDocument('markdown'));
+    (isPathIgnored as jest.Mock).mockReturnValue(true);
+    fireChange();
+    jest.advanceTimersByTime(1000);
+
+    expect(detectSmellsDocument).not.toHaveBeenCalled();
+  });
+
+  it('should cancel pending analysis when a document is closed', () => {
+    fireChange();
+    (vscode.workspace.onDidCloseTextDocument as jest.Mock).mock.calls[0][0](
+      createDocument(),
+    );
+    jest.advanceTimersByTime(1000);
+
+    expect(detectSmellsDocument).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+
+import { SmellPositionTracker } from '../../src/listeners/smellPositionTracker';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
+import { ecoOutput } from '../../src/extension';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('../../src/extension');
+
+describe('SmellPositionTracker', () => {
+  let smellsCacheManager: jest.Mocked<SmellsCacheManager>;
+  let smellsViewProvider: jest.Mocked<SmellsViewProvider>;
+  let tracker: SmellPositionTracker;
+
+  const filePath = '/project/app.py';
+  const smell = createSmell({
+    symbol: 'too-many-arguments',
+    path: filePath,
+    occurences: [{ line: 5, column: 1, endLine: 5, endColumn: 10 }],
+  });
+  const contentChanges = [
+    {
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+      text: 'import os\n',
+    },
+  ];
+
+  const createDocument = (languageId = 'python'): vscode.TextDocument =>
+    ({
+      languageId,
+      uri: { fsPath: filePath, scheme: 'file' },
+    }) as unknown as vscode.TextDocument;
+
+  const fireChange = (document = createDocument()): void =>
+    (vscode.workspace.onDidChangeTextDocument as jest.Mock).mock.calls[0][0]({
+      document,
+      contentChanges,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    smellsCacheManager = {
+      trackSmellPositions: jest.fn(() => []),
+      discardDocumentSmells: jest.fn(),
+      getCachedSmells: jest.fn(() => [smell]),
+    } as unknown as jest.Mocked<SmellsCacheManager>;
+    smellsViewProvider = {
+      getSuppressedSmells: jest.fn(() => []),
+      setSuppressedSmells: jest.fn(),
+      setSmells: jest.fn(),
+    } as unknown as jest.Mocked<SmellsViewProvider>;
+
+    tracker = new SmellPositionTracker(smellsCacheManager, smellsViewProvider);
+  });
+
+  it('should move cached smells through document changes', () => {
+    fireChange();
+
+    expect(smellsCacheManager.trackSmellPositions).toHaveBeenCalledWith(
+      filePath,
+      contentChanges,
+    );
+    expect(smellsViewProvider.setSmells).toHaveBeenCalledWith(filePath, [smell]);
+  });
+
+  it('should move suppressed smells listed in the tree', () => {
+    smellsViewProvider.getSuppressedSmells.mockReturnValue([smell]);
+
+    fireChange();
+
+    expect(smellsViewProvider.setSuppressedSmells).toHaveBeenCalledWith(filePath, [
+      { ...smell, occurences: [{ line: 6, column: 1, endLine: 6, endColumn: 10 }] },
+    ]);
+  });
+
+  it('should log smells dropped by an edit', () => {
+    smellsCacheManager.trackSmellPositions.mockReturnValue([smell]);
+
+    fireChange();
+
+    expect(ecoOutput.trace).toHaveBeenCalledWith(
+      `[SmellPositionTracker] Dropped 1 edited smells in ${filePath}`,
+    );
+  });
+
+  it('should ignore files without cached smells and other languages', () => {
+    smellsCacheManager.trackSmellPositions.mockReturnValue(undefined);
+    fireChange();
+    fireChange(createDocument('markdown'));
+
+    expect(smellsCacheManager.trackSmellPositions).toHaveBeenCalledTimes(1);
+    expect(smellsViewProvider.setSmells).not.toHaveBeenCalled();
+  });
+
+  it('should restore saved smell positions when a document is closed', () => {
+    (vscode.workspace.onDidCloseTextDocument as jest.Mock).mock.calls[0][0](
+      createDocument(),
+    );
+
+    expect(smellsCacheManager.discardDocumentSmells).toHaveBeenCalledWith(filePath);
+    expect(smellsViewProvider.setSmells).toHaveBeenCalledWith(filePath, [smell]);
+  });
+
+  it('should dispose its listeners', () => {
+    tracker.dispose();
+
+    const listener = (vscode.workspace.onDidChangeTextDocument as jest.Mock).mock
+      .results[0].value;
+    expect(listener.dispose).toHaveBeenCalled();
+  });
+});
@@ -40,6 +40,9 @@ describe('WorkspaceModifiedListener', () => {
       clearCachedSmellsForFile: jest.fn(),
       clearCachedSmellsByPath: jest.fn(),
       getAllFilePaths: jest.fn(() => []),
+      invalidateFileHash: jest.fn(),
+      refreshFileHash: jest.fn(),
+      commitDocumentSmells: jest.fn(async () => false),
     } as unknown as jest.Mocked<SmellsCacheManager>;
 
     mockSmellsViewProvider = {
@@ -112,6 +115,20 @@ describe('WorkspaceModifiedListener', () => {
       expect(mockSmellsViewProvider.refresh).toHaveBeenCalled();
     });
 
+    it('should keep cached smells whose positions were tracked', async () => {
+      const filePath = '/project/path/file.py';
+      (mockSmellsCacheManager.hasFileInCache as jest.Mock).mockReturnValue(true);
+      (mockSmellsCacheManager.commitDocumentSmells as jest.Mock).mockResolvedValue(
+        true,
+      );
+
+      await listener['handleFileChange'](filePath);
+
+      expect(mockSmellsCacheManager.clearCachedSmellsForFile).not.toHaveBeenCalled();
+      expect(mockSmellsViewProvider.setStatus).not.toHaveBeenCalled();
+      expect(mockSmellsViewProvider.refresh).toHaveBeenCalled();
+    });
+
     it('should skip file change without cache', async () => {
       const filePath = '/project/path/file.py';
       (mockSmellsCacheManager.hasFileInCache as jest.Mock).mockReturnValue(false);
@@ -191,8 +208,32 @@ describe('WorkspaceModifiedListener', () => {
     });
   });
 
+  describe('File Hash Invalidation', () => {
+    it('should update file hashes on watcher events', () => {
+      (mockContext.workspaceState.get as jest.Mock).mockReturnValue('/project/path');
+      listener = new WorkspaceModifiedListener(
+        mockContext,
+        mockSmellsCacheManager,
+        mockSmellsViewProvider,
+        mockMetricsViewProvider,
+      );
+
+      const watcher = (vscode.workspace.createFileSystemWatcher as jest.Mock).mock
+        .results[0].value;
+      const uri = { fsPath: '/project/path/file.py' };
+      watcher.onDidChange.mock.calls[0][0](uri);
+      watcher.onDidCreate.mock.calls[0][0](uri);
+      watcher.onDidDelete.mock.calls[0][0](uri);
+
+      expect(mockSmellsCacheManager.refreshFileHash).toHaveBeenCalledWith(
+        '/project/path/file.py',
+      );
+      expect(mockSmellsCacheManager.invalidateFileHash).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('Save Listener', () => {
-    it('should trigger smell detection on Python file save when enabled', () => {
+    it('should trigger smell detection on Python file save when enabled', async () => {
       (mockContext.workspaceState.get as jest.Mock).mockReturnValue('/project/path');
       (
         require('../../src/extension').isSmellLintingEnabled as jest.Mock
@@ -212,8 +253,11 @@ describe('WorkspaceModifiedListener', () => {
         languageId: 'python',
         uri: { fsPath: '/project/path/file.py' },
       };
-      onDidSave(mockDocument);
+      await onDidSave(mockDocument);
 
+      expect(mockSmellsCacheManager.invalidateFileHash).toHaveBeenCalledWith(
+        '/project/path/file.py',
+      );
       expect(detectSmellsFile).toHaveBeenCalledWith(
         '/project/path/file.py',
         mockSmellsViewProvider,
@@ -224,7 +268,7 @@ describe('WorkspaceModifiedListener', () => {
       );
     });
 
-    it('should skip non-Python files on save', () => {
+    it('should skip non-Python files on save', async () => {
       (mockContext.workspaceState.get as jest.Mock).mockReturnValue('/project/path');
 
       listener = new WorkspaceModifiedListener(
@@ -241,7 +285,7 @@ describe('WorkspaceModifiedListener', () => {
         languageId: 'javascript',
         uri: { fsPath: '/project/path/file.js' },
       };
-      onDidSave(mockDocument);
+      await onDidSave(mockDocument);
 
       expect(detectSmellsFile).not.toHaveBeenCalled();
     });
@@ -0,0 +1,20 @@
+// test/mocks/smell-mock.ts
+
+/**
+ * Creates a smell for tests, with the given fields replacing the defaults.
+ * @param overrides - Fields that differ from the default smell
+ */
+export function createSmell(overrides: Partial<Smell> = {}): Smell {
+  return {
+    type: 'convention',
+    symbol: 'long-message-chain',
+    message: 'Method chain too long',
+    messageId: 'LMC001',
+    confidence: 'HIGH',
+    path: '/project/app.py',
+    module: 'app',
+    occurences: [{ line: 1, column: 1 }],
+    additionalInfo: {},
+    ...overrides,
+  };
+}
@@ -61,6 +61,7 @@ interface Window {
   withProgress: jest.Mock;
   showInputBox: jest.Mock;
   showQuickPick: jest.Mock;
+  createStatusBarItem: jest.Mock;
 }
 
 export const window: Window = {
@@ -96,8 +97,31 @@ export const window: Window = {
   }),
   showInputBox: jest.fn((val) => {}),
   showQuickPick: jest.fn(),
+  createStatusBarItem: jest.fn(() => ({
+    text: '',
+    tooltip: undefined,
+    command: undefined,
+    backgroundColor: undefined,
+    show: jest.fn(),
+    hide: jest.fn(),
+    dispose: jest.fn(),
+  })),
 };
 
+export class WorkspaceEdit {
+  replace(_uri: unknown, _range: unknown, _newText: string): void {}
+  insert(_uri: unknown, _position: unknown, _newText: string): void {}
+}
+
+export enum StatusBarAlignment {
+  Left = 1,
+  Right = 2,
+}
+
+export class ThemeColor {
+  constructor(public id: string) {}
+}
+
 export enum FileType {
   Directory = 1,
   File = 2,
@@ -107,7 +131,12 @@ interface Workspace {
   getConfiguration: jest.Mock;
   createFileSystemWatcher: jest.Mock;
   onDidSaveTextDocument: jest.Mock;
+  onDidChangeTextDocument: jest.Mock;
+  onDidCloseTextDocument: jest.Mock;
+  onDidChangeConfiguration: jest.Mock;
   findFiles: jest.Mock;
+  openTextDocument: jest.Mock;
+  applyEdit: jest.Mock;
   fs: {
     readFile: jest.Mock;
     writeFile: jest.Mock;
@@ -124,6 +153,7 @@ export const workspace: Workspace = {
     () =>
       ({
         onDidCreate: jest.fn(),
+        onDidChange: jest.fn(),
         onDidDelete: jest.fn(),
         dispose: jest.fn(),
       }) as unknown,
@@ -134,7 +164,18 @@ export const workspace: Workspace = {
         dispose: jest.fn(),
       }) as unknown,
   ),
+  onDidChangeTextDocument: jest.fn(() => ({
+    dispose: jest.fn(),
+  })),
+  onDidCloseTextDocument: jest.fn(() => ({
+    dispose: jest.fn(),
+  })),
+  onDidChangeConfiguration: jest.fn(() => ({
+    dispose: jest.fn(),
+  })),
   findFiles: jest.fn(),
+  openTextDocument: jest.fn(),
+  applyEdit: jest.fn(async () => true),
   fs: {
     readFile: jest.fn(),
     writeFile: jest.fn(),
@@ -180,8 +221,56 @@ export const languages = {
     dispose: jest.fn(),
   })),
   registerCodeActionsProvider: jest.fn(),
+  createDiagnosticCollection: jest.fn(() => {
+    const entries = new Map<string, any>();
+    return {
+      set: jest.fn((uri: any, diagnostics: any[]) =>
+        entries.set(uri.fsPath, { uri, diagnostics }),
+      ),
+      get: jest.fn((uri: any) => entries.get(uri.fsPath)?.diagnostics),
+      delete: jest.fn((uri: any) => entries.delete(uri.fsPath)),
+      clear: jest.fn(() => entries.clear()),
+      forEach: jest.fn((callback: (uri: any, diagnostics: any[]) => void) =>
+        entries.forEach(({ uri, diagnostics }) => callback(uri, diagnostics)),
+      ),
+      dispose: jest.fn(),
+    };
+  }),
 };
 
+export const CodeActionKind = {
+  QuickFix: 'quickfix',
+};
+
+export class CodeAction {
+  command?: MockCommand;
+  diagnostics?: any[];
+  isPreferred?: boolean;
+
+  constructor(
+    public title: string,
+    public kind?: string,
+  ) {}
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string | number | { value: string | number; target: any };
+
+  constructor(
+    public range: any,
+    public message: string,
+    public severity: DiagnosticSeverity = DiagnosticSeverity.Error,
+  ) {}
+}
+
 export enum ProgressLocation {
   SourceControl = 1,
   Window = 10,
@@ -227,6 +316,10 @@ export const commands = {
   }),
 };
 
+export const extensions = {
+  getExtension: jest.fn(),
+};
+
 export const Uri = {
   file: jest.fn((path: string) => ({
     scheme: 'file',
@@ -243,7 +336,9 @@ export const Uri = {
       toString: (): string => newPath,
     };
   }),
-  parse: jest.fn(),
+  parse: jest.fn((value: string) => ({
+    toString: (): string => value,
+  })),
 };
 
 export const Position = class MockPosition {
@@ -333,6 +428,10 @@ export interface Vscode {
   TextEditor: typeof TextEditor;
   TextEditorDecorationType: TextEditorDecorationType;
   languages: typeof languages;
+  DiagnosticSeverity: typeof DiagnosticSeverity;
+  Diagnostic: typeof Diagnostic;
+  CodeActionKind: typeof CodeActionKind;
+  CodeAction: typeof CodeAction;
   commands: typeof commands;
   OverviewRulerLane: typeof OverviewRulerLane;
   ProgressLocation: typeof ProgressLocation;
@@ -346,6 +445,9 @@ export interface Vscode {
   TreeItem: typeof TreeItem;
   TreeItemCollapsibleState: typeof TreeItemCollapsibleState;
   ExtensionContext: typeof ExtensionContext;
+  StatusBarAlignment: typeof StatusBarAlignment;
+  ThemeColor: typeof ThemeColor;
+  WorkspaceEdit: typeof WorkspaceEdit;
 }
 
 const vscode: Vscode = {
@@ -355,6 +457,10 @@ const vscode: Vscode = {
   TextEditor,
   TextEditorDecorationType: textEditorDecorationType,
   languages,
+  DiagnosticSeverity,
+  Diagnostic,
+  CodeActionKind,
+  CodeAction,
   commands,
   OverviewRulerLane,
   ProgressLocation,
@@ -368,6 +474,9 @@ const vscode: Vscode = {
   TreeItem,
   TreeItemCollapsibleState,
   ExtensionContext,
+  StatusBarAlignment,
+  ThemeColor,
+  WorkspaceEdit,
 };
 
 export default vscode;
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { CodeActionManager } from '../../src/ui/codeActionManager';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import * as smellsData from '../../src/utils/smellsData';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('vscode');
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/extension');
+
+describe('CodeActionManager', () => {
+  let smellsCacheManager: { getCachedSmells: jest.Mock };
+  let codeActionManager: CodeActionManager;
+
+  const document = {
+    uri: { fsPath: '/project/file.py' },
+  } as unknown as vscode.TextDocument;
+
+  const createRange = (start: number, end = start): vscode.Range =>
+    ({
+      start: { line: start, character: 0 },
+      end: { line: end, character: 0 },
+    }) as unknown as vscode.Range;
+
+  const smellAt = (messageId: string, line: number, endLine?: number): Smell =>
+    createSmell({
+      symbol: messageId.toLowerCase(),
+      messageId,
+      message: 'Smell message',
+      path: '/project/file.py',
+      occurences: [{ line, endLine, column: 1 }],
+    });
+
+  const emptyContext = { diagnostics: [] } as unknown as vscode.CodeActionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    smellsCacheManager = { getCachedSmells: jest.fn() };
+    (smellsData.getAcronymByMessageId as jest.Mock).mockImplementation(
+      (id: string) => ({ R0913: 'LPL', CRC001: 'CRC' })[id],
+    );
+
+    codeActionManager = new CodeActionManager(
+      smellsCacheManager as unknown as SmellsCacheManager,
+    );
+  });
+
+  it('should register the provider for Python files', () => {
+    const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+
+    codeActionManager.register(context);
+
+    expect(vscode.languages.registerCodeActionsProvider).toHaveBeenCalledWith(
+      { language: 'python', scheme: 'file' },
+      codeActionManager,
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] },
+    );
+    expect(context.subscriptions).toHaveLength(1);
+  });
+
+  it('should return undefined for non-Python files', () => {
+    const jsDocument = {
+      uri: { fsPath: '/project/file.js' },
+    } as unknown as vscode.TextDocument;
+
+    const result = codeActionManager.provideCodeActions(
+      jsDocument,
+      createRange(0),
+      emptyContext,
+      {} as vscode.CancellationToken,
+    );
+
+    expect(result).toBeUndefined();
+  });
+
+  it('should return undefined when no smell is under the cursor', () => {
+    smellsCacheManager.getCachedSmells.mockReturnValue([smellAt('R0913', 10)]);
+
+    const result = codeActionManager.provideCodeActions(
+      document,
+      createRange(2),
+      emptyContext,
+      {} as vscode.CancellationToken,
+    );
+
+    expect(result).toBeUndefined();
+  });
+
+  it('should offer refactor, refactor by type and suppress actions', () => {
+    const smell = smellAt('R0913', 3);
+    smellsCacheManager.getCachedSmells.mockReturnValue([smell]);
+
+    const actions = codeActionManager.provideCodeActions(
+      document,
+      createRange(2),
+      emptyContext,
+      {} as vscode.CancellationToken,
+    )!;
+
+    expect(actions).toHaveLength(3);
+    expect(actions.map((action) => action.command?.command)).toEqual([
+      'ecooptimizer.refactorSmell',
+      'ecooptimizer.refactorAllSmellsOfType',
+      'ecooptimizer.suppressSmell',
+    ]);
+    expect(actions[0].command?.arguments).toEqual([smell]);
+    expect(actions[0].isPreferred).toBe(true);
+    expect(actions[1].command?.arguments).toEqual([
+      { fullPath: '/project/file.py', smellType: 'R0913' },
+    ]);
+    expect(vscode.CodeAction).toHaveBeenCalledWith(
+      'Refactor this smell (LPL)',
+      vscode.CodeActionKind.QuickFix,
+    );
+  });
+
+  it('should match smells spanning multiple lines', () => {
+    smellsCacheManager.getCachedSmells.mockReturnValue([smellAt('CRC001', 2, 6)]);
+
+    const actions = codeActionManager.provideCodeActions(
+      document,
+      createRange(4),
+      emptyContext,
+      {} as vscode.CancellationToken,
+    );
+
+    expect(actions).toHaveLength(3);
+  });
+
+  it('should only offer one refactor-by-type action per smell type', () => {
+    smellsCacheManager.getCachedSmells.mockReturnValue([
+      smellAt('R0913', 3),
+      smellAt('R0913', 3),
+    ]);
+
+    const actions = codeActionManager.provideCodeActions(
+      document,
+      createRange(2),
+      emptyContext,
+      {} as vscode.CancellationToken,
+    )!;
+
+    const byType = actions.filter(
+      (action) => action.command?.command === 'ecooptimizer.refactorAllSmellsOfType',
+    );
+    expect(byType).toHaveLength(1);
+    expect(actions.filter((action) => action.isPreferred)).toHaveLength(1);
+  });
+
+  it('should attach matching eco diagnostics to the actions', () => {
+    smellsCacheManager.getCachedSmells.mockReturnValue([smellAt('R0913', 3)]);
+    const ecoDiagnostic = { source: 'EcoOptimizer', code: { value: 'LPL' } };
+    const otherDiagnostic = { source: 'Pylance', code: 'LPL' };
+
+    const actions = codeActionManager.provideCodeActions(
+      document,
+      createRange(2),
+      {
+        diagnostics: [ecoDiagnostic, otherDiagnostic],
+      } as unknown as vscode.CodeActionContext,
+      {} as vscode.CancellationToken,
+    )!;
+
+    expect(actions[0].diagnostics).toEqual([ecoDiagnostic]);
+  });
+});
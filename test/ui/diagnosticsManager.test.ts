@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import {
+  DiagnosticsManager,
+  getSmellSeverity,
+} from '../../src/ui/diagnosticsManager';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { ConfigManager } from '../../src/context/configManager';
+import * as smellsData from '../../src/utils/smellsData';
+import { getEnabledSmellsForFile } from '../../src/utils/smellScopes';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('vscode');
+jest.mock('../../src/context/configManager');
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/utils/smellScopes');
+jest.mock('../../src/extension');
+
+describe('DiagnosticsManager', () => {
+  let smellsCacheManager: {
+    getCachedSmells: jest.Mock;
+    getAllFilePaths: jest.Mock;
+    onSmellsUpdated: jest.Mock;
+  };
+  let manager: DiagnosticsManager;
+  let collection: any;
+
+  const lecSmell = (overrides: Partial<Smell> = {}): Smell =>
+    createSmell({
+      symbol: 'long-element-chain',
+      message: 'Long element chain detected',
+      messageId: 'LEC001',
+      path: '/project/file.py',
+      occurences: [{ line: 3, column: 5, endLine: 3, endColumn: 20 }],
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    smellsCacheManager = {
+      getCachedSmells: jest.fn(),
+      getAllFilePaths: jest.fn(() => []),
+      onSmellsUpdated: jest.fn(() => ({ dispose: jest.fn() })),
+    };
+
+    (getEnabledSmellsForFile as jest.Mock).mockReturnValue({
+      'long-element-chain': {},
+    });
+    (smellsData.getAcronymByMessageId as jest.Mock).mockReturnValue('LEC');
+    (ConfigManager.get as jest.Mock).mockReturnValue({});
+
+    manager = new DiagnosticsManager(
+      smellsCacheManager as unknown as SmellsCacheManager,
+    );
+    collection = (vscode.languages.createDiagnosticCollection as jest.Mock).mock
+      .results[0].value;
+  });
+
+  it('should create one diagnostic per occurrence', () => {
+    smellsCacheManager.getCachedSmells.mockReturnValue([
+      lecSmell({
+        occurences: [
+          { line: 3, column: 5, endLine: 3, endColumn: 20 },
+          { line: 8, column: 1 },
+        ],
+      }),
+    ]);
+
+    manager.refreshFile('/project/file.py');
+
+    expect(collection.get({ fsPath: '/project/file.py' })).toHaveLength(2);
+    expect(vscode.Range).toHaveBeenCalledWith(2, 4, 2, 19);
+    expect(vscode.Range).toHaveBeenCalledWith(7, 0, 7, Number.MAX_SAFE_INTEGER);
+  });
+
+  it('should use the acronym as code with a link to the smell description', () => {
+    smellsCacheManager.getCachedSmells.mockReturnValue([lecSmell()]);
+
+    manager.refreshFile('/project/file.py');
+
+    const [diagnostic] = collection.get({ fsPath: '/project/file.py' });
+    expect(diagnostic.source).toBe('EcoOptimizer');
+    expect(vscode.Diagnostic).toHaveBeenCalledWith(
+      expect.anything(),
+      'Long element chain detected',
+      vscode.DiagnosticSeverity.Information,
+    );
+    expect(diagnostic.code.value).toBe('LEC');
+    expect(diagnostic.code.target.toString()).toContain('#long-element-chain');
+  });
+
+  it('should skip smells that are not enabled', () => {
+    (getEnabledSmellsForFile as jest.Mock).mockReturnValue({});
+    smellsCacheManager.getCachedSmells.mockReturnValue([lecSmell()]);
+
+    manager.refreshFile('/project/file.py');
+
+    expect(collection.get({ fsPath: '/project/file.py' })).toEqual([]);
+  });
+
+  it('should remove diagnostics when the cache is cleared for a file', () => {
+    smellsCacheManager.getCachedSmells.mockReturnValueOnce([lecSmell()]);
+    manager.refreshFile('/project/file.py');
+
+    smellsCacheManager.getCachedSmells.mockReturnValueOnce(undefined);
+    manager.refreshFile('/project/file.py');
+
+    expect(collection.get({ fsPath: '/project/file.py' })).toBeUndefined();
+  });
+
+  it('should stay in sync with cache updates', () => {
+    const listener = smellsCacheManager.onSmellsUpdated.mock.calls[0][0];
+    smellsCacheManager.getAllFilePaths.mockReturnValue(['/project/file.py']);
+    smellsCacheManager.getCachedSmells.mockReturnValue([lecSmell()]);
+
+    listener('all');
+
+    expect(collection.clear).toHaveBeenCalled();
+    expect(collection.get({ fsPath: '/project/file.py' })).toHaveLength(1);
+  });
+
+  it('should ignore files that can no longer be read', () => {
+    smellsCacheManager.getCachedSmells.mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+
+    expect(() => manager.refreshFile('/project/missing.py')).not.toThrow();
+    expect(collection.set).not.toHaveBeenCalled();
+  });
+
+  describe('getSmellSeverity', () => {
+    it('should map configured severities', () => {
+      (ConfigManager.get as jest.Mock).mockReturnValue({
+        a: 'error',
+        b: 'warning',
+        c: 'hint',
+      });
+
+      expect(getSmellSeverity('a')).toBe(vscode.DiagnosticSeverity.Error);
+      expect(getSmellSeverity('b')).toBe(vscode.DiagnosticSeverity.Warning);
+      expect(getSmellSeverity('c')).toBe(vscode.DiagnosticSeverity.Hint);
+      expect(getSmellSeverity('d')).toBe(vscode.DiagnosticSeverity.Information);
+    });
+  });
+});
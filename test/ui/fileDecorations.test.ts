@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+
+import { SmellFileDecorationProvider } from '../../src/ui/fileDecorations';
+import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
+import { SmellsViewProvider } from '../../src/providers/SmellsViewProvider';
+import { ConfigManager } from '../../src/context/configManager';
+import { getEnabledSmellsForFile } from '../../src/utils/smellScopes';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('vscode', () => {
+  const actualVscode = jest.requireActual('vscode');
+  return {
+    ...actualVscode,
+    EventEmitter: class {
+      event = jest.fn();
+      fire = jest.fn();
+      dispose = jest.fn();
+    },
+    FileDecoration: class {
+      constructor(
+        public badge?: string,
+        public tooltip?: string,
+        public color?: { id: string },
+      ) {}
+    },
+    window: {
+      ...actualVscode.window,
+      registerFileDecorationProvider: jest.fn(() => ({ dispose: jest.fn() })),
+    },
+  };
+});
+jest.mock('../../src/context/configManager');
+jest.mock('../../src/utils/smellScopes');
+jest.mock('../../src/extension');
+
+describe('SmellFileDecorationProvider', () => {
+  let smellsCacheManager: {
+    getCachedSmells: jest.Mock;
+    getAllFilePaths: jest.Mock;
+    onSmellsUpdated: jest.Mock;
+  };
+  let smellsViewProvider: { getStatus: jest.Mock; onDidChangeStatus: jest.Mock };
+  let cachedSmells: Record<string, Smell[]>;
+  let provider: SmellFileDecorationProvider;
+
+  const smellWith = (confidence: string, symbol = 'long-element-chain'): Smell =>
+    createSmell({ symbol, confidence });
+  const decorate = (fsPath: string): vscode.FileDecoration | undefined =>
+    provider.provideFileDecoration({ scheme: 'file', fsPath } as vscode.Uri);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    cachedSmells = {
+      '/project/app.py': [smellWith('INFERENCE'), smellWith('HIGH')],
+      '/project/pkg/util.py': [smellWith('LOW')],
+      '/project/pkg/off.py': [smellWith('HIGH', 'disabled-smell')],
+    };
+    smellsCacheManager = {
+      getCachedSmells: jest.fn((filePath: string) => cachedSmells[filePath]),
+      getAllFilePaths: jest.fn(() => Object.keys(cachedSmells)),
+      onSmellsUpdated: jest.fn(() => ({ dispose: jest.fn() })),
+    };
+    smellsViewProvider = {
+      getStatus: jest.fn(),
+      onDidChangeStatus: jest.fn(() => ({ dispose: jest.fn() })),
+    };
+
+    (getEnabledSmellsForFile as jest.Mock).mockReturnValue({
+      'long-element-chain': {},
+    });
+    (ConfigManager.get as jest.Mock).mockImplementation(
+      (_key, fallback) => fallback,
+    );
+
+    provider = new SmellFileDecorationProvider(
+      smellsCacheManager as unknown as SmellsCacheManager,
+      smellsViewProvider as unknown as SmellsViewProvider,
+    );
+    provider.register({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+  });
+
+  it('should badge files with their enabled smells, tinted by confidence', () => {
+    expect(decorate('/project/app.py')).toEqual({
+      badge: '2',
+      tooltip: '2 smells (most certain: high)',
+      color: { id: 'charts.red' },
+    });
+    expect(decorate('/project/pkg/util.py')).toEqual(
+      expect.objectContaining({ badge: '1', color: { id: 'charts.yellow' } }),
+    );
+    expect(decorate('/project/pkg/off.py')).toBeUndefined();
+  });
+
+  it('should show the totals of the files below folders', () => {
+    expect(decorate('/project')).toEqual(
+      expect.objectContaining({ badge: '3', color: { id: 'charts.red' } }),
+    );
+    expect(decorate('/project/pkg')).toEqual(
+      expect.objectContaining({
+        badge: '1',
+        tooltip: '1 smell (most certain: low)',
+      }),
+    );
+    expect(decorate('/elsewhere')).toBeUndefined();
+  });
+
+  it('should mark outdated and clean files', () => {
+    smellsViewProvider.getStatus.mockImplementation((filePath: string) =>
+      filePath === '/project/app.py' ? 'outdated' : 'no_issues',
+    );
+
+    expect(decorate('/project/app.py')).toEqual(
+      expect.objectContaining({ badge: '!', color: { id: 'charts.orange' } }),
+    );
+    expect(decorate('/project/clean.py')).toEqual(
+      expect.objectContaining({ badge: undefined, tooltip: 'No smells found' }),
+    );
+  });
+
+  it('should update a file when its cached smells change', () => {
+    const onSmellsUpdated = smellsCacheManager.onSmellsUpdated.mock.calls[0][0];
+    delete cachedSmells['/project/app.py'];
+
+    onSmellsUpdated('/project/app.py');
+
+    expect(decorate('/project/app.py')).toBeUndefined();
+    expect(decorate('/project')).toEqual(expect.objectContaining({ badge: '1' }));
+    expect(provider['changeEmitter'].fire).toHaveBeenLastCalledWith(
+      ['/project/app.py', '/project', '/'].map((fsPath) =>
+        expect.objectContaining({ fsPath }),
+      ),
+    );
+  });
+
+  it('should leave outdated files out of folder totals', () => {
+    const onDidChangeStatus = smellsViewProvider.onDidChangeStatus.mock.calls[0][0];
+    smellsViewProvider.getStatus.mockReturnValue('outdated');
+
+    onDidChangeStatus('/project/pkg/util.py');
+
+    expect(decorate('/project')).toEqual(expect.objectContaining({ badge: '2' }));
+    expect(decorate('/project/pkg')).toBeUndefined();
+    expect(provider['changeEmitter'].fire).toHaveBeenLastCalledWith(
+      ['/project/pkg/util.py', '/project/pkg', '/project', '/'].map((fsPath) =>
+        expect.objectContaining({ fsPath }),
+      ),
+    );
+  });
+
+  it('should only update the file itself for other status changes', () => {
+    const onDidChangeStatus = smellsViewProvider.onDidChangeStatus.mock.calls[0][0];
+    smellsViewProvider.getStatus.mockReturnValue('queued');
+
+    onDidChangeStatus('/project/app.py');
+
+    expect(decorate('/project')).toEqual(expect.objectContaining({ badge: '3' }));
+    expect(provider['changeEmitter'].fire).toHaveBeenLastCalledWith(
+      expect.objectContaining({ fsPath: '/project/app.py' }),
+    );
+  });
+
+  it('should not decorate anything when turned off', () => {
+    (ConfigManager.get as jest.Mock).mockReturnValue(false);
+
+    expect(decorate('/project/app.py')).toBeUndefined();
+    expect(decorate('/project')).toBeUndefined();
+  });
+});
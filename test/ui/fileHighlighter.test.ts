@@ -3,13 +3,15 @@ import * as vscode from 'vscode';
 import { FileHighlighter } from '../../src/ui/fileHighlighter';
 import { SmellsCacheManager } from '../../src/context/SmellsCacheManager';
 import { ConfigManager } from '../../src/context/configManager';
-import * as smellsData from '../../src/utils/smellsData';
+import * as smellScopes from '../../src/utils/smellScopes';
+import * as smellVisibility from '../../src/utils/smellVisibility';
+import { createSmell } from '../mocks/smell-mock';
 
 // Mock dependencies
 jest.mock('vscode');
 jest.mock('../../src/context/SmellsCacheManager');
 jest.mock('../../src/context/configManager');
-jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/utils/smellScopes');
 
 describe('FileHighlighter', () => {
   let smellsCacheManager: { getCachedSmells: jest.Mock; onSmellsUpdated: jest.Mock };
@@ -142,7 +144,7 @@ describe('FileHighlighter', () => {
         },
       ] as unknown as Smell[];
 
-      jest.spyOn(smellsData, 'getEnabledSmells').mockReturnValueOnce({
+      jest.spyOn(smellScopes, 'getEnabledSmellsForFile').mockReturnValueOnce({
         smell1: {} as any,
         smell2: {} as any,
       });
@@ -171,7 +173,7 @@ describe('FileHighlighter', () => {
     });
 
     it('should only highlight enabled smells', () => {
-      jest.spyOn(smellsData, 'getEnabledSmells').mockReturnValueOnce({
+      jest.spyOn(smellScopes, 'getEnabledSmellsForFile').mockReturnValueOnce({
         smell1: {} as any,
       });
 
@@ -195,6 +197,28 @@ describe('FileHighlighter', () => {
       ).toHaveLength(1);
     });
 
+    it('should only highlight the smells shown in the other views', () => {
+      jest.spyOn(smellScopes, 'getEnabledSmellsForFile').mockReturnValueOnce({
+        smell1: {} as any,
+        smell2: {} as any,
+      });
+
+      const shown = createSmell({ symbol: 'smell1' });
+      const hidden = createSmell({
+        symbol: 'smell2',
+        occurences: [{ line: 2, column: 1 }],
+      });
+      smellsCacheManager.getCachedSmells.mockReturnValueOnce([shown, hidden]);
+      const getVisibleSmells = jest
+        .spyOn(smellVisibility, 'getVisibleSmells')
+        .mockReturnValueOnce([shown]);
+
+      fileHighlighter.highlightSmells(mockEditor!);
+
+      expect(getVisibleSmells).toHaveBeenCalledWith([shown, hidden]);
+      expect(mockEditor!.setDecorations).toHaveBeenCalledTimes(1);
+    });
+
     it('should skip invalid line numbers', () => {
       const mockSmells = [
         {
@@ -203,7 +227,7 @@ describe('FileHighlighter', () => {
         },
       ];
 
-      jest.spyOn(smellsData, 'getEnabledSmells').mockReturnValueOnce({
+      jest.spyOn(smellScopes, 'getEnabledSmellsForFile').mockReturnValueOnce({
         smell1: {} as any,
         smell2: {} as any,
       });
@@ -224,7 +248,7 @@ describe('FileHighlighter', () => {
         vscode.window.createTextEditorDecorationType as jest.Mock
       ).mockReturnValueOnce(mockDecoration);
 
-      jest.spyOn(smellsData, 'getEnabledSmells').mockReturnValueOnce({
+      jest.spyOn(smellScopes, 'getEnabledSmellsForFile').mockReturnValueOnce({
         smell1: {} as any,
         smell2: {} as any,
       });
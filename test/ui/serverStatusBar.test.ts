@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { ServerStatusBar } from '../../src/ui/serverStatusBar';
+import { serverStatus, ServerStatusType } from '../../src/emitters/serverStatus';
+
+jest.mock('../../src/emitters/serverStatus', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  const actual = jest.requireActual('../../src/emitters/serverStatus');
+  const emitter = new EventEmitter();
+  emitter.getStatus = jest.fn();
+  return { ...actual, serverStatus: emitter };
+});
+
+describe('ServerStatusBar', () => {
+  let statusBar: ServerStatusBar;
+  let item: any;
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    context.subscriptions.length = 0;
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UNKNOWN);
+
+    statusBar = new ServerStatusBar();
+    item = (vscode.window.createStatusBarItem as jest.Mock).mock.results[0].value;
+  });
+
+  afterEach(() => {
+    statusBar.dispose();
+  });
+
+  it('should open the server menu when clicked', () => {
+    statusBar.register(context);
+
+    expect(item.command).toBe('ecooptimizer.showServerMenu');
+    expect(item.show).toHaveBeenCalled();
+    expect(context.subscriptions).toContain(statusBar);
+  });
+
+  it('should reflect the current server status', () => {
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.UP);
+
+    statusBar.register(context);
+
+    expect(item.text).toBe('$(check) Eco Server');
+    expect(item.backgroundColor).toBeUndefined();
+  });
+
+  it('should update when the server status changes', () => {
+    statusBar.register(context);
+
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.STARTING);
+    serverStatus.emit('change', ServerStatusType.STARTING);
+    expect(item.text).toBe('$(sync~spin) Eco Server');
+
+    (serverStatus.getStatus as jest.Mock).mockReturnValue(ServerStatusType.DOWN);
+    serverStatus.emit('change', ServerStatusType.DOWN);
+    expect(item.text).toBe('$(error) Eco Server');
+    expect(vscode.ThemeColor).toHaveBeenCalledWith('statusBarItem.errorBackground');
+  });
+
+  it('should stop listening once disposed', () => {
+    statusBar.dispose();
+
+    expect(item.dispose).toHaveBeenCalled();
+    expect(serverStatus.listenerCount('change')).toBe(0);
+  });
+});
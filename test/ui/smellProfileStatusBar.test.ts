@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { SmellProfileStatusBar } from '../../src/ui/smellProfileStatusBar';
+import {
+  getActiveSmellProfile,
+  getSmellProfiles,
+} from '../../src/utils/smellProfiles';
+
+jest.mock('../../src/utils/smellProfiles');
+
+describe('SmellProfileStatusBar', () => {
+  let statusBar: SmellProfileStatusBar;
+  let item: any;
+  const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    context.subscriptions.length = 0;
+    (getActiveSmellProfile as jest.Mock).mockReturnValue(undefined);
+    (getSmellProfiles as jest.Mock).mockReturnValue({ strict: {} });
+
+    statusBar = new SmellProfileStatusBar();
+    item = (vscode.window.createStatusBarItem as jest.Mock).mock.results[0].value;
+  });
+
+  afterEach(() => {
+    statusBar.dispose();
+  });
+
+  it('should switch profiles when clicked', () => {
+    statusBar.register(context);
+
+    expect(item.command).toBe('ecooptimizer.switchSmellProfile');
+    expect(item.text).toBe('$(filter) Eco: No Profile');
+    expect(item.show).toHaveBeenCalled();
+    expect(context.subscriptions).toContain(statusBar);
+  });
+
+  it('should update when the active profile changes', () => {
+    statusBar.register(context);
+    const [listener] = (vscode.workspace.onDidChangeConfiguration as jest.Mock).mock
+      .calls[0];
+
+    (getActiveSmellProfile as jest.Mock).mockReturnValue('strict');
+    listener({
+      affectsConfiguration: (section: string) =>
+        section === 'ecooptimizer.activeSmellProfile',
+    });
+
+    expect(item.text).toBe('$(filter) Eco: strict');
+    expect(item.backgroundColor).toBeUndefined();
+  });
+
+  it('should flag a profile that is not defined', () => {
+    (getActiveSmellProfile as jest.Mock).mockReturnValue('legacy-service');
+
+    statusBar.register(context);
+
+    expect(item.text).toBe('$(warning) Eco: legacy-service');
+    expect(item.backgroundColor).toBeDefined();
+  });
+});
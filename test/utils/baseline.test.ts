@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getBaselineEntries,
+  getBaselinePath,
+  isSmellBaselined,
+  loadBaseline,
+  removeBaselineEntries,
+  resolveBaselineEntryPath,
+  withoutHiddenBaselinedSmells,
+  writeBaseline,
+} from '../../src/utils/baseline';
+import { ConfigManager } from '../../src/context/configManager';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  statSync: jest.fn(),
+}));
+jest.mock('../../src/context/configManager');
+jest.mock('../../src/extension');
+
+describe('baseline', () => {
+  const rootPath = path.join('/project');
+  const baselinePath = path.join(rootPath, '.eco-baseline.json');
+
+  const smellAt = (line: number, overrides: Partial<Smell> = {}): Smell =>
+    createSmell({
+      obj: 'handler',
+      path: path.join(rootPath, 'app.py'),
+      occurences: [{ line, column: 1 }],
+      ...overrides,
+    });
+
+  const writtenBaseline = (): { smells: unknown[] } =>
+    JSON.parse((fs.writeFileSync as jest.Mock).mock.calls.at(-1)[1]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fs.statSync as jest.Mock).mockReturnValue({ isFile: () => false });
+    (fs.existsSync as jest.Mock).mockReturnValue(false);
+    (ConfigManager.get as jest.Mock).mockImplementation(
+      (_key, fallback) => fallback,
+    );
+    loadBaseline(undefined);
+  });
+
+  describe('writeBaseline', () => {
+    it('should record fingerprinted smells relative to the workspace', () => {
+      const entries = writeBaseline(rootPath, [
+        smellAt(4, { fingerprint: 'b' }),
+        smellAt(2, { fingerprint: 'a' }),
+        smellAt(2, { fingerprint: 'a' }),
+        smellAt(9),
+      ]);
+
+      expect(entries.map((entry) => entry.fingerprint)).toEqual(['a', 'b']);
+      expect(entries[0]).toEqual({
+        fingerprint: 'a',
+        symbol: 'long-message-chain',
+        messageId: 'LMC001',
+        path: 'app.py',
+        module: 'app',
+        obj: 'handler',
+        line: 2,
+      });
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        baselinePath,
+        expect.any(String),
+        'utf-8',
+      );
+      expect(writtenBaseline().smells).toHaveLength(2);
+      expect(isSmellBaselined(smellAt(7, { fingerprint: 'a' }))).toBe(true);
+    });
+
+    it('should store the baseline next to a single-file workspace', () => {
+      (fs.statSync as jest.Mock).mockReturnValue({ isFile: () => true });
+
+      expect(getBaselinePath(path.join(rootPath, 'app.py'))).toBe(baselinePath);
+    });
+  });
+
+  describe('loadBaseline', () => {
+    it('should load entries from the workspace baseline file', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({
+          version: 1,
+          smells: [{ fingerprint: 'a', path: 'pkg/app.py' }, { path: 'bad' }],
+        }),
+      );
+
+      loadBaseline(rootPath);
+
+      expect(getBaselineEntries()).toHaveLength(1);
+      expect(isSmellBaselined(smellAt(1, { fingerprint: 'a' }))).toBe(true);
+      expect(isSmellBaselined(smellAt(1))).toBe(false);
+      expect(resolveBaselineEntryPath(getBaselineEntries()[0])).toBe(
+        path.join(rootPath, 'pkg', 'app.py'),
+      );
+    });
+
+    it('should start empty when the baseline file is invalid', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue('{ not json');
+
+      loadBaseline(rootPath);
+
+      expect(getBaselineEntries()).toEqual([]);
+    });
+  });
+
+  describe('removeBaselineEntries', () => {
+    it('should rewrite the baseline without the removed entries', () => {
+      writeBaseline(rootPath, [
+        smellAt(1, { fingerprint: 'a' }),
+        smellAt(2, { fingerprint: 'b' }),
+      ]);
+
+      expect(removeBaselineEntries(new Set(['a', 'missing']))).toBe(1);
+      expect(writtenBaseline().smells).toEqual([
+        expect.objectContaining({ fingerprint: 'b' }),
+      ]);
+      expect(isSmellBaselined(smellAt(1, { fingerprint: 'a' }))).toBe(false);
+    });
+  });
+
+  describe('withoutHiddenBaselinedSmells', () => {
+    const baselined = smellAt(1, { fingerprint: 'a' });
+    const fresh = smellAt(2, { fingerprint: 'new' });
+
+    beforeEach(() => {
+      writeBaseline(rootPath, [baselined]);
+    });
+
+    it('should hide baselined smells by default', () => {
+      expect(withoutHiddenBaselinedSmells([baselined, fresh])).toEqual([fresh]);
+    });
+
+    it('should keep baselined smells when they are de-emphasised', () => {
+      (ConfigManager.get as jest.Mock).mockReturnValue('deemphasize');
+
+      expect(withoutHiddenBaselinedSmells([baselined, fresh])).toEqual([
+        baselined,
+        fresh,
+      ]);
+    });
+  });
+});
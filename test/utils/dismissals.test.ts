@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  addDismissal,
+  getDismissals,
+  getDismissalsPath,
+  isSmellDismissed,
+  loadDismissals,
+  removeDismissals,
+  resolveDismissalPath,
+  withoutDismissedSmells,
+} from '../../src/utils/dismissals';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn(),
+  readFileSync: jest.fn(),
+  writeFileSync: jest.fn(),
+  mkdirSync: jest.fn(),
+  statSync: jest.fn(),
+}));
+jest.mock('../../src/extension');
+
+describe('dismissals', () => {
+  const rootPath = path.join('/project');
+  const dismissalsPath = path.join(rootPath, '.eco', 'dismissed.json');
+
+  const smellAt = (line: number, overrides: Partial<Smell> = {}): Smell =>
+    createSmell({
+      obj: 'handler',
+      path: path.join(rootPath, 'pkg', 'app.py'),
+      occurences: [{ line, column: 1 }],
+      ...overrides,
+    });
+
+  const writtenDismissals = (): { smells: { fingerprint: string }[] } =>
+    JSON.parse((fs.writeFileSync as jest.Mock).mock.calls.at(-1)[1]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fs.statSync as jest.Mock).mockReturnValue({ isFile: () => false });
+    (fs.existsSync as jest.Mock).mockReturnValue(false);
+    loadDismissals(undefined);
+  });
+
+  describe('addDismissal', () => {
+    it('should record the smell in .eco/dismissed.json by fingerprint', () => {
+      const entry = addDismissal(
+        rootPath,
+        smellAt(4, { fingerprint: 'a' }),
+        'falsePositive',
+        'Built once at import',
+      );
+
+      expect(entry).toEqual({
+        fingerprint: 'a',
+        kind: 'falsePositive',
+        reason: 'Built once at import',
+        symbol: 'long-message-chain',
+        messageId: 'LMC001',
+        message: 'Method chain too long',
+        path: 'pkg/app.py',
+        module: 'app',
+        obj: 'handler',
+        line: 4,
+        dismissedAt: expect.any(String),
+      });
+      expect(fs.mkdirSync).toHaveBeenCalledWith(path.dirname(dismissalsPath), {
+        recursive: true,
+      });
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        dismissalsPath,
+        expect.any(String),
+        'utf-8',
+      );
+      expect(isSmellDismissed(smellAt(9, { fingerprint: 'a' }))).toBe(true);
+      expect(resolveDismissalPath(entry)).toBe(path.join(rootPath, 'pkg', 'app.py'));
+    });
+
+    it('should replace an earlier dismissal of the same smell', () => {
+      addDismissal(rootPath, smellAt(8, { fingerprint: 'b' }), 'dismissed');
+      addDismissal(rootPath, smellAt(2, { fingerprint: 'a' }), 'dismissed');
+      addDismissal(rootPath, smellAt(8, { fingerprint: 'b' }), 'falsePositive');
+
+      expect(
+        getDismissals().map((entry) => [entry.fingerprint, entry.kind]),
+      ).toEqual([
+        ['a', 'dismissed'],
+        ['b', 'falsePositive'],
+      ]);
+      expect(writtenDismissals().smells).toHaveLength(2);
+    });
+
+    it('should refuse smells without a fingerprint', () => {
+      expect(() => addDismissal(rootPath, smellAt(2), 'dismissed')).toThrow(
+        'The smell has no fingerprint',
+      );
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should store the dismissals next to a single-file workspace', () => {
+    (fs.statSync as jest.Mock).mockReturnValue({ isFile: () => true });
+
+    expect(getDismissalsPath(path.join(rootPath, 'app.py'))).toBe(dismissalsPath);
+  });
+
+  it('should load dismissals and ignore malformed entries', () => {
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readFileSync as jest.Mock).mockReturnValue(
+      JSON.stringify({ smells: [{ fingerprint: 'a', kind: 'dismissed' }, {}] }),
+    );
+
+    loadDismissals(rootPath);
+
+    expect(getDismissals()).toHaveLength(1);
+    expect(
+      withoutDismissedSmells([
+        smellAt(1, { fingerprint: 'a' }),
+        smellAt(2, { fingerprint: 'c' }),
+        smellAt(3),
+      ]).map((smell) => smell.occurences[0].line),
+    ).toEqual([2, 3]);
+  });
+
+  it('should start without dismissals when the file is unreadable', () => {
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readFileSync as jest.Mock).mockReturnValue('{ not json');
+
+    loadDismissals(rootPath);
+
+    expect(getDismissals()).toEqual([]);
+  });
+
+  it('should restore dismissed smells', () => {
+    addDismissal(rootPath, smellAt(2, { fingerprint: 'a' }), 'dismissed');
+    addDismissal(rootPath, smellAt(5, { fingerprint: 'b' }), 'dismissed');
+
+    expect(removeDismissals(new Set(['a', 'z']))).toBe(1);
+    expect(removeDismissals(new Set(['z']))).toBe(0);
+    expect(getDismissals().map((entry) => entry.fingerprint)).toEqual(['b']);
+    expect(writtenDismissals().smells).toEqual([
+      expect.objectContaining({ fingerprint: 'b' }),
+    ]);
+    expect(isSmellDismissed(smellAt(2, { fingerprint: 'a' }))).toBe(false);
+  });
+});
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+
+import {
+  clearChangedLines,
+  getChangedFiles,
+  setChangedLines,
+  trackChangedLines,
+  withoutUnchangedSmells,
+} from '../../src/utils/gitChanges';
+import { getChangedFilesFromCli } from '../../src/core/gitChanges';
+import { TextChange } from '../../src/utils/smellPositions';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('../../src/core/gitChanges', () => ({
+  ...jest.requireActual('../../src/core/gitChanges'),
+  getChangedFilesFromCli: jest.fn(),
+}));
+jest.mock('../../src/extension');
+
+describe('getChangedFiles', () => {
+  const change = (fsPath: string, status: number): unknown => ({
+    uri: { fsPath },
+    status,
+  });
+
+  let repository: {
+    state: Record<string, unknown[]>;
+    getMergeBase: jest.Mock;
+    diffWith: jest.Mock;
+  };
+
+  const mockGitExtension = (getRepository: jest.Mock): void => {
+    (vscode.extensions.getExtension as jest.Mock).mockReturnValue({
+      isActive: true,
+      exports: { getAPI: () => ({ getRepository }) },
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    repository = {
+      state: {
+        indexChanges: [change('/repo/staged.py', 5)],
+        workingTreeChanges: [
+          change('/repo/app.py', 5),
+          change('/repo/removed.py', 6),
+          change('/repo/new.py', 7),
+        ],
+      },
+      getMergeBase: jest.fn(async () => 'abc123'),
+      diffWith: jest.fn(async (_ref: string, filePath?: string) =>
+        filePath === undefined
+          ? [change('/repo/committed.py', 5)]
+          : `+++ b${filePath}\n@@ -2 +2 @@\n-a = 1\n+a = 2\n`,
+      ),
+    };
+    mockGitExtension(jest.fn(() => repository));
+  });
+
+  it('should read uncommitted changes from the Git extension', async () => {
+    const changedFiles = await getChangedFiles('/repo');
+
+    expect(changedFiles).toEqual(
+      new Map([
+        ['/repo/staged.py', [{ start: 2, end: 2 }]],
+        ['/repo/app.py', [{ start: 2, end: 2 }]],
+        ['/repo/new.py', undefined],
+      ]),
+    );
+    expect(repository.diffWith).toHaveBeenCalledWith('HEAD', '/repo/app.py');
+    expect(getChangedFilesFromCli).not.toHaveBeenCalled();
+  });
+
+  it('should compare against the branch point of a base ref', async () => {
+    const changedFiles = await getChangedFiles('/repo', 'main');
+
+    expect(repository.getMergeBase).toHaveBeenCalledWith('main', 'HEAD');
+    expect(repository.diffWith).toHaveBeenCalledWith('abc123', '/repo/committed.py');
+    expect(changedFiles.get('/repo/committed.py')).toEqual([{ start: 2, end: 2 }]);
+  });
+
+  it('should fail when the base ref shares no history', async () => {
+    repository.getMergeBase.mockResolvedValue(undefined);
+
+    await expect(getChangedFiles('/repo', 'orphan')).rejects.toThrow(
+      'No common history with orphan',
+    );
+  });
+
+  it('should fall back to the git command line', async () => {
+    const cliChanges = new Map([['/repo/app.py', undefined]]);
+    (getChangedFilesFromCli as jest.Mock).mockResolvedValue(cliChanges);
+    mockGitExtension(jest.fn(() => null));
+
+    expect(await getChangedFiles('/repo', 'main')).toBe(cliChanges);
+
+    (vscode.extensions.getExtension as jest.Mock).mockReturnValue(undefined);
+    expect(await getChangedFiles('/repo')).toBe(cliChanges);
+    expect(getChangedFilesFromCli).toHaveBeenCalledWith('/repo', 'main', undefined);
+  });
+});
+
+describe('withoutUnchangedSmells', () => {
+  const smellAt = (filePath: string, line: number, endLine?: number): Smell =>
+    createSmell({
+      symbol: 'smell1',
+      path: filePath,
+      occurences: [{ line, endLine, column: 1 }],
+    });
+
+  afterEach(() => {
+    clearChangedLines();
+  });
+
+  it('should report every smell without changed lines', () => {
+    const smells = [smellAt('/repo/app.py', 1), smellAt('/repo/app.py', 20)];
+
+    expect(withoutUnchangedSmells(smells)).toBe(smells);
+  });
+
+  it('should keep only smells overlapping the changed lines of their file', () => {
+    setChangedLines(
+      new Map([
+        ['/repo/App.py', [{ start: 10, end: 12 }]],
+        ['/repo/new.py', undefined],
+      ]),
+    );
+
+    expect(
+      withoutUnchangedSmells([
+        smellAt('/repo/app.py', 2),
+        smellAt('/repo/app.py', 8, 10),
+        smellAt('/repo/new.py', 5),
+        smellAt('/repo/other.py', 5),
+      ]),
+    ).toEqual([
+      smellAt('/repo/app.py', 8, 10),
+      smellAt('/repo/new.py', 5),
+      smellAt('/repo/other.py', 5),
+    ]);
+  });
+
+  it('should report every smell of a file cleared on its own', () => {
+    setChangedLines(
+      new Map([
+        ['/repo/app.py', [{ start: 10, end: 12 }]],
+        ['/repo/other.py', [{ start: 10, end: 12 }]],
+      ]),
+    );
+
+    clearChangedLines('/repo/App.py');
+
+    expect(
+      withoutUnchangedSmells([
+        smellAt('/repo/app.py', 2),
+        smellAt('/repo/other.py', 2),
+      ]),
+    ).toEqual([smellAt('/repo/app.py', 2)]);
+  });
+
+  it('should move changed lines with edits and add the edited lines', () => {
+    setChangedLines(new Map([['/repo/app.py', [{ start: 10, end: 12 }]]]));
+    const edit = (line: number, text: string, endLine = line): TextChange => ({
+      range: {
+        start: { line: line - 1, character: 0 },
+        end: { line: endLine - 1, character: 0 },
+      },
+      text,
+    });
+
+    // Two lines inserted above the changed lines, then line 3 edited in place
+    trackChangedLines('/repo/app.py', [edit(2, 'a\nb\n')]);
+    trackChangedLines('/repo/app.py', [edit(3, 'x')]);
+
+    expect(
+      withoutUnchangedSmells([
+        smellAt('/repo/app.py', 3),
+        smellAt('/repo/app.py', 6),
+        smellAt('/repo/app.py', 10),
+        smellAt('/repo/app.py', 13),
+        smellAt('/repo/app.py', 15),
+      ]),
+    ).toEqual([smellAt('/repo/app.py', 3), smellAt('/repo/app.py', 13)]);
+  });
+
+  it('should leave files without changed lines alone when they are edited', () => {
+    trackChangedLines('/repo/app.py', [
+      {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        text: 'x',
+      },
+    ]);
+
+    const smells = [smellAt('/repo/app.py', 1)];
+    expect(withoutUnchangedSmells(smells)).toBe(smells);
+  });
+});
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import {
+  affectsIgnorePatterns,
+  isPathIgnored,
+  loadIgnorePatterns,
+} from '../../src/utils/ignorePatterns';
+import { ConfigManager } from '../../src/context/configManager';
+
+jest.mock('fs');
+jest.mock('../../src/context/configManager');
+
+describe('ignorePatterns', () => {
+  const root = '/project';
+  let settings: Record<string, unknown>;
+  let files: Record<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    settings = { exclude: [], useGitignore: false };
+    files = {};
+
+    (ConfigManager.get as jest.Mock).mockImplementation((key) => settings[key]);
+    (fs.existsSync as jest.Mock).mockImplementation((file) => file in files);
+    (fs.readFileSync as jest.Mock).mockImplementation((file) => files[file]);
+  });
+
+  afterEach(() => {
+    loadIgnorePatterns(undefined);
+  });
+
+  it('should not ignore anything without patterns', () => {
+    loadIgnorePatterns(root);
+
+    expect(isPathIgnored('/project/src/main.py')).toBe(false);
+  });
+
+  it('should honour the .ecoignore file', () => {
+    files['/project/.ecoignore'] = 'build/\n# generated stubs\n*_pb2.py\n\n';
+
+    loadIgnorePatterns(root);
+
+    expect(isPathIgnored('/project/build', true)).toBe(true);
+    expect(isPathIgnored('/project/build/lib/module.py')).toBe(true);
+    expect(isPathIgnored('/project/api/service_pb2.py')).toBe(true);
+    expect(isPathIgnored('/project/api/service.py')).toBe(false);
+  });
+
+  it('should apply the exclude setting', () => {
+    settings.exclude = ['**/.venv/**', '**/migrations/**'];
+
+    loadIgnorePatterns(root);
+
+    expect(isPathIgnored('/project/.venv/lib/site.py')).toBe(true);
+    expect(isPathIgnored('/project/app/migrations/0001_initial.py')).toBe(true);
+    expect(isPathIgnored('/project/app/models.py')).toBe(false);
+  });
+
+  it('should only use .gitignore when enabled', () => {
+    files['/project/.gitignore'] = 'dist/';
+
+    loadIgnorePatterns(root);
+    expect(isPathIgnored('/project/dist/module.py')).toBe(false);
+
+    settings.useGitignore = true;
+    loadIgnorePatterns(root);
+    expect(isPathIgnored('/project/dist/module.py')).toBe(true);
+  });
+
+  it('should let .ecoignore re-include excluded files', () => {
+    settings.exclude = ['scripts/*.py'];
+    files['/project/.ecoignore'] = '!scripts/keep.py';
+
+    loadIgnorePatterns(root);
+
+    expect(isPathIgnored('/project/scripts/drop.py')).toBe(true);
+    expect(isPathIgnored('/project/scripts/keep.py')).toBe(false);
+  });
+
+  it('should match paths regardless of casing', () => {
+    files['/Project/.ecoignore'] = 'Build/';
+
+    loadIgnorePatterns('/Project');
+
+    expect(isPathIgnored('/project/build/module.py')).toBe(true);
+  });
+
+  it('should never ignore paths outside the workspace', () => {
+    settings.exclude = ['*.py'];
+
+    loadIgnorePatterns(root);
+
+    expect(isPathIgnored('/other/module.py')).toBe(false);
+    expect(isPathIgnored('/project/module.py')).toBe(true);
+  });
+
+  it('should detect relevant configuration changes', () => {
+    const event = {
+      affectsConfiguration: jest.fn(
+        (section: string) => section === 'ecooptimizer.detection.exclude',
+      ),
+    } as unknown as vscode.ConfigurationChangeEvent;
+
+    expect(affectsIgnorePatterns(event)).toBe(true);
+  });
+});
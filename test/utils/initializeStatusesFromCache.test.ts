@@ -164,4 +164,23 @@ describe('initializeStatusesFromCache', () => {
       ),
     );
   });
+
+  it('should mark files with outdated cached results', async () => {
+    const filePath = `${mockWorkspacePath}/file1.py`;
+    (context.workspaceState.get as jest.Mock).mockReturnValue(mockWorkspacePath);
+    (smellsCacheManager.getAllFilePaths as jest.Mock).mockReturnValue([filePath]);
+    (fs.access as jest.Mock).mockResolvedValue(undefined);
+    (smellsCacheManager.getCachedSmells as jest.Mock).mockReturnValue(undefined);
+
+    await initializeStatusesFromCache(
+      context,
+      smellsCacheManager,
+      smellsViewProvider,
+    );
+
+    expect(smellsViewProvider.setStatus).toHaveBeenCalledWith(filePath, 'outdated');
+    expect(ecoOutput.info).toHaveBeenCalledWith(
+      expect.stringContaining('1 outdated'),
+    );
+  });
 });
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+
+import { fetchSmellCatalog } from '../../src/api/backend';
+import { SmellCatalog } from '../../src/core/smellCatalog';
+import { ecoOutput } from '../../src/extension';
+
+jest.mock('../../src/api/backend');
+jest.mock('../../src/extension');
+
+describe('smellCatalog', () => {
+  let smellCatalogModule: typeof import('../../src/utils/smellCatalog');
+  let stored: Record<string, unknown>;
+  let context: vscode.ExtensionContext;
+
+  const catalog: SmellCatalog = {
+    version: '0.2.1',
+    smells: {
+      'global-variable': {
+        name: 'Global Variable',
+        message_id: 'W0603',
+        acronym: 'GV',
+        colour: '#ff00ff',
+      },
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.isolateModules(() => {
+      smellCatalogModule = require('../../src/utils/smellCatalog');
+    });
+
+    stored = {};
+    context = {
+      extension: { packageJSON: { version: '0.2.4' } },
+      globalState: {
+        get: jest.fn((key: string) => stored[key]),
+        update: jest.fn(async (key: string, value: unknown) => {
+          stored[key] = value;
+        }),
+      },
+    } as unknown as vscode.ExtensionContext;
+  });
+
+  it('should load the cached catalog and its colours', () => {
+    stored['ecooptimizer.smellCatalog'] = catalog;
+
+    smellCatalogModule.loadCachedSmellCatalog(context);
+
+    expect(smellCatalogModule.getSmellCatalog()).toEqual(catalog);
+    expect(smellCatalogModule.getCatalogColour('global-variable')).toBe('#ff00ff');
+    expect(smellCatalogModule.getCatalogColour('long-lambda-expression')).toBe(
+      undefined,
+    );
+  });
+
+  it('should cache a new catalog fetched from the backend', async () => {
+    (fetchSmellCatalog as jest.Mock).mockResolvedValue(catalog);
+
+    expect(await smellCatalogModule.refreshSmellCatalog(context)).toBe(true);
+    expect(stored['ecooptimizer.smellCatalog']).toEqual(catalog);
+    expect(await smellCatalogModule.refreshSmellCatalog(context)).toBe(false);
+  });
+
+  it('should keep the cached catalog when the backend is unavailable', async () => {
+    stored['ecooptimizer.smellCatalog'] = catalog;
+    smellCatalogModule.loadCachedSmellCatalog(context);
+    (fetchSmellCatalog as jest.Mock).mockRejectedValue(
+      new Error('Backend request failed (404)'),
+    );
+
+    expect(await smellCatalogModule.refreshSmellCatalog(context)).toBe(false);
+    expect(smellCatalogModule.getSmellCatalog()).toEqual(catalog);
+    expect(ecoOutput.trace).toHaveBeenCalledWith(
+      '[smellCatalog.ts] Keeping cached smell catalog: Backend request failed (404)',
+    );
+  });
+
+  it('should warn once when the backend does not support the extension', async () => {
+    (fetchSmellCatalog as jest.Mock).mockResolvedValue({
+      ...catalog,
+      version: '0.3.0',
+      min_extension_version: '0.3.0',
+    });
+
+    await smellCatalogModule.refreshSmellCatalog(context);
+    await smellCatalogModule.refreshSmellCatalog(context);
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledTimes(1);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Backend 0.3.0 requires extension 0.3.0 or newer (installed: 0.2.4). Update the extension or the backend so their versions match.',
+    );
+  });
+
+  it('should not warn when the backend declares no minimum extension version', async () => {
+    (fetchSmellCatalog as jest.Mock).mockResolvedValue({
+      ...catalog,
+      version: '1.0.0',
+    });
+
+    await smellCatalogModule.refreshSmellCatalog(context);
+
+    expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+    expect(ecoOutput.trace).toHaveBeenCalledWith(
+      '[smellCatalog.ts] Backend 1.0.0 declares no minimum extension version',
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  getGroupKey,
+  groupSmells,
+  matchesSmellFilter,
+  sortGroups,
+  sortSmells,
+} from '../../src/utils/smellGrouping';
+import { getAcronymByMessageId } from '../../src/utils/smellsData';
+import { createSmell } from '../mocks/smell-mock';
+
+jest.mock('../../src/utils/smellsData');
+
+describe('smellGrouping', () => {
+  const smellWith = (overrides: Partial<Smell>): Smell =>
+    createSmell({
+      messageId: 'R0913',
+      symbol: 'too-many-arguments',
+      message: 'Too many arguments (8/6)',
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    (getAcronymByMessageId as jest.Mock).mockImplementation(
+      (messageId: string) => ({ R0913: 'LPL', R6301: 'NSM' })[messageId],
+    );
+  });
+
+  describe('matchesSmellFilter', () => {
+    const smell = smellWith({});
+
+    it('should match file names, acronyms and messages case-insensitively', () => {
+      expect(matchesSmellFilter(smell, 'APP.PY')).toBe(true);
+      expect(matchesSmellFilter(smell, 'lpl')).toBe(true);
+      expect(matchesSmellFilter(smell, 'many arg')).toBe(true);
+      expect(matchesSmellFilter(smell, 'project')).toBe(false);
+    });
+
+    it('should match every smell with an empty filter', () => {
+      expect(matchesSmellFilter(smell, '  ')).toBe(true);
+    });
+  });
+
+  describe('groupSmells', () => {
+    it('should group smells by type or confidence', () => {
+      const lpl = smellWith({});
+      const nsm = smellWith({ messageId: 'R6301', confidence: '' });
+      const unknown = smellWith({ messageId: 'X1' });
+
+      expect(
+        groupSmells([lpl, nsm, unknown], (smell) => getGroupKey(smell, 'type')),
+      ).toEqual([
+        { key: 'LPL', label: 'LPL', smells: [lpl] },
+        { key: 'NSM', label: 'NSM', smells: [nsm] },
+        { key: 'X1', label: 'X1', smells: [unknown] },
+      ]);
+      expect(
+        groupSmells(
+          [lpl, nsm, unknown],
+          (smell) => getGroupKey(smell, 'confidence'),
+          (key) => key.toLowerCase(),
+        ).map(({ label, smells }) => [label, smells.length]),
+      ).toEqual([
+        ['high', 2],
+        ['undefined', 1],
+      ]);
+    });
+  });
+
+  describe('sortSmells', () => {
+    const atLine5 = smellWith({
+      messageId: 'R6301',
+      occurences: [{ line: 5, column: 1 }],
+    });
+    const twice = smellWith({
+      occurences: [
+        { line: 9, column: 1 },
+        { line: 12, column: 1 },
+      ],
+    });
+    const atLine2 = smellWith({ occurences: [{ line: 2, column: 1 }] });
+
+    it('should sort by line, name or occurrence count', () => {
+      expect(sortSmells([atLine5, twice, atLine2], 'line')).toEqual([
+        atLine2,
+        atLine5,
+        twice,
+      ]);
+      expect(sortSmells([atLine5, twice, atLine2], 'name')).toEqual([
+        atLine2,
+        twice,
+        atLine5,
+      ]);
+      expect(sortSmells([atLine5, twice, atLine2], 'count')).toEqual([
+        twice,
+        atLine2,
+        atLine5,
+      ]);
+    });
+  });
+
+  describe('sortGroups', () => {
+    const group = (
+      key: string,
+      count: number,
+    ): ReturnType<typeof groupSmells>[0] => ({
+      key,
+      label: key,
+      smells: Array.from({ length: count }, () => smellWith({})),
+    });
+
+    it('should sort groups by name or count', () => {
+      const groups = [group('NSM', 1), group('LPL', 3), group('CRC', 3)];
+
+      expect(sortGroups(groups, 'name').map(({ key }) => key)).toEqual([
+        'CRC',
+        'LPL',
+        'NSM',
+      ]);
+      expect(sortGroups(groups, 'count').map(({ key }) => key)).toEqual([
+        'CRC',
+        'LPL',
+        'NSM',
+      ]);
+      expect(sortGroups([group('A', 1), group('B', 2)], 'count')[0].key).toBe('B');
+    });
+
+    it('should order confidence groups from most to least certain', () => {
+      const groups = [
+        group('UNDEFINED', 5),
+        group('INFERENCE', 1),
+        group('HIGH', 2),
+      ];
+
+      expect(sortGroups(groups, 'name', 'confidence').map(({ key }) => key)).toEqual(
+        ['HIGH', 'INFERENCE', 'UNDEFINED'],
+      );
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  findAdjacentSmell,
+  getSmellLocations,
+} from '../../src/utils/smellNavigation';
+import { createSmell } from '../mocks/smell-mock';
+
+describe('smellNavigation', () => {
+  const smellAt = (filePath: string, ...lines: number[]): Smell =>
+    createSmell({
+      path: filePath,
+      occurences: lines.map((line) => ({ line, column: 5 })),
+    });
+
+  const late = smellAt('/project/b.py', 20);
+  const early = smellAt('/project/b.py', 3, 12);
+  const other = smellAt('/project/a.py', 7);
+  const files = getSmellLocations([late, other, early]);
+
+  const lineOf = (location: ReturnType<typeof findAdjacentSmell>): unknown =>
+    location && [location.smell.path, location.occurrence.line];
+
+  it('should group occurrences by file in tree order, sorted by position', () => {
+    expect(
+      files.map((locations) => locations.map(({ occurrence }) => occurrence.line)),
+    ).toEqual([[3, 12, 20], [7]]);
+    expect(getSmellLocations([smellAt('/project/c.py')])).toEqual([]);
+  });
+
+  it('should move through the active file before other files', () => {
+    const position = { filePath: '/project/b.py', line: 12, column: 5 };
+
+    expect(lineOf(findAdjacentSmell(files, position, 'next'))).toEqual([
+      '/project/b.py',
+      20,
+    ]);
+    expect(lineOf(findAdjacentSmell(files, position, 'previous'))).toEqual([
+      '/project/b.py',
+      3,
+    ]);
+    // Occurrences to the right of the cursor on the same line come next
+    expect(
+      lineOf(findAdjacentSmell(files, { ...position, column: 1 }, 'next')),
+    ).toEqual(['/project/b.py', 12]);
+  });
+
+  it('should continue in the adjacent file, wrapping around', () => {
+    expect(
+      lineOf(
+        findAdjacentSmell(
+          files,
+          { filePath: '/project/b.py', line: 30, column: 1 },
+          'next',
+        ),
+      ),
+    ).toEqual(['/project/a.py', 7]);
+    expect(
+      lineOf(
+        findAdjacentSmell(
+          files,
+          { filePath: '/project/a.py', line: 7, column: 5 },
+          'next',
+        ),
+      ),
+    ).toEqual(['/project/b.py', 3]);
+    expect(
+      lineOf(
+        findAdjacentSmell(
+          files,
+          { filePath: '/project/b.py', line: 1, column: 1 },
+          'previous',
+        ),
+      ),
+    ).toEqual(['/project/a.py', 7]);
+  });
+
+  it('should start at the first or last file outside the tree', () => {
+    const elsewhere = { filePath: '/project/other.py', line: 1, column: 1 };
+
+    expect(lineOf(findAdjacentSmell(files, elsewhere, 'next'))).toEqual([
+      '/project/b.py',
+      3,
+    ]);
+    expect(lineOf(findAdjacentSmell(files, undefined, 'previous'))).toEqual([
+      '/project/a.py',
+      7,
+    ]);
+    expect(findAdjacentSmell([], undefined, 'next')).toBeUndefined();
+  });
+});
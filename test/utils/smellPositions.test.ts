@@ -0,0 +1,104 @@
+import { shiftSmells, TextChange } from '../../src/utils/smellPositions';
+import { createSmell } from '../mocks/smell-mock';
+
+describe('shiftSmells', () => {
+  const smellAt = (occurrence: Partial<Occurrence>): Smell =>
+    createSmell({
+      symbol: 'too-many-arguments',
+      occurences: [{ line: 5, column: 5, endLine: 5, endColumn: 20, ...occurrence }],
+    });
+
+  const change = (
+    start: [number, number],
+    end: [number, number],
+    text: string,
+  ): TextChange => ({
+    range: {
+      start: { line: start[0], character: start[1] },
+      end: { line: end[0], character: end[1] },
+    },
+    text,
+  });
+
+  it('should move smells below inserted lines', () => {
+    const { smells, dropped } = shiftSmells(
+      [smellAt({})],
+      [change([1, 0], [1, 0], 'import os\nimport sys\n')],
+    );
+
+    expect(dropped).toEqual([]);
+    expect(smells[0].occurences[0]).toEqual({
+      line: 7,
+      column: 5,
+      endLine: 7,
+      endColumn: 20,
+    });
+  });
+
+  it('should move smells up when lines above are deleted', () => {
+    const { smells } = shiftSmells([smellAt({})], [change([0, 0], [2, 0], '')]);
+
+    expect(smells[0].occurences[0]).toEqual(
+      expect.objectContaining({ line: 3, endLine: 3 }),
+    );
+  });
+
+  it('should shift columns for edits earlier on the same line', () => {
+    const { smells } = shiftSmells(
+      [smellAt({})],
+      [change([4, 0], [4, 2], '        ')],
+    );
+
+    expect(smells[0].occurences[0]).toEqual({
+      line: 5,
+      column: 11,
+      endLine: 5,
+      endColumn: 26,
+    });
+  });
+
+  it('should leave smells above or after the edit in place', () => {
+    const smell = smellAt({});
+    const { smells } = shiftSmells(
+      [smell],
+      [change([4, 19], [4, 19], 'x'), change([9, 0], [12, 0], '')],
+    );
+
+    expect(smells[0].occurences).toEqual(smell.occurences);
+  });
+
+  it('should drop smells whose range was edited', () => {
+    const edited = smellAt({});
+    const kept = smellAt({ line: 10, endLine: 10 });
+
+    const { smells, dropped } = shiftSmells(
+      [edited, kept],
+      [change([4, 8], [4, 9], 'y')],
+    );
+
+    expect(dropped).toEqual([edited]);
+    expect(smells).toEqual([kept]);
+  });
+
+  it('should treat occurrences without an end column as spanning their line', () => {
+    const smell = smellAt({ endColumn: undefined });
+
+    expect(shiftSmells([smell], [change([4, 40], [4, 40], '#')]).dropped).toEqual([
+      smell,
+    ]);
+    expect(
+      shiftSmells([smell], [change([4, 0], [4, 0], '\n')]).smells[0].occurences[0],
+    ).toEqual({ line: 6, column: 5, endLine: 6 });
+  });
+
+  it('should apply every change of an event in order', () => {
+    const { smells } = shiftSmells(
+      [smellAt({ line: 20, endLine: 21 })],
+      [change([10, 0], [10, 0], 'a\nb\n'), change([2, 0], [3, 0], '')],
+    );
+
+    expect(smells[0].occurences[0]).toEqual(
+      expect.objectContaining({ line: 21, endLine: 22 }),
+    );
+  });
+});
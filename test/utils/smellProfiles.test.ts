@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+
+import {
+  captureSmellProfile,
+  parseSmellProfile,
+  saveSmellProfile,
+  serializeSmellProfile,
+} from '../../src/utils/smellProfiles';
+import { FilterSmellConfig } from '../../src/utils/smellsData';
+
+jest.mock('vscode', () => ({
+  ...jest.requireActual('vscode'),
+  ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+}));
+
+describe('smellProfiles', () => {
+  let inspected: Record<string, unknown>;
+  let update: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    inspected = {};
+    update = jest.fn();
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      inspect: jest.fn(() => inspected),
+      update,
+    }));
+  });
+
+  it('should capture the enabled state and options of every smell', () => {
+    const smells = {
+      'too-many-arguments': {
+        enabled: false,
+        analyzer_options: {
+          max_args: { label: 'Arguments', description: '', value: 6 },
+        },
+      },
+      'no-self-use': { enabled: true },
+    } as unknown as Record<string, FilterSmellConfig>;
+
+    expect(captureSmellProfile(smells)).toEqual({
+      'too-many-arguments': { enabled: false, options: { max_args: 6 } },
+      'no-self-use': { enabled: true, options: {} },
+    });
+  });
+
+  it('should save new profiles to user settings', async () => {
+    inspected.globalValue = { strict: { 'no-self-use': { enabled: true } } };
+
+    await saveSmellProfile('relaxed', { 'no-self-use': { enabled: false } });
+
+    expect(update).toHaveBeenCalledWith(
+      'smellProfiles',
+      {
+        strict: { 'no-self-use': { enabled: true } },
+        relaxed: { 'no-self-use': { enabled: false } },
+      },
+      vscode.ConfigurationTarget.Global,
+    );
+  });
+
+  it('should save a profile to the settings that define it', async () => {
+    inspected.globalValue = { strict: {} };
+    inspected.workspaceValue = { strict: {} };
+
+    await saveSmellProfile('strict', { 'no-self-use': { enabled: true } });
+
+    expect(update).toHaveBeenCalledWith(
+      'smellProfiles',
+      { strict: { 'no-self-use': { enabled: true } } },
+      vscode.ConfigurationTarget.Workspace,
+    );
+  });
+
+  it('should round-trip exported profiles', () => {
+    const smells = { 'too-many-arguments': { options: { max_args: 4 } } };
+
+    expect(parseSmellProfile(serializeSmellProfile('strict', smells))).toEqual({
+      name: 'strict',
+      smells,
+    });
+    expect(() => parseSmellProfile('{"smells": []}')).toThrow(
+      'The file is not a smell profile',
+    );
+  });
+});
@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+
+import {
+  getEnabledSmellsForFile,
+  getScopeSmells,
+  getSmellScopes,
+  getSmellScopesForFile,
+  getSmellsForFile,
+  loadSmellScopes,
+  resetSmellScope,
+  toFolderScope,
+  updateSmellScope,
+} from '../../src/utils/smellScopes';
+import * as smellsData from '../../src/utils/smellsData';
+import { applySmellOverrides, FilterSmellConfig } from '../../src/core/smellConfig';
+
+jest.mock('vscode', () => {
+  const actualVscode = jest.requireActual('vscode');
+  return {
+    ...actualVscode,
+    ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+    RelativePattern: class {
+      constructor(
+        public base: string,
+        public pattern: string,
+      ) {}
+    },
+    workspace: {
+      ...actualVscode.workspace,
+      findFiles: jest.fn(),
+      getWorkspaceFolder: jest.fn(),
+    },
+  };
+});
+jest.mock('../../src/utils/smellsData');
+jest.mock('../../src/extension');
+
+describe('smellScopes', () => {
+  const root = '/repo';
+  const smells: Record<string, FilterSmellConfig> = {
+    'too-many-arguments': {
+      name: 'Too Many Arguments',
+      message_id: 'R0913',
+      acronym: 'TMA',
+      smell_description: '',
+      enabled: true,
+      analyzer_options: {
+        max_args: { label: 'Max Arguments', description: '', value: 6 },
+      },
+    },
+    'no-self-use': {
+      name: 'No Self Use',
+      message_id: 'R6301',
+      acronym: 'NSU',
+      smell_description: '',
+      enabled: false,
+    },
+  };
+
+  let settingsFiles: Record<string, Record<string, unknown>>;
+  let globSettings: Record<string, unknown>;
+  let updateSetting: jest.Mock;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    settingsFiles = {
+      '/repo/services/.eco/smells.json': {
+        'too-many-arguments': { options: { max_args: 8 } },
+      },
+      '/repo/services/api/.eco/smells.json': {
+        'no-self-use': { enabled: true },
+      },
+    };
+    globSettings = {
+      '**/tests/**': { 'too-many-arguments': { enabled: false } },
+    };
+    updateSetting = jest.fn();
+
+    (smellsData.getFilterSmells as jest.Mock).mockReturnValue(smells);
+    (smellsData.getSmellSources as jest.Mock).mockReturnValue({});
+    (smellsData.getSmellSettingsPath as jest.Mock).mockImplementation(
+      (rootPath: string) => `${rootPath}/.eco/smells.json`,
+    );
+    (smellsData.readSmellSettingsFile as jest.Mock).mockImplementation(
+      (filePath: string) => settingsFiles[filePath],
+    );
+    (smellsData.applySmellLayer as jest.Mock).mockImplementation(
+      (config, _sources, overrides) => applySmellOverrides(config, overrides),
+    );
+    (vscode.workspace.findFiles as jest.Mock).mockImplementation(async () =>
+      Object.keys(settingsFiles).map((fsPath) => ({ fsPath })),
+    );
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      get: jest.fn(() => globSettings),
+      inspect: jest.fn(() => ({ workspaceValue: globSettings })),
+      update: updateSetting,
+    }));
+
+    await loadSmellScopes(root);
+  });
+
+  it('should apply folder scopes from the outermost to the innermost', () => {
+    expect(getSmellScopesForFile('/repo/services/api/app.py')).toEqual([
+      { kind: 'folder', path: 'services' },
+      { kind: 'folder', path: 'services/api' },
+    ]);
+
+    const resolved = getSmellsForFile('/repo/services/api/app.py');
+    expect(resolved['too-many-arguments'].analyzer_options?.max_args.value).toBe(8);
+    expect(resolved['no-self-use'].enabled).toBe(true);
+  });
+
+  it('should apply matching glob scopes after folder scopes', () => {
+    expect(getSmellScopesForFile('/repo/services/tests/test_app.py')).toEqual([
+      { kind: 'folder', path: 'services' },
+      { kind: 'glob', path: '**/tests/**' },
+    ]);
+    expect(getEnabledSmellsForFile('/repo/services/tests/test_app.py')).toEqual({});
+  });
+
+  it('should use the workspace configuration outside every scope', () => {
+    expect(getSmellScopesForFile('/repo/main.py')).toEqual([]);
+    expect(getSmellScopesForFile('/elsewhere/main.py')).toEqual([]);
+    expect(getSmellsForFile('/repo/main.py')).toBe(smells);
+    expect(getEnabledSmellsForFile('/repo/main.py')).toEqual({
+      'too-many-arguments': {
+        message_id: 'R0913',
+        acronym: 'TMA',
+        options: { max_args: 6 },
+      },
+    });
+  });
+
+  it('should ignore the settings file of the workspace root', async () => {
+    settingsFiles['/repo/.eco/smells.json'] = { 'no-self-use': { enabled: true } };
+
+    await loadSmellScopes(root);
+
+    expect(getSmellScopes()).toEqual([
+      { kind: 'folder', path: 'services' },
+      { kind: 'folder', path: 'services/api' },
+      { kind: 'glob', path: '**/tests/**' },
+    ]);
+  });
+
+  it('should report whether the scopes changed', async () => {
+    expect(await loadSmellScopes(root)).toBe(false);
+
+    delete settingsFiles['/repo/services/api/.eco/smells.json'];
+
+    expect(await loadSmellScopes(root)).toBe(true);
+    expect(getSmellScopesForFile('/repo/services/api/app.py')).toEqual([
+      { kind: 'folder', path: 'services' },
+    ]);
+  });
+
+  it('should show the enclosing folder scopes while editing a folder scope', () => {
+    const { smells: scoped } = getScopeSmells({
+      kind: 'folder',
+      path: 'services/api',
+    });
+
+    expect(scoped['too-many-arguments'].analyzer_options?.max_args.value).toBe(8);
+    expect(scoped['no-self-use'].enabled).toBe(true);
+  });
+
+  it('should write folder scopes to their settings file', async () => {
+    await updateSmellScope(
+      { kind: 'folder', path: 'services' },
+      { 'no-self-use': { enabled: true } },
+    );
+
+    expect(smellsData.writeSmellSettingsFile).toHaveBeenCalledWith(
+      '/repo/services/.eco/smells.json',
+      {
+        'too-many-arguments': { options: { max_args: 8 } },
+        'no-self-use': { enabled: true },
+      },
+    );
+    expect(getSmellsForFile('/repo/services/app.py')['no-self-use'].enabled).toBe(
+      true,
+    );
+  });
+
+  it('should write glob scopes to workspace settings', async () => {
+    await resetSmellScope({ kind: 'glob', path: '**/tests/**' });
+
+    expect(updateSetting).toHaveBeenCalledWith(
+      'smellScopes',
+      undefined,
+      vscode.ConfigurationTarget.Workspace,
+    );
+  });
+
+  it('should only create folder scopes inside the workspace', () => {
+    expect(toFolderScope('/repo/libs/core')).toEqual({
+      kind: 'folder',
+      path: 'libs/core',
+    });
+    expect(toFolderScope('/repo')).toBeUndefined();
+    expect(toFolderScope('/elsewhere')).toBeUndefined();
+  });
+});
@@ -4,7 +4,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import {
   loadSmells,
-  saveSmells,
+  updateSmellOverrides,
+  clearSmellOptionOverride,
+  resetSmellLayer,
+  getSmellSources,
+  getEditableSmellLayers,
+  getSmellLayerLabel,
   getFilterSmells,
   getEnabledSmells,
   getAcronymByMessageId,
@@ -12,11 +17,20 @@ import {
   getDescriptionByMessageId,
   FilterSmellConfig,
 } from '../../src/utils/smellsData';
+import { getSmellCatalog } from '../../src/utils/smellCatalog';
 
 // Mock the modules
-jest.mock('vscode');
+jest.mock('vscode', () => {
+  const actualVscode = jest.requireActual('vscode');
+  return {
+    ...actualVscode,
+    ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+    workspace: { ...actualVscode.workspace, getWorkspaceFolder: jest.fn() },
+  };
+});
 jest.mock('fs');
 jest.mock('path');
+jest.mock('../../src/utils/smellCatalog');
 
 const mockSmellsConfig: Record<string, FilterSmellConfig> = {
   'long-parameter-list': {
@@ -53,9 +67,30 @@ afterAll(() => {
 });
 
 describe('smellsData', () => {
+  let settings: {
+    globalValue?: Record<string, unknown>;
+    workspaceValue?: Record<string, unknown>;
+    workspaceFolderValue?: Record<string, unknown>;
+  };
+  let updateSetting: jest.Mock;
+  let profiles: Record<string, unknown>;
+  let activeProfile: string;
+
   beforeEach(() => {
     jest.clearAllMocks();
 
+    settings = {};
+    updateSetting = jest.fn();
+    profiles = {};
+    activeProfile = '';
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      get: jest.fn((key: string) =>
+        key === 'smellProfiles' ? profiles : activeProfile,
+      ),
+      inspect: jest.fn(() => settings),
+      update: updateSetting,
+    }));
+
     // Setup default mocks
     (fs.existsSync as jest.Mock).mockReturnValue(true);
     (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockSmellsConfig));
@@ -71,14 +106,33 @@ describe('smellsData', () => {
     it('should load smells configuration successfully', () => {
       loadSmells('working');
 
-      // Update path expectation to match actual implementation
       expect(fs.readFileSync).toHaveBeenCalledWith(
-        expect.stringContaining('data/working_smells_config.json'),
+        expect.stringContaining('data/default_smells_config.json'),
         'utf-8',
       );
       expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
     });
 
+    it('should add smells advertised by the backend catalog', () => {
+      (getSmellCatalog as jest.Mock).mockReturnValueOnce({
+        version: '0.2.1',
+        smells: {
+          'global-variable': {
+            name: 'Global Variable',
+            message_id: 'W0603',
+            acronym: 'GV',
+          },
+        },
+      });
+      settings.workspaceValue = { 'global-variable': { enabled: false } };
+
+      loadSmells('working');
+
+      expect(getAcronymByMessageId('W0603')).toBe('GV');
+      expect(getFilterSmells()['global-variable'].enabled).toBe(false);
+      expect(getSmellSources()['global-variable'].enabled).toBe('workspace');
+    });
+
     it('should show error message when file is missing', () => {
       (fs.existsSync as jest.Mock).mockReturnValue(false);
 
@@ -106,32 +160,187 @@ describe('smellsData', () => {
     });
   });
 
-  describe('saveSmells', () => {
-    it('should save smells configuration successfully', () => {
-      saveSmells(mockSmellsConfig);
+  describe('layered settings', () => {
+    const projectFile = '/project/.eco/smells.json';
+
+    beforeEach(() => {
+      (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+        filePath === projectFile
+          ? JSON.stringify({
+              version: 1,
+              smells: {
+                'long-parameter-list': { options: { max_params: 7 } },
+                'duplicate-code': { enabled: true },
+              },
+            })
+          : JSON.stringify(mockSmellsConfig),
+      );
+    });
 
-      // Update path expectation to match actual implementation
-      expect(fs.writeFileSync).toHaveBeenCalledWith(
-        expect.stringContaining('data/working_smells_config.json'),
-        JSON.stringify(mockSmellsConfig, null, 2),
+    it('should apply user, project, workspace and folder layers in order', () => {
+      (vscode.workspace as any).workspaceFile = {
+        fsPath: '/project.code-workspace',
+      };
+      settings.globalValue = {
+        'long-parameter-list': { enabled: false, options: { max_params: 3 } },
+      };
+      settings.workspaceValue = { 'duplicate-code': { enabled: false } };
+      settings.workspaceFolderValue = {
+        'long-parameter-list': { enabled: true },
+      };
+
+      loadSmells('/project');
+      delete (vscode.workspace as any).workspaceFile;
+
+      const smells = getFilterSmells();
+      expect(smells['long-parameter-list'].enabled).toBe(true);
+      expect(smells['long-parameter-list'].analyzer_options?.max_params.value).toBe(
+        7,
       );
-      expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+      expect(smells['duplicate-code'].enabled).toBe(false);
+      expect(getSmellSources()).toEqual({
+        'long-parameter-list': {
+          enabled: 'folder',
+          options: { max_params: 'project' },
+        },
+        'duplicate-code': { enabled: 'workspace', options: {} },
+      });
     });
 
-    it('should show error message when file write fails', () => {
-      (fs.writeFileSync as jest.Mock).mockImplementation(() => {
-        throw new Error('Write error');
+    it('should apply the active profile below user settings', () => {
+      profiles = {
+        strict: {
+          'duplicate-code': { enabled: true },
+          'long-parameter-list': { enabled: false, options: { max_params: 2 } },
+        },
+      };
+      activeProfile = 'strict';
+      settings.globalValue = { 'long-parameter-list': { enabled: true } };
+
+      loadSmells();
+
+      const smells = getFilterSmells();
+      expect(smells['duplicate-code'].enabled).toBe(true);
+      expect(smells['long-parameter-list'].enabled).toBe(true);
+      expect(smells['long-parameter-list'].analyzer_options?.max_params.value).toBe(
+        2,
+      );
+      expect(getSmellSources()['long-parameter-list']).toEqual({
+        enabled: 'user',
+        options: { max_params: 'profile' },
       });
+      expect(getSmellLayerLabel('profile')).toBe('Profile "strict"');
+      expect(getEditableSmellLayers()).toEqual(['profile', 'user']);
+    });
 
-      saveSmells(mockSmellsConfig);
+    it('should ignore an active profile that is not defined', () => {
+      activeProfile = 'missing';
 
-      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
-        'Error saving smells.json.',
+      loadSmells();
+
+      expect(getSmellSources()['duplicate-code'].enabled).toBe('default');
+      expect(getEditableSmellLayers()).toEqual(['user']);
+    });
+
+    it('should ignore folder settings outside multi-root workspaces', () => {
+      settings.workspaceFolderValue = { 'duplicate-code': { enabled: true } };
+
+      loadSmells();
+
+      expect(getFilterSmells()['duplicate-code'].enabled).toBe(false);
+      expect(getSmellSources()['duplicate-code'].enabled).toBe('default');
+    });
+
+    it('should only offer layers that exist in the workspace', () => {
+      loadSmells();
+      expect(getEditableSmellLayers()).toEqual(['user']);
+
+      loadSmells('/project');
+      expect(getEditableSmellLayers()).toEqual(['user', 'project']);
+    });
+
+    it('should merge changes into workspace settings', async () => {
+      settings.workspaceValue = {
+        'long-parameter-list': { options: { max_params: 4 } },
+      };
+      loadSmells('/project');
+
+      await updateSmellOverrides('workspace', {
+        'long-parameter-list': { enabled: false },
+      });
+
+      expect(updateSetting).toHaveBeenCalledWith(
+        'smells',
+        {
+          'long-parameter-list': { enabled: false, options: { max_params: 4 } },
+        },
+        vscode.ConfigurationTarget.Workspace,
       );
-      expect(console.error).toHaveBeenCalledWith(
-        'ERROR: Failed to write smells.json',
-        expect.any(Error),
+    });
+
+    it('should write project changes to .eco/smells.json', async () => {
+      loadSmells('/project');
+
+      await updateSmellOverrides('project', {
+        'long-parameter-list': { options: { max_params: 9 } },
+      });
+
+      const [filePath, content] = (fs.writeFileSync as jest.Mock).mock.calls[0];
+      expect(filePath).toBe(projectFile);
+      expect(JSON.parse(content)).toEqual({
+        version: 1,
+        smells: {
+          'long-parameter-list': { options: { max_params: 9 } },
+          'duplicate-code': { enabled: true },
+        },
+      });
+    });
+
+    it('should remove a single option from a layer', async () => {
+      settings.workspaceValue = {
+        'long-parameter-list': { enabled: false, options: { max_params: 4 } },
+      };
+      loadSmells('/project');
+
+      await clearSmellOptionOverride(
+        'workspace',
+        'long-parameter-list',
+        'max_params',
+      );
+
+      expect(updateSetting).toHaveBeenCalledWith(
+        'smells',
+        { 'long-parameter-list': { enabled: false, options: undefined } },
+        vscode.ConfigurationTarget.Workspace,
+      );
+    });
+
+    it('should clear a layer', async () => {
+      loadSmells('/project');
+
+      await resetSmellLayer('user');
+      await resetSmellLayer('project');
+
+      expect(updateSetting).toHaveBeenCalledWith(
+        'smells',
+        undefined,
+        vscode.ConfigurationTarget.Global,
+      );
+      expect(fs.rmSync).toHaveBeenCalledWith(projectFile, { force: true });
+    });
+
+    it('should report an unreadable .eco/smells.json and keep the other layers', () => {
+      (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+        filePath === projectFile ? '{' : JSON.stringify(mockSmellsConfig),
+      );
+      settings.globalValue = { 'duplicate-code': { enabled: true } };
+
+      loadSmells('/project');
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringContaining(`Failed to read smell settings from ${projectFile}`),
       );
+      expect(getFilterSmells()['duplicate-code'].enabled).toBe(true);
     });
   });
 
@@ -4,7 +4,8 @@ module.exports = {
   target: 'node',
   entry: {
     extension: './src/extension.ts',
-    install: './src/install.ts' // Separate entry point for install script
+    install: './src/install.ts', // Separate entry point for install script
+    cli: './src/cli/index.ts', // Headless detection runner
   },
   output: {
     path: path.resolve(__dirname, 'dist'),